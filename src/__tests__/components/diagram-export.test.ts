@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import Papa from 'papaparse'
+import {
+  buildExportOption,
+  diagramGraphToCsv,
+  getDiagramLegend,
+} from '@/components/processes/diagram-export'
+import type {
+  EnhancedMaterialObject,
+  EnhancedMaterialRelationship,
+} from '@/types'
+
+const nodes: EnhancedMaterialObject[] = [
+  {
+    uuid: 'building',
+    name: 'Building',
+    type: 'output',
+    lifecycleStage: 'USE_PHASE',
+    color: '#6366F1',
+  },
+  {
+    uuid: 'sand',
+    name: 'Sand',
+    type: 'input',
+    lifecycleStage: 'PRIMARY_INPUT',
+    color: '#8B5CF6',
+  },
+  { uuid: 'misc', name: 'Misc', type: 'input', color: '#64748B' },
+]
+
+const links: EnhancedMaterialRelationship[] = [
+  {
+    predicate: 'IS_INPUT_OF',
+    subject: { uuid: 'sand', name: 'Sand' },
+    object: { uuid: 'building', name: 'Building' },
+    processName: 'Construction',
+    flowCategory: 'STANDARD',
+    startDate: '1998-03-01',
+    inputMaterial: { quantity: 12, unit: 't' },
+    outputMaterial: { quantity: 1, unit: 'pcs' },
+  },
+]
+
+describe('diagram-export', () => {
+  it('should list the lifecycle stages of the nodes in lifecycle order', () => {
+    expect(getDiagramLegend(nodes)).toEqual([
+      { stage: 'PRIMARY_INPUT', color: '#8B5CF6' },
+      { stage: 'USE_PHASE', color: '#6366F1' },
+    ])
+  })
+
+  it('should add the title and legend to the chart options', () => {
+    const option = buildExportOption(
+      { series: [{ type: 'sankey', data: [], links: [] }] },
+      {
+        title: 'Sankey Diagram',
+        legend: [{ label: 'Primary Input', color: '#8B5CF6' }],
+        textColor: '#1F2937',
+      }
+    )
+
+    expect(option.title.text).toBe('Sankey Diagram')
+    expect(option.animation).toBe(false)
+    expect(option.graphic).toHaveLength(1)
+    expect(option.series[0].type).toBe('sankey')
+    expect(option.series[0].top).toBeGreaterThan(0)
+  })
+
+  it('should write one CSV row per flow', () => {
+    const { data } = Papa.parse<Record<string, string>>(
+      diagramGraphToCsv({ nodes, links }),
+      { header: true }
+    )
+
+    expect(data).toHaveLength(1)
+    expect(data[0]).toMatchObject({
+      Process: 'Construction',
+      Input: 'Sand',
+      'Input stage': 'PRIMARY_INPUT',
+      'Input quantity': '12',
+      Output: 'Building',
+      'Output stage': 'USE_PHASE',
+      'Start date': '1998-03-01',
+    })
+  })
+})
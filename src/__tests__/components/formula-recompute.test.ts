@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  getFormulaReferencedUuids,
+  recomputeFormulas,
+} from '@/components/properties/formula-recompute'
+
+const plain = (uuid: string, key: string, value: string) => ({
+  uuid,
+  key,
+  values: [{ value }],
+})
+
+const formula = (
+  uuid: string,
+  key: string,
+  expression: string,
+  mapping: Record<string, string>,
+  result: number | null
+) => ({
+  uuid,
+  key,
+  values: [
+    {
+      value: result === null ? '' : String(result),
+      formulaData: {
+        formula: expression,
+        variableMapping: Object.fromEntries(
+          Object.entries(mapping).map(([name, propertyUuid]) => [
+            name,
+            { propertyKey: name, propertyUuid },
+          ])
+        ),
+        result,
+      },
+    },
+  ],
+})
+
+describe('recomputeFormulas', () => {
+  it('reports and updates results that no longer match their sources', () => {
+    const area = formula('a', 'area', 'x * y', { x: 'w::0', y: 'h::0' }, 12)
+
+    const result = recomputeFormulas([
+      plain('w', 'width', '4'),
+      plain('h', 'height', '5'),
+      area,
+    ])
+
+    expect(result.stale).toEqual(['a::0'])
+    expect(result.changed).toHaveLength(1)
+    expect(result.changed[0].values[0]).toMatchObject({
+      value: '20',
+      formulaData: { result: 20 },
+    })
+    // The input isn't modified
+    expect(area.values[0].formulaData.result).toBe(12)
+  })
+
+  it('computes formulas that use other formulas in dependency order', () => {
+    const result = recomputeFormulas([
+      formula('v', 'volume', 'a * 2', { a: 'a::0' }, 24),
+      formula('a', 'area', 'x * 3', { x: 'w::0' }, 12),
+      plain('w', 'width', '5'),
+    ])
+
+    expect(result.stale.sort()).toEqual(['a::0', 'v::0'])
+    expect(result.properties[0].values[0].formulaData.result).toBe(30)
+  })
+
+  it('reports cycles instead of evaluating them', () => {
+    const result = recomputeFormulas([
+      formula('a', 'first', 'x + 1', { x: 'b::0' }, 1),
+      formula('b', 'second', 'y + 1', { y: 'a::0' }, 2),
+    ])
+
+    expect(result.cycles).toHaveLength(1)
+    expect(result.cycles[0].sort()).toEqual(['first', 'second'])
+    expect(result.stale).toEqual([])
+  })
+
+  it('uses cross-object sources and reports unresolved variables', () => {
+    const result = recomputeFormulas(
+      [
+        formula(
+          't',
+          'total',
+          'sum(children.weight)',
+          { 'children.weight': 'children/weight' },
+          10
+        ),
+        formula('p', 'parentWidth', 'parent.width', {}, 1),
+      ],
+      [
+        {
+          uuid: 'children/weight',
+          key: 'weight',
+          value: '10, 15',
+          values: ['10', '15'],
+          path: 'children.weight',
+        },
+      ]
+    )
+
+    expect(result.stale).toEqual(['t::0'])
+    expect(result.failed.map((f) => f.id)).toEqual(['p::0'])
+  })
+})
+
+describe('getFormulaReferencedUuids', () => {
+  it('collects the objects referenced by any formula', () => {
+    expect(
+      getFormulaReferencedUuids([
+        formula('a', 'a', 'x', { x: '@o1/width::0' }, 1),
+        formula('b', 'b', 'y', { y: '@o2/height::0' }, 1),
+      ])
+    ).toEqual(['o1', 'o2'])
+  })
+})
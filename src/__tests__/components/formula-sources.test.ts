@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  buildChildrenSources,
+  buildObjectSources,
+  getReferencedObjectUuids,
+} from '@/components/properties/formula-sources'
+
+const makeObject = (uuid: string, properties: Record<string, string[]>) => ({
+  uuid,
+  name: `Object ${uuid}`,
+  properties: Object.entries(properties).map(([key, values]) => ({
+    key,
+    values: values.map((value) => ({ value })),
+  })),
+})
+
+describe('buildObjectSources', () => {
+  it('lists numeric values and binds the first parent value by path', () => {
+    const parent = makeObject('p1', { width: ['2', '3'], name: ['Wall'] })
+
+    const sources = buildObjectSources(parent, 'parent')
+
+    expect(sources.map((s) => s.uuid)).toEqual(['@p1/width::0', '@p1/width::1'])
+    expect(sources[0]).toMatchObject({
+      source: 'parent',
+      sourceName: 'Object p1',
+      path: 'parent.width',
+    })
+    expect(sources[1].path).toBeUndefined()
+  })
+
+  it('does not bind referenced objects by path', () => {
+    const sources = buildObjectSources(
+      makeObject('o1', { width: ['2'] }),
+      'object'
+    )
+    expect(sources[0].path).toBeUndefined()
+  })
+})
+
+describe('buildChildrenSources', () => {
+  it('collects the values of every child per key', () => {
+    const sources = buildChildrenSources([
+      makeObject('c1', { weight: ['10'], color: ['red'] }),
+      makeObject('c2', { weight: ['20', '5'] }),
+    ])
+
+    expect(sources).toHaveLength(1)
+    expect(sources[0]).toMatchObject({
+      uuid: 'children/weight',
+      path: 'children.weight',
+      values: ['10', '20', '5'],
+    })
+  })
+})
+
+describe('getReferencedObjectUuids', () => {
+  it('returns the objects a mapping points to', () => {
+    expect(
+      getReferencedObjectUuids({
+        x: { propertyUuid: '@o1/width::0' },
+        y: { propertyUuid: '@o1/height::0' },
+        z: { propertyUuid: 'children/weight' },
+        w: { propertyUuid: 'prop-1::0' },
+      })
+    ).toEqual(['o1'])
+  })
+})
@@ -198,6 +198,7 @@ describe('useColumnMapper', () => {
       expect(processed.length).toBe(3) // 3 data rows
       expect(processed[0].name).toBe('Item 1')
       expect(processed[0].description).toBe('Desc 1')
+      expect(processed[0].sourceRow).toBe(2)
     })
 
     it('should handle property mappings', () => {
@@ -216,6 +217,29 @@ describe('useColumnMapper', () => {
       expect(processed[0].properties.length).toBeGreaterThan(0)
       expect(processed[0].properties[0].values[0].value).toBe('Value 1')
     })
+
+    it('should resolve parent columns into references between rows', () => {
+      const { result } = renderHook(() =>
+        useColumnMapper({
+          sheetData: [
+            ['Name', 'Parent'],
+            ['Building', ''],
+            ['Floor', 'Building'],
+          ],
+        })
+      )
+
+      act(() => {
+        result.current.handleMappingChange(0, 'name')
+        result.current.handleMappingChange(1, 'parent')
+      })
+
+      const processed = result.current.processData()
+
+      expect(processed[0].importId).toBe('row:2')
+      expect(processed[1].parentImportIds).toEqual(['row:2'])
+      expect(processed[1].parent).toBeUndefined()
+    })
   })
 
   describe('unmappedHeaders', () => {
@@ -83,7 +83,7 @@ describe('useFileProcessor', () => {
       expect(result.current.error).toContain('exceeds the maximum limit')
     })
 
-    it('should reject non-xlsx/csv files', async () => {
+    it('should reject non-xlsx/csv/json files', async () => {
       const { result } = renderHook(() => useFileProcessor())
 
       const invalidFile = new File(['content'], 'test.txt', {
@@ -94,7 +94,7 @@ describe('useFileProcessor', () => {
         await result.current.processFile(invalidFile)
       })
 
-      expect(result.current.error).toContain('XLSX or CSV')
+      expect(result.current.error).toContain('XLSX, CSV or JSON')
     })
   })
 
@@ -114,6 +114,52 @@ describe('useFileProcessor', () => {
     })
   })
 
+  describe('JSON processing', () => {
+    it('should return import objects when the schema matches', async () => {
+      const { result } = renderHook(() => useFileProcessor())
+
+      const jsonContent = JSON.stringify([
+        { name: 'Building', children: [{ name: 'Floor 1' }] },
+      ])
+      const jsonFile = new File([jsonContent], 'objects.json', {
+        type: 'application/json',
+      })
+
+      let sheets: any[] = []
+      await act(async () => {
+        sheets = await result.current.processFile(jsonFile)
+      })
+
+      expect(result.current.error).toBeNull()
+      expect(sheets).toHaveLength(1)
+      expect(sheets[0].objects.map((o: any) => o.name)).toEqual([
+        'Building',
+        'Floor 1',
+      ])
+    })
+
+    it('should return rows for the column mapper otherwise', async () => {
+      const { result } = renderHook(() => useFileProcessor())
+
+      const jsonFile = new File(
+        [JSON.stringify([{ Name: 'Wall', Weight: 12 }])],
+        'records.json',
+        { type: 'application/json' }
+      )
+
+      let sheets: any[] = []
+      await act(async () => {
+        sheets = await result.current.processFile(jsonFile)
+      })
+
+      expect(sheets[0].objects).toBeUndefined()
+      expect(sheets[0].data).toEqual([
+        ['Name', 'Weight'],
+        ['Wall', 12],
+      ])
+    })
+  })
+
   describe('CSV processing', () => {
     it('should attempt to process CSV files and handle errors gracefully', async () => {
       const { result } = renderHook(() => useFileProcessor())
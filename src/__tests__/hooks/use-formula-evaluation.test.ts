@@ -304,6 +304,146 @@ describe('useFormulaEvaluation', () => {
     expect(result.current.evaluation.result).toBe(14)
   })
 
+  // ─── Cross-object references ─────────────────────────────────────
+
+  it('binds parent and children paths without mapping', () => {
+    const props: AvailableProperty[] = [
+      { uuid: 'p::0', key: 'width', value: '2', path: 'parent.width' },
+      {
+        uuid: 'children/weight',
+        key: 'weight',
+        value: '10, 20, 30',
+        values: ['10', '20', '30'],
+        path: 'children.weight',
+      },
+    ]
+    const { result } = renderHook(() => useFormulaEvaluation(props))
+
+    act(() => result.current.setFormula('sum(children.weight) * parent.width'))
+
+    expect(result.current.detectedVariables).toEqual(
+      expect.arrayContaining(['children.weight', 'parent.width'])
+    )
+    expect(result.current.evaluation.result).toBe(120)
+    expect(result.current.evaluation.resolvedExpression).toBe(
+      'sum([10, 20, 30]) * 2'
+    )
+  })
+
+  it('aggregates list variables mapped by hand', () => {
+    const props: AvailableProperty[] = [
+      { uuid: 'a::0', key: 'w', value: '4' },
+      {
+        uuid: 'children/w',
+        key: 'w',
+        value: '1, 5',
+        values: ['1', '5'],
+      },
+    ]
+    const { result } = renderHook(() => useFormulaEvaluation(props))
+
+    act(() => result.current.setFormula('w + max(layers) + count(layers)'))
+    act(() => result.current.mapVariable('w', 'w', 'a::0'))
+    act(() => result.current.mapVariable('layers', 'children.w', 'children/w'))
+
+    expect(result.current.evaluation.result).toBe(11) // 4 + 5 + 2
+  })
+
+  it('rejects list variables outside aggregates', () => {
+    const props: AvailableProperty[] = [
+      {
+        uuid: 'children/w',
+        key: 'w',
+        value: '1, 5',
+        values: ['1', '5'],
+        path: 'children.w',
+      },
+    ]
+    const { result } = renderHook(() => useFormulaEvaluation(props))
+
+    act(() => result.current.setFormula('children.w * 2'))
+
+    expect(result.current.evaluation.result).toBeNull()
+    expect(result.current.evaluation.error).toContain('sum()')
+  })
+
+  // ─── Conditionals and units ──────────────────────────────────────
+
+  it('evaluates comparisons, ternaries and if()', () => {
+    const props = makeProps([
+      { uuid: 'a::0', key: 'x', value: '12' },
+      { uuid: 'b::0', key: 'y', value: '4' },
+    ])
+    const { result } = renderHook(() => useFormulaEvaluation(props))
+
+    act(() => result.current.setFormula('x == y * 3 ? x - y : 0'))
+    act(() => result.current.mapVariable('x', 'x', 'a::0'))
+    act(() => result.current.mapVariable('y', 'y', 'b::0'))
+
+    expect(result.current.evaluation.error).toBeNull()
+    expect(result.current.evaluation.result).toBe(8)
+
+    act(() =>
+      result.current.setFormula('if(x >= 10 && y != 4, 1, 2) + (x < y)')
+    )
+    expect(result.current.evaluation.result).toBe(2)
+  })
+
+  it('only evaluates the branch if() takes', () => {
+    const props: AvailableProperty[] = [
+      { uuid: 'a::0', key: 'x', value: '3' },
+      {
+        uuid: 'children/w',
+        key: 'w',
+        value: '1, 5',
+        values: ['1', '5'],
+        path: 'children.w',
+      },
+    ]
+    const { result } = renderHook(() => useFormulaEvaluation(props))
+
+    act(() => result.current.setFormula('if(x > 0, x, children.w)'))
+    act(() => result.current.mapVariable('x', 'x', 'a::0'))
+
+    expect(result.current.evaluation.result).toBe(3)
+  })
+
+  it('evaluates clamp() and round() with digits', () => {
+    const props = makeProps([{ uuid: 'a::0', key: 'x', value: '7' }])
+    const { result } = renderHook(() => useFormulaEvaluation(props))
+
+    act(() => result.current.setFormula('clamp(x, 0, 5) + round(3.14159, 2)'))
+    act(() => result.current.mapVariable('x', 'x', 'a::0'))
+
+    expect(result.current.evaluation.result).toBeCloseTo(8.14, 10)
+  })
+
+  it('converts between units', () => {
+    const props = makeProps([{ uuid: 'a::0', key: 'mass', value: '2500' }])
+    const { result } = renderHook(() => useFormulaEvaluation(props))
+
+    act(() => result.current.setFormula('convert(x, "kg", "t")'))
+    act(() => result.current.mapVariable('x', 'mass', 'a::0'))
+
+    expect(result.current.detectedVariables).toEqual(['x'])
+    expect(result.current.evaluation.result).toBe(2.5)
+    expect(result.current.evaluation.resolvedExpression).toBe(
+      'convert(2500, "kg", "t")'
+    )
+
+    act(() => result.current.setFormula('convert(x, "kg", "m")'))
+    expect(result.current.evaluation.result).toBeNull()
+    expect(result.current.evaluation.error).toBe('Cannot convert kg to m')
+  })
+
+  it('rejects text outside convert()', () => {
+    const { result } = renderHook(() => useFormulaEvaluation([]))
+    act(() => result.current.setFormula('"kg" + 1'))
+
+    expect(result.current.evaluation.result).toBeNull()
+    expect(result.current.evaluation.error).toContain('convert()')
+  })
+
   // ─── Reactivity ───────────────────────────────────────────────────
 
   it('re-evaluates when availableProperties change', () => {
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import {
+  averageCircularity,
+  computeCircularity,
+  computeProductCircularity,
+} from '@/lib/circularity'
+import type {
+  EnhancedMaterialObject,
+  EnhancedMaterialRelationship,
+  FlowCategory,
+  LifecycleStage,
+} from '@/types'
+
+const flow = (
+  subject: string,
+  object: string,
+  input: [number, string, LifecycleStage?],
+  output: [number, string, LifecycleStage?],
+  flowCategory?: FlowCategory
+): EnhancedMaterialRelationship => ({
+  predicate: 'IS_INPUT_OF',
+  subject: { uuid: subject, name: subject },
+  object: { uuid: object, name: object },
+  flowCategory,
+  inputMaterial: {
+    quantity: input[0],
+    unit: input[1],
+    lifecycleStage: input[2],
+  },
+  outputMaterial: {
+    quantity: output[0],
+    unit: output[1],
+    lifecycleStage: output[2],
+  },
+})
+
+const building = { uuid: 'building', name: 'Building' }
+
+describe('circularity', () => {
+  it('should rate a product from virgin material going to landfill at 0.1', () => {
+    const result = computeProductCircularity(building, [
+      flow('steel', 'building', [100, 't', 'PRIMARY_INPUT'], [100, 't']),
+    ])
+
+    expect(result.mass).toBe(100000)
+    expect(result.virginMass).toBe(100000)
+    expect(result.linearFlowIndex).toBe(1)
+    expect(result.mci).toBeCloseTo(0.1)
+  })
+
+  it('should rate a fully reused and recovered product at 1', () => {
+    const result = computeProductCircularity(building, [
+      flow('bricks', 'building', [50, 't', 'SECONDARY_INPUT'], [50, 't']),
+      flow('beams', 'building', [50, 't'], [50, 't'], 'REUSE'),
+      flow(
+        'building',
+        'salvaged beams',
+        [100, 't'],
+        [100, 't', 'REUSED_COMPONENT']
+      ),
+    ])
+
+    expect(result.recycledInput).toBe(50000)
+    expect(result.reusedInput).toBe(50000)
+    expect(result.reusedOutput).toBe(100000)
+    expect(result.mci).toBeCloseTo(1)
+  })
+
+  it('should weigh inputs and end-of-life flows by mass', () => {
+    const result = computeProductCircularity(building, [
+      flow('sand', 'building', [60, 't', 'PRIMARY_INPUT'], [100, 't']),
+      flow(
+        'granulate',
+        'building',
+        [40000, 'kg', 'SECONDARY_INPUT'],
+        [100, 't']
+      ),
+      flow('building', 'aggregate', [100, 't'], [50, 't'], 'RECYCLING'),
+      flow('building', 'rubble', [100, 't'], [50, 't', 'WASTE']),
+      flow('windows', 'building', [12, 'pcs'], [100, 't']),
+    ])
+
+    // V = 60 t, W = 50 t, LFI = 110 / 200
+    expect(result.linearFlowIndex).toBeCloseTo(0.55)
+    expect(result.mci).toBeCloseTo(0.505)
+    expect(result.flows).toHaveLength(4)
+    expect(result.excluded).toBe(1)
+  })
+
+  it('should average the MCI of products by mass', () => {
+    const materials: EnhancedMaterialObject[] = [
+      { ...building, type: 'output', lifecycleStage: 'PRODUCT' },
+      { uuid: 'shed', name: 'Shed', type: 'output', lifecycleStage: 'PRODUCT' },
+      { uuid: 'steel', name: 'steel', type: 'input' },
+    ]
+    const products = computeCircularity(materials, [
+      flow('steel', 'building', [300, 't'], [300, 't']),
+      flow('steel', 'shed', [100, 't'], [100, 't'], 'REUSE'),
+      flow('shed', 'reused shed', [100, 't'], [100, 't'], 'REUSE'),
+    ])
+
+    expect(products.map((product) => product.uuid)).toEqual([
+      'building',
+      'shed',
+    ])
+    // (0.1 × 300 + 1 × 100) / 400
+    expect(averageCircularity(products)).toBeCloseTo(0.325)
+    expect(averageCircularity([])).toBeNull()
+  })
+})
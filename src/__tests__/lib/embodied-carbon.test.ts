@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { computeEmbodiedCarbon } from '@/lib/embodied-carbon'
+import type { EnhancedMaterialRelationship } from '@/types'
+
+const flow = (
+  processName: string,
+  subject: string,
+  object: string,
+  input: [number, string],
+  output: [number, string],
+  emissions?: [number, string]
+): EnhancedMaterialRelationship => ({
+  predicate: 'IS_INPUT_OF',
+  subject: { uuid: subject, name: subject },
+  object: { uuid: object, name: object },
+  processName,
+  emissionsTotal: emissions?.[0],
+  emissionsUnit: emissions?.[1],
+  inputMaterial: { quantity: input[0], unit: input[1] },
+  outputMaterial: { quantity: output[0], unit: output[1] },
+})
+
+describe('embodied-carbon', () => {
+  it('should allocate process emissions to outputs by mass', () => {
+    const carbon = computeEmbodiedCarbon([
+      flow('Smelting', 'ore', 'steel', [10, 't'], [6, 't'], [2, 't CO2e']),
+      flow('Smelting', 'ore', 'slag', [10, 't'], [4, 't'], [2, 't CO2e']),
+    ])
+
+    expect(carbon.get('ore')?.total).toBe(0)
+    expect(carbon.get('steel')?.total).toBeCloseTo(1200)
+    expect(carbon.get('slag')?.total).toBeCloseTo(800)
+    expect(carbon.get('steel')?.intensity).toBeCloseTo(0.2)
+  })
+
+  it('should carry upstream carbon to downstream products', () => {
+    const carbon = computeEmbodiedCarbon([
+      // Listed before the process producing its input
+      flow('Fabrication', 'steel', 'beam', [3, 't'], [3, 't'], [300, 'kgCO2e']),
+      flow('Smelting', 'ore', 'steel', [10, 't'], [6, 't'], [1200, 'kg CO2e']),
+    ])
+
+    // 3 t of steel at 0.2 kg CO2e/kg plus the fabrication emissions
+    expect(carbon.get('beam')?.total).toBeCloseTo(900)
+    expect(carbon.get('beam')?.direct).toBeCloseTo(300)
+  })
+
+  it('should split evenly without mass quantities and stop at loops', () => {
+    const carbon = computeEmbodiedCarbon([
+      flow(
+        'Assembly',
+        'frame',
+        'window',
+        [1, 'pcs'],
+        [2, 'pcs'],
+        [50, 'kg CO2e']
+      ),
+      flow(
+        'Assembly',
+        'frame',
+        'door',
+        [1, 'pcs'],
+        [1, 'pcs'],
+        [50, 'kg CO2e']
+      ),
+      flow('Reuse', 'window', 'frame', [1, 'pcs'], [1, 'pcs']),
+    ])
+
+    expect(carbon.get('door')?.total).toBeCloseTo(25)
+    expect(carbon.get('door')?.mass).toBeNull()
+    expect(carbon.get('frame')?.total).toBeCloseTo(25)
+  })
+})
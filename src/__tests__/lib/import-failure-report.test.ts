@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildFailureReport,
+  failureReportToCsv,
+} from '@/lib/import-failure-report'
+import type { FailureRecord } from '@/lib/redis-utils'
+
+const failure = (
+  index: number,
+  object: Record<string, unknown>,
+  extra: Partial<FailureRecord> = {}
+): FailureRecord => ({
+  batchNumber: 1,
+  index,
+  object,
+  error: 'HTTP_400',
+  errorType: 'HTTP_400',
+  timestamp: 0,
+  ...extra,
+})
+
+describe('import-failure-report', () => {
+  describe('buildFailureReport', () => {
+    it('should list failed objects by source row with their properties', () => {
+      const report = buildFailureReport([
+        failure(
+          4,
+          {
+            name: 'Room',
+            sourceRow: 5,
+            parentImportIds: ['row:3'],
+            properties: [{ key: 'area', values: [{ value: '12' }] }],
+          },
+          { error: 'PARENT_FAILED', errorType: 'PARENT_FAILED' }
+        ),
+        failure(
+          2,
+          {
+            name: 'Floor 1',
+            importId: 'row:3',
+            sourceRow: 3,
+            parents: ['building-uuid'],
+            properties: [
+              { key: 'code', values: [{ value: 'F1' }, { value: 'F2' }] },
+            ],
+          },
+          { detail: 'Name is too long' }
+        ),
+      ])
+
+      expect(report.headers).toEqual([
+        'Row',
+        'Error',
+        'Name',
+        'Description',
+        'Abbreviation',
+        'Version',
+        'Parent',
+        'UUID',
+        'area',
+        'code',
+        'Payload',
+      ])
+      expect(report.rows.map((row) => row.slice(0, 10))).toEqual([
+        [
+          3,
+          'Name is too long',
+          'Floor 1',
+          '',
+          '',
+          '',
+          'building-uuid',
+          '',
+          '',
+          'F1; F2',
+        ],
+        [5, 'PARENT_FAILED', 'Room', '', '', '', 'Floor 1', '', '12', ''],
+      ])
+    })
+
+    it('should send the import payload without client-side fields', () => {
+      const report = buildFailureReport([
+        failure(0, { name: 'Building', sourceRow: 2, importId: 'row:2' }),
+      ])
+
+      const payload = JSON.parse(String(report.rows[0].at(-1)))
+      expect(payload).toEqual({ name: 'Building' })
+    })
+
+    it('should keep imported values from running as formulas', () => {
+      const report = buildFailureReport([
+        failure(0, {
+          name: '=HYPERLINK("http://example.com")',
+          description: '-1',
+          properties: [
+            { key: '@note', values: [{ value: '+31 20 123 4567' }] },
+          ],
+        }),
+      ])
+
+      expect(report.headers).toContain("'@note")
+      expect(report.rows[0].slice(2, 4)).toEqual([
+        '\'=HYPERLINK("http://example.com")',
+        "'-1",
+      ])
+      expect(report.rows[0]).toContain("'+31 20 123 4567")
+    })
+
+    it('should fall back to the failure index without a source row', () => {
+      const report = buildFailureReport([failure(6, { name: 'Annex' })])
+      expect(report.rows[0][0]).toBe(7)
+    })
+  })
+
+  describe('failureReportToCsv', () => {
+    it('should write a header row and quote values where needed', () => {
+      const csv = failureReportToCsv({
+        headers: ['Row', 'Error'],
+        rows: [[2, 'Invalid value, expected number']],
+      })
+      expect(csv.split('\r\n')).toEqual([
+        'Row,Error',
+        '2,"Invalid value, expected number"',
+      ])
+    })
+  })
+})
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest'
+import {
+  linkCreatedParents,
+  parseParentPath,
+  resolveImportParents,
+  resolveSpreadsheetParents,
+  splitImportBatches,
+  toImportPayload,
+  type ImportPayloadObject,
+} from '@/lib/import-hierarchy'
+
+const EXISTING_UUID = '0d9b2c7e-4a1f-4c3e-9b8a-2f6d5e4c3b2a'
+
+describe('import-hierarchy', () => {
+  describe('splitImportBatches', () => {
+    it('should never put an object in the same batch as its parent', () => {
+      const objects: ImportPayloadObject[] = [
+        { name: 'A', importId: 'a' },
+        { name: 'B', parentImportIds: ['a'], importId: 'b' },
+        { name: 'C' },
+        { name: 'D', parentImportIds: ['b'] },
+      ]
+
+      const batches = splitImportBatches(objects, 2)
+      expect(batches.map((batch) => batch.map((o) => o.name))).toEqual([
+        ['A', 'C'],
+        ['B'],
+        ['D'],
+      ])
+    })
+  })
+
+  describe('resolveImportParents', () => {
+    it('should combine existing parents with created ones', () => {
+      const parents = resolveImportParents(
+        { name: 'Room', parents: ['existing'], parentImportIds: ['floor'] },
+        new Map([['floor', 'created-uuid']])
+      )
+      expect(parents).toEqual(['existing', 'created-uuid'])
+    })
+
+    it('should return null when a parent was not created', () => {
+      expect(
+        resolveImportParents(
+          { name: 'Room', parentImportIds: ['floor'] },
+          new Map()
+        )
+      ).toBeNull()
+    })
+  })
+
+  describe('linkCreatedParents', () => {
+    it('should replace created parents with their UUIDs', () => {
+      expect(
+        linkCreatedParents(
+          {
+            name: 'Room',
+            parents: ['existing'],
+            parentImportIds: ['floor', 'wing'],
+          },
+          new Map([['floor', 'created-uuid']])
+        )
+      ).toEqual({
+        name: 'Room',
+        parents: ['existing', 'created-uuid'],
+        parentImportIds: ['wing'],
+      })
+    })
+  })
+
+  describe('toImportPayload', () => {
+    it('should leave out hierarchy fields', () => {
+      expect(
+        toImportPayload({
+          name: 'Room',
+          description: 'Office',
+          importId: 'room',
+          parents: ['existing'],
+          parentImportIds: ['floor'],
+        })
+      ).toEqual({ name: 'Room', description: 'Office' })
+    })
+  })
+
+  describe('parseParentPath', () => {
+    it('should split and trim path levels', () => {
+      expect(parseParentPath(' Building A >Floor 2 >  > Wall 3 ')).toEqual([
+        'Building A',
+        'Floor 2',
+        'Wall 3',
+      ])
+    })
+  })
+
+  describe('resolveSpreadsheetParents', () => {
+    it('should leave flat sheets untouched', () => {
+      const rows = [{ name: 'A', properties: [] }]
+      expect(resolveSpreadsheetParents(rows, 2)).toBe(rows)
+    })
+
+    it('should resolve names, row references and UUIDs', () => {
+      const objects = resolveSpreadsheetParents(
+        [
+          { name: 'Building', properties: [] },
+          { name: 'Floor', parent: 'building', properties: [] },
+          { name: 'Room', parent: '#3', properties: [] },
+          { name: 'Annex', parent: EXISTING_UUID, properties: [] },
+        ],
+        2
+      )
+
+      expect(objects).toEqual([
+        { name: 'Building', importId: 'row:2', properties: [] },
+        {
+          name: 'Floor',
+          importId: 'row:3',
+          parentImportIds: ['row:2'],
+          properties: [],
+        },
+        { name: 'Room', parentImportIds: ['row:3'], properties: [] },
+        { name: 'Annex', parents: [EXISTING_UUID], properties: [] },
+      ])
+    })
+
+    it('should match parent paths and create missing levels', () => {
+      const objects = resolveSpreadsheetParents(
+        [
+          { name: 'Building A' },
+          { name: 'Floor 2', parentPath: 'Building A' },
+          { name: 'Wall 3', parentPath: 'Building A > Floor 2' },
+          { name: 'Door 1', parentPath: 'Building B > Floor 1' },
+        ],
+        2
+      )
+
+      expect(objects.map((object) => object.name)).toEqual([
+        'Building B',
+        'Floor 1',
+        'Building A',
+        'Floor 2',
+        'Wall 3',
+        'Door 1',
+      ])
+
+      const byName = new Map(objects.map((object) => [object.name, object]))
+      expect(byName.get('Floor 2')?.parentImportIds).toEqual(['row:2'])
+      expect(byName.get('Wall 3')?.parentImportIds).toEqual(['row:3'])
+      expect(byName.get('Floor 1')?.parentImportIds).toEqual([
+        byName.get('Building B')?.importId,
+      ])
+      expect(byName.get('Door 1')?.parentImportIds).toEqual([
+        byName.get('Floor 1')?.importId,
+      ])
+    })
+
+    it('should keep parents that are not rows as unresolved', () => {
+      const objects = resolveSpreadsheetParents(
+        [
+          { name: 'Wall', parent: 'Site' },
+          { name: 'Door', parent: '#9' },
+        ],
+        2
+      )
+
+      expect(objects).toEqual([
+        { name: 'Wall', unresolvedParent: 'Site' },
+        { name: 'Door', unresolvedParent: '#9' },
+      ])
+      expect(resolveImportParents(objects[0], new Map())).toBeNull()
+    })
+  })
+})
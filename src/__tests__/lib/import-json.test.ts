@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest'
+import {
+  flattenImportObjects,
+  matchesImportSchema,
+  parseJsonImport,
+} from '@/lib/import-json'
+import { createObjectExport, serializeObjectExport } from '@/lib/object-export'
+
+describe('import-json', () => {
+  describe('matchesImportSchema', () => {
+    it('should accept import objects and aggregate entities', () => {
+      expect(matchesImportSchema({ name: 'Wall', properties: [] })).toBe(true)
+      expect(
+        matchesImportSchema({
+          uuid: 'a',
+          name: 'Wall',
+          createdAt: '2026-01-01',
+          softDeleted: false,
+          children: ['b'],
+        })
+      ).toBe(true)
+    })
+
+    it('should reject records with their own schema', () => {
+      expect(matchesImportSchema({ name: 'Wall', weight: 12 })).toBe(false)
+      expect(matchesImportSchema({ title: 'Wall' })).toBe(false)
+      expect(
+        matchesImportSchema({ name: 'Wall', children: [{ title: 'Door' }] })
+      ).toBe(false)
+    })
+  })
+
+  describe('flattenImportObjects', () => {
+    it('should flatten nested children parents-first', () => {
+      const objects = flattenImportObjects([
+        {
+          name: 'Building',
+          children: [
+            { name: 'Floor 1', children: [{ name: 'Room 1.01' }] },
+            { name: 'Floor 2' },
+          ],
+        },
+      ])
+
+      expect(objects.map((object) => object.name)).toEqual([
+        'Building',
+        'Floor 1',
+        'Room 1.01',
+        'Floor 2',
+      ])
+      expect(objects[0].importId).toBeDefined()
+      expect(objects[1].parentImportIds).toEqual([objects[0].importId])
+      expect(objects[2].parentImportIds).toEqual([objects[1].importId])
+      expect(objects[2].importId).toBeUndefined()
+    })
+
+    it('should split parent references into the file and existing objects', () => {
+      const objects = flattenImportObjects([
+        { uuid: 'room', name: 'Room', parents: ['floor', 'existing-uuid'] },
+        { uuid: 'floor', name: 'Floor' },
+      ])
+
+      expect(objects).toEqual([
+        { name: 'Floor', uuid: 'floor', importId: 'floor' },
+        {
+          name: 'Room',
+          uuid: 'room',
+          parents: ['existing-uuid'],
+          parentImportIds: ['floor'],
+        },
+      ])
+    })
+
+    it('should normalize aggregate properties, values and files', () => {
+      const [object] = flattenImportObjects([
+        {
+          name: 'Beam',
+          properties: [
+            {
+              key: 'length',
+              label: 'Length',
+              type: 'number',
+              values: [
+                { value: 4.5, valueTypeCast: 'number' },
+                { value: '5', softDeleted: true },
+              ],
+            },
+            { key: 'old', softDeleted: true },
+          ],
+          files: [
+            { fileName: 'spec.pdf', fileReference: 'https://x/spec.pdf' },
+            { fileName: 'missing-reference.pdf' },
+          ],
+        },
+      ])
+
+      expect(object.properties).toEqual([
+        {
+          key: 'length',
+          label: 'Length',
+          type: 'number',
+          values: [{ value: '4.5', valueTypeCast: 'number' }],
+        },
+      ])
+      expect(object.files).toEqual([
+        {
+          fileName: 'spec.pdf',
+          fileReference: 'https://x/spec.pdf',
+          label: undefined,
+          contentType: undefined,
+          size: undefined,
+        },
+      ])
+    })
+
+    it('should accept properties as a key/value object', () => {
+      const [object] = flattenImportObjects([
+        { name: 'Beam', properties: { material: 'Oak', tags: ['a', 'b'] } },
+      ])
+
+      expect(object.properties).toEqual([
+        { key: 'material', label: 'material', values: [{ value: 'Oak' }] },
+        {
+          key: 'tags',
+          label: 'tags',
+          values: [{ value: 'a' }, { value: 'b' }],
+        },
+      ])
+    })
+  })
+
+  describe('parseJsonImport', () => {
+    it('should read wrapped aggregate lists', () => {
+      const parsed = parseJsonImport(
+        JSON.stringify({ content: [{ name: 'Wall' }] })
+      )
+      expect(parsed).toEqual({ kind: 'objects', objects: [{ name: 'Wall' }] })
+    })
+
+    it('should read object exports', () => {
+      const document = createObjectExport(
+        [
+          { uuid: 'child', name: 'Floor', parents: ['root'] },
+          { uuid: 'root', name: 'Building', parents: [], modelUuid: 'm' },
+        ],
+        ['root']
+      )
+
+      const parsed = parseJsonImport(serializeObjectExport(document, 'jsonld'))
+      expect(parsed).toEqual({
+        kind: 'objects',
+        objects: [
+          { name: 'Building', uuid: 'root', importId: 'root' },
+          { name: 'Floor', uuid: 'child', parentImportIds: ['root'] },
+        ],
+      })
+    })
+
+    it('should return rows for records with their own schema', () => {
+      const parsed = parseJsonImport(
+        JSON.stringify([
+          { Name: 'Wall', Weight: 12 },
+          { Name: 'Door', Size: { w: 1 } },
+        ])
+      )
+
+      expect(parsed).toEqual({
+        kind: 'rows',
+        rows: [
+          ['Name', 'Weight', 'Size'],
+          ['Wall', 12, ''],
+          ['Door', '', '{"w":1}'],
+        ],
+      })
+    })
+
+    it('should reject invalid files', () => {
+      expect(() => parseJsonImport('{')).toThrow('File is not valid JSON')
+      expect(() => parseJsonImport('[]')).toThrow('No objects found')
+      expect(() => parseJsonImport('[1, 2]')).toThrow(
+        'JSON file must contain a list of objects'
+      )
+    })
+  })
+})
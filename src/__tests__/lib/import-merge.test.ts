@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MERGE_UPDATE_FAILED,
+  parseMergeFailures,
+  parseMergeSummary,
+  planImportMerge,
+  toMergeFailureRecords,
+  type ExistingImportObject,
+} from '@/lib/import-merge'
+
+const building: ExistingImportObject = {
+  uuid: 'building-uuid',
+  name: 'Building',
+  parents: [],
+  properties: [],
+}
+
+const floor: ExistingImportObject = {
+  uuid: 'floor-uuid',
+  name: 'Floor 1',
+  description: 'Ground floor',
+  parents: ['building-uuid'],
+  properties: [
+    {
+      uuid: 'area-uuid',
+      key: 'area',
+      values: [{ uuid: 'area-value-uuid', value: '120' }],
+    },
+    {
+      uuid: 'code-uuid',
+      key: 'code',
+      values: [{ uuid: 'code-value-uuid', value: 'F1' }],
+    },
+  ],
+}
+
+describe('import-merge', () => {
+  describe('planImportMerge', () => {
+    it('should match by UUID and only update what changed', () => {
+      const plan = planImportMerge(
+        [
+          {
+            uuid: 'FLOOR-UUID',
+            name: 'Floor 1',
+            description: 'First floor',
+            properties: [
+              { key: 'area', values: [{ value: '125' }] },
+              { key: 'code', values: [{ value: 'F1' }] },
+              { key: 'color', label: 'Color', values: [{ value: 'Red' }] },
+              { key: 'empty', values: [{ value: '' }] },
+            ],
+          },
+          { uuid: 'building-uuid', name: 'Building' },
+          { uuid: 'unknown', name: 'Annex' },
+        ],
+        [building, floor],
+        { type: 'uuid' }
+      )
+
+      expect(plan.unchanged).toBe(1)
+      expect(plan.create).toEqual([{ uuid: 'unknown', name: 'Annex' }])
+      expect(plan.updates).toEqual([
+        {
+          uuid: 'floor-uuid',
+          name: 'Floor 1',
+          fields: { description: 'First floor' },
+          properties: [
+            {
+              key: 'area',
+              label: undefined,
+              type: undefined,
+              propertyUuid: 'area-uuid',
+              values: [
+                {
+                  uuid: 'area-value-uuid',
+                  value: '125',
+                  valueTypeCast: undefined,
+                },
+              ],
+            },
+            {
+              key: 'color',
+              label: 'Color',
+              type: undefined,
+              propertyUuid: undefined,
+              values: [
+                { uuid: undefined, value: 'Red', valueTypeCast: undefined },
+              ],
+            },
+          ],
+        },
+      ])
+    })
+
+    it('should match by name under parents matched in the same import', () => {
+      const plan = planImportMerge(
+        [
+          { name: 'Room', parentImportIds: ['row:3'] },
+          { name: 'Building', importId: 'row:2' },
+          { name: 'Floor 1', importId: 'row:3', parentImportIds: ['row:2'] },
+          { name: 'Floor 1' },
+        ],
+        [building, floor],
+        { type: 'nameParent' }
+      )
+
+      expect(plan.unchanged).toBe(2)
+      expect(plan.updates).toEqual([])
+      // The room is linked to the existing floor, the root level floor is new
+      expect(plan.create).toEqual([
+        { name: 'Floor 1' },
+        { name: 'Room', parents: ['floor-uuid'] },
+      ])
+    })
+
+    it('should replace a property imported with fewer values', () => {
+      const tagged: ExistingImportObject = {
+        ...building,
+        properties: [
+          {
+            uuid: 'tags-uuid',
+            key: 'tags',
+            values: [
+              { uuid: 'tag-1', value: 'steel' },
+              { uuid: 'tag-2', value: 'reused' },
+            ],
+          },
+        ],
+      }
+
+      const plan = planImportMerge(
+        [
+          {
+            uuid: 'building-uuid',
+            name: 'Building',
+            properties: [{ key: 'tags', values: [{ value: 'steel' }] }],
+          },
+        ],
+        [tagged],
+        { type: 'uuid' }
+      )
+
+      expect(plan.updates[0].properties).toEqual([
+        {
+          key: 'tags',
+          label: undefined,
+          type: undefined,
+          values: [{ value: 'steel', valueTypeCast: undefined }],
+          replacesPropertyUuid: 'tags-uuid',
+        },
+      ])
+    })
+
+    it('should match by property value', () => {
+      const plan = planImportMerge(
+        [
+          {
+            name: 'Floor one',
+            properties: [{ key: 'code', values: [{ value: ' F1 ' }] }],
+          },
+          {
+            name: 'Floor two',
+            properties: [{ key: 'code', values: [{ value: 'F2' }] }],
+          },
+        ],
+        [building, floor],
+        { type: 'property', propertyKey: 'code' }
+      )
+
+      expect(plan.updates).toEqual([
+        {
+          uuid: 'floor-uuid',
+          name: 'Floor 1',
+          fields: { name: 'Floor one' },
+          properties: [],
+        },
+      ])
+      expect(plan.create.map((object) => object.name)).toEqual(['Floor two'])
+    })
+  })
+
+  describe('parseMergeSummary', () => {
+    it('should read counts and ignore invalid values', () => {
+      expect(parseMergeSummary(undefined)).toBeNull()
+      expect(
+        parseMergeSummary({ updated: 3, unchanged: -1, failed: 'x' })
+      ).toEqual({ updated: 3, unchanged: 0, failed: 0 })
+    })
+  })
+
+  describe('merge failures', () => {
+    it('should keep failures that name the object to update', () => {
+      const failures = parseMergeFailures([
+        {
+          object: { uuid: 'floor-uuid', name: 'Floor 1' },
+          index: 2,
+          error: 'x',
+        },
+        { object: { name: 'No UUID' }, index: 3, error: 'x' },
+        'invalid',
+      ])
+
+      expect(failures).toEqual([
+        {
+          object: { uuid: 'floor-uuid', name: 'Floor 1' },
+          index: 2,
+          error: 'x',
+        },
+      ])
+      expect(toMergeFailureRecords(failures, 1)).toEqual([
+        {
+          batchNumber: -1,
+          index: 2,
+          object: { uuid: 'floor-uuid', name: 'Floor 1' },
+          error: 'x',
+          errorType: MERGE_UPDATE_FAILED,
+          timestamp: 1,
+        },
+      ])
+    })
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getProcessImportReferences,
+  parseImportDate,
+  parseImportNumber,
+  planProcessImport,
+  readProcessImportRows,
+  suggestProcessImportMapping,
+} from '@/lib/import-processes'
+
+const objects = [
+  { uuid: '11111111-aaaa', name: 'Concrete' },
+  { uuid: '22222222-bbbb', name: 'Aggregate' },
+  { uuid: '33333333-cccc', name: 'Steel' },
+  { uuid: '44444444-dddd', name: 'Steel' },
+]
+
+const sheet = [
+  ['Sorting log'],
+  [
+    'Process',
+    'Input',
+    'Input quantity',
+    'Input unit',
+    'Output',
+    'Output quantity',
+    'Output unit',
+    'Process category',
+    'Start date',
+  ],
+  [
+    'Crushing',
+    'concrete',
+    '12,5',
+    'tonnes',
+    'Aggregate',
+    11,
+    't',
+    'recycling',
+    '2024-03-01T00:00:00.000Z',
+  ],
+  ['Crushing', 'Concrete', 1, 't', '22222222-bbbb', 1, 't', 'RECYCLING', ''],
+  ['Sorting', 'Steel', 2, 't', 'Aggregate', 2, 't', 'sorting', '31-02-2024'],
+  [],
+]
+
+describe('import-processes', () => {
+  it('should suggest columns from the header row', () => {
+    expect(suggestProcessImportMapping(sheet[1])).toEqual({
+      processName: 0,
+      input: 1,
+      inputQuantity: 2,
+      inputUnit: 3,
+      output: 4,
+      outputQuantity: 5,
+      outputUnit: 6,
+      processCategory: 7,
+      startDate: 8,
+    })
+  })
+
+  it('should parse decimal commas and day-first dates', () => {
+    expect(parseImportNumber('12,5')).toBe(12.5)
+    expect(parseImportNumber('1.234,5')).toBe(1234.5)
+    expect(parseImportNumber('1,234.5')).toBe(1234.5)
+    expect(parseImportNumber('abc')).toBeNull()
+    expect(parseImportDate('01-03-2024')).toBe('2024-03-01')
+    expect(parseImportDate('45352')).toBe('2024-03-01')
+    expect(parseImportDate('31-02-2024')).toBeNull()
+  })
+
+  it('should build a statement per valid row and report the others', () => {
+    const rows = readProcessImportRows(
+      sheet,
+      1,
+      suggestProcessImportMapping(sheet[1])
+    )
+    const plan = planProcessImport(rows, objects)
+
+    expect(rows.map((row) => row.row)).toEqual([3, 4, 5])
+    expect(plan.flows).toHaveLength(1)
+    expect(plan.processCount).toBe(1)
+
+    const [flow] = plan.flows
+    expect(flow.statement.subject).toBe('11111111-aaaa')
+    expect(flow.statement.object).toBe('22222222-bbbb')
+    const properties = Object.fromEntries(
+      flow.statement.properties.map((p) => [p.key, p.values[0].value])
+    )
+    expect(properties).toMatchObject({
+      processName: 'Crushing',
+      processCategory: 'RECYCLING',
+      input_quantity: '12.5',
+      input_unit: 't',
+      output_quantity: '11',
+      startDate: '2024-03-01',
+    })
+
+    expect(plan.invalidRows).toBe(2)
+    expect(plan.errors).toEqual([
+      { row: 4, field: 'output', code: 'duplicate', value: '3' },
+      { row: 5, field: 'input', code: 'ambiguous', value: 'Steel' },
+      { row: 5, field: 'startDate', code: 'invalidDate', value: '31-02-2024' },
+    ])
+  })
+  it('should split material references into UUIDs and names', () => {
+    const uuid = '5f0c1a2b-3c4d-4e5f-8a9b-0c1d2e3f4a5b'
+    const rows = [
+      { row: 2, values: { input: 'Concrete', output: uuid } },
+      { row: 3, values: { input: uuid, output: 'Aggregate' } },
+      { row: 4, values: { input: 'Concrete' } },
+    ]
+
+    expect(getProcessImportReferences(rows)).toEqual({
+      uuids: [uuid],
+      names: ['Concrete', 'Aggregate'],
+    })
+  })
+})
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest'
+import { isNumericValue, validateImportObjects } from '@/lib/import-validation'
+import { MAX_IMPORT_OBJECT_KB } from '@/constants'
+
+describe('import-validation', () => {
+  describe('isNumericValue', () => {
+    it('should accept numbers with a decimal point or comma', () => {
+      expect(isNumericValue('12')).toBe(true)
+      expect(isNumericValue(' 4.5 ')).toBe(true)
+      expect(isNumericValue('4,5')).toBe(true)
+      expect(isNumericValue('')).toBe(true)
+      expect(isNumericValue('twelve')).toBe(false)
+      expect(isNumericValue('1.2.3')).toBe(false)
+    })
+  })
+
+  describe('validateImportObjects', () => {
+    it('should report a clean import as valid', () => {
+      const report = validateImportObjects([
+        { name: 'Wall' },
+        { name: 'Door', properties: [{ key: 'width', values: [] }] },
+      ])
+
+      expect(report).toMatchObject({
+        total: 2,
+        valid: 2,
+        invalid: 0,
+        issues: [],
+        truncated: false,
+      })
+    })
+
+    it('should report missing names, property keys and invalid numbers', () => {
+      const report = validateImportObjects([
+        { name: ' ' },
+        {
+          name: 'Beam',
+          properties: [
+            { key: '', label: 'Length' },
+            {
+              key: 'weight',
+              type: 'number',
+              values: [{ value: '12,5' }, { value: 'heavy' }],
+            },
+            { key: 'code', values: [{ value: 'x', valueTypeCast: 'integer' }] },
+          ],
+        },
+      ])
+
+      expect(report.invalid).toBe(2)
+      expect(report.issues).toEqual([
+        { row: 1, name: '', type: 'missing_required', field: 'name' },
+        { row: 2, name: 'Beam', type: 'missing_required', field: 'Length' },
+        {
+          row: 2,
+          name: 'Beam',
+          type: 'invalid_number',
+          field: 'weight',
+          value: 'heavy',
+        },
+        {
+          row: 2,
+          name: 'Beam',
+          type: 'invalid_number',
+          field: 'code',
+          value: 'x',
+        },
+      ])
+    })
+
+    it('should only report duplicate names under the same parent', () => {
+      const report = validateImportObjects([
+        { name: 'Floor 1', parentImportIds: ['a'] },
+        { name: 'Floor 1', parentImportIds: ['b'] },
+        { name: 'floor 1 ', parentImportIds: ['a'] },
+        { name: 'Floor 1', parents: ['uuid'] },
+      ])
+
+      expect(report.issues).toEqual([
+        { row: 3, name: 'floor 1', type: 'duplicate_name', value: '1' },
+      ])
+      expect(report.issueCounts.duplicate_name).toBe(1)
+    })
+
+    it('should report parents that match nothing in the sheet', () => {
+      const report = validateImportObjects([
+        { name: 'Wall', unresolvedParent: '#9' },
+      ])
+
+      expect(report.issues).toEqual([
+        {
+          row: 1,
+          name: 'Wall',
+          type: 'unresolved_parent',
+          field: 'parent',
+          value: '#9',
+        },
+      ])
+    })
+
+    it('should report parents that form a cycle', () => {
+      const report = validateImportObjects([
+        { name: 'Site', importId: 'row:2', sourceRow: 2 },
+        {
+          name: 'Wing',
+          importId: 'row:3',
+          sourceRow: 3,
+          parentImportIds: ['row:4'],
+        },
+        {
+          name: 'Floor',
+          importId: 'row:4',
+          sourceRow: 4,
+          parentImportIds: ['row:3'],
+        },
+      ])
+
+      expect(report.invalid).toBe(2)
+      expect(report.issues).toEqual([
+        {
+          row: 3,
+          name: 'Wing',
+          type: 'parent_cycle',
+          field: 'parent',
+          value: '3 → 4',
+        },
+        {
+          row: 4,
+          name: 'Floor',
+          type: 'parent_cycle',
+          field: 'parent',
+          value: '3 → 4',
+        },
+      ])
+    })
+
+    it('should point issues at the spreadsheet row', () => {
+      const report = validateImportObjects([
+        { name: 'Site' },
+        { name: '', sourceRow: 4 },
+        { name: 'Site', sourceRow: 5 },
+      ])
+
+      expect(report.issues).toEqual([
+        { row: 4, name: '', type: 'missing_required', field: 'name' },
+        { row: 5, name: 'Site', type: 'duplicate_name', value: '1' },
+      ])
+    })
+
+    it('should report oversize objects', () => {
+      const report = validateImportObjects([
+        {
+          name: 'Blob',
+          description: 'x'.repeat(MAX_IMPORT_OBJECT_KB * 1024 + 1),
+        },
+      ])
+
+      expect(report.issues).toHaveLength(1)
+      expect(report.issues[0]).toMatchObject({ row: 1, type: 'oversize' })
+    })
+
+    it('should cap the stored issues but keep counting', () => {
+      const report = validateImportObjects(
+        [{ name: '' }, { name: '' }, { name: '' }],
+        2
+      )
+
+      expect(report.issues).toHaveLength(2)
+      expect(report.issueCounts.missing_required).toBe(3)
+      expect(report.invalid).toBe(3)
+      expect(report.truncated).toBe(true)
+    })
+  })
+})
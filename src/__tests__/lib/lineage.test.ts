@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { orientFlowStatements, traceMaterialLineage } from '@/lib/lineage'
+
+// ore → steel → beam → building, scrap → steel, beam → offcuts
+const statements = [
+  { subject: 'ore', predicate: 'IS_INPUT_OF', object: 'steel' },
+  { subject: 'scrap', predicate: 'IS_INPUT_OF', object: 'steel' },
+  { subject: 'steel', predicate: 'IS_INPUT_OF', object: 'beam' },
+  { subject: 'beam', predicate: 'IS_INPUT_OF', object: 'building' },
+  { subject: 'offcuts', predicate: 'IS_OUTPUT_OF', object: 'beam' },
+]
+
+describe('orientFlowStatements', () => {
+  it('reverses IS_OUTPUT_OF statements unless the flow already exists', () => {
+    const oriented = orientFlowStatements([
+      ...statements,
+      { subject: 'steel', predicate: 'IS_OUTPUT_OF', object: 'ore' },
+    ])
+
+    expect(oriented).toHaveLength(5)
+    expect(oriented[4]).toEqual({
+      subject: 'beam',
+      predicate: 'IS_INPUT_OF',
+      object: 'offcuts',
+    })
+  })
+})
+
+describe('traceMaterialLineage', () => {
+  const oriented = orientFlowStatements(statements)
+
+  it('follows flows both ways up to the depth', () => {
+    const lineage = traceMaterialLineage(oriented, 'beam', 1)
+
+    expect([...lineage.upstream].sort()).toEqual(['beam', 'steel'])
+    expect([...lineage.downstream].sort()).toEqual([
+      'beam',
+      'building',
+      'offcuts',
+    ])
+    expect(lineage.statements).toHaveLength(3)
+
+    const deeper = traceMaterialLineage(oriented, 'beam', 2)
+    expect(deeper.upstream.has('ore')).toBe(true)
+    expect(deeper.upstream.has('scrap')).toBe(true)
+    expect(deeper.statements).toHaveLength(5)
+  })
+
+  it('is empty for a material without flows and ends on cycles', () => {
+    expect(traceMaterialLineage(oriented, 'other', 3).statements).toEqual([])
+
+    const cycle = [
+      { subject: 'a', object: 'b' },
+      { subject: 'b', object: 'a' },
+    ]
+    expect(traceMaterialLineage(cycle, 'a', 3).statements).toHaveLength(2)
+  })
+})
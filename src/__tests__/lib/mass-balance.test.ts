@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import {
+  checkMassBalance,
+  checkProcessFlowBalance,
+  groupProcessFlows,
+} from '@/lib/mass-balance'
+import type { EnhancedMaterialRelationship } from '@/types'
+
+const flow = (
+  processName: string,
+  subject: string,
+  object: string,
+  input: [number, string],
+  output: [number, string],
+  materialLossPercent?: number
+): EnhancedMaterialRelationship => ({
+  predicate: 'IS_INPUT_OF',
+  subject: { uuid: subject, name: subject },
+  object: { uuid: object, name: object },
+  processName,
+  materialLossPercent,
+  inputMaterial: { quantity: input[0], unit: input[1] },
+  outputMaterial: { quantity: output[0], unit: output[1] },
+})
+
+describe('mass-balance', () => {
+  describe('checkMassBalance', () => {
+    it('should compare inputs with outputs plus material loss', () => {
+      const result = checkMassBalance(
+        [
+          { quantity: 1, unit: 't' },
+          { quantity: 500, unit: 'kg' },
+        ],
+        [{ quantity: 1.35, unit: 'tonnes' }],
+        10,
+        5
+      )
+
+      expect(result.status).toBe('balanced')
+      expect(result.inputTotal).toBe(1500)
+      expect(result.expectedOutput).toBe(1350)
+      expect(result.difference).toBeCloseTo(0)
+    })
+
+    it('should flag differences over the tolerance', () => {
+      const result = checkMassBalance(
+        [{ quantity: 10, unit: 't' }],
+        [{ quantity: 50, unit: 't' }],
+        undefined,
+        5
+      )
+
+      expect(result.status).toBe('unbalanced')
+      expect(result.differencePercent).toBe(400)
+    })
+
+    it('should not judge processes without mass quantities', () => {
+      const result = checkMassBalance(
+        [{ quantity: 4, unit: 'pcs' }],
+        [{ quantity: 10, unit: 'kg' }],
+        undefined,
+        5
+      )
+
+      expect(result.status).toBe('unknown')
+      expect(result.excluded).toBe(1)
+    })
+  })
+
+  describe('groupProcessFlows', () => {
+    it('should group flows by process and split unrelated processes', () => {
+      const groups = groupProcessFlows([
+        flow('Crushing', 'concrete', 'aggregate', [10, 't'], [8, 't'], 20),
+        flow('Crushing', 'concrete', 'fines', [10, 't'], [2, 't'], 20),
+        flow('Crushing', 'bricks', 'rubble', [1, 't'], [3, 't']),
+        flow('Sorting', 'mixed', 'wood', [500, 'kg'], [450, 'kg'], 10),
+      ])
+
+      expect(groups.map((group) => group.relationships.length)).toEqual([
+        2, 1, 1,
+      ])
+
+      const [concrete, bricks] = groups
+      expect(concrete.inputs.size).toBe(1)
+      expect(concrete.outputs.size).toBe(2)
+      // 10 t in, 20% loss, 8 t + 2 t out
+      expect(checkProcessFlowBalance(concrete, 5).status).toBe('unbalanced')
+      expect(checkProcessFlowBalance(bricks, 5).status).toBe('unbalanced')
+      expect(checkProcessFlowBalance(groups[2], 5).status).toBe('balanced')
+    })
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import {
+  checkModelSchema,
+  createPropertiesFromSchema,
+  getModelSchema,
+  schemaFromModelProperties,
+} from '@/lib/model-schema'
+import type { ModelPropertySchema } from '@/types'
+
+const schema: ModelPropertySchema[] = [
+  {
+    key: 'weight',
+    valueTypeCast: 'number:kg',
+    required: true,
+    defaultValues: ['0'],
+  },
+  {
+    key: 'grade',
+    label: 'Grade',
+    valueTypeCast: 'enum:A|B|C',
+    required: false,
+    defaultValues: [],
+  },
+]
+
+const property = (key: string, value: string, valueTypeCast?: string) => ({
+  key,
+  values: [{ value, valueTypeCast }],
+})
+
+describe('schemaFromModelProperties', () => {
+  it('reads the schema from model properties', () => {
+    expect(
+      schemaFromModelProperties([
+        {
+          key: 'weight',
+          label: 'weight',
+          values: [{ value: '12', valueTypeCast: 'decimal' }, { value: '' }],
+        },
+        { key: 'old', softDeleted: true, values: [] },
+        {
+          key: 'grade',
+          label: 'Grade',
+          required: true,
+          valueTypeCast: 'enum:A|B',
+          values: [],
+        },
+      ])
+    ).toEqual([
+      {
+        key: 'weight',
+        valueTypeCast: 'number',
+        required: false,
+        defaultValues: ['12'],
+      },
+      {
+        key: 'grade',
+        label: 'Grade',
+        valueTypeCast: 'enum:A|B',
+        required: true,
+        defaultValues: [],
+      },
+    ])
+  })
+
+  it('prefers the stored schema', () => {
+    const model = { properties: [property('length', '3')] }
+    expect(getModelSchema(model, null)).toHaveLength(1)
+    expect(
+      getModelSchema(model, {
+        modelUuid: 'm',
+        properties: schema,
+        updatedBy: 'u',
+        updatedAt: 0,
+      })
+    ).toBe(schema)
+  })
+})
+
+describe('createPropertiesFromSchema', () => {
+  it('fills in defaults, or an empty value to fill in', () => {
+    const [weight, grade] = createPropertiesFromSchema(schema)
+    expect(weight.values).toEqual([
+      { value: '0', valueTypeCast: 'number:kg', files: [] },
+    ])
+    expect(grade.label).toBe('Grade')
+    expect(grade.values).toEqual([
+      { value: '', valueTypeCast: 'enum:A|B|C', files: [] },
+    ])
+  })
+})
+
+describe('checkModelSchema', () => {
+  it('accepts conforming objects', () => {
+    expect(
+      checkModelSchema([property('weight', '5', 'number:kg')], schema)
+    ).toEqual([])
+  })
+
+  it('flags missing required properties', () => {
+    expect(checkModelSchema([], schema)).toEqual([
+      { key: 'weight', kind: 'missing' },
+    ])
+    expect(
+      checkModelSchema([property('weight', '', 'number:kg')], schema)
+    ).toEqual([{ key: 'weight', kind: 'missing' }])
+  })
+
+  it('flags values of another type or unit', () => {
+    expect(
+      checkModelSchema([property('weight', '5', 'number:t')], schema)
+    ).toEqual([{ key: 'weight', kind: 'unit' }])
+    expect(
+      checkModelSchema(
+        [property('weight', '5', 'number:kg'), property('grade', 'A')],
+        schema
+      )
+    ).toEqual([{ key: 'grade', kind: 'type' }])
+  })
+
+  it('flags values that are no longer allowed', () => {
+    expect(
+      checkModelSchema(
+        [
+          property('weight', '5', 'number:kg'),
+          property('grade', 'D', 'enum:A|B|C|D'),
+        ],
+        schema
+      )
+    ).toEqual([
+      { key: 'grade', kind: 'invalid', message: 'Must be one of: A, B, C' },
+    ])
+  })
+})
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest'
+import {
+  OBJECT_EXPORT_FORMAT,
+  OBJECT_EXPORT_VERSION,
+  createObjectExport,
+  getObjectExportFileName,
+  isObjectExport,
+  parseObjectExport,
+  serializeObjectExport,
+  sortParentsFirst,
+  type ExportedObject,
+} from '@/lib/object-export'
+
+function createExportedObject(
+  overrides: Partial<ExportedObject> = {}
+): ExportedObject {
+  return {
+    uuid: 'root-uuid',
+    name: 'Building A',
+    abbreviation: 'BA',
+    version: '1.0',
+    description: 'Main building',
+    parents: [],
+    modelUuid: 'model-uuid',
+    createdAt: '2026-01-01T10:00:00.000Z',
+    address: {
+      fullAddress: 'Main Street 1, 1000 AA Amsterdam',
+      street: 'Main Street',
+      houseNumber: '1',
+      city: 'Amsterdam',
+      postalCode: '1000 AA',
+      country: 'Netherlands',
+    },
+    properties: [
+      {
+        key: 'weight',
+        label: 'Weight',
+        type: 'number',
+        values: [
+          {
+            value: '150',
+            valueTypeCast: 'number',
+            sourceType: 'manual',
+            files: [],
+          },
+        ],
+        files: [
+          {
+            uuid: 'file-1',
+            fileName: 'scale.pdf',
+            fileReference: 'https://storage.example.com/scale.pdf',
+            contentType: 'application/pdf',
+            size: 2048,
+          },
+        ],
+      },
+    ],
+    files: [
+      {
+        fileName: 'plan.pdf',
+        fileReference: 'https://storage.example.com/plan.pdf',
+        label: 'Floor plan',
+        contentType: 'application/pdf',
+        size: 1024,
+      },
+    ],
+    ...overrides,
+  }
+}
+
+const root = createExportedObject()
+const child = createExportedObject({
+  uuid: 'child-uuid',
+  name: 'Floor 1',
+  parents: ['root-uuid'],
+  address: undefined,
+  files: undefined,
+})
+const grandchild = createExportedObject({
+  uuid: 'grandchild-uuid',
+  name: 'Room 1.01',
+  parents: ['child-uuid', 'outside-uuid'],
+  properties: undefined,
+  files: undefined,
+})
+
+describe('object-export', () => {
+  describe('createObjectExport', () => {
+    it('should create a versioned document', () => {
+      const document = createObjectExport(
+        [root],
+        ['root-uuid'],
+        new Date('2026-10-19T08:00:00.000Z')
+      )
+
+      expect(document).toMatchObject({
+        format: OBJECT_EXPORT_FORMAT,
+        version: OBJECT_EXPORT_VERSION,
+        exportedAt: '2026-10-19T08:00:00.000Z',
+        rootUuids: ['root-uuid'],
+      })
+      expect(document.objects).toEqual([root])
+    })
+  })
+
+  describe('sortParentsFirst', () => {
+    it('should place parents before their children', () => {
+      const sorted = sortParentsFirst([grandchild, child, root])
+      expect(sorted.map((object) => object.uuid)).toEqual([
+        'root-uuid',
+        'child-uuid',
+        'grandchild-uuid',
+      ])
+    })
+
+    it('should drop duplicates and tolerate cycles', () => {
+      const a = createExportedObject({ uuid: 'a', parents: ['b'] })
+      const b = createExportedObject({ uuid: 'b', parents: ['a'] })
+
+      const sorted = sortParentsFirst([a, b, a])
+      expect(sorted.map((object) => object.uuid)).toEqual(['b', 'a'])
+    })
+  })
+
+  describe('parseObjectExport', () => {
+    const document = createObjectExport(
+      [root, child, grandchild],
+      ['root-uuid'],
+      new Date('2026-10-19T08:00:00.000Z')
+    )
+
+    it('should round-trip the JSON flavour', () => {
+      const parsed = parseObjectExport(serializeObjectExport(document))
+      expect(parsed).toEqual(document)
+    })
+
+    it('should round-trip the JSON-LD flavour', () => {
+      const serialized = serializeObjectExport(document, 'jsonld')
+      const jsonLd = JSON.parse(serialized)
+
+      expect(jsonLd['@context']['@vocab']).toBe('https://schema.org/')
+      expect(jsonLd['@graph'][0]).toMatchObject({
+        '@id': 'urn:uuid:root-uuid',
+        '@type': 'iom:Object',
+        name: 'Building A',
+        address: { '@type': 'PostalAddress', addressLocality: 'Amsterdam' },
+      })
+
+      const parsed = parseObjectExport(serialized)
+      expect(parsed.rootUuids).toEqual(['root-uuid'])
+      expect(parsed.objects.map((object) => object.uuid)).toEqual([
+        'root-uuid',
+        'child-uuid',
+        'grandchild-uuid',
+      ])
+      expect(parsed.objects[0]).toMatchObject({
+        name: 'Building A',
+        abbreviation: 'BA',
+        modelUuid: 'model-uuid',
+        address: root.address,
+        properties: [
+          {
+            key: 'weight',
+            label: 'Weight',
+            values: [{ value: '150', valueTypeCast: 'number' }],
+            files: [{ uuid: 'file-1', fileName: 'scale.pdf' }],
+          },
+        ],
+        files: [{ fileName: 'plan.pdf', label: 'Floor plan', size: 1024 }],
+      })
+      expect(parsed.objects[2].parents).toEqual(['child-uuid', 'outside-uuid'])
+    })
+
+    it('should reject files that are not object exports', () => {
+      expect(isObjectExport({ objects: [] })).toBe(false)
+      expect(() => parseObjectExport('[{"name":"Object"}]')).toThrow(
+        'File is not an object export'
+      )
+    })
+
+    it('should reject newer export versions', () => {
+      expect(() =>
+        parseObjectExport({
+          ...document,
+          version: OBJECT_EXPORT_VERSION + 1,
+        })
+      ).toThrow('Unsupported object export version')
+    })
+
+    it('should reject objects without a name', () => {
+      expect(() =>
+        parseObjectExport({
+          ...document,
+          objects: [{ uuid: 'nameless', parents: [] }],
+        })
+      ).toThrow('Object 1 in the export is missing a name or UUID')
+    })
+  })
+
+  describe('getObjectExportFileName', () => {
+    const date = new Date('2026-10-19T08:00:00.000Z')
+
+    it('should slugify the object name', () => {
+      expect(getObjectExportFileName('Building A (North)', 'json', date)).toBe(
+        'building-a-north-2026-10-19.json'
+      )
+    })
+
+    it('should fall back to a generic name for JSON-LD', () => {
+      expect(getObjectExportFileName('', 'jsonld', date)).toBe(
+        'objects-2026-10-19.jsonld'
+      )
+    })
+  })
+})
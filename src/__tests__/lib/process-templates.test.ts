@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyProcessTemplate,
+  createProcessTemplate,
+} from '@/lib/process-templates'
+import type { ProcessTemplate } from '@/types'
+
+const concrete = { uuid: 'concrete', name: 'Concrete' }
+const aggregate = { uuid: 'aggregate', name: 'Aggregate' }
+const fines = { uuid: 'fines', name: 'Fines' }
+
+const crushing = {
+  name: 'Crush concrete',
+  type: 'processing',
+  processMetadata: {
+    processName: 'Crush concrete',
+    processType: 'processing',
+    quantity: 0,
+    unit: 'kg',
+    processCategory: 'RECYCLING' as const,
+    materialLossPercent: 5,
+    emissionsTotal: 40,
+    emissionsUnit: 'kg CO2e',
+    startDate: '2024-01-01',
+  },
+  inputMaterials: [
+    {
+      object: concrete,
+      quantity: 10,
+      unit: 't',
+      metadata: { lifecycleStage: 'USE_PHASE' as const },
+    },
+  ],
+  outputMaterials: [
+    {
+      object: aggregate,
+      quantity: 8,
+      unit: 't',
+      metadata: { lifecycleStage: 'SECONDARY_INPUT' as const },
+    },
+    { object: fines, quantity: 1500, unit: 'kg' },
+  ],
+}
+
+function toTemplate(): ProcessTemplate {
+  return {
+    ...createProcessTemplate('Crushing', crushing)!,
+    id: 'template',
+    createdAt: 0,
+    updatedAt: 0,
+  }
+}
+
+describe('process-templates', () => {
+  it('should store outputs and emissions relative to the input quantity', () => {
+    const template = createProcessTemplate('Crushing', crushing)!
+
+    expect(template.input.unit).toBe('t')
+    expect(template.outputs.map((output) => output.ratio)).toEqual([0.8, 150])
+    expect(template.emissionsRatio).toBe(4)
+    expect(template.processMetadata).toEqual({
+      processCategory: 'RECYCLING',
+      materialLossPercent: 5,
+      emissionsUnit: 'kg CO2e',
+    })
+  })
+
+  it('should not create a template without an input quantity', () => {
+    expect(
+      createProcessTemplate('Crushing', {
+        ...crushing,
+        inputMaterials: [{ object: concrete, unit: 't' }],
+      })
+    ).toBeNull()
+  })
+
+  it('should scale the outputs to the input it is applied to', () => {
+    const building = { uuid: 'building-2', name: 'Concrete of building 2' }
+    const process = applyProcessTemplate(toTemplate(), {
+      object: building,
+      quantity: 2500,
+      unit: 'kg',
+    })
+
+    expect(process.name).toBe('Crush concrete')
+    expect(process.processMetadata.processCategory).toBe('RECYCLING')
+    expect(process.processMetadata.emissionsTotal).toBe(10)
+    expect(process.inputMaterials[0]).toMatchObject({
+      object: building,
+      quantity: 2500,
+      unit: 'kg',
+      metadata: { lifecycleStage: 'USE_PHASE' },
+    })
+    expect(
+      process.outputMaterials.map(({ quantity, unit }) => ({ quantity, unit }))
+    ).toEqual([
+      { quantity: 2, unit: 't' },
+      { quantity: 375, unit: 'kg' },
+    ])
+  })
+})
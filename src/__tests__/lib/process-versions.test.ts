@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest'
+import { buildProcessFlowStatements } from '@/lib/process-statements'
+import {
+  applyPropertyEdits,
+  buildProcessHistory,
+  getProcessVersion,
+  planProcessUpdate,
+} from '@/lib/process-versions'
+import type { ProcessMetadata } from '@/types'
+
+const crushing: ProcessMetadata = {
+  processName: 'Crush concrete',
+  processType: 'processing',
+  quantity: 0,
+  unit: 'kg',
+}
+
+const concrete = { uuid: 'concrete', quantity: 10, unit: 't' }
+const aggregate = { uuid: 'aggregate', quantity: 8, unit: 't' }
+const fines = { uuid: 'fines', quantity: 2, unit: 't' }
+
+describe('planProcessUpdate', () => {
+  it('replaces only the flows that changed', () => {
+    const current = buildProcessFlowStatements(
+      crushing,
+      [concrete],
+      [aggregate, fines]
+    )
+    const next = buildProcessFlowStatements(
+      { ...crushing, processVersion: 2, processUpdatedAt: '2024-05-01' },
+      [concrete],
+      [aggregate, { ...fines, quantity: 1.5 }]
+    )
+
+    const plan = planProcessUpdate(current, next)
+
+    expect(plan.unchanged).toBe(1)
+    expect(plan.remove.map((s) => s.object)).toEqual(['fines'])
+    expect(plan.create.map((s) => s.object)).toEqual(['fines'])
+  })
+
+  it('removes dropped flows and creates added ones', () => {
+    const current = buildProcessFlowStatements(
+      crushing,
+      [concrete],
+      [aggregate, fines]
+    )
+    const next = buildProcessFlowStatements(
+      crushing,
+      [concrete],
+      [aggregate, { uuid: 'sand', quantity: 2, unit: 't' }]
+    )
+
+    const plan = planProcessUpdate(current, next)
+
+    expect(plan.remove.map((s) => s.object)).toEqual(['fines'])
+    expect(plan.create.map((s) => s.object)).toEqual(['sand'])
+    expect(plan.unchanged).toBe(1)
+  })
+})
+
+describe('applyPropertyEdits', () => {
+  const property = (key: string, value: string) => ({
+    key,
+    values: [{ value }],
+  })
+
+  it('keeps stored properties the form does not change', () => {
+    const stored = [
+      property('processName', 'Crush concrete'),
+      property('quantity', '12'),
+      property('unit', 't'),
+      property('isRecycling', 'true'),
+      property('sector', 'infra'),
+      property('input_quantity', '10'),
+      property('input_grade', 'B'),
+    ]
+    const before = [
+      property('processName', 'Crush concrete'),
+      property('quantity', '0'),
+      property('unit', 'kg'),
+      property('input_quantity', '10'),
+      property('input_sector', 'infra'),
+      property('input_grade', 'B'),
+    ]
+    const after = [
+      property('processName', 'Crush concrete'),
+      property('quantity', '0'),
+      property('unit', 'kg'),
+      property('input_quantity', '8'),
+      property('input_sector', 'roads'),
+      property('processVersion', '2'),
+    ]
+
+    expect(applyPropertyEdits(stored, before, after)).toEqual([
+      property('processName', 'Crush concrete'),
+      property('quantity', '12'),
+      property('unit', 't'),
+      property('isRecycling', 'true'),
+      property('sector', 'roads'),
+      property('input_quantity', '8'),
+      property('processVersion', '2'),
+    ])
+  })
+})
+
+describe('buildProcessHistory', () => {
+  const toStored = (metadata: ProcessMetadata, output: typeof aggregate) => ({
+    ...buildProcessFlowStatements(metadata, [concrete], [output])[0],
+    softDeleted: true,
+  })
+
+  it('groups deleted flows of the process by version, newest first', () => {
+    const identified = { ...crushing, processId: 'crushing' }
+    const deleted = [
+      toStored(identified, fines),
+      toStored({ ...identified, processVersion: 2 }, fines),
+      toStored({ ...identified, processName: 'Renamed' }, aggregate),
+      toStored({ ...crushing, processName: 'Unrelated' }, fines),
+    ]
+
+    const history = buildProcessHistory(deleted, {
+      ids: ['crushing'],
+      names: ['Crush concrete'],
+      pairs: [{ subject: 'concrete', object: 'aggregate' }],
+    })
+
+    expect(history.map((v) => v.version)).toEqual([2, 1])
+    expect(history[1].flows).toHaveLength(2)
+    expect(history[0].flows[0]).toMatchObject({
+      object: 'fines',
+      outputQuantity: 2,
+      outputUnit: 't',
+    })
+    expect(getProcessVersion([undefined, 3, 2])).toBe(3)
+  })
+
+  it('leaves out other processes with the same name or materials', () => {
+    const deleted = [
+      toStored({ ...crushing, processId: 'other' }, aggregate),
+      toStored({ ...crushing, processName: 'Other' }, aggregate),
+      toStored(crushing, fines),
+      toStored(crushing, aggregate),
+    ]
+
+    const history = buildProcessHistory(deleted, {
+      ids: ['crushing'],
+      names: ['Crush concrete'],
+      pairs: [{ subject: 'concrete', object: 'aggregate' }],
+    })
+
+    expect(history).toHaveLength(1)
+    expect(history[0].flows).toEqual([
+      expect.objectContaining({ subject: 'concrete', object: 'aggregate' }),
+    ])
+  })
+})
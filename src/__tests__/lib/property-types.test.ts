@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import {
+  comparePropertyValues,
+  formatValueTypeCast,
+  parsePropertyNumber,
+  parseValueTypeCast,
+} from '@/lib/property-types'
+import { validatePropertyValue } from '@/lib/validations/property-value'
+
+describe('parseValueTypeCast', () => {
+  it('reads the type and its parameter', () => {
+    expect(parseValueTypeCast('number:kg')).toEqual({
+      type: 'number',
+      unit: 'kg',
+    })
+    expect(parseValueTypeCast('enum:low| medium |high')).toEqual({
+      type: 'enum',
+      options: ['low', 'medium', 'high'],
+    })
+    expect(parseValueTypeCast('decimal')).toEqual({ type: 'number' })
+    expect(parseValueTypeCast(undefined)).toEqual({ type: 'string' })
+    expect(parseValueTypeCast('unknown')).toEqual({ type: 'string' })
+  })
+
+  it('round-trips through formatValueTypeCast', () => {
+    for (const cast of ['string', 'number', 'number:m2', 'enum:a|b', 'url']) {
+      expect(formatValueTypeCast(parseValueTypeCast(cast))).toBe(cast)
+    }
+  })
+})
+
+describe('comparePropertyValues', () => {
+  it('sorts numbers by value and puts non-numbers last', () => {
+    const values = ['10', 'n/a', '9,5', '100']
+    expect(
+      [...values].sort((a, b) => comparePropertyValues(a, b, 'number:kg'))
+    ).toEqual(['9,5', '10', '100', 'n/a'])
+    expect(parsePropertyNumber('9,5')).toBe(9.5)
+  })
+
+  it('sorts dates and booleans', () => {
+    expect(
+      comparePropertyValues('2024-02-01', '2023-12-31', 'date')
+    ).toBeGreaterThan(0)
+    expect(comparePropertyValues('false', 'true', 'boolean')).toBeLessThan(0)
+  })
+})
+
+describe('validatePropertyValue', () => {
+  it('checks values against their type', () => {
+    expect(validatePropertyValue('12,5', 'number')).toBeNull()
+    expect(validatePropertyValue('twelve', 'number')).not.toBeNull()
+    expect(validatePropertyValue('2024-13-45', 'date')).not.toBeNull()
+    expect(validatePropertyValue('yes', 'boolean')).not.toBeNull()
+    expect(validatePropertyValue('high', 'enum:low|high')).toBeNull()
+    expect(validatePropertyValue('medium', 'enum:low|high')).not.toBeNull()
+    expect(validatePropertyValue('example.com', 'url')).not.toBeNull()
+    expect(validatePropertyValue('', 'number')).toBeNull()
+  })
+})
@@ -1,5 +1,37 @@
 import { describe, it, expect } from 'vitest'
-import { parseSearchQuery } from '@/lib/search-parser'
+import {
+  parseSearchQuery,
+  getFilterSuggestions,
+  isServerSideSearch,
+  matchesSearchExpression,
+  removeSearchFilter,
+  resolveDateRange,
+  replaceSearchFilter,
+  stringifySearchExpression,
+  toSearchRequests,
+  getSearchQueryError,
+  toggleSearchFilterNegation,
+} from '@/lib/search-parser'
+
+const steelBeam = {
+  uuid: 'beam-1',
+  name: 'Steel Beam',
+  softDeleted: false,
+  properties: [
+    { label: 'material', values: [{ value: 'steel' }] },
+    { label: 'weight', values: [{ value: '150' }] },
+  ],
+}
+
+const aluminiumFrame = {
+  uuid: 'frame-1',
+  name: 'Aluminium Frame',
+  softDeleted: true,
+  properties: [
+    { label: 'material', values: [{ value: 'aluminium' }] },
+    { label: 'weight', values: [{ value: '40' }] },
+  ],
+}
 
 describe('search-parser', () => {
   describe('parseSearchQuery', () => {
@@ -130,4 +162,331 @@ describe('search-parser', () => {
       expect(result.searchBy).toEqual({})
     })
   })
+
+  describe('boolean expressions', () => {
+    it('should parse OR into an expression tree', () => {
+      const result = parseSearchQuery(
+        'prop:material=steel OR prop:material=aluminium'
+      )
+      expect(result.expression?.type).toBe('or')
+      expect(result.filters).toHaveLength(2)
+      // OR branches cannot be expressed in a single searchBy
+      expect(result.searchBy).toEqual({})
+      expect(isServerSideSearch(result)).toBe(false)
+      expect(toSearchRequests(result)).toHaveLength(2)
+    })
+
+    it('should bind AND tighter than OR', () => {
+      const result = parseSearchQuery('battery deleted:true OR name:Frame')
+      expect(result.expression).toMatchObject({
+        type: 'or',
+        operands: [{ type: 'and' }, { type: 'filter' }],
+      })
+    })
+
+    it('should parse NOT and - negation', () => {
+      const withKeyword = parseSearchQuery('NOT deleted:true')
+      const withPrefix = parseSearchQuery('-deleted:true')
+      expect(withKeyword.expression?.type).toBe('not')
+      expect(withPrefix.expression).toEqual(withKeyword.expression)
+      expect(withPrefix.searchBy).toEqual({})
+    })
+
+    it('should keep negative numbers as text', () => {
+      const result = parseSearchQuery('-5')
+      expect(result.expression).toMatchObject({
+        type: 'filter',
+        filter: { type: 'text', value: '-5' },
+      })
+    })
+
+    it('should parse parenthesised groups', () => {
+      const result = parseSearchQuery(
+        'battery -(deleted:true OR template:true)'
+      )
+      expect(result.searchTerm).toBe('battery')
+      expect(result.expression).toMatchObject({
+        type: 'and',
+        operands: [
+          { type: 'filter' },
+          { type: 'not', operand: { type: 'or' } },
+        ],
+      })
+    })
+
+    it('should stop name: at operators', () => {
+      const result = parseSearchQuery('name:Clay Tile OR name:Brick')
+      expect(result.filters.map((f) => f.value)).toEqual(['Clay Tile', 'Brick'])
+    })
+
+    it('should expand nested groups into one request per branch', () => {
+      const result = parseSearchQuery(
+        '(prop:material=steel OR prop:material=aluminium) deleted:false'
+      )
+      const requests = toSearchRequests(result)
+      expect(requests).toHaveLength(2)
+      expect(requests[0].searchBy).toEqual({
+        'properties.label': 'material',
+        'properties.values.value': 'steel',
+        softDeleted: false,
+      })
+      expect(requests[0].conditions).toBeNull()
+    })
+
+    it('should refuse queries with too many branches without expanding them', () => {
+      const groups = Array.from(
+        { length: 30 },
+        (_, i) => `(name:a${i} OR name:b${i})`
+      )
+      const result = parseSearchQuery(groups.join(' '))
+      expect(toSearchRequests(result)).toEqual([])
+      expect(getSearchQueryError(result)).toBe('tooManyBranches')
+      expect(
+        getSearchQueryError(parseSearchQuery('name:a OR name:b'))
+      ).toBeNull()
+    })
+  })
+
+  describe('numeric comparisons', () => {
+    it.each([
+      ['prop:weight>100', { min: 100, minExclusive: true }],
+      ['prop:weight>=100', { min: 100, minExclusive: false }],
+      ['prop:weight<100', { max: 100, maxExclusive: true }],
+      ['prop:weight<=100', { max: 100, maxExclusive: false }],
+      ['prop:weight=10..20', { min: 10, max: 20 }],
+      ['prop:weight=..20', { max: 20 }],
+    ])('should parse %s', (query, range) => {
+      const result = parseSearchQuery(query)
+      expect(result.filters[0]).toMatchObject({
+        type: 'propertyRange',
+        propertyKey: 'weight',
+        range,
+      })
+      // Only the label can be narrowed server-side
+      expect(result.searchBy).toEqual({ 'properties.label': 'weight' })
+      expect(isServerSideSearch(result)).toBe(false)
+    })
+
+    it('should drop comparisons without a numeric operand', () => {
+      const result = parseSearchQuery('prop:weight>heavy')
+      expect(result.filters).toEqual([])
+      expect(result.expression).toBeNull()
+    })
+
+    it('should keep plain equality as a property filter', () => {
+      const result = parseSearchQuery('prop:weight=100')
+      expect(result.filters[0].type).toBe('property')
+      expect(isServerSideSearch(result)).toBe(true)
+    })
+  })
+
+  describe('matchesSearchExpression', () => {
+    it('should evaluate OR, NOT and ranges against entities', () => {
+      const { expression } = parseSearchQuery(
+        '(prop:material=steel OR prop:material=aluminium) -deleted:true'
+      )
+      expect(matchesSearchExpression(steelBeam, expression)).toBe(true)
+      expect(matchesSearchExpression(aluminiumFrame, expression)).toBe(false)
+    })
+
+    it('should compare property values numerically', () => {
+      const { expression } = parseSearchQuery('prop:weight>100')
+      expect(matchesSearchExpression(steelBeam, expression)).toBe(true)
+      expect(matchesSearchExpression(aluminiumFrame, expression)).toBe(false)
+
+      const range = parseSearchQuery('prop:weight=30..50').expression
+      expect(matchesSearchExpression(aluminiumFrame, range)).toBe(true)
+    })
+
+    it('should match everything for an empty expression', () => {
+      expect(matchesSearchExpression(steelBeam, null)).toBe(true)
+    })
+  })
+
+  describe('editing expressions', () => {
+    it('should round-trip through stringifySearchExpression', () => {
+      const query =
+        'battery -(deleted:true OR template:true) prop:weight>=10 OR name:"Clay Tile"'
+      const parsed = parseSearchQuery(query)
+      const serialized = stringifySearchExpression(parsed.expression)
+      expect(serialized).toBe(query)
+      expect(parseSearchQuery(serialized).expression).toEqual(parsed.expression)
+    })
+
+    it('should quote multi-word names when serializing', () => {
+      const parsed = parseSearchQuery('name:Clay Tile')
+      expect(stringifySearchExpression(parsed.expression)).toBe(
+        'name:"Clay Tile"'
+      )
+    })
+
+    it('should remove a filter and collapse its group', () => {
+      const parsed = parseSearchQuery('(deleted:true OR template:true) battery')
+      expect(removeSearchFilter(parsed, parsed.filters[0])).toBe(
+        'template:true battery'
+      )
+    })
+
+    it('should replace a filter with new query text', () => {
+      const parsed = parseSearchQuery('prop:weight>10 battery')
+      expect(
+        replaceSearchFilter(
+          parsed,
+          parsed.filters[0],
+          'prop:weight<5 OR prop:weight>50'
+        )
+      ).toBe('(prop:weight<5 OR prop:weight>50) battery')
+    })
+
+    it('should toggle negation of a filter', () => {
+      const parsed = parseSearchQuery('deleted:true battery')
+      const negated = toggleSearchFilterNegation(parsed, parsed.filters[0])
+      expect(negated).toBe('-deleted:true battery')
+
+      const reparsed = parseSearchQuery(negated)
+      expect(toggleSearchFilterNegation(reparsed, reparsed.filters[0])).toBe(
+        'deleted:true battery'
+      )
+    })
+  })
+
+  describe('date and attachment filters', () => {
+    const now = new Date(2026, 9, 19, 12).getTime()
+    const auditedObject = {
+      uuid: 'object-1',
+      name: 'Audited Object',
+      modelUuid: 'model-1',
+      createdAt: new Date(2025, 11, 1).toISOString(),
+      lastUpdatedAt: new Date(2026, 9, 15).toISOString(),
+      files: [{ uuid: 'file-1', fileName: 'report.pdf' }],
+      address: { fullAddress: 'Main Street 1, Amsterdam' },
+      properties: [],
+    }
+
+    it('should parse created: comparisons as client-side conditions', () => {
+      const result = parseSearchQuery('created:>2026-01-01')
+      expect(result.filters[0]).toMatchObject({
+        type: 'created',
+        value: '>2026-01-01',
+        date: { operator: '>', date: '2026-01-01' },
+      })
+      expect(result.searchBy).toEqual({})
+      expect(isServerSideSearch(result)).toBe(false)
+    })
+
+    it('should parse relative modified: periods', () => {
+      const result = parseSearchQuery('modified:last-7d')
+      expect(result.filters[0].date).toEqual({
+        operator: 'last',
+        amount: 7,
+        unit: 'd',
+      })
+
+      const range = resolveDateRange(result.filters[0].date!, now)
+      expect(range.min).toBe(new Date(2026, 9, 12, 12).getTime())
+    })
+
+    it('should match whole days for date-only values', () => {
+      const range = resolveDateRange({ operator: '=', date: '2026-01-01' })
+      expect(range).toEqual({
+        min: new Date(2026, 0, 1).getTime(),
+        max: new Date(2026, 0, 2).getTime(),
+        maxExclusive: true,
+      })
+      expect(resolveDateRange({ operator: '>', date: '2026-01-01' }).min).toBe(
+        new Date(2026, 0, 2).getTime()
+      )
+    })
+
+    it('should parse date ranges and reject invalid dates', () => {
+      expect(
+        parseSearchQuery('created:2026-01-01..2026-01-31').filters[0].date
+      ).toEqual({
+        operator: 'between',
+        date: '2026-01-01',
+        endDate: '2026-01-31',
+      })
+      expect(parseSearchQuery('created:2026-02-31').filters).toHaveLength(0)
+      expect(parseSearchQuery('modified:yesterday').filters).toHaveLength(0)
+    })
+
+    it('should evaluate date filters against objects', () => {
+      const match = (query: string) =>
+        matchesSearchExpression(
+          auditedObject,
+          parseSearchQuery(query).expression
+        )
+
+      expect(match('created:<2026-01-01')).toBe(true)
+      expect(match('created:>2026-01-01')).toBe(false)
+      expect(match('modified:2026-10-01..2026-10-31')).toBe(true)
+      expect(match('modified:<2026-10-15')).toBe(false)
+    })
+
+    it('should treat never-updated objects as modified when created', () => {
+      const expression = parseSearchQuery('modified:>=2025-12-01').expression
+      expect(
+        matchesSearchExpression(
+          { ...auditedObject, lastUpdatedAt: undefined },
+          expression
+        )
+      ).toBe(true)
+    })
+
+    it('should filter by files, address and model', () => {
+      const match = (entity: object, query: string) =>
+        matchesSearchExpression(entity, parseSearchQuery(query).expression)
+
+      expect(match(auditedObject, 'hasFile:true hasAddress:true')).toBe(true)
+      expect(match(auditedObject, 'model:model-1')).toBe(true)
+      expect(match(auditedObject, 'model:model-2')).toBe(false)
+      expect(match(steelBeam, 'hasFile:false hasAddress:false')).toBe(true)
+      expect(
+        match(
+          { ...steelBeam, files: [{ uuid: 'file-2', softDeleted: true }] },
+          'hasFile:true'
+        )
+      ).toBe(false)
+    })
+
+    it('should send model: filters to the API', () => {
+      const result = parseSearchQuery('model:model-1 hasFile:true')
+      expect(result.searchBy).toEqual({ modelUuid: 'model-1' })
+      expect(toSearchRequests(result)[0].conditions).toMatchObject({
+        type: 'filter',
+        filter: { type: 'hasFile' },
+      })
+    })
+
+    it('should refuse queries made only of client-side filters', () => {
+      const error = (query: string) =>
+        getSearchQueryError(parseSearchQuery(query))
+      expect(error('modified:last-7d hasFile:true')).toBe('clientFiltersOnly')
+      expect(error('name:Frame OR created:>2026-01-01')).toBe(
+        'clientFiltersOnly'
+      )
+      expect(error('-deleted:true')).toBe('clientFiltersOnly')
+      expect(error('model:model-1 modified:last-7d')).toBeNull()
+      expect(error('battery created:>2026-01-01')).toBeNull()
+    })
+
+    it('should stop multi-word names at the new filters', () => {
+      const result = parseSearchQuery('name:Clay Tile hasFile:true')
+      expect(result.filters.map((filter) => filter.type)).toEqual([
+        'name',
+        'hasFile',
+      ])
+      expect(result.filters[0].value).toBe('Clay Tile')
+    })
+
+    it('should suggest filters case-insensitively', () => {
+      expect(getFilterSuggestions('hasf').map((s) => s.prefix)).toEqual([
+        'hasFile:',
+      ])
+      expect(getFilterSuggestions('mod').map((s) => s.prefix)).toEqual([
+        'model:',
+        'modified:',
+      ])
+    })
+  })
 })
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildSearchUrl,
+  normalizeSearchQuery,
+  SEARCH_QUERY_PARAM,
+} from '@/lib/search-url'
+import { parseSearchQuery } from '@/lib/search-parser'
+
+describe('search-url', () => {
+  describe('normalizeSearchQuery', () => {
+    it('should round-trip through parseSearchQuery', () => {
+      const query = 'name:Clay Tile OR (prop:weight>10 -deleted:true)'
+      const normalized = normalizeSearchQuery(query)
+      expect(normalizeSearchQuery(normalized)).toBe(normalized)
+      expect(parseSearchQuery(normalized).expression).toEqual(
+        parseSearchQuery('name:"Clay Tile" OR prop:weight>10 -deleted:true')
+          .expression
+      )
+    })
+
+    it('should return an empty string for empty queries', () => {
+      expect(normalizeSearchQuery('   ')).toBe('')
+    })
+  })
+
+  describe('buildSearchUrl', () => {
+    it('should encode the query on the objects page', () => {
+      const url = buildSearchUrl('prop:material=steel OR value:alu')
+      const [path, search] = url.split('?')
+      expect(path).toBe('/objects')
+      expect(new URLSearchParams(search).get(SEARCH_QUERY_PARAM)).toBe(
+        'prop:material=steel OR value:alu'
+      )
+    })
+
+    it('should open template searches on the models page', () => {
+      expect(buildSearchUrl('template:true brick')).toMatch(/^\/models\?/)
+    })
+
+    it('should link to the bare page for empty queries', () => {
+      expect(buildSearchUrl('')).toBe('/objects')
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import {
+  convertQuantity,
+  formatQuantity,
+  getUnitCategory,
+  resolveUnit,
+  sumQuantities,
+} from '@/lib/units'
+
+describe('units', () => {
+  describe('resolveUnit', () => {
+    it('should resolve registry units and their spellings', () => {
+      expect(resolveUnit('kg')).toBe('kg')
+      expect(resolveUnit(' tonnes ')).toBe('t')
+      expect(resolveUnit('Tonne')).toBe('t')
+      expect(resolveUnit('m3')).toBe('m³')
+      expect(resolveUnit('m^2')).toBe('m²')
+      expect(resolveUnit('l')).toBe('L')
+      expect(resolveUnit('kgCO2e')).toBe('kg CO2e')
+      expect(resolveUnit('kg CO₂e')).toBe('kg CO2e')
+    })
+
+    it('should return null for unknown or empty units', () => {
+      expect(resolveUnit('bags')).toBeNull()
+      expect(resolveUnit('')).toBeNull()
+      expect(resolveUnit(undefined)).toBeNull()
+    })
+  })
+
+  describe('getUnitCategory', () => {
+    it('should return the category of a unit', () => {
+      expect(getUnitCategory('tons')).toBe('weight')
+      expect(getUnitCategory('gal')).toBe('volume')
+      expect(getUnitCategory('stuks')).toBe('count')
+      expect(getUnitCategory('bags')).toBeNull()
+    })
+  })
+
+  describe('convertQuantity', () => {
+    it('should convert within a category', () => {
+      expect(convertQuantity(2, 't', 'kg')).toBe(2000)
+      expect(convertQuantity(500, 'kg', 'tonnes')).toBe(0.5)
+      expect(convertQuantity(1500, 'L', 'm³')).toBeCloseTo(1.5)
+      expect(convertQuantity(3.6, 'MJ', 'kWh')).toBeCloseTo(1)
+    })
+
+    it('should not convert across categories or unknown units', () => {
+      expect(convertQuantity(1, 'kg', 'm³')).toBeNull()
+      expect(convertQuantity(1, 'kg', 'kg CO2e')).toBeNull()
+      expect(convertQuantity(1, 'bags', 'kg')).toBeNull()
+    })
+  })
+
+  describe('sumQuantities', () => {
+    it('should sum in the given unit and count what was left out', () => {
+      expect(
+        sumQuantities(
+          [
+            { quantity: 1, unit: 't' },
+            { quantity: 250, unit: 'kg' },
+            { quantity: 2, unit: 'tonnes' },
+            { quantity: 4, unit: 'pcs' },
+            { quantity: 0, unit: 'kg' },
+            undefined,
+          ],
+          'kg'
+        )
+      ).toEqual({ total: 3250, excluded: 1 })
+    })
+  })
+
+  describe('formatQuantity', () => {
+    it('should round to a readable precision', () => {
+      expect(formatQuantity(0.45359237, 'kg')).toBe('0.454 kg')
+      expect(formatQuantity(3250.4, 'kg')).toBe('3,250 kg')
+    })
+  })
+})
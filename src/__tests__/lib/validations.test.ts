@@ -40,6 +40,15 @@ describe('validations/object-model', () => {
       expect(result.success).toBe(true)
     })
 
+    it('should reject a value that does not match its type', () => {
+      const result = propertyValueSchema.safeParse({
+        value: 'heavy',
+        valueTypeCast: 'number:kg',
+        files: [],
+      })
+      expect(result.success).toBe(false)
+    })
+
     it('should allow optional uuid', () => {
       const result = propertyValueSchema.safeParse({
         uuid: '550e8400-e29b-41d4-a716-446655440000',
@@ -0,0 +1,197 @@
+import { NextResponse } from 'next/server'
+import crypto from 'crypto'
+import jsep from 'jsep'
+
+import { getRedis } from '@/lib/redis'
+import { REDIS_KEYS } from '@/lib/redis-utils'
+import { getRequestUserUUID } from '@/lib/auth-utils'
+import { logger } from '@/lib/logger'
+import type { TeamFormulaTemplate, TeamFormulaTemplateInput } from '@/types'
+
+// Upper bound on formula templates for the whole team
+const MAX_FORMULA_TEMPLATES = 200
+const MAX_LABEL_LENGTH = 100
+const MAX_FORMULA_LENGTH = 500
+const MAX_DESCRIPTION_LENGTH = 200
+
+function unauthorized() {
+  return NextResponse.json(
+    { error: 'Authorization header with JWT token is required' },
+    { status: 401 }
+  )
+}
+
+async function readFormulaTemplates(): Promise<TeamFormulaTemplate[]> {
+  const redis = getRedis()
+  const entries = await redis.hgetall(REDIS_KEYS.formulaTemplates())
+
+  return Object.entries(entries)
+    .map(([id, data]) => {
+      try {
+        return JSON.parse(data) as TeamFormulaTemplate
+      } catch (e) {
+        logger.error('Failed to parse formula template', { id, error: e })
+        return null
+      }
+    })
+    .filter((template): template is TeamFormulaTemplate => template !== null)
+    .sort((a, b) => a.label.localeCompare(b.label))
+}
+
+/**
+ * Validate template input. Returns the template input or an error.
+ */
+function validateInput(
+  body: any
+): { template: TeamFormulaTemplateInput } | { error: string } {
+  if (typeof body?.label !== 'string' || !body.label.trim()) {
+    return { error: 'Formula template name is required' }
+  }
+  if (body.label.trim().length > MAX_LABEL_LENGTH) {
+    return { error: 'Formula template name is too long' }
+  }
+  if (typeof body.formula !== 'string' || !body.formula.trim()) {
+    return { error: 'Formula is required' }
+  }
+  if (body.formula.trim().length > MAX_FORMULA_LENGTH) {
+    return { error: 'Formula is too long' }
+  }
+
+  // Only parsed, formulas are evaluated on the client
+  try {
+    jsep(body.formula)
+  } catch {
+    return { error: 'Formula is invalid' }
+  }
+
+  const description =
+    typeof body.description === 'string' ? body.description.trim() : ''
+
+  return {
+    template: {
+      label: body.label.trim(),
+      formula: body.formula.trim(),
+      description: description
+        ? description.slice(0, MAX_DESCRIPTION_LENGTH)
+        : undefined,
+    },
+  }
+}
+
+// Get the team's formula templates
+export async function GET(req: Request) {
+  const userUUID = await getRequestUserUUID(req)
+  if (!userUUID) return unauthorized()
+
+  try {
+    const templates = await readFormulaTemplates()
+    return NextResponse.json({ templates })
+  } catch (error) {
+    logger.error('Error fetching formula templates', { error })
+    return NextResponse.json(
+      { error: 'Failed to fetch formula templates' },
+      { status: 500 }
+    )
+  }
+}
+
+// Create a new formula template
+export async function POST(req: Request) {
+  const userUUID = await getRequestUserUUID(req)
+  if (!userUUID) return unauthorized()
+
+  try {
+    const input = validateInput(await req.json())
+    if ('error' in input) {
+      return NextResponse.json({ error: input.error }, { status: 400 })
+    }
+
+    const existing = await readFormulaTemplates()
+    if (existing.length >= MAX_FORMULA_TEMPLATES) {
+      return NextResponse.json(
+        {
+          error: `The team can save at most ${MAX_FORMULA_TEMPLATES} formula templates`,
+        },
+        { status: 400 }
+      )
+    }
+    if (
+      existing.some(
+        (template) =>
+          template.label.toLowerCase() === input.template.label.toLowerCase()
+      )
+    ) {
+      return NextResponse.json(
+        { error: 'Formula template with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    const now = Date.now()
+    const template: TeamFormulaTemplate = {
+      ...input.template,
+      id: crypto.randomUUID(),
+      createdBy: userUUID,
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    await getRedis().hset(
+      REDIS_KEYS.formulaTemplates(),
+      template.id,
+      JSON.stringify(template)
+    )
+
+    return NextResponse.json({ success: true, template })
+  } catch (error) {
+    logger.error('Error creating formula template', { error })
+    return NextResponse.json(
+      { error: 'Failed to create formula template' },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete a formula template, only its creator can
+export async function DELETE(req: Request) {
+  const userUUID = await getRequestUserUUID(req)
+  if (!userUUID) return unauthorized()
+
+  try {
+    const { searchParams } = new URL(req.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Formula template ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const redis = getRedis()
+    const data = await redis.hget(REDIS_KEYS.formulaTemplates(), id)
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Formula template not found' },
+        { status: 404 }
+      )
+    }
+
+    const template = JSON.parse(data) as TeamFormulaTemplate
+    if (template.createdBy !== userUUID) {
+      return NextResponse.json(
+        { error: 'Only the creator can delete this formula template' },
+        { status: 403 }
+      )
+    }
+
+    await redis.hdel(REDIS_KEYS.formulaTemplates(), id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Error deleting formula template', { error })
+    return NextResponse.json(
+      { error: 'Failed to delete formula template' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,7 +3,7 @@ import { NextResponse } from 'next/server'
 import { headers } from 'next/headers'
 
 import { getRedis } from '@/lib/redis'
-import { hsetWithTTL, setWithTTL } from '@/lib/redis-utils'
+import { hsetWithTTL, recordJobFailures, setWithTTL } from '@/lib/redis-utils'
 import {
   validateRequestBasics,
   validateImportPayload,
@@ -12,7 +12,12 @@ import {
   logSecurityEvent,
 } from '@/lib/security-utils'
 import { logger } from '@/lib/logger'
-import { processImportJob } from '@/lib/import-processor'
+import { startImportJob } from '@/lib/import-processor'
+import {
+  parseMergeFailures,
+  parseMergeSummary,
+  toMergeFailureRecords,
+} from '@/lib/import-merge'
 import { getUserUUIDFromJWT } from '@/lib/jwt-utils'
 
 /**
@@ -122,6 +127,8 @@ export async function POST(req: Request) {
     // For the first chunk, create a new job ID and initialize job metadata
     if (chunkIndex === 0) {
       currentJobId = crypto.randomUUID()
+      // Counts of the objects a merge import updated before uploading
+      const merge = parseMergeSummary(body.merge)
 
       await hsetWithTTL(`import:${currentJobId}`, {
         status: 'receiving',
@@ -133,8 +140,23 @@ export async function POST(req: Request) {
         totalChunks: totalChunks.toString(),
         payloadSizeMB: chunkValidation.size?.toFixed(2) || '0',
         objectCount: chunkValidation.objectCount?.toString() || '0',
+        // Dry runs only validate the objects, nothing is persisted
+        dryRun: (body.dryRun === true).toString(),
+        ...(merge && {
+          mergeUpdated: merge.updated.toString(),
+          mergeUnchanged: merge.unchanged.toString(),
+          mergeFailed: merge.failed.toString(),
+        }),
       })
 
+      // Failed merge updates are reported and retried with the job
+      if (merge) {
+        await recordJobFailures(
+          currentJobId,
+          toMergeFailureRecords(parseMergeFailures(body.mergeFailures))
+        )
+      }
+
       // Store the first chunk
       await setWithTTL(
         `import:${currentJobId}:chunk:0`,
@@ -163,7 +185,7 @@ export async function POST(req: Request) {
     if (chunkIndex === totalChunks - 1 && currentJobId) {
       const redis = getRedis()
       await redis.hset(`import:${currentJobId}`, { status: 'pending' })
-      startProcessing(currentJobId)
+      startImportJob(currentJobId, 'chunk_import')
     }
 
     return NextResponse.json({
@@ -193,55 +215,3 @@ export async function POST(req: Request) {
     )
   }
 }
-
-// Function to start processing in the background
-async function startProcessing(jobId: string) {
-  try {
-    const redis = getRedis()
-
-    // Test Redis connection before processing
-    await redis.ping()
-    logger.import('Redis connection verified for chunk job processing', {
-      jobId,
-    })
-
-    // Update job status to processing
-    await redis.hset(`import:${jobId}`, { status: 'processing' })
-
-    // Process the job in the background
-    setImmediate(() => {
-      processImportJob(jobId).catch((error) => {
-        const errorContext = {
-          jobId,
-          error: error.message,
-          errorStack: error.stack,
-          timestamp: new Date().toISOString(),
-          source: 'chunk_import',
-        }
-
-        logger.import('Background chunk job failed', errorContext, 'error')
-
-        // Update job status to failed
-        redis
-          .hset(`import:${jobId}`, {
-            status: 'failed',
-            error: error.message,
-            failedAt: Date.now().toString(),
-          })
-          .catch(() =>
-            logger.import('Job status update failed', { jobId }, 'error')
-          )
-      })
-    })
-  } catch (error) {
-    logger.import(
-      'Failed to start chunk background processing',
-      {
-        jobId,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: new Date().toISOString(),
-      },
-      'error'
-    )
-  }
-}
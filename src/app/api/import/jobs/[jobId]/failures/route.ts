@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server'
+import { headers } from 'next/headers'
+
+import { getRedis } from '@/lib/redis'
+import { getJobFailures, REDIS_KEYS } from '@/lib/redis-utils'
+import { getClientIdentifier } from '@/lib/security-utils'
+import { logger } from '@/lib/logger'
+import { MAX_OBJECTS_PER_IMPORT } from '@/constants'
+import { getUserUUIDFromJWT } from '@/lib/jwt-utils'
+import {
+  buildFailureReport,
+  failureReportToCsv,
+  failureReportToXlsx,
+} from '@/lib/import-failure-report'
+
+/**
+ * GET /api/import/jobs/:jobId/failures - Download the failed objects of a job
+ *
+ * Query parameters:
+ *   - format: `csv` (default) or `xlsx`
+ *
+ * The report has a row per failed object with its original spreadsheet row,
+ * the error and its fields, so it can be fixed and imported again.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params
+  const format = new URL(req.url).searchParams.get('format') || 'csv'
+
+  try {
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json(
+        { error: 'Format must be csv or xlsx' },
+        { status: 400 }
+      )
+    }
+
+    const headersList = await headers()
+    const authorization = headersList.get('authorization')
+
+    if (!authorization || !authorization.startsWith('Bearer ')) {
+      logger.security('missing_jwt_token_failures', {
+        clientId: getClientIdentifier(req),
+      })
+      return NextResponse.json(
+        { error: 'Authorization header with JWT token is required' },
+        { status: 401 }
+      )
+    }
+
+    const clientId = getClientIdentifier(req)
+    const userUUID = getUserUUIDFromJWT(authorization.substring(7))
+    if (!userUUID) {
+      logger.security('invalid_jwt_payload', { clientId })
+      return NextResponse.json(
+        { error: 'Invalid JWT token: unable to extract user information' },
+        { status: 401 }
+      )
+    }
+
+    const redis = getRedis()
+    const job = await redis.hgetall(REDIS_KEYS.job(jobId))
+
+    if (!job || Object.keys(job).length === 0) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    if (job.userUUID !== userUUID) {
+      logger.security('failure_report_forbidden', { clientId, jobId })
+      return NextResponse.json(
+        {
+          error: 'Only the user who started the job can download its failures',
+        },
+        { status: 403 }
+      )
+    }
+
+    const { failures } = await getJobFailures(jobId, 0, MAX_OBJECTS_PER_IMPORT)
+    if (failures.length === 0) {
+      return NextResponse.json(
+        { error: 'Job has no failed objects' },
+        { status: 404 }
+      )
+    }
+
+    const report = buildFailureReport(failures)
+    const filename = `import-failures-${jobId.substring(0, 8)}.${format}`
+
+    const body =
+      format === 'xlsx'
+        ? new Uint8Array(await failureReportToXlsx(report))
+        : failureReportToCsv(report)
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type':
+          format === 'xlsx'
+            ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+            : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error: any) {
+    logger.import(
+      'Failure report API failed',
+      {
+        jobId,
+        error: error.message,
+        errorStack: error.stack,
+        timestamp: new Date().toISOString(),
+      },
+      'error'
+    )
+    return NextResponse.json(
+      { error: 'Failed to build failure report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,313 @@
+import { NextResponse } from 'next/server'
+import crypto from 'crypto'
+import { headers } from 'next/headers'
+
+import { getRedis } from '@/lib/redis'
+import {
+  getFailedObjectsForRetry,
+  hsetWithTTL,
+  recordJobFailures,
+  REDIS_KEYS,
+  setWithTTL,
+} from '@/lib/redis-utils'
+import {
+  validateImportPayload,
+  checkImportRateLimit,
+  checkConcurrentJobLimit,
+  trackUserJob,
+  getClientIdentifier,
+} from '@/lib/security-utils'
+import { logger } from '@/lib/logger'
+import { API_CHUNK_SIZE } from '@/constants'
+import { startImportJob } from '@/lib/import-processor'
+import {
+  parseMergeFailures,
+  parseMergeSummary,
+  toMergeFailureRecords,
+} from '@/lib/import-merge'
+import { getUserUUIDFromJWT } from '@/lib/jwt-utils'
+
+// The job to retry and the user retrying it
+interface RetryContext {
+  parentJob: Record<string, string>
+  userUUID: string
+  clientId: string
+  jwtToken: string
+}
+
+/**
+ * Check that the requesting user can retry the job, returns the error
+ * response when they can't
+ */
+async function loadRetryContext(
+  req: Request,
+  jobId: string
+): Promise<RetryContext | NextResponse> {
+  const headersList = await headers()
+  const authorization = headersList.get('authorization')
+
+  if (!authorization || !authorization.startsWith('Bearer ')) {
+    logger.security('missing_jwt_token_retry', {
+      clientId: getClientIdentifier(req),
+    })
+    return NextResponse.json(
+      { error: 'Authorization header with JWT token is required' },
+      { status: 401 }
+    )
+  }
+
+  const jwtToken = authorization.substring(7) // Remove 'Bearer ' prefix
+  const clientId = getClientIdentifier(req)
+
+  const userUUID = getUserUUIDFromJWT(jwtToken)
+  if (!userUUID) {
+    logger.security('invalid_jwt_payload', { clientId })
+    return NextResponse.json(
+      { error: 'Invalid JWT token: unable to extract user information' },
+      { status: 401 }
+    )
+  }
+
+  const redis = getRedis()
+  const parentJob = await redis.hgetall(REDIS_KEYS.job(jobId))
+
+  if (!parentJob || Object.keys(parentJob).length === 0) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+  }
+
+  if (parentJob.userUUID !== userUUID) {
+    logger.security('retry_job_forbidden', { clientId, jobId })
+    return NextResponse.json(
+      { error: 'Only the user who started the job can retry it' },
+      { status: 403 }
+    )
+  }
+
+  if (['pending', 'receiving', 'processing'].includes(parentJob.status)) {
+    return NextResponse.json(
+      { error: 'Job is still running, wait for it to finish' },
+      { status: 400 }
+    )
+  }
+
+  if (parentJob.dryRun === 'true') {
+    return NextResponse.json(
+      { error: 'Dry runs cannot be retried' },
+      { status: 400 }
+    )
+  }
+
+  if (parentJob.retryJobId) {
+    return NextResponse.json(
+      {
+        error: `Failed objects were already retried in job ${parentJob.retryJobId}`,
+        retryJobId: parentJob.retryJobId,
+      },
+      { status: 409 }
+    )
+  }
+
+  return { parentJob, userUUID, clientId, jwtToken }
+}
+
+/**
+ * GET /api/import/jobs/:jobId/retry - Failed merge updates of a job
+ *
+ * Merge updates are applied by the client, which retries these before
+ * starting the retry job and sends the result along with it.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params
+
+  try {
+    const context = await loadRetryContext(req, jobId)
+    if (context instanceof NextResponse) return context
+
+    const { updates } = await getFailedObjectsForRetry(jobId)
+    return NextResponse.json({ updates })
+  } catch (error: any) {
+    logger.import(
+      'Import retry updates API failed',
+      { jobId, error: error.message },
+      'error'
+    )
+    return NextResponse.json(
+      { error: 'Failed to get failed updates' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/import/jobs/:jobId/retry - Retry the failed objects of a job
+ *
+ * Starts a child job with the objects stored in the job's failure records.
+ * The child job points at its parent through `parentJobId`, the parent at
+ * the child through `retryJobId`. A job can only be retried once, retry the
+ * child job for further attempts.
+ *
+ * Body (optional), the result of retrying the failed merge updates:
+ *   - merge: counts of the retried updates
+ *   - mergeFailures: updates that failed again
+ *   - aggregateEntityList: updated objects that no longer exist, created
+ *     by the retry job instead
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params
+  // Set once this request owns the parent job's retry
+  let claimedRetryJobId: string | null = null
+
+  try {
+    const context = await loadRetryContext(req, jobId)
+    if (context instanceof NextResponse) return context
+    const { userUUID, clientId, jwtToken } = context
+
+    const body = await req.json().catch(() => ({}))
+    const merge = parseMergeSummary(body.merge)
+    const mergeFailures = merge ? parseMergeFailures(body.mergeFailures) : []
+    const recreated: Record<string, unknown>[] = Array.isArray(
+      body.aggregateEntityList
+    )
+      ? body.aggregateEntityList
+      : []
+
+    const failed = await getFailedObjectsForRetry(jobId)
+    const objects = [...failed.objects, ...recreated]
+    if (objects.length === 0 && !merge) {
+      return NextResponse.json(
+        { error: 'No failed objects to retry' },
+        { status: 400 }
+      )
+    }
+
+    const payloadValidation = validateImportPayload(objects)
+    if (!payloadValidation.valid) {
+      return NextResponse.json(
+        { error: payloadValidation.error },
+        { status: 413 }
+      )
+    }
+
+    // Check rate limiting
+    const rateLimitCheck = await checkImportRateLimit(clientId, userUUID)
+    if (!rateLimitCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: rateLimitCheck.error,
+          rateLimitInfo: rateLimitCheck.rateLimitInfo,
+        },
+        { status: 429 }
+      )
+    }
+
+    // Check concurrent job limits
+    const jobLimitCheck = await checkConcurrentJobLimit(userUUID)
+    if (!jobLimitCheck.allowed) {
+      return NextResponse.json({ error: jobLimitCheck.error }, { status: 429 })
+    }
+
+    // Claim the retry atomically, concurrent requests that passed the check
+    // above get a conflict instead of starting a second child job
+    const retryJobId = crypto.randomUUID()
+    const redis = getRedis()
+    const claimed = await redis.hsetnx(
+      REDIS_KEYS.job(jobId),
+      'retryJobId',
+      retryJobId
+    )
+    if (!claimed) {
+      const existingRetryJobId = await redis.hget(
+        REDIS_KEYS.job(jobId),
+        'retryJobId'
+      )
+      return NextResponse.json(
+        {
+          error: `Failed objects were already retried in job ${existingRetryJobId}`,
+          retryJobId: existingRetryJobId,
+        },
+        { status: 409 }
+      )
+    }
+    claimedRetryJobId = retryJobId
+
+    const totalChunks = Math.ceil(objects.length / API_CHUNK_SIZE)
+
+    for (let i = 0; i < objects.length; i += API_CHUNK_SIZE) {
+      await setWithTTL(
+        REDIS_KEYS.chunk(retryJobId, Math.floor(i / API_CHUNK_SIZE)),
+        JSON.stringify(objects.slice(i, i + API_CHUNK_SIZE))
+      )
+    }
+
+    await hsetWithTTL(REDIS_KEYS.job(retryJobId), {
+      status: 'pending',
+      userUUID,
+      clientId,
+      jwtToken, // Store the current JWT token, the parent's may have expired
+      createdAt: Date.now().toString(),
+      objectCount: objects.length.toString(),
+      total: objects.length,
+      processed: 0,
+      failed: 0,
+      totalChunks: totalChunks.toString(),
+      dryRun: 'false',
+      parentJobId: jobId,
+      ...(merge && {
+        mergeUpdated: merge.updated.toString(),
+        mergeUnchanged: merge.unchanged.toString(),
+        mergeFailed: merge.failed.toString(),
+      }),
+    })
+    await recordJobFailures(retryJobId, toMergeFailureRecords(mergeFailures))
+
+    await trackUserJob(userUUID, retryJobId)
+
+    // Start background processing
+    startImportJob(retryJobId, 'retry')
+
+    logger.import(`Retry job ${retryJobId} started for job ${jobId}`, {
+      jobId,
+      retryJobId,
+      totalObjects: objects.length,
+    })
+
+    return NextResponse.json({
+      jobId: retryJobId,
+      parentJobId: jobId,
+      status: 'started',
+      message: 'Retry job started successfully',
+      totalObjects: objects.length,
+    })
+  } catch (error: any) {
+    logger.import(
+      'Import retry API failed',
+      {
+        jobId,
+        error: error.message,
+        errorStack: error.stack,
+        timestamp: new Date().toISOString(),
+      },
+      'error'
+    )
+
+    // Release the claim so the job can be retried again
+    if (claimedRetryJobId) {
+      await getRedis()
+        .hdel(REDIS_KEYS.job(jobId), 'retryJobId')
+        .catch(() =>
+          logger.import('Failed to release retry claim', { jobId }, 'error')
+        )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to start retry job' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getRedis } from '@/lib/redis'
+import { getJobFailureGroups, isJobKey, REDIS_KEYS } from '@/lib/redis-utils'
 import { logger } from '@/lib/logger'
+import type { ImportValidationReport } from '@/lib/import-validation'
+import type { ImportMergeSummary } from '@/lib/import-merge'
 
 interface JobSummary {
   jobId: string
@@ -11,10 +14,31 @@ interface JobSummary {
   createdAt: number | null
   completedAt: number | null
   error: string | null
+  dryRun: boolean
+  // Updated / unchanged / failed counts of merge imports
+  merge: ImportMergeSummary | null
+  // Job this job retries the failed objects of
+  parentJobId: string | null
+  // Job that retried this job's failed objects
+  retryJobId: string | null
 }
 
 interface JobDetails extends JobSummary {
-  // Additional fields for detailed view
+  // Validation report of dry-run jobs
+  report?: ImportValidationReport | null
+  // Stored failures by error message, these objects can be retried
+  failureGroups?: { error: string; count: number }[]
+}
+
+function readMergeSummary(
+  jobData: Record<string, string>
+): ImportMergeSummary | null {
+  if (jobData.mergeUpdated === undefined) return null
+  return {
+    updated: parseInt(jobData.mergeUpdated || '0'),
+    unchanged: parseInt(jobData.mergeUnchanged || '0'),
+    failed: parseInt(jobData.mergeFailed || '0'),
+  }
 }
 
 /**
@@ -50,7 +74,8 @@ async function scanKeys(pattern: string): Promise<string[]> {
  *
  * Get specific job details:
  *   Query params:
- *   - jobId: Specific job ID to get details for
+ *   - jobId: Specific job ID to get details for (includes the validation
+ *     report for dry runs and the failures grouped by error otherwise)
  */
 export async function GET(req: NextRequest) {
   const url = new URL(req.url)
@@ -79,6 +104,17 @@ export async function GET(req: NextRequest) {
         createdAt: jobData.createdAt ? parseInt(jobData.createdAt) : null,
         completedAt: jobData.completedAt ? parseInt(jobData.completedAt) : null,
         error: jobData.error || null,
+        dryRun: jobData.dryRun === 'true',
+        merge: readMergeSummary(jobData),
+        parentJobId: jobData.parentJobId || null,
+        retryJobId: jobData.retryJobId || null,
+      }
+
+      if (response.dryRun) {
+        const report = await redis.get(REDIS_KEYS.report(jobId))
+        response.report = report ? JSON.parse(report) : null
+      } else if (response.failed > 0 || (response.merge?.failed ?? 0) > 0) {
+        response.failureGroups = await getJobFailureGroups(jobId)
       }
 
       return NextResponse.json(response)
@@ -86,9 +122,7 @@ export async function GET(req: NextRequest) {
 
     // Otherwise, return list of all jobs
     const jobKeys = await scanKeys('import:*')
-    const jobDataKeys = jobKeys.filter(
-      (key) => !key.includes(':chunk:') && !key.includes(':failures')
-    )
+    const jobDataKeys = jobKeys.filter(isJobKey)
 
     const jobs: JobSummary[] = []
 
@@ -110,6 +144,10 @@ export async function GET(req: NextRequest) {
         createdAt: jobData.createdAt ? parseInt(jobData.createdAt) : null,
         completedAt: jobData.completedAt ? parseInt(jobData.completedAt) : null,
         error: jobData.error || null,
+        dryRun: jobData.dryRun === 'true',
+        merge: readMergeSummary(jobData),
+        parentJobId: jobData.parentJobId || null,
+        retryJobId: jobData.retryJobId || null,
       })
 
       // Stop if we've reached the limit
@@ -3,7 +3,7 @@ import crypto from 'crypto'
 import { headers } from 'next/headers'
 
 import { getRedis } from '@/lib/redis'
-import { hsetWithTTL } from '@/lib/redis-utils'
+import { hsetWithTTL, recordJobFailures } from '@/lib/redis-utils'
 import {
   validateRequestBasics,
   validateImportPayload,
@@ -14,7 +14,12 @@ import {
 } from '@/lib/security-utils'
 import { logger } from '@/lib/logger'
 import { API_CHUNK_SIZE } from '@/constants'
-import { processImportJob } from '@/lib/import-processor'
+import {
+  parseMergeFailures,
+  parseMergeSummary,
+  toMergeFailureRecords,
+} from '@/lib/import-merge'
+import { startImportJob } from '@/lib/import-processor'
 import { getUserUUIDFromJWT } from '@/lib/jwt-utils'
 
 /**
@@ -52,6 +57,12 @@ export async function POST(req: Request) {
     // Parse request body
     const body = await req.json()
     const { aggregateEntityList } = body // No user object needed - JWT contains user info
+    // Dry runs only validate the objects, nothing is persisted
+    const dryRun = body.dryRun === true
+    // Merge imports update matched objects before starting the job, only new
+    // objects are sent along with the counts of those updates
+    const merge = parseMergeSummary(body.merge)
+    const mergeFailures = merge ? parseMergeFailures(body.mergeFailures) : []
 
     const clientId = getClientIdentifier(req)
 
@@ -64,7 +75,7 @@ export async function POST(req: Request) {
       )
     }
 
-    if (aggregateEntityList.length === 0) {
+    if (aggregateEntityList.length === 0 && !merge) {
       return NextResponse.json(
         { error: 'Invalid data: aggregateEntityList cannot be empty' },
         { status: 400 }
@@ -127,8 +138,17 @@ export async function POST(req: Request) {
       createdAt: Date.now().toString(),
       payloadSizeMB: payloadValidation.size?.toFixed(2) || '0',
       objectCount: payloadValidation.objectCount?.toString() || '0',
+      dryRun: dryRun.toString(),
+      ...(merge && {
+        mergeUpdated: merge.updated.toString(),
+        mergeUnchanged: merge.unchanged.toString(),
+        mergeFailed: merge.failed.toString(),
+      }),
     })
 
+    // Failed merge updates are reported and retried with the job
+    await recordJobFailures(jobId, toMergeFailureRecords(mergeFailures))
+
     // Track this job for the user
     await trackUserJob(userUUID, jobId)
 
@@ -161,7 +181,7 @@ export async function POST(req: Request) {
     })
 
     // Start background processing
-    startProcessing(jobId)
+    startImportJob(jobId, 'import')
 
     // Include warnings in response if any
     const response: any = {
@@ -169,6 +189,7 @@ export async function POST(req: Request) {
       status: 'started',
       message: 'Import job started successfully',
       totalObjects: objects.length,
+      dryRun,
     }
 
     if (rateLimitCheck.warning) {
@@ -199,54 +220,3 @@ export async function POST(req: Request) {
     )
   }
 }
-
-// Function to start processing in the background
-async function startProcessing(jobId: string) {
-  try {
-    const redis = getRedis()
-
-    // Test Redis connection before processing
-    await redis.ping()
-    logger.import('Redis connection verified for job processing', { jobId })
-
-    // Update job status to processing
-    await redis.hset(`import:${jobId}`, { status: 'processing' })
-
-    // Process the job in the background
-    // We're using setImmediate to make it non-blocking
-    setImmediate(() => {
-      processImportJob(jobId).catch((error) => {
-        const errorContext = {
-          jobId,
-          error: error.message,
-          errorStack: error.stack,
-          timestamp: new Date().toISOString(),
-          redisConnected: 'unknown',
-        }
-
-        logger.import('Background job failed', errorContext, 'error')
-
-        // Update job status to failed
-        redis
-          .hset(`import:${jobId}`, {
-            status: 'failed',
-            error: error.message,
-            failedAt: Date.now().toString(),
-          })
-          .catch(() =>
-            logger.import('Job status update failed', { jobId }, 'error')
-          )
-      })
-    })
-  } catch (error) {
-    logger.import(
-      'Failed to start background processing',
-      {
-        jobId,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: new Date().toISOString(),
-      },
-      'error'
-    )
-  }
-}
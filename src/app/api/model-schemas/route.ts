@@ -0,0 +1,170 @@
+import { NextResponse } from 'next/server'
+
+import { getRedis } from '@/lib/redis'
+import { REDIS_KEYS } from '@/lib/redis-utils'
+import {
+  canAccessObject,
+  getBearerToken,
+  getRequestUserUUID,
+} from '@/lib/auth-utils'
+import { logger } from '@/lib/logger'
+import type {
+  ModelPropertySchema,
+  ModelSchema,
+  ModelSchemaInput,
+} from '@/types'
+
+// Upper bound on properties in one model schema
+const MAX_SCHEMA_PROPERTIES = 200
+const MAX_KEY_LENGTH = 100
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function unauthorized() {
+  return NextResponse.json(
+    { error: 'Authorization header with JWT token is required' },
+    { status: 401 }
+  )
+}
+
+async function readModelSchemas(): Promise<ModelSchema[]> {
+  const redis = getRedis()
+  const entries = await redis.hgetall(REDIS_KEYS.modelSchemas())
+
+  return Object.entries(entries)
+    .map(([modelUuid, data]) => {
+      try {
+        return JSON.parse(data) as ModelSchema
+      } catch (e) {
+        logger.error('Failed to parse model schema', { modelUuid, error: e })
+        return null
+      }
+    })
+    .filter((schema): schema is ModelSchema => schema !== null)
+}
+
+function isSchemaProperty(property: any): property is ModelPropertySchema {
+  return (
+    typeof property?.key === 'string' &&
+    property.key.trim().length > 0 &&
+    property.key.trim().length <= MAX_KEY_LENGTH &&
+    (property.label === undefined || typeof property.label === 'string') &&
+    typeof property.valueTypeCast === 'string' &&
+    typeof property.required === 'boolean' &&
+    Array.isArray(property.defaultValues) &&
+    property.defaultValues.every((value: any) => typeof value === 'string')
+  )
+}
+
+/**
+ * Validate schema input. Returns the schema input or an error.
+ */
+function validateInput(
+  body: any
+): { schema: ModelSchemaInput } | { error: string } {
+  if (
+    typeof body?.modelUuid !== 'string' ||
+    !UUID_PATTERN.test(body.modelUuid)
+  ) {
+    return { error: 'Model UUID is required' }
+  }
+  if (!Array.isArray(body.properties)) {
+    return { error: 'Model schema properties are required' }
+  }
+  if (body.properties.length > MAX_SCHEMA_PROPERTIES) {
+    return {
+      error: `A model schema can have at most ${MAX_SCHEMA_PROPERTIES} properties`,
+    }
+  }
+  if (!body.properties.every(isSchemaProperty)) {
+    return { error: 'Model schema properties are invalid' }
+  }
+
+  const keys = body.properties.map((property: ModelPropertySchema) =>
+    property.key.trim()
+  )
+  if (new Set(keys).size !== keys.length) {
+    return { error: 'Model schema property keys must be unique' }
+  }
+
+  return {
+    schema: {
+      modelUuid: body.modelUuid,
+      properties: body.properties.map((property: ModelPropertySchema) => ({
+        key: property.key.trim(),
+        ...(property.label?.trim() && { label: property.label.trim() }),
+        valueTypeCast: property.valueTypeCast,
+        required: property.required,
+        defaultValues: property.defaultValues,
+      })),
+    },
+  }
+}
+
+// Get the property schemas of the models the user can read
+export async function GET(req: Request) {
+  const userUUID = await getRequestUserUUID(req)
+  const token = getBearerToken(req)
+  if (!userUUID || !token) return unauthorized()
+
+  try {
+    const schemas = await readModelSchemas()
+    const readable = await Promise.all(
+      schemas.map((schema) => canAccessObject(token, schema.modelUuid, 'read'))
+    )
+    return NextResponse.json({
+      schemas: schemas.filter((_, index) => readable[index]),
+    })
+  } catch (error) {
+    logger.error('Error fetching model schemas', { error })
+    return NextResponse.json(
+      { error: 'Failed to fetch model schemas' },
+      { status: 500 }
+    )
+  }
+}
+
+// Create or replace the property schema of a model the user can edit
+export async function PUT(req: Request) {
+  const userUUID = await getRequestUserUUID(req)
+  const token = getBearerToken(req)
+  if (!userUUID || !token) return unauthorized()
+
+  try {
+    const input = validateInput(await req.json())
+    if ('error' in input) {
+      return NextResponse.json({ error: input.error }, { status: 400 })
+    }
+    if (!(await canAccessObject(token, input.schema.modelUuid, 'edit'))) {
+      logger.security('model_schema_access_denied', {
+        userUUID,
+        modelUuid: input.schema.modelUuid,
+      })
+      return NextResponse.json(
+        { error: 'You are not allowed to edit this model' },
+        { status: 403 }
+      )
+    }
+
+    const schema: ModelSchema = {
+      ...input.schema,
+      updatedBy: userUUID,
+      updatedAt: Date.now(),
+    }
+
+    await getRedis().hset(
+      REDIS_KEYS.modelSchemas(),
+      schema.modelUuid,
+      JSON.stringify(schema)
+    )
+
+    return NextResponse.json({ success: true, schema })
+  } catch (error) {
+    logger.error('Error saving model schema', { error })
+    return NextResponse.json(
+      { error: 'Failed to save model schema' },
+      { status: 500 }
+    )
+  }
+}
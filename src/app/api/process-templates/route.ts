@@ -0,0 +1,198 @@
+import { NextResponse } from 'next/server'
+import crypto from 'crypto'
+
+import { getRedis } from '@/lib/redis'
+import { REDIS_KEYS } from '@/lib/redis-utils'
+import { getRequestUserUUID } from '@/lib/auth-utils'
+import { logger } from '@/lib/logger'
+import type { ProcessTemplate, ProcessTemplateInput } from '@/types'
+
+// Upper bound on process templates per user
+const MAX_PROCESS_TEMPLATES = 100
+const MAX_NAME_LENGTH = 100
+
+function unauthorized() {
+  return NextResponse.json(
+    { error: 'Authorization header with JWT token is required' },
+    { status: 401 }
+  )
+}
+
+async function readProcessTemplates(
+  userUUID: string
+): Promise<ProcessTemplate[]> {
+  const redis = getRedis()
+  const entries = await redis.hgetall(REDIS_KEYS.processTemplates(userUUID))
+
+  return Object.entries(entries)
+    .map(([id, data]) => {
+      try {
+        return JSON.parse(data) as ProcessTemplate
+      } catch (e) {
+        logger.error('Failed to parse process template', { id, error: e })
+        return null
+      }
+    })
+    .filter((template): template is ProcessTemplate => template !== null)
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Validate template input. Returns the template input or an error.
+ */
+function validateInput(
+  body: any
+): { template: ProcessTemplateInput } | { error: string } {
+  if (typeof body?.name !== 'string' || !body.name.trim()) {
+    return { error: 'Process template name is required' }
+  }
+  if (body.name.trim().length > MAX_NAME_LENGTH) {
+    return { error: 'Process template name is too long' }
+  }
+  if (typeof body.processName !== 'string' || !body.processName.trim()) {
+    return { error: 'Process name is required' }
+  }
+  if (!Array.isArray(body.outputs) || body.outputs.length === 0) {
+    return { error: 'Process template needs at least one output' }
+  }
+
+  const validOutputs = body.outputs.every(
+    (output: any) =>
+      typeof output?.object?.uuid === 'string' &&
+      typeof output.object.name === 'string' &&
+      typeof output.ratio === 'number' &&
+      Number.isFinite(output.ratio) &&
+      output.ratio >= 0
+  )
+  if (!validOutputs) {
+    return { error: 'Process template outputs are invalid' }
+  }
+
+  return {
+    template: {
+      name: body.name.trim(),
+      processName: body.processName.trim(),
+      processType:
+        typeof body.processType === 'string' ? body.processType : 'processing',
+      description:
+        typeof body.description === 'string' ? body.description : undefined,
+      processMetadata: body.processMetadata || {},
+      input: body.input || {},
+      outputs: body.outputs,
+      emissionsRatio:
+        typeof body.emissionsRatio === 'number'
+          ? body.emissionsRatio
+          : undefined,
+    },
+  }
+}
+
+// Get the current user's process templates
+export async function GET(req: Request) {
+  const userUUID = await getRequestUserUUID(req)
+  if (!userUUID) return unauthorized()
+
+  try {
+    const templates = await readProcessTemplates(userUUID)
+    return NextResponse.json({ templates })
+  } catch (error) {
+    logger.error('Error fetching process templates', { error })
+    return NextResponse.json(
+      { error: 'Failed to fetch process templates' },
+      { status: 500 }
+    )
+  }
+}
+
+// Create a new process template
+export async function POST(req: Request) {
+  const userUUID = await getRequestUserUUID(req)
+  if (!userUUID) return unauthorized()
+
+  try {
+    const input = validateInput(await req.json())
+    if ('error' in input) {
+      return NextResponse.json({ error: input.error }, { status: 400 })
+    }
+
+    const existing = await readProcessTemplates(userUUID)
+    if (existing.length >= MAX_PROCESS_TEMPLATES) {
+      return NextResponse.json(
+        {
+          error: `You can save at most ${MAX_PROCESS_TEMPLATES} process templates`,
+        },
+        { status: 400 }
+      )
+    }
+    if (
+      existing.some(
+        (template) =>
+          template.name.toLowerCase() === input.template.name.toLowerCase()
+      )
+    ) {
+      return NextResponse.json(
+        { error: 'Process template with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    const now = Date.now()
+    const template: ProcessTemplate = {
+      ...input.template,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    await getRedis().hset(
+      REDIS_KEYS.processTemplates(userUUID),
+      template.id,
+      JSON.stringify(template)
+    )
+
+    return NextResponse.json({ success: true, template })
+  } catch (error) {
+    logger.error('Error creating process template', { error })
+    return NextResponse.json(
+      { error: 'Failed to create process template' },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete a process template
+export async function DELETE(req: Request) {
+  const userUUID = await getRequestUserUUID(req)
+  if (!userUUID) return unauthorized()
+
+  try {
+    const { searchParams } = new URL(req.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Process template ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const removed = await getRedis().hdel(
+      REDIS_KEYS.processTemplates(userUUID),
+      id
+    )
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Process template not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Error deleting process template', { error })
+    return NextResponse.json(
+      { error: 'Failed to delete process template' },
+      { status: 500 }
+    )
+  }
+}
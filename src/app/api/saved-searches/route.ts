@@ -0,0 +1,227 @@
+import { NextResponse } from 'next/server'
+import crypto from 'crypto'
+
+import { getRedis } from '@/lib/redis'
+import { REDIS_KEYS } from '@/lib/redis-utils'
+import { getRequestUserUUID } from '@/lib/auth-utils'
+import { normalizeSearchQuery } from '@/lib/search-url'
+import { logger } from '@/lib/logger'
+import type { SavedSearch } from '@/types'
+
+// Upper bound on saved searches per user
+const MAX_SAVED_SEARCHES = 50
+const MAX_NAME_LENGTH = 100
+
+function unauthorized() {
+  return NextResponse.json(
+    { error: 'Authorization header with JWT token is required' },
+    { status: 401 }
+  )
+}
+
+async function readSavedSearches(userUUID: string): Promise<SavedSearch[]> {
+  const redis = getRedis()
+  const entries = await redis.hgetall(REDIS_KEYS.savedSearches(userUUID))
+
+  return Object.entries(entries)
+    .map(([id, data]) => {
+      try {
+        return JSON.parse(data) as SavedSearch
+      } catch (e) {
+        logger.error('Failed to parse saved search', { id, error: e })
+        return null
+      }
+    })
+    .filter((search): search is SavedSearch => search !== null)
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Validate name/query input. Returns the normalized query or an error.
+ */
+function validateInput(
+  name: unknown,
+  query: unknown
+): { name: string; query: string } | { error: string } {
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'Saved search name is required' }
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return { error: 'Saved search name is too long' }
+  }
+  if (typeof query !== 'string') {
+    return { error: 'Saved search query is required' }
+  }
+
+  // Store the normalized form so the query round-trips exactly
+  const normalized = normalizeSearchQuery(query)
+  if (!normalized) {
+    return { error: 'Saved search query is empty' }
+  }
+
+  return { name: name.trim(), query: normalized }
+}
+
+// Get the current user's saved searches
+export async function GET(req: Request) {
+  const userUUID = await getRequestUserUUID(req)
+  if (!userUUID) return unauthorized()
+
+  try {
+    const searches = await readSavedSearches(userUUID)
+    return NextResponse.json({ searches })
+  } catch (error) {
+    logger.error('Error fetching saved searches', { error })
+    return NextResponse.json(
+      { error: 'Failed to fetch saved searches' },
+      { status: 500 }
+    )
+  }
+}
+
+// Create a new saved search
+export async function POST(req: Request) {
+  const userUUID = await getRequestUserUUID(req)
+  if (!userUUID) return unauthorized()
+
+  try {
+    const body = await req.json()
+    const input = validateInput(body.name, body.query)
+    if ('error' in input) {
+      return NextResponse.json({ error: input.error }, { status: 400 })
+    }
+
+    const existing = await readSavedSearches(userUUID)
+    if (existing.length >= MAX_SAVED_SEARCHES) {
+      return NextResponse.json(
+        { error: `You can save at most ${MAX_SAVED_SEARCHES} searches` },
+        { status: 400 }
+      )
+    }
+    if (
+      existing.some(
+        (search) => search.name.toLowerCase() === input.name.toLowerCase()
+      )
+    ) {
+      return NextResponse.json(
+        { error: 'Saved search with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    const now = Date.now()
+    const search: SavedSearch = {
+      id: crypto.randomUUID(),
+      name: input.name,
+      query: input.query,
+      pinned: body.pinned === true,
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    await getRedis().hset(
+      REDIS_KEYS.savedSearches(userUUID),
+      search.id,
+      JSON.stringify(search)
+    )
+
+    return NextResponse.json({ success: true, search })
+  } catch (error) {
+    logger.error('Error creating saved search', { error })
+    return NextResponse.json(
+      { error: 'Failed to create saved search' },
+      { status: 500 }
+    )
+  }
+}
+
+// Update a saved search (rename, change query or pin/unpin)
+export async function PATCH(req: Request) {
+  const userUUID = await getRequestUserUUID(req)
+  if (!userUUID) return unauthorized()
+
+  try {
+    const { id, ...changes } = await req.json()
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Saved search ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const redis = getRedis()
+    const key = REDIS_KEYS.savedSearches(userUUID)
+    const data = await redis.hget(key, id)
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Saved search not found' },
+        { status: 404 }
+      )
+    }
+
+    const current = JSON.parse(data) as SavedSearch
+    const input = validateInput(
+      changes.name ?? current.name,
+      changes.query ?? current.query
+    )
+    if ('error' in input) {
+      return NextResponse.json({ error: input.error }, { status: 400 })
+    }
+
+    const search: SavedSearch = {
+      ...current,
+      name: input.name,
+      query: input.query,
+      pinned:
+        typeof changes.pinned === 'boolean' ? changes.pinned : current.pinned,
+      updatedAt: Date.now(),
+    }
+
+    await redis.hset(key, id, JSON.stringify(search))
+
+    return NextResponse.json({ success: true, search })
+  } catch (error) {
+    logger.error('Error updating saved search', { error })
+    return NextResponse.json(
+      { error: 'Failed to update saved search' },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete a saved search
+export async function DELETE(req: Request) {
+  const userUUID = await getRequestUserUUID(req)
+  if (!userUUID) return unauthorized()
+
+  try {
+    const { searchParams } = new URL(req.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Saved search ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const removed = await getRedis().hdel(
+      REDIS_KEYS.savedSearches(userUUID),
+      id
+    )
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Saved search not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Error deleting saved search', { error })
+    return NextResponse.json(
+      { error: 'Failed to delete saved search' },
+      { status: 500 }
+    )
+  }
+}
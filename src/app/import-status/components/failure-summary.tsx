@@ -0,0 +1,104 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { AlertCircle, Download, Loader2, RotateCcw } from 'lucide-react'
+
+import { Badge, Button } from '@/components/ui'
+import type { ImportFailureGroup } from '@/hooks/import/types'
+import type { FailureReportFormat } from '@/lib/import-failure-report'
+
+interface FailureSummaryProps {
+  failureGroups: ImportFailureGroup[]
+  // Set once the failed objects were retried
+  retryJobId: string | null
+  onRetry: () => void
+  onShowJob: (jobId: string) => void
+  onDownload: (format: FailureReportFormat) => void
+  isRetrying: boolean
+}
+
+export function FailureSummary({
+  failureGroups,
+  retryJobId,
+  onRetry,
+  onShowJob,
+  onDownload,
+  isRetrying,
+}: FailureSummaryProps) {
+  const t = useTranslations()
+  const total = failureGroups.reduce((sum, group) => sum + group.count, 0)
+
+  if (total === 0) return null
+
+  return (
+    <div className="p-4 rounded-lg border bg-card space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <AlertCircle className="h-4 w-4 text-red-500" />
+          {t('importStatus.retry.title', { count: total })}
+        </div>
+        {retryJobId ? (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onShowJob(retryJobId)}
+          >
+            {t('importStatus.retry.showRetryJob', {
+              id: retryJobId.substring(0, 8),
+            })}
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            onClick={onRetry}
+            disabled={isRetrying}
+            className="gap-2"
+          >
+            {isRetrying ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <RotateCcw className="h-3 w-3" />
+            )}
+            {t('importStatus.retry.button', { count: total })}
+          </Button>
+        )}
+      </div>
+
+      <ul className="space-y-1.5">
+        {failureGroups.map((group) => (
+          <li
+            key={group.error}
+            className="flex items-start justify-between gap-3 text-sm"
+          >
+            <span className="font-mono text-xs text-destructive/80 break-all">
+              {group.error}
+            </span>
+            <Badge variant="secondary" className="flex-shrink-0">
+              {group.count.toLocaleString()}
+            </Badge>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-between gap-2 pt-2 border-t">
+        <span className="text-xs text-muted-foreground">
+          {t('importStatus.retry.downloadHint')}
+        </span>
+        <div className="flex gap-2">
+          {(['csv', 'xlsx'] as const).map((format) => (
+            <Button
+              key={format}
+              size="sm"
+              variant="outline"
+              onClick={() => onDownload(format)}
+              className="gap-2"
+            >
+              <Download className="h-3 w-3" />
+              {format.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import {
+  CheckCircle2,
+  Minus,
+  PlusCircle,
+  RefreshCcw,
+  XCircle,
+} from 'lucide-react'
+
+import { cn } from '@/lib/utils'
+import type { ImportMergeSummary } from '@/lib/import-merge'
+
+interface MergeSummaryProps {
+  merge: ImportMergeSummary
+  // Objects created and failed by the import job itself
+  created: number
+  failed: number
+}
+
+export function MergeSummary({ merge, created, failed }: MergeSummaryProps) {
+  const t = useTranslations()
+  const totalFailed = failed + merge.failed
+
+  const stats = [
+    {
+      label: t('importStatus.merge.created'),
+      value: created,
+      icon: PlusCircle,
+      color: 'text-emerald-600 dark:text-emerald-400',
+      background: 'bg-emerald-100 dark:bg-emerald-900/40',
+    },
+    {
+      label: t('importStatus.merge.updated'),
+      value: merge.updated,
+      icon: RefreshCcw,
+      color: 'text-blue-600 dark:text-blue-400',
+      background: 'bg-blue-100 dark:bg-blue-900/40',
+    },
+    {
+      label: t('importStatus.merge.unchanged'),
+      value: merge.unchanged,
+      icon: Minus,
+      color: 'text-muted-foreground',
+      background: 'bg-muted',
+    },
+    {
+      label: t('importStatus.merge.failed'),
+      value: totalFailed,
+      icon: totalFailed > 0 ? XCircle : CheckCircle2,
+      color:
+        totalFailed > 0
+          ? 'text-red-600 dark:text-red-400'
+          : 'text-muted-foreground',
+      background:
+        totalFailed > 0 ? 'bg-red-100 dark:bg-red-900/40' : 'bg-muted',
+    },
+  ]
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium text-muted-foreground">
+        {t('importStatus.merge.title')}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {stats.map(({ label, value, icon: Icon, color, background }) => (
+          <div key={label} className="rounded-lg border bg-card p-3">
+            <div className="flex items-center gap-2 mb-2">
+              <div className={cn('p-1.5 rounded-md', background)}>
+                <Icon className={cn('h-3.5 w-3.5', color)} />
+              </div>
+              <span className="text-xs font-medium text-muted-foreground">
+                {label}
+              </span>
+            </div>
+            <div className={cn('text-xl font-semibold', color)}>
+              {value.toLocaleString()}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
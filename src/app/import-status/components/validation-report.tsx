@@ -0,0 +1,131 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { CheckCircle2, ShieldAlert } from 'lucide-react'
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+  Badge,
+} from '@/components/ui'
+import type {
+  ImportIssueType,
+  ImportRowIssue,
+  ImportValidationReport,
+} from '@/lib/import-validation'
+
+const ISSUE_TYPES: ImportIssueType[] = [
+  'missing_required',
+  'duplicate_name',
+  'invalid_number',
+  'oversize',
+  'unresolved_parent',
+  'parent_cycle',
+]
+
+interface ValidationReportProps {
+  report: ImportValidationReport
+}
+
+export function ValidationReport({ report }: ValidationReportProps) {
+  const t = useTranslations()
+
+  const describeIssue = (issue: ImportRowIssue) => {
+    switch (issue.type) {
+      case 'missing_required':
+        return t('importStatus.report.issues.missing_required', {
+          field: issue.field || '',
+        })
+      case 'duplicate_name':
+        return t('importStatus.report.issues.duplicate_name', {
+          row: issue.value || '',
+        })
+      case 'invalid_number':
+        return t('importStatus.report.issues.invalid_number', {
+          field: issue.field || '',
+          value: issue.value || '',
+        })
+      case 'oversize':
+        return t('importStatus.report.issues.oversize', {
+          size: issue.value || '',
+        })
+      case 'unresolved_parent':
+        return t('importStatus.report.issues.unresolved_parent', {
+          value: issue.value || '',
+        })
+      case 'parent_cycle':
+        return t('importStatus.report.issues.parent_cycle', {
+          rows: issue.value || '',
+        })
+    }
+  }
+
+  if (report.issues.length === 0) {
+    return (
+      <div className="p-4 rounded-lg border border-emerald-200 bg-emerald-50 dark:border-emerald-900 dark:bg-emerald-900/20 flex items-center gap-2 text-sm">
+        <CheckCircle2 className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />
+        {t('importStatus.report.allValid', { count: report.total })}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <ShieldAlert className="h-4 w-4 text-yellow-500" />
+        {t('importStatus.report.title', {
+          invalid: report.invalid,
+          total: report.total,
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {ISSUE_TYPES.filter((type) => report.issueCounts[type] > 0).map(
+          (type) => (
+            <Badge key={type} variant="secondary">
+              {t(`importStatus.report.types.${type}`)}:{' '}
+              {report.issueCounts[type].toLocaleString()}
+            </Badge>
+          )
+        )}
+      </div>
+
+      <div className="max-h-[400px] overflow-auto rounded-md border bg-card">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[80px]">
+                {t('importStatus.report.row')}
+              </TableHead>
+              <TableHead>{t('importStatus.report.name')}</TableHead>
+              <TableHead>{t('importStatus.report.issue')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.issues.map((issue, index) => (
+              <TableRow key={`${issue.row}-${issue.type}-${index}`}>
+                <TableCell className="font-mono text-xs">{issue.row}</TableCell>
+                <TableCell className="max-w-[200px] truncate">
+                  {issue.name || '—'}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {describeIssue(issue)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {report.truncated && (
+        <p className="text-xs text-muted-foreground">
+          {t('importStatus.report.truncated', { shown: report.issues.length })}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import Link from 'next/link'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useEffect } from 'react'
 import { useTranslations } from 'next-intl'
+import { toast } from 'sonner'
 import {
   Loader2,
   CheckCircle2,
@@ -22,8 +23,12 @@ import {
 
 import { cn } from '@/lib/utils'
 import { useImportManager } from '@/hooks'
-import { Button, Progress } from '@/components/ui'
+import { Badge, Button, Progress } from '@/components/ui'
 import { ContentSkeleton } from '@/components/skeletons'
+import { ValidationReport } from './components/validation-report'
+import { MergeSummary } from './components/merge-summary'
+import { FailureSummary } from './components/failure-summary'
+import type { FailureReportFormat } from '@/lib/import-failure-report'
 
 // Job status icon component
 function JobStatusIcon({ status }: { status: string }) {
@@ -81,6 +86,9 @@ export default function ImportStatusPage() {
     selectedJobId,
     cancelJob,
     cancellingJobId,
+    retryJob,
+    retryingJobId,
+    downloadFailureReport,
   } = useImportManager(initialJobId)
 
   // Check if we should redirect to objects page after completion
@@ -96,6 +104,14 @@ export default function ImportStatusPage() {
     }
   }, [selectedJob, router, searchParams])
 
+  // Show a job's details and keep its ID in the URL
+  const showJob = (jobId: string) => {
+    selectJob(jobId)
+    const newUrl = new URL(window.location.href)
+    newUrl.searchParams.set('jobId', jobId)
+    window.history.replaceState({}, '', newUrl.toString())
+  }
+
   // Toggle job expansion
   const toggleJob = (jobId: string) => {
     if (selectedJobId === jobId) {
@@ -105,11 +121,33 @@ export default function ImportStatusPage() {
       newUrl.searchParams.delete('jobId')
       window.history.replaceState({}, '', newUrl.toString())
     } else {
-      selectJob(jobId)
-      // Update URL with jobId
-      const newUrl = new URL(window.location.href)
-      newUrl.searchParams.set('jobId', jobId)
-      window.history.replaceState({}, '', newUrl.toString())
+      showJob(jobId)
+    }
+  }
+
+  // Retry the failed objects and switch to the retry job
+  const handleRetry = async (jobId: string) => {
+    try {
+      const retryJobId = await retryJob(jobId)
+      toast.success(t('importStatus.retry.started'))
+      showJob(retryJobId)
+    } catch (error) {
+      toast.error(t('importStatus.retry.failed'), {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    }
+  }
+
+  const handleDownloadFailures = async (
+    jobId: string,
+    format: FailureReportFormat
+  ) => {
+    try {
+      await downloadFailureReport(jobId, format)
+    } catch (error) {
+      toast.error(t('importStatus.retry.downloadFailed'), {
+        description: error instanceof Error ? error.message : undefined,
+      })
     }
   }
 
@@ -205,6 +243,21 @@ export default function ImportStatusPage() {
                             status: formatJobStatus(job),
                           })}
                         </div>
+                        {job.dryRun && (
+                          <Badge variant="outline">
+                            {t('importStatus.dryRun')}
+                          </Badge>
+                        )}
+                        {job.parentJobId && (
+                          <Badge variant="outline">
+                            {t('importStatus.retry.badge')}
+                          </Badge>
+                        )}
+                        {job.merge && (
+                          <Badge variant="outline">
+                            {t('importStatus.merge.badge')}
+                          </Badge>
+                        )}
                       </div>
                     </div>
                     <div className="flex-shrink-0 ml-4">
@@ -360,6 +413,18 @@ export default function ImportStatusPage() {
                             </div>
                           </div>
 
+                          {/* Merge Import Summary */}
+                          {selectedJob.merge && (
+                            <MergeSummary
+                              merge={selectedJob.merge}
+                              created={Math.max(
+                                0,
+                                selectedJob.processed - selectedJob.failed
+                              )}
+                              failed={selectedJob.failed}
+                            />
+                          )}
+
                           {/* Timestamps */}
                           <div className="grid grid-cols-2 gap-4">
                             <div className="flex items-center gap-2 text-sm">
@@ -395,18 +460,41 @@ export default function ImportStatusPage() {
                             </div>
                           )}
 
+                          {/* Failures by Error and Retry */}
+                          {selectedJob.failureGroups && (
+                            <FailureSummary
+                              failureGroups={selectedJob.failureGroups}
+                              retryJobId={selectedJob.retryJobId ?? null}
+                              onRetry={() => handleRetry(selectedJob.jobId)}
+                              onShowJob={showJob}
+                              onDownload={(format) =>
+                                handleDownloadFailures(
+                                  selectedJob.jobId,
+                                  format
+                                )
+                              }
+                              isRetrying={retryingJobId === selectedJob.jobId}
+                            />
+                          )}
+
+                          {/* Dry-run Validation Report */}
+                          {selectedJob.dryRun && selectedJob.report && (
+                            <ValidationReport report={selectedJob.report} />
+                          )}
+
                           {/* Actions */}
                           <div className="flex items-center justify-between pt-4 border-t">
                             <div className="flex gap-3">
-                              {(selectedJob.status === 'completed' ||
-                                selectedJob.status ===
-                                  'completed_with_errors') && (
-                                <Link href="/objects">
-                                  <Button size="sm">
-                                    {t('importStatus.viewObjects')}
-                                  </Button>
-                                </Link>
-                              )}
+                              {!selectedJob.dryRun &&
+                                (selectedJob.status === 'completed' ||
+                                  selectedJob.status ===
+                                    'completed_with_errors') && (
+                                  <Link href="/objects">
+                                    <Button size="sm">
+                                      {t('importStatus.viewObjects')}
+                                    </Button>
+                                  </Link>
+                                )}
                               {['pending', 'receiving', 'processing'].includes(
                                 selectedJob.status
                               ) && (
@@ -472,7 +560,7 @@ export default function ImportStatusPage() {
                           </div>
 
                           {/* Job ID */}
-                          <div className="pt-4 border-t">
+                          <div className="pt-4 border-t space-y-1">
                             <div className="text-xs text-muted-foreground">
                               <span className="font-medium">
                                 {t('importStatus.jobId')}
@@ -481,6 +569,18 @@ export default function ImportStatusPage() {
                                 {selectedJob.jobId}
                               </code>
                             </div>
+                            {selectedJob.parentJobId && (
+                              <button
+                                onClick={() =>
+                                  showJob(selectedJob.parentJobId!)
+                                }
+                                className="text-xs text-primary hover:underline"
+                              >
+                                {t('importStatus.retry.retryOf', {
+                                  id: selectedJob.parentJobId.substring(0, 8),
+                                })}
+                              </button>
+                            )}
                           </div>
                         </div>
                       ) : (
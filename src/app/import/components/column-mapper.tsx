@@ -424,6 +424,14 @@ export function ColumnMapper({
                   </TableBody>
                 </Table>
               </ScrollArea>
+
+              {Object.values(columnMapping).some(
+                (key) => key === 'parent' || key === 'parentPath'
+              ) && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  {t('import.map.parentHint')}
+                </p>
+              )}
             </div>
           </div>
 
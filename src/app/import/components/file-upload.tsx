@@ -66,6 +66,7 @@ export function FileUpload({
             'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
               ['.xlsx'],
             'text/csv': ['.csv'],
+            'application/json': ['.json'],
           }}
           maxFiles={1}
         >
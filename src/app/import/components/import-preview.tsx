@@ -2,7 +2,7 @@
 
 import { useMemo } from 'react'
 import { useTranslations } from 'next-intl'
-import { Download, Loader2 } from 'lucide-react'
+import { Download, Loader2, ShieldCheck } from 'lucide-react'
 
 import {
   Table,
@@ -14,11 +14,18 @@ import {
   Badge,
   Button,
 } from '@/components/ui'
+import type { ImportMergeKey } from '@/lib/import-merge'
+import { MergeOptions } from './merge-options'
 
 interface ImportPreviewProps {
   data: any[]
   onBack?: () => void
   onImport: () => Promise<void>
+  // Validate the data on the server without importing it
+  onValidate?: () => Promise<void>
+  // Match existing objects instead of always creating new ones
+  mergeKey?: ImportMergeKey | null
+  onMergeKeyChange?: (mergeKey: ImportMergeKey | null) => void
   title?: string
   description?: string
   isImporting: boolean
@@ -28,6 +35,9 @@ export function ImportPreview({
   data,
   onBack,
   onImport,
+  onValidate,
+  mergeKey = null,
+  onMergeKeyChange,
   title,
   description,
   isImporting,
@@ -38,6 +48,15 @@ export function ImportPreview({
   const totalRows = data.length
   const showingRows = previewData.length
 
+  // Names of objects other rows reference as parent (JSON imports)
+  const namesByImportId = useMemo(() => {
+    const names = new Map<string, string>()
+    data.forEach((item) => {
+      if (item.importId) names.set(item.importId, item.name)
+    })
+    return names
+  }, [data])
+
   // Get all unique property keys from the data
   const propertyKeys = useMemo(() => {
     const keys = new Set<string>()
@@ -46,7 +65,7 @@ export function ImportPreview({
     previewData.forEach((item) => {
       // Get regular properties
       Object.keys(item).forEach((key) => {
-        if (key !== 'properties') {
+        if (key !== 'properties' && key !== 'importId' && key !== 'sourceRow') {
           keys.add(key)
         }
       })
@@ -108,6 +127,21 @@ export function ImportPreview({
       if (value === null || value === undefined) {
         return '-'
       }
+      if (key === 'parentImportIds') {
+        return value
+          .map((ref: string) => namesByImportId.get(ref) || ref)
+          .join(', ')
+      }
+      if (Array.isArray(value)) {
+        return value
+          .map((entry) =>
+            typeof entry === 'object' ? entry?.fileName || entry?.name : entry
+          )
+          .join(', ')
+      }
+      if (typeof value === 'object') {
+        return value.fullAddress || JSON.stringify(value)
+      }
       return String(value)
     }
 
@@ -195,7 +229,11 @@ export function ImportPreview({
                         key={key}
                         className="min-w-[150px] whitespace-nowrap"
                       >
-                        {key}
+                        {key === 'parentImportIds'
+                          ? t('import.preview.parentInFile')
+                          : key === 'unresolvedParent'
+                            ? t('import.preview.unknownParent')
+                            : key}
                       </TableHead>
                     ))}
                   </TableRow>
@@ -223,23 +261,45 @@ export function ImportPreview({
           </div>
         </div>
 
+        {onMergeKeyChange && (
+          <MergeOptions
+            data={data}
+            value={mergeKey}
+            onChange={onMergeKeyChange}
+            disabled={isImporting}
+          />
+        )}
+
         <div className="flex justify-between pt-4">
           <Button variant="outline" onClick={handleBack} disabled={isImporting}>
             {t('import.map.back')}
           </Button>
-          <Button
-            onClick={handleImport}
-            disabled={isImporting || totalRows === 0}
-          >
-            {isImporting ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                {t('import.preview.importing')}
-              </>
-            ) : (
-              t('import.preview.import', { count: totalRows })
+          <div className="flex gap-2">
+            {onValidate && (
+              <Button
+                variant="outline"
+                onClick={onValidate}
+                disabled={isImporting || totalRows === 0}
+                title={t('import.preview.validateHint')}
+              >
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                {t('import.preview.validate')}
+              </Button>
             )}
-          </Button>
+            <Button
+              onClick={handleImport}
+              disabled={isImporting || totalRows === 0}
+            >
+              {isImporting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {t('import.preview.importing')}
+                </>
+              ) : (
+                t('import.preview.import', { count: totalRows })
+              )}
+            </Button>
+          </div>
         </div>
       </div>
     </div>
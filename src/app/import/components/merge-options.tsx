@@ -0,0 +1,118 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useTranslations } from 'next-intl'
+
+import {
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui'
+import type { ImportMergeKey } from '@/lib/import-merge'
+
+interface MergeOptionsProps {
+  data: any[]
+  value: ImportMergeKey | null
+  onChange: (value: ImportMergeKey | null) => void
+  disabled?: boolean
+}
+
+const CREATE_ALL = 'create'
+
+export function MergeOptions({
+  data,
+  value,
+  onChange,
+  disabled,
+}: MergeOptionsProps) {
+  const t = useTranslations()
+
+  // Property keys of all rows, to match on a property value
+  const propertyKeys = useMemo(() => {
+    const keys = new Set<string>()
+    data.forEach((item) =>
+      (Array.isArray(item.properties) ? item.properties : []).forEach(
+        (property: any) => property.key && keys.add(property.key)
+      )
+    )
+    return Array.from(keys).sort()
+  }, [data])
+
+  const hasUuids = useMemo(() => data.some((item) => item.uuid), [data])
+
+  const handleModeChange = (mode: string) => {
+    if (mode === 'uuid' || mode === 'nameParent') {
+      onChange({ type: mode })
+    } else if (mode === 'property' && propertyKeys.length > 0) {
+      onChange({ type: 'property', propertyKey: propertyKeys[0] })
+    } else {
+      onChange(null)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-end gap-4 rounded-md border bg-muted/30 p-3">
+      <div className="space-y-1">
+        <Label htmlFor="merge-mode" className="text-sm">
+          {t('import.merge.label')}
+        </Label>
+        <Select
+          value={value?.type || CREATE_ALL}
+          onValueChange={handleModeChange}
+          disabled={disabled}
+        >
+          <SelectTrigger id="merge-mode" className="w-[240px] h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={CREATE_ALL}>
+              {t('import.merge.createAll')}
+            </SelectItem>
+            <SelectItem value="uuid" disabled={!hasUuids}>
+              {t('import.merge.byUuid')}
+            </SelectItem>
+            <SelectItem value="nameParent">
+              {t('import.merge.byNameParent')}
+            </SelectItem>
+            <SelectItem value="property" disabled={propertyKeys.length === 0}>
+              {t('import.merge.byProperty')}
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value?.type === 'property' && (
+        <div className="space-y-1">
+          <Label htmlFor="merge-property" className="text-sm">
+            {t('import.merge.property')}
+          </Label>
+          <Select
+            value={value.propertyKey}
+            onValueChange={(propertyKey) =>
+              onChange({ type: 'property', propertyKey })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger id="merge-property" className="w-[200px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {propertyKeys.map((key) => (
+                <SelectItem key={key} value={key}>
+                  {key}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground flex-1 min-w-[200px]">
+        {value ? t('import.merge.hint') : t('import.merge.createAllHint')}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useTranslations } from 'next-intl'
+
+import {
+  Button,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui'
+import {
+  PROCESS_IMPORT_FIELDS,
+  REQUIRED_PROCESS_IMPORT_FIELDS,
+  readProcessImportRows,
+  suggestProcessImportMapping,
+  type ProcessImportField,
+  type ProcessImportMapping,
+  type ProcessImportRow,
+} from '@/lib/import-processes'
+
+const NOT_MAPPED = 'none'
+
+interface ProcessColumnMapperProps {
+  sheetData: any[][]
+  suggestedStartRow?: number
+  onRowsMapped: (rows: ProcessImportRow[]) => void
+  onBack?: () => void
+}
+
+/**
+ * Maps spreadsheet columns to the fields of a process flow, one flow per row
+ */
+export function ProcessColumnMapper({
+  sheetData,
+  suggestedStartRow = 0,
+  onRowsMapped,
+  onBack,
+}: ProcessColumnMapperProps) {
+  const t = useTranslations('import.processes')
+  const tMap = useTranslations('import.map')
+  const [headerRow, setHeaderRow] = useState(suggestedStartRow)
+  const [mapping, setMapping] = useState<ProcessImportMapping>(() =>
+    suggestProcessImportMapping(sheetData[suggestedStartRow] || [])
+  )
+
+  const headers = useMemo(
+    () =>
+      (sheetData[headerRow] || []).map((header, index) =>
+        String(header ?? '').trim()
+          ? String(header)
+          : `${tMap('column')} ${index + 1}`
+      ),
+    [sheetData, headerRow, tMap]
+  )
+  const sampleRow = sheetData[headerRow + 1] || []
+
+  const requiredMapped = REQUIRED_PROCESS_IMPORT_FIELDS.every(
+    (field) => mapping[field] !== undefined
+  )
+
+  const handleHeaderRowChange = (value: string) => {
+    const index = parseInt(value, 10) - 1
+    if (isNaN(index) || index < 0 || index >= sheetData.length) return
+    setHeaderRow(index)
+    setMapping(suggestProcessImportMapping(sheetData[index] || []))
+  }
+
+  const handleMappingChange = (field: ProcessImportField, value: string) => {
+    setMapping((current) => {
+      const next = { ...current }
+      if (value === NOT_MAPPED) delete next[field]
+      else next[field] = Number(value)
+      return next
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <h3 className="text-lg font-medium">{tMap('title')}</h3>
+        <p className="text-sm text-muted-foreground">{t('mapDescription')}</p>
+      </div>
+
+      <div className="border rounded-md p-3 flex items-center gap-2">
+        <Label htmlFor="process-header-row" className="text-sm">
+          {tMap('headerRow')}
+        </Label>
+        <Input
+          id="process-header-row"
+          type="number"
+          min="1"
+          max={Math.min(100, sheetData.length)}
+          value={headerRow + 1}
+          onChange={(e) => handleHeaderRowChange(e.target.value)}
+          className="w-16 h-8"
+        />
+        <span className="text-xs text-muted-foreground">
+          {t('rowCount', {
+            count: Math.max(0, sheetData.length - headerRow - 1),
+          })}
+        </span>
+      </div>
+
+      <div className="border rounded-md divide-y">
+        {PROCESS_IMPORT_FIELDS.map((field) => {
+          const column = mapping[field]
+          const required = REQUIRED_PROCESS_IMPORT_FIELDS.includes(field)
+          return (
+            <div
+              key={field}
+              className="grid grid-cols-1 sm:grid-cols-3 items-center gap-2 p-2"
+            >
+              <Label className="text-sm">
+                {t(`fields.${field}`)}
+                {required && (
+                  <span className="ml-1 text-xs text-muted-foreground">
+                    {tMap('required')}
+                  </span>
+                )}
+              </Label>
+              <Select
+                value={column === undefined ? NOT_MAPPED : String(column)}
+                onValueChange={(value) => handleMappingChange(field, value)}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_MAPPED}>
+                    {tMap('dontImport')}
+                  </SelectItem>
+                  {headers.map((header, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      {header}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-xs text-muted-foreground truncate">
+                {column !== undefined && sampleRow[column] != null
+                  ? String(sampleRow[column])
+                  : ''}
+              </span>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex justify-between pt-4">
+        <Button variant="outline" onClick={onBack}>
+          {tMap('back')}
+        </Button>
+        <Button
+          disabled={!requiredMapped}
+          onClick={() =>
+            onRowsMapped(readProcessImportRows(sheetData, headerRow, mapping))
+          }
+        >
+          {tMap('continue')}
+        </Button>
+      </div>
+    </div>
+  )
+}
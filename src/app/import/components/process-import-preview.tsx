@@ -0,0 +1,276 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { toast } from 'sonner'
+import { AlertCircle, Download, Loader2 } from 'lucide-react'
+
+import {
+  Badge,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui'
+import { useProcessImport, type ProcessImportResult } from '@/hooks'
+import { logger } from '@/lib'
+import {
+  processImportErrorsToCsv,
+  type ProcessImportError,
+  type ProcessImportPlan,
+  type ProcessImportRow,
+} from '@/lib/import-processes'
+
+// Rows listed in the preview tables
+const PREVIEW_ROWS = 10
+const MAX_LISTED_ERRORS = 100
+
+interface ProcessImportPreviewProps {
+  rows: ProcessImportRow[]
+  onBack?: () => void
+  // Called after an import in which every flow was created
+  onImported?: () => void
+}
+
+export function ProcessImportPreview({
+  rows,
+  onBack,
+  onImported,
+}: ProcessImportPreviewProps) {
+  const t = useTranslations('import.processes')
+  const tMap = useTranslations('import.map')
+  const { planImport, importFlows } = useProcessImport()
+  const [plan, setPlan] = useState<ProcessImportPlan | null>(null)
+  const [planError, setPlanError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<{
+    done: number
+    total: number
+  } | null>(null)
+  const [result, setResult] = useState<ProcessImportResult | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setPlan(null)
+    setPlanError(null)
+    planImport(rows)
+      .then((planned) => {
+        if (!cancelled) setPlan(planned)
+      })
+      .catch((error) => {
+        logger.error('Failed to validate process import:', error)
+        if (!cancelled) {
+          setPlanError(error instanceof Error ? error.message : String(error))
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [rows, planImport])
+
+  const describeError = (error: ProcessImportError) =>
+    t(`errors.${error.code}`, {
+      field: error.field ? t(`fields.${error.field}`) : '',
+      value: error.value || '',
+    })
+
+  const handleDownloadErrors = () => {
+    if (!plan) return
+    const csv = processImportErrorsToCsv(plan.errors, rows, describeError)
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `process-import-errors-${new Date().toISOString().split('T')[0]}.csv`
+    document.body.appendChild(link)
+    link.click()
+
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async () => {
+    if (!plan || plan.flows.length === 0) return
+    setResult(null)
+    setProgress({ done: 0, total: plan.flows.length })
+    try {
+      const imported = await importFlows(plan.flows, (done, total) =>
+        setProgress({ done, total })
+      )
+      setResult(imported)
+      if (imported.failures.length === 0) {
+        toast.success(t('imported', { count: imported.created }))
+        onImported?.()
+      } else {
+        toast.error(
+          t('importPartlyFailed', {
+            created: imported.created,
+            failed: plan.flows.length - imported.created,
+          })
+        )
+      }
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const isImporting = progress !== null
+
+  if (planError) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 rounded-md border border-destructive/50 p-4 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          {t('validationFailed', { error: planError })}
+        </div>
+        <Button variant="outline" onClick={onBack}>
+          {tMap('back')}
+        </Button>
+      </div>
+    )
+  }
+
+  if (!plan) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-12 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        {t('validating', { count: rows.length })}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <h3 className="text-lg font-medium">{t('previewTitle')}</h3>
+        <p className="text-sm text-muted-foreground">
+          {t('previewDescription')}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline">{t('rowCount', { count: rows.length })}</Badge>
+        <Badge variant="outline">
+          {t('flowCount', { count: plan.flows.length })}
+        </Badge>
+        <Badge variant="outline">
+          {t('processCount', { count: plan.processCount })}
+        </Badge>
+        {plan.invalidRows > 0 && (
+          <Badge variant="destructive">
+            {t('invalidRows', { count: plan.invalidRows })}
+          </Badge>
+        )}
+      </div>
+
+      {plan.flows.length > 0 && (
+        <div className="border rounded-md">
+          <div className="p-3 border-b">
+            <h4 className="text-sm font-medium">{t('flowsToImport')}</h4>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[60px]">{tMap('row')}</TableHead>
+                <TableHead>{t('fields.processName')}</TableHead>
+                <TableHead>{t('fields.input')}</TableHead>
+                <TableHead>{t('fields.output')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plan.flows.slice(0, PREVIEW_ROWS).map((flow) => (
+                <TableRow key={flow.row}>
+                  <TableCell>{flow.row}</TableCell>
+                  <TableCell>{flow.processName}</TableCell>
+                  <TableCell>{flow.input.name || flow.input.uuid}</TableCell>
+                  <TableCell>{flow.output.name || flow.output.uuid}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {plan.errors.length > 0 && (
+        <div className="border rounded-md">
+          <div className="p-3 border-b flex items-center justify-between gap-2">
+            <h4 className="text-sm font-medium">
+              {t('errorsTitle', { count: plan.errors.length })}
+            </h4>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDownloadErrors}
+              className="flex items-center gap-1"
+            >
+              <Download className="h-4 w-4" />
+              <span>{t('downloadErrors')}</span>
+            </Button>
+          </div>
+          <div className="max-h-[300px] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[60px]">{tMap('row')}</TableHead>
+                  <TableHead>{t('errorColumn')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                  <TableRow key={`${error.row}-${error.field}-${index}`}>
+                    <TableCell>{error.row}</TableCell>
+                    <TableCell className="text-sm">
+                      {describeError(error)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {plan.errors.length > MAX_LISTED_ERRORS && (
+            <p className="p-3 border-t text-xs text-muted-foreground">
+              {t('moreErrors', {
+                count: plan.errors.length - MAX_LISTED_ERRORS,
+              })}
+            </p>
+          )}
+        </div>
+      )}
+
+      {result && result.failures.length > 0 && (
+        <div className="rounded-md border border-destructive/50 p-3 space-y-1 text-sm">
+          {result.failures.map((failure) => (
+            <p key={failure.rows[0]} className="text-destructive">
+              {t('batchFailed', {
+                first: failure.rows[0],
+                last: failure.rows[failure.rows.length - 1],
+                error: failure.error,
+              })}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-between pt-4">
+        <Button variant="outline" onClick={onBack} disabled={isImporting}>
+          {tMap('back')}
+        </Button>
+        <Button
+          onClick={handleImport}
+          // Flows of an import that partly failed would be created twice
+          disabled={isImporting || plan.flows.length === 0 || result !== null}
+        >
+          {progress ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {t('importing', { done: progress.done, total: progress.total })}
+            </>
+          ) : (
+            t('import', { count: plan.flows.length })
+          )}
+        </Button>
+      </div>
+    </div>
+  )
+}
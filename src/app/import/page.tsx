@@ -7,6 +7,8 @@ import { toast } from 'sonner'
 import { FileUpload } from './components/file-upload'
 import { ColumnMapper } from './components/column-mapper'
 import { ImportPreview } from './components/import-preview'
+import { ProcessColumnMapper } from './components/process-column-mapper'
+import { ProcessImportPreview } from './components/process-import-preview'
 import { Steps, Step } from './components/steps'
 import { useBulkImport } from '@/hooks/import/use-bulk-import'
 import type { SheetData } from '@/hooks'
@@ -24,17 +26,26 @@ import {
   IMPORT_COLUMN_MAPPING_KEY,
 } from '@/constants'
 import { logger } from '@/lib'
+import type { ImportMergeKey } from '@/lib/import-merge'
+import type { ProcessImportRow } from '@/lib/import-processes'
 
 type ImportStep = 'upload' | 'map-columns' | 'preview'
+// Objects go through the bulk import job, process flows become statements
+type ImportMode = 'objects' | 'processes'
 
 export default function ImportPage() {
   const t = useTranslations()
   const [step, setStep] = useState<ImportStep>('upload')
+  const [mode, setMode] = useState<ImportMode>('objects')
+  const [processRows, setProcessRows] = useState<ProcessImportRow[]>([])
   const [sheets, setSheets] = useState<SheetData[]>([])
   const [selectedSheet, setSelectedSheet] = useState<string>('')
   const [selectedSheetData, setSelectedSheetData] = useState<any[]>([])
   const [suggestedStartRow, setSuggestedStartRow] = useState<number>(0)
   const [mappedData, setMappedData] = useState<any[]>([])
+  // JSON files that match the import schema go straight to the preview
+  const [skippedMapping, setSkippedMapping] = useState(false)
+  const [mergeKey, setMergeKey] = useState<ImportMergeKey | null>(null)
 
   // Use the new bulk import hook
   const { isImporting, startBulkImport } = useBulkImport({
@@ -70,6 +81,22 @@ export default function ImportPage() {
     selectedFile: File,
     parsedSheets: SheetData[]
   ) => {
+    const objects = parsedSheets[0]?.objects
+    if (objects && mode === 'processes') {
+      toast.error(t('import.processes.spreadsheetOnly'))
+      return
+    }
+    if (objects) {
+      setSheets([])
+      setSelectedSheet(parsedSheets[0].name)
+      setSelectedSheetData([])
+      setMappedData(objects)
+      setSkippedMapping(true)
+      setStep('preview')
+      return
+    }
+
+    setSkippedMapping(false)
     setSheets(parsedSheets)
 
     // If there's only one sheet, select it automatically
@@ -110,22 +137,45 @@ export default function ImportPage() {
     setStep('preview')
   }
 
-  const handleImport = async () => {
+  const handleProcessRowsMapped = (rows: ProcessImportRow[]) => {
+    if (rows.length === 0) {
+      toast.error(t('import.errors.noData'))
+      return
+    }
+    setProcessRows(rows)
+    setStep('preview')
+  }
+
+  const handleProcessesImported = () => {
+    setStep('upload')
+    setSheets([])
+    setSelectedSheet('')
+    setSelectedSheetData([])
+    setProcessRows([])
+  }
+
+  const handleImport = async (dryRun = false) => {
     if (mappedData.length === 0) {
       toast.error(t('import.errors.noData'))
       return
     }
 
     // Start bulk import using new API
-    const result = await startBulkImport(mappedData)
+    const result = await startBulkImport(mappedData, {
+      dryRun,
+      merge: mergeKey,
+    })
 
-    if (result.success) {
+    // Keep the data after a dry run so it can still be imported
+    if (result.success && !dryRun) {
       // Reset form after successful import
       setStep('upload')
       setSheets([])
       setSelectedSheet('')
       setSelectedSheetData([])
       setMappedData([])
+      setSkippedMapping(false)
+      setMergeKey(null)
       clearSessionStorage()
     }
   }
@@ -136,7 +186,12 @@ export default function ImportPage() {
         setStep('upload')
         break
       case 'preview':
-        setStep('map-columns')
+        if (skippedMapping) {
+          setSelectedSheet('')
+          setMappedData([])
+          setSkippedMapping(false)
+        }
+        setStep(skippedMapping ? 'upload' : 'map-columns')
         break
     }
   }
@@ -207,6 +262,30 @@ export default function ImportPage() {
       </div>
 
       <div className="pt-6">
+        {step === 'upload' && (
+          <div className="mb-6 flex items-center gap-4">
+            <label className="text-sm font-medium">
+              {t('import.processes.mode')}
+            </label>
+            <Select
+              value={mode}
+              onValueChange={(value) => setMode(value as ImportMode)}
+            >
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="objects">
+                  {t('import.processes.modeObjects')}
+                </SelectItem>
+                <SelectItem value="processes">
+                  {t('import.processes.modeProcesses')}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {step === 'upload' && (
           <FileUpload
             onFileSelected={handleFileSelected}
@@ -245,7 +324,15 @@ export default function ImportPage() {
               </div>
             )}
 
-            {selectedSheetData.length > 0 ? (
+            {selectedSheetData.length > 0 && mode === 'processes' ? (
+              <ProcessColumnMapper
+                key={selectedSheet}
+                sheetData={selectedSheetData}
+                suggestedStartRow={suggestedStartRow}
+                onRowsMapped={handleProcessRowsMapped}
+                onBack={handleBack}
+              />
+            ) : selectedSheetData.length > 0 ? (
               <ColumnMapper
                 sheetData={selectedSheetData}
                 onColumnsMapped={handleColumnMapped}
@@ -268,10 +355,21 @@ export default function ImportPage() {
           </div>
         )}
 
-        {step === 'preview' && (
+        {step === 'preview' && mode === 'processes' && (
+          <ProcessImportPreview
+            rows={processRows}
+            onBack={handleBack}
+            onImported={handleProcessesImported}
+          />
+        )}
+
+        {step === 'preview' && mode === 'objects' && (
           <ImportPreview
             data={mappedData}
-            onImport={handleImport}
+            onImport={() => handleImport()}
+            onValidate={() => handleImport(true)}
+            mergeKey={mergeKey}
+            onMergeKeyChange={setMergeKey}
             onBack={handleBack}
             isImporting={isImporting}
             title={t('import.preview.title')}
@@ -2,14 +2,15 @@
 
 import { useState } from 'react'
 import { useTranslations } from 'next-intl'
-import { PlusCircle, Search, X } from 'lucide-react'
+import { AlertTriangle, PlusCircle, Search, X } from 'lucide-react'
 import dynamic from 'next/dynamic'
 
 import { Button, Badge } from '@/components/ui'
 import { DeletedFilter } from '@/components/filters'
 import { ObjectModelsTable } from '@/components/tables'
-import { useModelData, useUnifiedDelete } from '@/hooks'
+import { useModelData, useSearchUrlSync, useUnifiedDelete } from '@/hooks'
 import { useSearch } from '@/contexts'
+import { MAX_SEARCH_BRANCHES } from '@/lib/search-parser'
 import { DeleteConfirmationDialog } from '@/components/modals'
 
 // Lazy-load sheet component — only rendered when opened by user interaction
@@ -34,8 +35,10 @@ export default function ObjectModelsPage() {
     searchQuery,
     searchViewResults,
     searchPagination,
-    clearSearch,
+    searchError,
   } = useSearch()
+  // Keep the active search in the URL so it can be shared
+  const { clearSearch } = useSearchUrlSync()
 
   // Use model data hook with pagination and filtering
   const {
@@ -113,6 +116,22 @@ export default function ObjectModelsPage() {
                           count: searchViewResults.length,
                         })}
                   </Badge>
+                  {searchError && (
+                    <span className="flex items-center gap-1 text-xs text-destructive">
+                      <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+                      {t(`search.errors.${searchError}`, {
+                        max: MAX_SEARCH_BRANCHES,
+                      })}
+                    </span>
+                  )}
+                  {searchPagination?.isIncomplete && (
+                    <span className="flex items-center gap-1 text-xs text-amber-600">
+                      <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+                      {t('models.resultsIncomplete', {
+                        count: searchPagination.totalElements,
+                      })}
+                    </span>
+                  )}
                 </div>
                 <Button
                   variant="ghost"
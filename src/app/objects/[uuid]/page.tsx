@@ -28,6 +28,7 @@ import {
   ObjectAddSheet,
   CopyObjectsSheet,
 } from '@/components/object-sheets'
+import { MaterialLineage } from '@/components/processes'
 import { DEFAULT_TABLE_PAGE_SIZE } from '@/constants'
 
 const TOGGLEABLE_COLUMNS = [
@@ -96,8 +97,17 @@ function ObjectChildrenPageContent() {
       handleAddToGroup,
       handleCreateAndAddToGroup,
       handleSetParent,
+      handleExport,
+      handleRecomputeFormulas,
+    },
+    mutations: {
+      isDeleting,
+      isRestoring,
+      isAddingToGroup,
+      isSettingParent,
+      isExporting,
+      isRecomputing,
     },
-    mutations: { isDeleting, isRestoring, isAddingToGroup, isSettingParent },
   } = useBulkSelection({
     data: childrenData,
     rowSelection,
@@ -223,11 +233,15 @@ function ObjectChildrenPageContent() {
             onAddToGroup={handleAddToGroup}
             onCreateAndAddToGroup={handleCreateAndAddToGroup}
             onSetParent={handleSetParent}
+            onExport={handleExport}
+            onRecomputeFormulas={handleRecomputeFormulas}
             onClearSelection={clearSelection}
             isDeleting={isDeleting}
             isRestoring={isRestoring}
             isAddingToGroup={isAddingToGroup}
             isSettingParent={isSettingParent}
+            isExporting={isExporting}
+            isRecomputing={isRecomputing}
           />
         )}
 
@@ -281,6 +295,12 @@ function ObjectChildrenPageContent() {
             onColumnVisibilityChange={setColumnVisibility}
           />
         )}
+
+        {/* Upstream and downstream process flows */}
+        <MaterialLineage
+          objectUuid={parentUuid}
+          onNodeClick={(uuid) => router.push(`/objects/${uuid}`)}
+        />
       </div>
 
       {/* Child Object Details Sheet */}
@@ -12,6 +12,7 @@ import {
   useBreadcrumbTrail,
   useBulkSelection,
   useGroups,
+  useSearchUrlSync,
 } from '@/hooks'
 import { useSearch, useAuth } from '@/contexts'
 import { isObjectDeleted } from '@/lib'
@@ -81,8 +82,12 @@ function ObjectsPageContent() {
     searchQuery,
     searchViewResults,
     searchPagination,
-    clearSearch,
+    parsedSearch,
+    searchError,
+    executeAdvancedSearch,
   } = useSearch()
+  // Keep the active search in the URL so it can be shared
+  const { clearSearch } = useSearchUrlSync()
 
   // Handle groupId query param - preselect group from URL
   useEffect(() => {
@@ -96,10 +101,15 @@ function ObjectsPageContent() {
   const handleGroupChange = useCallback(
     (groupUUID: string | null) => {
       setSelectedGroupUUID(groupUUID)
-      // Clear groupId from URL if it exists
+      // Clear groupId from URL if it exists, keeping any search query
       const groupId = searchParams.get('groupId')
       if (groupId) {
-        router.replace('/objects', { scroll: false })
+        const params = new URLSearchParams(searchParams.toString())
+        params.delete('groupId')
+        const query = params.toString()
+        router.replace(query ? `/objects?${query}` : '/objects', {
+          scroll: false,
+        })
       }
     },
     [searchParams, router]
@@ -138,8 +148,17 @@ function ObjectsPageContent() {
       handleAddToGroup,
       handleCreateAndAddToGroup,
       handleSetParent,
+      handleExport,
+      handleRecomputeFormulas,
+    },
+    mutations: {
+      isDeleting,
+      isRestoring,
+      isAddingToGroup,
+      isSettingParent,
+      isExporting,
+      isRecomputing,
     },
-    mutations: { isDeleting, isRestoring, isAddingToGroup, isSettingParent },
   } = useBulkSelection({
     data: tableData,
     rowSelection,
@@ -218,11 +237,15 @@ function ObjectsPageContent() {
             onAddToGroup={handleAddToGroup}
             onCreateAndAddToGroup={handleCreateAndAddToGroup}
             onSetParent={handleSetParent}
+            onExport={handleExport}
+            onRecomputeFormulas={handleRecomputeFormulas}
             onClearSelection={clearSelection}
             isDeleting={isDeleting}
             isRestoring={isRestoring}
             isAddingToGroup={isAddingToGroup}
             isSettingParent={isSettingParent}
+            isExporting={isExporting}
+            isRecomputing={isRecomputing}
           />
         )}
 
@@ -232,6 +255,9 @@ function ObjectsPageContent() {
             searchQuery={searchQuery}
             resultsCount={searchViewResults.length}
             pagination={searchPagination ?? undefined}
+            error={searchError}
+            parsedSearch={parsedSearch}
+            onSearchChange={executeAdvancedSearch}
             onClearSearch={clearSearch}
           />
         )}
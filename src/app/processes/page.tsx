@@ -9,6 +9,8 @@ import {
   Layers,
   ChevronRight,
   RotateCcw,
+  Scale,
+  CalendarRange,
 } from 'lucide-react'
 import { useTranslations } from 'next-intl'
 import type { UUID } from 'iom-sdk'
@@ -17,7 +19,7 @@ import { toast } from 'sonner'
 
 import { EnhancedMaterialRelationship } from '@/types/sankey-metadata'
 import { useStatements } from '@/hooks'
-import { Card, CardContent, Button, Badge } from '@/components/ui'
+import { Card, CardContent, Button, Badge, Input } from '@/components/ui'
 import {
   LoadingState,
   ProcessViewSelector,
@@ -25,12 +27,24 @@ import {
   RelationshipDetailsSheet,
   DashboardView,
   MaterialSelector,
+  UnitSelect,
   ProcessTableView,
   useSankeyDiagramData,
+  isFlowInPeriod,
+  processEditToStatements,
+  relationshipsToProcessFlowData,
+  relationshipsToStatements,
+  type ProcessFlowData,
 } from '@/components/processes'
 
-import { ProcessViewType, ENABLED_PROCESS_VIEW_TYPES } from '@/constants'
-import { logger } from '@/lib'
+import {
+  ProcessViewType,
+  ENABLED_PROCESS_VIEW_TYPES,
+  DEFAULT_DISPLAY_UNIT,
+  PROCESS_DISPLAY_UNIT_KEY,
+} from '@/constants'
+import { generateUUIDv7, logger, resolveUnit } from '@/lib'
+import { getProcessVersion, planProcessUpdate } from '@/lib/process-versions'
 
 // Simple loading placeholder for dynamic imports
 const DiagramLoader = () => (
@@ -65,12 +79,22 @@ const MaterialFlowPage = () => {
   const [selectedRelationship, setSelectedRelationship] =
     useState<EnhancedMaterialRelationship | null>(null)
   const [isProcessFormOpen, setIsProcessFormOpen] = useState(false)
+  // Flows of the process open in the form for editing
+  const [editingFlows, setEditingFlows] = useState<
+    EnhancedMaterialRelationship[] | null
+  >(null)
   const [isRelationshipSheetOpen, setIsRelationshipSheetOpen] = useState(false)
   const [activeView, setActiveView] = useState<ProcessViewType>('dashboard')
   const [selectedMaterialUuids, setSelectedMaterialUuids] = useState<string[]>(
     []
   )
   const [isDepthLimited, setIsDepthLimited] = useState(true)
+  // Unit quantities are converted to in all views
+  const [displayUnit, setDisplayUnit] = useState(DEFAULT_DISPLAY_UNIT)
+  // Period filter, ISO dates; empty for an open end
+  const [periodFrom, setPeriodFrom] = useState('')
+  const [periodTo, setPeriodTo] = useState('')
+  const hasPeriod = !!periodFrom || !!periodTo
 
   // Drill-down state: stack of focus nodes for breadcrumb navigation
   // Each entry is { uuid, name } — empty stack means showing from roots
@@ -89,6 +113,18 @@ const MaterialFlowPage = () => {
     if (savedView && validViews.includes(savedView)) {
       setActiveView(savedView)
     }
+
+    const savedUnit = resolveUnit(
+      localStorage.getItem(PROCESS_DISPLAY_UNIT_KEY)
+    )
+    if (savedUnit) {
+      setDisplayUnit(savedUnit)
+    }
+  }, [])
+
+  const handleDisplayUnitChange = useCallback((unit: string) => {
+    setDisplayUnit(unit)
+    localStorage.setItem(PROCESS_DISPLAY_UNIT_KEY, unit)
   }, [])
 
   const clearFilter = useCallback(() => {
@@ -107,6 +143,7 @@ const MaterialFlowPage = () => {
   } = useSankeyDiagramData(objectUuid as UUID | undefined, {
     maxDepth: isDepthLimited ? 3 : undefined,
     focusNode: isDepthLimited ? currentFocusNode : undefined,
+    displayUnit,
   })
 
   // Truncated count = total nodes in graph minus nodes actually fetched
@@ -114,16 +151,18 @@ const MaterialFlowPage = () => {
     ? Math.max(0, totalNodeCount - allMaterials.length)
     : 0
 
-  // Filter data based on selected materials
+  // Filter data based on selected materials and the period
   const { materials, relationships } = useMemo(() => {
-    if (selectedMaterialUuids.length === 0) {
+    if (selectedMaterialUuids.length === 0 && !periodFrom && !periodTo) {
       return { materials: allMaterials, relationships: allRelationships }
     }
 
     const filteredRels = allRelationships.filter(
       (rel) =>
-        selectedMaterialUuids.includes(rel.subject.uuid) ||
-        selectedMaterialUuids.includes(rel.object.uuid)
+        (selectedMaterialUuids.length === 0 ||
+          selectedMaterialUuids.includes(rel.subject.uuid) ||
+          selectedMaterialUuids.includes(rel.object.uuid)) &&
+        isFlowInPeriod(rel, periodFrom, periodTo)
     )
 
     const involvedMaterialUuids = new Set<string>()
@@ -136,14 +175,87 @@ const MaterialFlowPage = () => {
       materials: allMaterials.filter((m) => involvedMaterialUuids.has(m.uuid)),
       relationships: filteredRels,
     }
-  }, [allMaterials, allRelationships, selectedMaterialUuids])
+  }, [
+    allMaterials,
+    allRelationships,
+    selectedMaterialUuids,
+    periodFrom,
+    periodTo,
+  ])
+
+  // Flows hidden by the period filter only because they have no dates
+  const undatedFlowCount = hasPeriod
+    ? allRelationships.filter((rel) => !rel.startDate && !rel.endDate).length
+    : 0
+
+  const clearPeriod = useCallback(() => {
+    setPeriodFrom('')
+    setPeriodTo('')
+  }, [])
 
   // API hooks for mutations only
-  const { useCreateProcessFlow } = useStatements()
+  const { useCreateProcessFlow, useUpdateProcessFlow } = useStatements()
   const createProcessFlowMutation = useCreateProcessFlow()
+  const updateProcessFlowMutation = useUpdateProcessFlow()
+
+  const editingProcess = useMemo(
+    () =>
+      editingFlows ? relationshipsToProcessFlowData(editingFlows) : undefined,
+    [editingFlows]
+  )
+
+  // Resolves to whether the edit was saved, or there was nothing to save
+  const handleProcessUpdate = useCallback(
+    async (
+      flows: EnhancedMaterialRelationship[],
+      process: ProcessFlowData
+    ): Promise<boolean> => {
+      const plan = planProcessUpdate(
+        relationshipsToStatements(flows),
+        processEditToStatements(flows, process, {
+          // Processes saved before identities existed get one on their first
+          // edit
+          processId:
+            flows.find((flow) => flow.processId)?.processId || generateUUIDv7(),
+          processVersion:
+            getProcessVersion(flows.map((flow) => flow.processVersion)) + 1,
+          processUpdatedAt: new Date().toISOString(),
+        })
+      )
+      if (plan.remove.length === 0 && plan.create.length === 0) {
+        toast.info(t('processes.edit.noChanges'))
+        return true
+      }
+
+      try {
+        toast.loading(t('processes.edit.saving'), {
+          id: 'update-process-flow',
+        })
+        await updateProcessFlowMutation.mutateAsync(plan)
+        toast.success(
+          t('processes.edit.saved', {
+            changed: plan.create.length,
+            unchanged: plan.unchanged,
+          }),
+          { id: 'update-process-flow' }
+        )
+        return true
+      } catch (error) {
+        logger.error('Failed to update process flow:', { error })
+        toast.error(t('processes.edit.failed'), {
+          id: 'update-process-flow',
+        })
+        return false
+      }
+    },
+    [updateProcessFlowMutation, t]
+  )
 
   const handleProcessSave = useCallback(
-    async (newProcess: any) => {
+    async (newProcess: any): Promise<boolean> => {
+      if (editingFlows) {
+        return handleProcessUpdate(editingFlows, newProcess)
+      }
       try {
         toast.loading(t('processes.form.createTitle'), {
           id: 'create-process-flow',
@@ -179,15 +291,16 @@ const MaterialFlowPage = () => {
         toast.success(t('processes.create'), {
           id: 'create-process-flow',
         })
-        setIsProcessFormOpen(false)
+        return true
       } catch (error) {
         logger.error('Failed to save process flow:', { error })
         toast.error(t('processes.create'), {
           id: 'create-process-flow',
         })
+        return false
       }
     },
-    [createProcessFlowMutation, t]
+    [createProcessFlowMutation, editingFlows, handleProcessUpdate, t]
   )
 
   const handleRelationshipSelect = useCallback(
@@ -210,8 +323,19 @@ const MaterialFlowPage = () => {
 
   const handleCloseProcessForm = useCallback(() => {
     setIsProcessFormOpen(false)
+    setEditingFlows(null)
   }, [])
 
+  const handleEditProcess = useCallback(
+    (flows: EnhancedMaterialRelationship[]) => {
+      setIsRelationshipSheetOpen(false)
+      setSelectedRelationship(null)
+      setEditingFlows(flows)
+      setIsProcessFormOpen(true)
+    },
+    []
+  )
+
   const handleOpenProcessForm = useCallback(() => {
     setIsProcessFormOpen(true)
   }, [])
@@ -264,6 +388,7 @@ const MaterialFlowPage = () => {
         relationships={relationships}
         selectedRelationship={null} // Always null to prevent visual selection
         onLinkSelect={handleRelationshipSelect}
+        displayUnit={displayUnit}
         className="bg-card"
       />
     ) : (
@@ -273,6 +398,7 @@ const MaterialFlowPage = () => {
         selectedRelationship={null} // Always null to prevent visual selection
         onLinkSelect={handleRelationshipSelect}
         onNodeClick={isDepthLimited ? handleNodeDrillDown : undefined}
+        displayUnit={displayUnit}
         className="bg-card"
       />
     )
@@ -285,6 +411,7 @@ const MaterialFlowPage = () => {
     handleRelationshipSelect,
     handleNodeDrillDown,
     isDepthLimited,
+    displayUnit,
   ])
 
   return (
@@ -300,6 +427,50 @@ const MaterialFlowPage = () => {
             placeholder={t('processes.filterObjects')}
             maxSelections={10}
           />
+          {/* Display Unit */}
+          <div
+            className="flex items-center gap-1.5 flex-shrink-0"
+            title={t('processes.displayUnit')}
+          >
+            <Scale className="h-4 w-4 text-muted-foreground" />
+            <UnitSelect
+              value={displayUnit}
+              onValueChange={handleDisplayUnitChange}
+              categories={[
+                'weight',
+                'volume',
+                'area',
+                'length',
+                'count',
+                'energy',
+              ]}
+              className="w-28"
+            />
+          </div>
+          {/* Period */}
+          <div
+            className="flex items-center gap-1.5 flex-shrink-0"
+            title={t('processes.period.label')}
+          >
+            <CalendarRange className="h-4 w-4 text-muted-foreground" />
+            <Input
+              type="date"
+              value={periodFrom}
+              max={periodTo || undefined}
+              onChange={(e) => setPeriodFrom(e.target.value)}
+              aria-label={t('processes.period.from')}
+              className="h-9 w-36"
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              type="date"
+              value={periodTo}
+              min={periodFrom || undefined}
+              onChange={(e) => setPeriodTo(e.target.value)}
+              aria-label={t('processes.period.to')}
+              className="h-9 w-36"
+            />
+          </div>
           {/* Depth Limit Toggle */}
           <Button
             variant={isDepthLimited ? 'default' : 'outline'}
@@ -338,7 +509,7 @@ const MaterialFlowPage = () => {
       </div>
 
       {/* Filter Mode Indicator */}
-      {(objectUuid || selectedMaterialUuids.length > 0) && (
+      {(objectUuid || selectedMaterialUuids.length > 0 || hasPeriod) && (
         <div className="mb-4">
           <div className="p-3 bg-orange-50 dark:bg-orange-950/30 border border-orange-200 dark:border-orange-800/50 rounded-lg">
             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
@@ -358,6 +529,17 @@ const MaterialFlowPage = () => {
                       {t('processes.object')}: {objectUuid.slice(0, 8)}...
                     </Badge>
                   )}
+                  {hasPeriod && (
+                    <Badge
+                      variant="secondary"
+                      className="bg-orange-100 dark:bg-orange-900/40 text-orange-700 dark:text-orange-300 text-xs"
+                    >
+                      {t('processes.period.badge', {
+                        from: periodFrom || '…',
+                        to: periodTo || '…',
+                      })}
+                    </Badge>
+                  )}
                   {selectedMaterialUuids.map((uuid) => {
                     const material = allMaterials.find((m) => m.uuid === uuid)
                     return (
@@ -371,8 +553,25 @@ const MaterialFlowPage = () => {
                     )
                   })}
                 </div>
+                {undatedFlowCount > 0 && (
+                  <span className="text-xs text-orange-700 dark:text-orange-300">
+                    {t('processes.period.undatedHidden', {
+                      count: undatedFlowCount,
+                    })}
+                  </span>
+                )}
               </div>
               <div className="flex gap-2">
+                {hasPeriod && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={clearPeriod}
+                    className="text-orange-600 dark:text-orange-400 hover:text-orange-800 dark:hover:text-orange-300 hover:bg-orange-100 dark:hover:bg-orange-900/40 flex-shrink-0 text-xs"
+                  >
+                    {t('processes.period.clear')}
+                  </Button>
+                )}
                 {selectedMaterialUuids.length > 0 && (
                   <Button
                     variant="ghost"
@@ -428,6 +627,8 @@ const MaterialFlowPage = () => {
               materials={materials} // Use filtered materials
               relationships={relationships} // Use filtered relationships for analytics
               onCreateProcess={handleOpenProcessForm}
+              displayUnit={displayUnit}
+              onRelationshipSelect={handleRelationshipSelect}
             />
           )}
         </>
@@ -500,6 +701,7 @@ const MaterialFlowPage = () => {
               selectedRelationship={null} // Remove selection highlighting from table too
               onRelationshipSelect={handleRelationshipSelect}
               pageSize={15}
+              displayUnit={displayUnit}
             />
           )}
         </div>
@@ -510,6 +712,7 @@ const MaterialFlowPage = () => {
         isOpen={isProcessFormOpen}
         onClose={handleCloseProcessForm}
         onSave={handleProcessSave}
+        process={editingProcess}
       />
 
       {/* Relationship Details Sheet */}
@@ -517,6 +720,9 @@ const MaterialFlowPage = () => {
         relationship={selectedRelationship}
         isOpen={isRelationshipSheetOpen}
         onClose={handleCloseRelationshipSheet}
+        relationships={allRelationships}
+        displayUnit={displayUnit}
+        onEdit={handleEditProcess}
       />
     </div>
   )
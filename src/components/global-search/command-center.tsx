@@ -15,26 +15,35 @@ import {
   Clock,
   Command as CommandIcon,
   Hash,
+  Bookmark,
+  Pin,
+  PinOff,
+  Box,
+  CalendarPlus,
+  CalendarClock,
+  Paperclip,
+  MapPin,
 } from 'lucide-react'
 import { useTranslations } from 'next-intl'
 import { useHotkeys } from 'react-hotkeys-hook'
 
 import { cn } from '@/lib/utils'
+import { useSavedSearches } from '@/hooks/api'
 import {
   parseSearchQuery,
   getFilterSuggestions,
-  removeFilter,
-  type SearchFilter,
+  isServerSideSearch,
   type FilterSuggestion,
   type ParsedSearch,
 } from '@/lib/search-parser'
 import {
-  Badge,
   Dialog,
   DialogContent,
   DialogTitle,
   DialogDescription,
 } from '@/components/ui'
+import { SearchExpressionChips } from './search-expression-chips'
+import { SaveSearchButton } from './save-search-button'
 
 interface CommandCenterProps {
   open?: boolean
@@ -51,8 +60,16 @@ const ICON_MAP: Record<string, React.ElementType> = {
   User,
   FolderTree,
   Hash,
+  Box,
+  CalendarPlus,
+  CalendarClock,
+  Paperclip,
+  MapPin,
 }
 
+// Leading "(" and "-" that wrap the token currently being typed
+const OPERATOR_PREFIX_PATTERN = /^[-(]+/
+
 // Recent searches (could be persisted to localStorage in future)
 const getRecentSearches = (): string[] => {
   if (typeof window === 'undefined') return []
@@ -88,12 +105,19 @@ export function CommandCenter({
     searchTerm: '',
     filters: [],
     searchBy: {},
+    expression: null,
   })
   const [showSuggestions] = React.useState(true)
   const [selectedIndex, setSelectedIndex] = React.useState(0)
   const [recentSearches, setRecentSearches] = React.useState<string[]>([])
   const inputRef = React.useRef<HTMLInputElement>(null)
 
+  const { useListSavedSearches, useUpdateSavedSearch, useDeleteSavedSearch } =
+    useSavedSearches()
+  const { data: savedSearches = [] } = useListSavedSearches()
+  const updateSavedSearch = useUpdateSavedSearch()
+  const deleteSavedSearch = useDeleteSavedSearch()
+
   // Load recent searches on mount
   React.useEffect(() => {
     setRecentSearches(getRecentSearches())
@@ -124,9 +148,12 @@ export function CommandCenter({
 
   // Get current suggestions based on input
   const currentSuggestions = React.useMemo(() => {
-    // Get the last token being typed
+    // Get the last token being typed, ignoring grouping/negation prefixes
     const tokens = inputValue.split(' ')
-    const lastToken = tokens[tokens.length - 1] || ''
+    const lastToken = (tokens[tokens.length - 1] || '').replace(
+      OPERATOR_PREFIX_PATTERN,
+      ''
+    )
 
     // Only show suggestions if the last token looks like a filter prefix
     if (lastToken.includes(':')) {
@@ -136,18 +163,23 @@ export function CommandCenter({
     return getFilterSuggestions(lastToken)
   }, [inputValue])
 
-  // Active filters (non-text filters)
-  const activeFilters = parsedSearch.filters.filter((f) => f.type !== 'text')
+  // Show chips for filters, or whenever boolean operators shape the query
+  const showChips =
+    parsedSearch.filters.some((f) => f.type !== 'text') ||
+    !isServerSideSearch(parsedSearch)
 
-  const handleRemoveFilter = (filter: SearchFilter) => {
-    const newQuery = removeFilter(parsedSearch.filters, filter)
-    setInputValue(newQuery)
+  const handleChipsChange = (query: string) => {
+    setInputValue(query)
+    inputRef.current?.focus()
   }
 
   const handleSuggestionClick = (suggestion: FilterSuggestion) => {
     // Append the filter prefix to input
     const tokens = inputValue.trim().split(' ')
-    const lastToken = tokens[tokens.length - 1] || ''
+    const rawLastToken = tokens[tokens.length - 1] || ''
+    const operatorPrefix =
+      rawLastToken.match(OPERATOR_PREFIX_PATTERN)?.[0] || ''
+    const lastToken = rawLastToken.slice(operatorPrefix.length)
 
     // If last token is partial match of the suggestion, replace it
     if (
@@ -155,7 +187,7 @@ export function CommandCenter({
       !lastToken.includes(':') &&
       suggestion.prefix.toLowerCase().startsWith(lastToken.toLowerCase())
     ) {
-      tokens[tokens.length - 1] = suggestion.prefix
+      tokens[tokens.length - 1] = operatorPrefix + suggestion.prefix
     } else {
       tokens.push(suggestion.prefix)
     }
@@ -237,6 +269,13 @@ export function CommandCenter({
               autoCorrect="off"
               spellCheck={false}
             />
+            {inputValue && (
+              <SaveSearchButton
+                query={inputValue}
+                iconOnly
+                className="h-7 w-7 p-0 ml-2 text-muted-foreground"
+              />
+            )}
             {inputValue && (
               <button
                 onClick={() => setInputValue('')}
@@ -248,39 +287,14 @@ export function CommandCenter({
             )}
           </div>
 
-          {/* Active Filters Pills */}
-          {activeFilters.length > 0 && (
-            <div className="px-4 pb-3 flex flex-wrap gap-2">
-              {activeFilters.map((filter) => (
-                <Badge
-                  key={`${filter.type}-${filter.value}`}
-                  variant="secondary"
-                  className="pl-2 pr-1 py-1 gap-1.5 bg-primary/10 text-primary border-primary/20 hover:bg-primary/15 transition-colors text-xs"
-                >
-                  {filter.type === 'deleted' && <Trash2 className="h-3 w-3" />}
-                  {filter.type === 'template' && <Layout className="h-3 w-3" />}
-                  {filter.type === 'property' && <Tag className="h-3 w-3" />}
-                  {filter.type === 'propertyLabel' && (
-                    <Tag className="h-3 w-3" />
-                  )}
-                  {filter.type === 'propertyValue' && (
-                    <Hash className="h-3 w-3" />
-                  )}
-                  {filter.type === 'name' && <Type className="h-3 w-3" />}
-                  {filter.type === 'createdBy' && <User className="h-3 w-3" />}
-                  {filter.type === 'parent' && (
-                    <FolderTree className="h-3 w-3" />
-                  )}
-                  <span className="font-medium">{filter.label}</span>
-                  <button
-                    onClick={() => handleRemoveFilter(filter)}
-                    className="ml-0.5 p-0.5 hover:bg-primary/20 rounded"
-                  >
-                    <X className="h-3 w-3" />
-                  </button>
-                </Badge>
-              ))}
-            </div>
+          {/* Active Filters Chips */}
+          {showChips && (
+            <SearchExpressionChips
+              parsedSearch={parsedSearch}
+              onQueryChange={handleChipsChange}
+              hideText
+              className="px-4 pb-3"
+            />
           )}
         </div>
 
@@ -333,6 +347,68 @@ export function CommandCenter({
             </div>
           )}
 
+          {/* Saved Searches */}
+          {!inputValue && savedSearches.length > 0 && (
+            <div className="p-2 border-t border-border/50">
+              <div className="px-2 py-1.5 text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+                <Bookmark className="h-3 w-3" />
+                {t('savedSearches.title')}
+              </div>
+              {savedSearches.map((saved) => (
+                <div
+                  key={saved.id}
+                  className="group flex items-center gap-1 rounded-md hover:bg-muted/50 transition-colors"
+                >
+                  <button
+                    onClick={() => handleRecentClick(saved.query)}
+                    className="flex-1 min-w-0 flex items-center gap-3 px-3 py-2 text-left"
+                  >
+                    <Bookmark className="h-4 w-4 text-muted-foreground shrink-0" />
+                    <span className="text-sm font-medium truncate">
+                      {saved.name}
+                    </span>
+                    <code className="text-xs text-muted-foreground truncate">
+                      {saved.query}
+                    </code>
+                  </button>
+                  <button
+                    onClick={() =>
+                      updateSavedSearch.mutate({
+                        id: saved.id,
+                        pinned: !saved.pinned,
+                      })
+                    }
+                    className="p-1.5 rounded hover:bg-muted text-muted-foreground"
+                    aria-label={
+                      saved.pinned
+                        ? t('savedSearches.unpin')
+                        : t('savedSearches.pin')
+                    }
+                    title={
+                      saved.pinned
+                        ? t('savedSearches.unpin')
+                        : t('savedSearches.pin')
+                    }
+                  >
+                    {saved.pinned ? (
+                      <PinOff className="h-3.5 w-3.5" />
+                    ) : (
+                      <Pin className="h-3.5 w-3.5" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => deleteSavedSearch.mutate(saved.id)}
+                    className="p-1.5 mr-1 rounded hover:bg-muted text-muted-foreground"
+                    aria-label={t('savedSearches.delete')}
+                    title={t('savedSearches.delete')}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Recent Searches */}
           {!inputValue && recentSearches.length > 0 && (
             <div className="p-2 border-t border-border/50">
@@ -377,6 +453,9 @@ export function CommandCenter({
                 </div>
                 <ArrowRight className="h-4 w-4 text-muted-foreground" />
               </button>
+              <p className="px-3 pt-2 pb-1 text-xs text-muted-foreground">
+                {t('commandCenter.operatorsHint')}
+              </p>
             </div>
           )}
         </div>
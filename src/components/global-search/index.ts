@@ -1 +1,3 @@
 export { CommandCenter, useCommandCenter } from './command-center'
+export { SearchExpressionChips } from './search-expression-chips'
+export { SaveSearchButton } from './save-search-button'
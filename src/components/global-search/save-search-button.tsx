@@ -0,0 +1,107 @@
+'use client'
+
+import * as React from 'react'
+import { Bookmark } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { toast } from 'sonner'
+
+import { useSavedSearches } from '@/hooks/api'
+import {
+  Button,
+  Checkbox,
+  Input,
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui'
+
+interface SaveSearchButtonProps {
+  /** The query to save */
+  query: string
+  /** Render as a compact icon-only button */
+  iconOnly?: boolean
+  className?: string
+}
+
+/**
+ * Button with a popover asking for a name to save the given query under
+ */
+export function SaveSearchButton({
+  query,
+  iconOnly = false,
+  className,
+}: SaveSearchButtonProps) {
+  const t = useTranslations()
+  const [open, setOpen] = React.useState(false)
+  const [name, setName] = React.useState('')
+  const [pinned, setPinned] = React.useState(false)
+  const { useCreateSavedSearch } = useSavedSearches()
+  const createSavedSearch = useCreateSavedSearch()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    if (!name.trim()) return
+
+    try {
+      await createSavedSearch.mutateAsync({ name: name.trim(), query, pinned })
+      toast.success(t('savedSearches.saved', { name: name.trim() }))
+      setOpen(false)
+      setName('')
+      setPinned(false)
+    } catch (error) {
+      toast.error(t('savedSearches.saveFailed'), {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          disabled={!query.trim()}
+          className={className}
+          aria-label={t('savedSearches.save')}
+          title={t('savedSearches.save')}
+        >
+          <Bookmark className={iconOnly ? 'h-4 w-4' : 'h-4 w-4 mr-1'} />
+          {!iconOnly && t('savedSearches.save')}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-3">
+        <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+          <Input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.stopPropagation()}
+            placeholder={t('savedSearches.namePlaceholder')}
+            maxLength={100}
+            className="h-8"
+          />
+          <code className="truncate rounded bg-muted px-2 py-1 text-xs">
+            {query}
+          </code>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Checkbox
+              checked={pinned}
+              onCheckedChange={(checked) => setPinned(checked === true)}
+            />
+            {t('savedSearches.pinToNavbar')}
+          </label>
+          <Button
+            type="submit"
+            size="sm"
+            disabled={!name.trim() || createSavedSearch.isPending}
+          >
+            {t('savedSearches.save')}
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,328 @@
+'use client'
+
+import * as React from 'react'
+import {
+  X,
+  Trash2,
+  Layout,
+  Tag,
+  Type,
+  User,
+  FolderTree,
+  Hash,
+  Ruler,
+  Search,
+  Ban,
+  Box,
+  CalendarPlus,
+  CalendarClock,
+  Paperclip,
+  MapPin,
+} from 'lucide-react'
+import { useFormatter, useTranslations } from 'next-intl'
+
+import { cn } from '@/lib/utils'
+import {
+  removeSearchFilter,
+  replaceSearchFilter,
+  toggleSearchFilterNegation,
+  type ParsedSearch,
+  type SearchExpression,
+  type SearchFilter,
+} from '@/lib/search-parser'
+import {
+  Badge,
+  Input,
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui'
+
+const FILTER_ICONS: Record<SearchFilter['type'], React.ElementType> = {
+  deleted: Trash2,
+  template: Layout,
+  property: Tag,
+  propertyLabel: Tag,
+  propertyValue: Hash,
+  propertyRange: Ruler,
+  name: Type,
+  createdBy: User,
+  parent: FolderTree,
+  model: Box,
+  created: CalendarPlus,
+  modified: CalendarClock,
+  hasFile: Paperclip,
+  hasAddress: MapPin,
+  text: Search,
+}
+
+const PERIOD_KEYS = {
+  h: 'hours',
+  d: 'days',
+  w: 'weeks',
+  m: 'months',
+  y: 'years',
+} as const
+
+const DATE_RANGE_KEYS = {
+  '>': 'after',
+  '>=': 'from',
+  '<': 'before',
+  '<=': 'until',
+  '=': 'on',
+  between: 'between',
+} as const
+
+interface SearchExpressionChipsProps {
+  /** The parsed search whose expression tree is rendered */
+  parsedSearch: ParsedSearch
+  /** Called with the rebuilt query after a chip is edited or removed */
+  onQueryChange: (query: string) => void
+  /** Hide top-level free text chips (e.g. when the text is already visible) */
+  hideText?: boolean
+  className?: string
+}
+
+/**
+ * Renders a parsed search expression as editable chips.
+ * OR groups are outlined, negated terms are struck through, and each chip
+ * can be edited in place, negated or removed.
+ */
+export function SearchExpressionChips({
+  parsedSearch,
+  onQueryChange,
+  hideText = false,
+  className,
+}: SearchExpressionChipsProps) {
+  const t = useTranslations()
+
+  if (!parsedSearch.expression) return null
+
+  const renderChip = (filter: SearchFilter, negated: boolean, key: string) => (
+    <FilterChip
+      key={key}
+      filter={filter}
+      negated={negated}
+      onEdit={(query) =>
+        onQueryChange(replaceSearchFilter(parsedSearch, filter, query))
+      }
+      onToggleNegation={() =>
+        onQueryChange(toggleSearchFilterNegation(parsedSearch, filter))
+      }
+      onRemove={() => onQueryChange(removeSearchFilter(parsedSearch, filter))}
+    />
+  )
+
+  const renderExpression = (
+    expression: SearchExpression,
+    depth: number,
+    key: string
+  ): React.ReactNode => {
+    switch (expression.type) {
+      case 'filter':
+        if (hideText && depth === 0 && expression.filter.type === 'text') {
+          return null
+        }
+        return renderChip(expression.filter, false, key)
+      case 'not':
+        if (expression.operand.type === 'filter') {
+          return renderChip(expression.operand.filter, true, key)
+        }
+        return (
+          <span
+            key={key}
+            className="inline-flex flex-wrap items-center gap-1.5 rounded-md border border-dashed border-destructive/40 px-1.5 py-1"
+          >
+            <span className="text-[10px] font-semibold uppercase text-destructive">
+              {t('search.operators.not')}
+            </span>
+            {renderExpression(expression.operand, depth + 1, `${key}-0`)}
+          </span>
+        )
+      case 'and':
+        return (
+          <React.Fragment key={key}>
+            {expression.operands.map((operand, index) =>
+              renderExpression(operand, depth, `${key}-${index}`)
+            )}
+          </React.Fragment>
+        )
+      case 'or':
+        return (
+          <span
+            key={key}
+            className={cn(
+              'inline-flex flex-wrap items-center gap-1.5',
+              depth > 0 || parsedSearch.expression?.type !== 'or'
+                ? 'rounded-md border border-dashed border-border px-1.5 py-1'
+                : ''
+            )}
+          >
+            {expression.operands.map((operand, index) => (
+              <React.Fragment key={`${key}-${index}`}>
+                {index > 0 && (
+                  <span className="text-[10px] font-semibold uppercase text-muted-foreground">
+                    {t('search.operators.or')}
+                  </span>
+                )}
+                {renderExpression(operand, depth + 1, `${key}-${index}`)}
+              </React.Fragment>
+            ))}
+          </span>
+        )
+    }
+  }
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2', className)}>
+      {renderExpression(parsedSearch.expression, 0, 'root')}
+    </div>
+  )
+}
+
+interface FilterChipProps {
+  filter: SearchFilter
+  negated: boolean
+  onEdit: (query: string) => void
+  onToggleNegation: () => void
+  onRemove: () => void
+}
+
+function FilterChip({
+  filter,
+  negated,
+  onEdit,
+  onToggleNegation,
+  onRemove,
+}: FilterChipProps) {
+  const t = useTranslations()
+  const [open, setOpen] = React.useState(false)
+  const [draft, setDraft] = React.useState(filter.raw)
+  const Icon = FILTER_ICONS[filter.type] || Tag
+  const label = useFilterLabel(filter)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) setDraft(filter.raw)
+    setOpen(nextOpen)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setOpen(false)
+    if (draft.trim() !== filter.raw) {
+      onEdit(draft.trim())
+    }
+  }
+
+  return (
+    <Badge
+      variant="secondary"
+      className={cn(
+        'pl-2 pr-1 py-1 gap-1.5 transition-colors text-xs',
+        negated
+          ? 'bg-destructive/10 text-destructive border-destructive/20 hover:bg-destructive/15'
+          : 'bg-primary/10 text-primary border-primary/20 hover:bg-primary/15'
+      )}
+    >
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            className="flex items-center gap-1.5"
+            title={t('search.chips.edit')}
+          >
+            {negated ? (
+              <Ban className="h-3 w-3" />
+            ) : (
+              <Icon className="h-3 w-3" />
+            )}
+            <span className={cn('font-medium', negated && 'line-through')}>
+              {label}
+            </span>
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-80 p-2">
+          <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+            <Input
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => e.stopPropagation()}
+              className="h-8 font-mono text-xs"
+              aria-label={t('search.chips.edit')}
+            />
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <button
+                type="button"
+                onClick={() => {
+                  setOpen(false)
+                  onToggleNegation()
+                }}
+                className="hover:text-foreground underline-offset-2 hover:underline"
+              >
+                {negated
+                  ? t('search.chips.include')
+                  : t('search.chips.exclude')}
+              </button>
+              <span>{t('search.chips.applyHint')}</span>
+            </div>
+          </form>
+        </PopoverContent>
+      </Popover>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="ml-0.5 p-0.5 hover:bg-primary/20 rounded"
+        aria-label={t('search.chips.remove')}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </Badge>
+  )
+}
+
+/**
+ * Translated chip label for a filter, falling back to the parser's label
+ */
+function useFilterLabel(filter: SearchFilter): string {
+  const t = useTranslations()
+  const format = useFormatter()
+
+  const formatDate = (value?: string) => {
+    if (!value) return ''
+    const date = new Date(value.includes('T') ? value : `${value}T00:00:00`)
+    return value.includes('T')
+      ? format.dateTime(date, { dateStyle: 'medium', timeStyle: 'short' })
+      : format.dateTime(date, { dateStyle: 'medium' })
+  }
+
+  switch (filter.type) {
+    case 'created':
+    case 'modified': {
+      const condition = filter.date
+      if (!condition) return filter.label
+      const range =
+        condition.operator === 'last'
+          ? t(`search.dateRanges.last.${PERIOD_KEYS[condition.unit!]}`, {
+              count: condition.amount ?? 0,
+            })
+          : t(`search.dateRanges.${DATE_RANGE_KEYS[condition.operator]}`, {
+              date: formatDate(condition.date),
+              endDate: formatDate(condition.endDate),
+            })
+      return t(`search.chipLabels.${filter.type}`, { range })
+    }
+    case 'deleted':
+    case 'template':
+    case 'hasFile':
+    case 'hasAddress':
+      return t(`search.chipLabels.${filter.type}`, { value: filter.value })
+    case 'model':
+    case 'createdBy':
+    case 'parent':
+      return `${t(`search.filters.${filter.type}.label`)}: ${filter.value.slice(0, 8)}...`
+    default:
+      return filter.label
+  }
+}
@@ -1,3 +1,4 @@
 export { default } from './navbar'
 export { UserProfileDropdown } from './user-profile-dropdown'
 export { MobileMenu } from './mobile-menu'
+export { PinnedSearches } from './pinned-searches'
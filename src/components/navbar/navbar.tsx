@@ -1,6 +1,6 @@
 'use client'
 
-import { useSyncExternalStore } from 'react'
+import { Suspense, useSyncExternalStore } from 'react'
 import Link from 'next/link'
 import { useTranslations } from 'next-intl'
 import { usePathname } from 'next/navigation'
@@ -12,6 +12,7 @@ import { useSearch, useAppConfig } from '@/contexts'
 import { NAV_ITEMS } from '@/constants'
 import { UserProfileDropdown } from './user-profile-dropdown'
 import { MobileMenu } from './mobile-menu'
+import { PinnedSearches } from './pinned-searches'
 
 const emptySubscribe = () => () => {}
 
@@ -69,6 +70,9 @@ export default function Navbar() {
 
             {/* Desktop Actions */}
             <div className="hidden md:flex items-center gap-4">
+              <Suspense fallback={null}>
+                <PinnedSearches />
+              </Suspense>
               <button
                 onClick={() => setCommandCenterOpen(true)}
                 data-tour="search-button"
@@ -0,0 +1,50 @@
+'use client'
+
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { Bookmark } from 'lucide-react'
+
+import { cn } from '@/lib/utils'
+import { buildSearchUrl, SEARCH_QUERY_PARAM } from '@/lib/search-url'
+import { useSavedSearches } from '@/hooks/api'
+
+// Keep the navbar compact - further pins stay reachable from the command center
+const MAX_PINNED_SEARCHES = 3
+
+/**
+ * Saved searches the user pinned, shown as quick links in the navbar
+ */
+export function PinnedSearches() {
+  const searchParams = useSearchParams()
+  const { useListSavedSearches } = useSavedSearches()
+  const { data: savedSearches = [] } = useListSavedSearches()
+
+  const pinned = savedSearches
+    .filter((search) => search.pinned)
+    .slice(0, MAX_PINNED_SEARCHES)
+
+  if (pinned.length === 0) return null
+
+  const activeQuery = searchParams.get(SEARCH_QUERY_PARAM)
+
+  return (
+    <div className="hidden lg:flex items-center gap-1">
+      {pinned.map((search) => (
+        <Link
+          key={search.id}
+          href={buildSearchUrl(search.query)}
+          title={search.query}
+          className={cn(
+            'flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium transition-colors max-w-[140px]',
+            activeQuery === search.query
+              ? 'bg-primary/10 text-primary'
+              : 'text-muted-foreground hover:text-foreground hover:bg-muted'
+          )}
+        >
+          <Bookmark className="h-3 w-3 shrink-0" />
+          <span className="truncate">{search.name}</span>
+        </Link>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { ChevronRight, Leaf, Loader2 } from 'lucide-react'
+
+import { Badge } from '@/components/ui'
+import { useStatements } from '@/hooks'
+import { useEmbodiedCarbon } from '@/components/processes/hooks'
+import { EMBODIED_CARBON_UNIT, formatQuantity } from '@/lib'
+
+interface EmbodiedCarbonSectionProps {
+  uuid?: string
+}
+
+/**
+ * Read-only embodied carbon of an object, rolled up from the processes
+ * it's part of. Hidden for objects outside the process graph. The rollup
+ * needs the whole graph, so it's only loaded once the section is expanded.
+ */
+export function EmbodiedCarbonSection({ uuid }: EmbodiedCarbonSectionProps) {
+  const t = useTranslations('objects.embodiedCarbon')
+  const [isExpanded, setIsExpanded] = useState(false)
+  const { useObjectRelationships } = useStatements()
+
+  // Only the object's own flows, to know whether it's in the process graph
+  const { data: flows } = useObjectRelationships(uuid || '', {
+    enabled: !!uuid,
+    predicate: 'IS_INPUT_OF',
+  })
+
+  if (!uuid || !flows?.combined?.length) return null
+
+  return (
+    <div
+      className="border rounded-md overflow-hidden"
+      data-testid="embodied-carbon"
+    >
+      <div
+        className="py-2 px-3 hover:bg-muted/20 cursor-pointer"
+        data-testid="embodied-carbon-header"
+        onClick={() => setIsExpanded((expanded) => !expanded)}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 font-medium text-sm">
+            <ChevronRight
+              className={`h-4 w-4 transition-transform flex-shrink-0 ${
+                isExpanded ? 'rotate-90' : ''
+              }`}
+            />
+            <Leaf className="h-4 w-4 text-green-600 dark:text-green-400" />
+            {t('title')}
+          </div>
+          <Badge variant="secondary" className="text-xs">
+            {t('computed')}
+          </Badge>
+        </div>
+      </div>
+
+      {isExpanded && <EmbodiedCarbonDetails uuid={uuid} />}
+    </div>
+  )
+}
+
+// Mounted on expand, loading the process graph is left to this component
+function EmbodiedCarbonDetails({ uuid }: { uuid: string }) {
+  const t = useTranslations('objects.embodiedCarbon')
+  const { embodiedCarbon, isLoading } = useEmbodiedCarbon()
+
+  if (isLoading) {
+    return (
+      <div className="border-t px-3 py-2 flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        {t('loading')}
+      </div>
+    )
+  }
+
+  const carbon = embodiedCarbon.get(uuid)
+  if (!carbon) {
+    return (
+      <div className="border-t px-3 py-2 text-xs text-muted-foreground">
+        {t('noData')}
+      </div>
+    )
+  }
+
+  return (
+    <div className="border-t px-3 py-2 space-y-1">
+      <div className="text-sm font-medium">
+        {formatQuantity(carbon.total, EMBODIED_CARBON_UNIT)}
+      </div>
+      <div className="text-xs text-muted-foreground space-y-0.5">
+        <div>
+          {t('direct', {
+            value: formatQuantity(carbon.direct, EMBODIED_CARBON_UNIT),
+          })}
+        </div>
+        {carbon.intensity !== null && (
+          <div>
+            {t('intensity', {
+              value: formatQuantity(carbon.intensity, EMBODIED_CARBON_UNIT),
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
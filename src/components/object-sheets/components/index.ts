@@ -5,5 +5,7 @@ export { AttachmentList } from './attachment-list'
 export { FileDisplay, FileList } from './file-display'
 export { ModelSelector } from './model-selector'
 export type { ModelOption } from './model-selector'
+export { ModelSchemaIssueList } from './model-schema-issues'
 export { UnsavedChangesDialog } from './unsaved-changes-dialog'
 export { RestoreDraftDialog } from './restore-draft-dialog'
+export { EmbodiedCarbonSection } from './embodied-carbon-section'
@@ -0,0 +1,29 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+
+import type { ModelSchemaIssue } from '@/lib/model-schema'
+
+interface ModelSchemaIssueListProps {
+  issues: ModelSchemaIssue[]
+}
+
+/**
+ * The ways an object doesn't match the property schema of its model
+ */
+export function ModelSchemaIssueList({ issues }: ModelSchemaIssueListProps) {
+  const t = useTranslations('objects.schema')
+
+  return (
+    <ul className="list-disc space-y-0.5 pl-4 text-xs">
+      {issues.map((issue) => (
+        <li key={issue.key}>
+          {t(`issues.${issue.kind}`, {
+            property: issue.key,
+            message: issue.message || '',
+          })}
+        </li>
+      ))}
+    </ul>
+  )
+}
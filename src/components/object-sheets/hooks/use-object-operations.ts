@@ -18,6 +18,8 @@ export interface UseObjectOperationsProps {
   isEditing: boolean
   isTemplate?: boolean
   onRefetch?: () => void
+  // Runs after an object is created, before it's reported as saved
+  onCreated?: (uuid: string, object: any) => Promise<void> | void
 }
 
 export interface UseObjectOperationsReturn {
@@ -40,6 +42,7 @@ export function useObjectOperations({
   isEditing,
   isTemplate = false,
   onRefetch,
+  onCreated,
 }: UseObjectOperationsProps): UseObjectOperationsReturn {
   const [editedObject, setEditedObject] = useState<any>(null)
 
@@ -220,6 +223,10 @@ export function useObjectOperations({
         }
       }
 
+      if (onCreated && createdObjectUuid) {
+        await onCreated(createdObjectUuid, object)
+      }
+
       // Step 4: Show success only after everything is complete
       toast.success(t('objects.objectCreatedSuccess'), {
         id: 'save-object',
@@ -1,5 +1,6 @@
 export { ObjectDetailsSheet } from './object-details-sheet'
 export { ObjectAddSheet } from './object-add-sheet'
 export { ObjectModelSheet } from './object-model-sheet'
+export { ModelSchemaIssueList } from './components'
 export { CopyObjectsSheet } from './copy-objects-sheet'
 export type { CopySourceObject, CopyObjectsOptions } from './copy-objects-sheet'
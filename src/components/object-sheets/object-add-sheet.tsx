@@ -3,6 +3,7 @@
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useTranslations } from 'next-intl'
 import { Plus } from 'lucide-react'
+import { toast } from 'sonner'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { useForm, useFieldArray } from 'react-hook-form'
 
@@ -26,13 +27,20 @@ import {
   HereAddressAutocomplete,
 } from '@/components/ui'
 import { PropertyField } from '@/components/properties'
+import {
+  checkModelSchema,
+  createPropertiesFromSchema,
+  getModelSchema,
+} from '@/lib'
 import { objectSchema, ObjectFormValues } from '@/lib/validations/object-model'
+import { useModelSchemas } from '@/hooks/api'
 import {
   AttachmentList,
   AttachmentModal,
   ParentSelector,
   ModelSelector,
   ModelOption,
+  ModelSchemaIssueList,
   UnsavedChangesDialog,
 } from './components'
 import { useObjectOperations } from './hooks'
@@ -84,6 +92,23 @@ export function ObjectAddSheet({
   // Model selection state
   const [selectedModel, setSelectedModel] = useState<ModelOption | null>(null)
 
+  // Property schema of the selected model, enforced on create
+  const { useListModelSchemas } = useModelSchemas()
+  const { data: schemas } = useListModelSchemas()
+  const modelSchema = useMemo(
+    () =>
+      selectedModel
+        ? getModelSchema(
+            selectedModel,
+            schemas?.find((schema) => schema.modelUuid === selectedModel.uuid)
+          )
+        : [],
+    [selectedModel, schemas]
+  )
+  const requiredKeys = modelSchema
+    .filter((property) => property.required)
+    .map((property) => property.label || property.key)
+
   // Unsaved changes dialog state
   const [showUnsavedDialog, setShowUnsavedDialog] = useState(false)
 
@@ -181,37 +206,30 @@ export function ObjectAddSheet({
       form.setValue('description', model.description || '')
       form.setValue('modelUuid', model.uuid)
 
-      // Clear existing properties and add model properties
-      form.setValue('properties', [])
-
-      // Add model properties to the form
-      if (model.properties && model.properties.length > 0) {
-        const modelProperties = model.properties.map((prop: any) => ({
-          key: prop.key || '',
-          label: prop.label || prop.key || '',
-          type: prop.type || 'string',
-          values: prop.values?.map((val: any) => ({
-            value: val.value || '',
-            valueTypeCast: val.valueTypeCast || 'string',
-            files: [],
-          })) || [
-            {
-              value: '',
-              valueTypeCast: 'string',
-              files: [],
-            },
-          ],
-          files: [],
-        }))
-
-        form.setValue('properties', modelProperties)
-      }
+      // Replace existing properties with the model's, filled with defaults
+      form.setValue(
+        'properties',
+        createPropertiesFromSchema(
+          getModelSchema(
+            model,
+            schemas?.find((schema) => schema.modelUuid === model.uuid)
+          )
+        )
+      )
     } else {
       form.setValue('modelUuid', undefined)
     }
   }
 
   const handleSubmit = async (values: ObjectFormValues) => {
+    const issues = checkModelSchema(values.properties, modelSchema)
+    if (issues.length > 0) {
+      toast.error(t('objects.schema.createBlocked'), {
+        description: <ModelSchemaIssueList issues={issues} />,
+      })
+      return
+    }
+
     const success = await createObject(values)
 
     if (success) {
@@ -273,6 +291,13 @@ export function ObjectAddSheet({
                     placeholder={t('objects.modelTemplatePlaceholder')}
                     dataTour="object-model"
                   />
+                  {requiredKeys.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {t('objects.schema.requiredHint', {
+                        properties: requiredKeys.join(', '),
+                      })}
+                    </p>
+                  )}
 
                   <ParentSelector
                     initialParentUuids={watchedParents}
@@ -4,7 +4,7 @@ import { useState, useEffect } from 'react'
 import { useTranslations } from 'next-intl'
 import { Trash2, Loader2, FileText, RotateCcw, Copy } from 'lucide-react'
 
-import { logger } from '@/lib'
+import { DEFAULT_VALUE_TYPE_CAST, logger } from '@/lib'
 import {
   Badge,
   Button,
@@ -315,12 +315,12 @@ export function ObjectDetailsSheet({
             type: prop.type || 'string',
             values: prop.values?.map((val: any) => ({
               value: 'Variable', // Reset values to placeholder
-              valueTypeCast: val.valueTypeCast || 'string',
+              valueTypeCast: val.valueTypeCast || DEFAULT_VALUE_TYPE_CAST,
               files: [], // Don't copy files
             })) || [
               {
                 value: 'Variable',
-                valueTypeCast: 'string',
+                valueTypeCast: DEFAULT_VALUE_TYPE_CAST,
                 sourceType: 'manual',
                 files: [],
               },
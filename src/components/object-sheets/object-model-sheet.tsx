@@ -1,6 +1,7 @@
-import { useEffect } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { useTranslations } from 'next-intl'
 import { PlusIcon } from 'lucide-react'
+import { toast } from 'sonner'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { useForm, useFieldArray } from 'react-hook-form'
 
@@ -22,12 +23,20 @@ import {
   Button,
 } from '@/components/ui'
 import {
+  DEFAULT_VALUE_TYPE_CAST,
+  getModelSchema,
   objectModelSchema,
   ObjectModelFormValues,
+  ModelProperty,
   Property,
   logger,
+  schemaFromModelProperties,
 } from '@/lib'
-import { PropertyFieldTemplate } from '@/components/properties'
+import {
+  PropertyFieldTemplate,
+  usePropertyManagement,
+} from '@/components/properties'
+import { useModelSchemas } from '@/hooks/api'
 import { useObjectOperations } from './hooks'
 import { createEmptyProperty } from './utils'
 
@@ -51,6 +60,17 @@ interface ObjectModelSheetProps {
   isEditing?: boolean
 }
 
+// Values worth saving, empty default values are left out
+const filledValues = (property: ModelProperty) =>
+  (property.values || [])
+    .filter((v) => v.value !== '')
+    .map((v) => ({
+      ...(v.uuid && { uuid: v.uuid }),
+      value: v.value,
+      valueTypeCast:
+        v.valueTypeCast || property.valueTypeCast || DEFAULT_VALUE_TYPE_CAST,
+    }))
+
 export function ObjectModelSheet({
   open,
   onOpenChange,
@@ -75,6 +95,30 @@ export function ObjectModelSheet({
     name: 'properties',
   })
 
+  const [isSavingProperties, setIsSavingProperties] = useState(false)
+  const { useListModelSchemas, useSaveModelSchema } = useModelSchemas()
+  const { data: schemas } = useListModelSchemas({
+    refetchOnWindowFocus: false,
+  })
+  const saveSchema = useSaveModelSchema()
+  const {
+    createPropertyForObject,
+    updatePropertyWithValues,
+    removePropertyFromObject,
+  } = usePropertyManagement()
+
+  const storedSchema = useMemo(
+    () => schemas?.find((schema) => schema.modelUuid === model?.uuid) || null,
+    [schemas, model?.uuid]
+  )
+
+  // The schema is saved along with the model's properties
+  const saveModelSchema = (modelUuid: string, properties: ModelProperty[]) =>
+    saveSchema.mutateAsync({
+      modelUuid,
+      properties: schemaFromModelProperties(properties),
+    })
+
   // Use object operations hook for template creation/editing
   const { createObject, saveMetadata, hasMetadataChanged, isCreating } =
     useObjectOperations({
@@ -82,17 +126,39 @@ export function ObjectModelSheet({
       isEditing,
       isTemplate: true, // This is always a template
       onRefetch: onSave ? () => onSave({} as any) : undefined,
+      onCreated: async (uuid, values: ObjectModelFormValues) => {
+        try {
+          await saveModelSchema(uuid, values.properties)
+        } catch (error) {
+          logger.error('Error saving model schema:', error)
+          toast.error(t('models.schema.saveFailed'))
+        }
+      },
     })
 
   // Initialize form when editing an existing model
   useEffect(() => {
     if (model && isEditing) {
+      const schema = getModelSchema(model, storedSchema)
       form.reset({
         name: model.name,
         abbreviation: model.abbreviation,
         version: model.version,
         description: model.description,
-        properties: model.properties,
+        properties: (model.properties || [])
+          .filter((property: any) => !property.softDeleted)
+          .map((property: any) => {
+            const field = schema.find((f) => f.key === property.key)
+            return {
+              ...property,
+              label: field?.label || '',
+              valueTypeCast:
+                field?.valueTypeCast ||
+                property.values?.[0]?.valueTypeCast ||
+                DEFAULT_VALUE_TYPE_CAST,
+              required: !!field?.required,
+            }
+          }),
       })
     } else {
       form.reset({
@@ -103,13 +169,51 @@ export function ObjectModelSheet({
         properties: [],
       })
     }
-  }, [model, isEditing, form])
+  }, [model, isEditing, form, storedSchema])
+
+  const isSaving = isCreating || isSavingProperties
 
   // Add a new property to the form
   const addProperty = () => {
     append(createEmptyProperty())
   }
 
+  // Add, update and remove the properties of an existing model
+  const saveModelProperties = async (
+    modelUuid: string,
+    properties: ModelProperty[]
+  ) => {
+    const original: any[] = (model?.properties || []).filter(
+      (property: any) => !property.softDeleted
+    )
+    const keptUuids = new Set(properties.map((property) => property.uuid))
+
+    await Promise.all([
+      ...original
+        .filter((property) => !keptUuids.has(property.uuid))
+        .map((property) => removePropertyFromObject(modelUuid, property.uuid)),
+      ...properties.map((property) => {
+        if (!property.uuid) {
+          return createPropertyForObject(modelUuid, {
+            key: property.key,
+            label: property.label || property.key,
+            values: filledValues(property),
+          })
+        }
+        const before = original.find((p) => p.uuid === property.uuid)
+        const unchanged =
+          before?.key === property.key &&
+          JSON.stringify(filledValues(before)) ===
+            JSON.stringify(filledValues(property))
+        if (unchanged) return null
+        return updatePropertyWithValues(
+          { uuid: property.uuid, key: property.key },
+          filledValues(property)
+        )
+      }),
+    ])
+  }
+
   // Handle form submission
   const onSubmit = async (values: ObjectModelFormValues) => {
     try {
@@ -118,7 +222,19 @@ export function ObjectModelSheet({
         if (hasMetadataChanged) {
           await saveMetadata()
         }
-        // TODO: Handle property updates for existing templates
+        if (model.uuid) {
+          setIsSavingProperties(true)
+          try {
+            await saveModelProperties(model.uuid, values.properties)
+            await saveModelSchema(model.uuid, values.properties)
+            toast.success(t('models.schema.saved'))
+          } catch (error) {
+            toast.error(t('models.schema.saveFailed'))
+            throw error
+          } finally {
+            setIsSavingProperties(false)
+          }
+        }
         onOpenChange(false)
       } else {
         // For new templates, use createObject
@@ -283,12 +399,12 @@ export function ObjectModelSheet({
                 variant="outline"
                 onClick={() => onOpenChange(false)}
                 className="w-full"
-                disabled={isCreating}
+                disabled={isSaving}
               >
                 {t('common.cancel')}
               </Button>
-              <Button type="submit" className="w-full" disabled={isCreating}>
-                {isCreating ? (
+              <Button type="submit" className="w-full" disabled={isSaving}>
+                {isSaving ? (
                   <>
                     <span className="h-4 w-4 mr-2 animate-spin rounded-full border-2 border-background border-t-transparent"></span>
                     {isEditing ? t('models.updating') : t('models.creating')}
@@ -2,7 +2,15 @@
 
 import { useState } from 'react'
 import { useTranslations } from 'next-intl'
-import { ChevronRight, LayoutGrid, List, Upload } from 'lucide-react'
+import {
+  AlertTriangle,
+  ChevronRight,
+  LayoutGrid,
+  List,
+  Loader2,
+  RefreshCw,
+  Upload,
+} from 'lucide-react'
 
 import { cn, formatNumericValue } from '@/lib/utils'
 import {
@@ -15,12 +23,16 @@ import {
   TooltipTrigger,
 } from '@/components/ui'
 import {
+  FormulaDisplay,
   PropertyGridView,
   PropertySectionEditor,
+  hasFormulaValues,
+  useFormulaStaleness,
 } from '@/components/properties'
+import { useRecomputeFormulas } from '@/hooks/api'
 import type { Attachment, FileData } from '@/types'
 
-import { FileList } from '../components'
+import { EmbodiedCarbonSection, FileList } from '../components'
 
 // Helper function to convert API files to FileData format
 const convertApiFilesToFileData = (files: any[]): FileData[] => {
@@ -59,6 +71,7 @@ interface PropertiesTabProps {
 }
 
 export function PropertiesTab({
+  object,
   properties,
   editedProperties,
   setEditedProperties,
@@ -73,6 +86,11 @@ export function PropertiesTab({
   )
   const [viewMode, setViewMode] = useState<'detailed' | 'grid'>('detailed')
 
+  // Stored formula results that no longer match their sources
+  const { staleIds, cycles } = useFormulaStaleness(object?.uuid, properties)
+  const { recomputeFormulas, isRecomputing } = useRecomputeFormulas()
+  const showRecompute = !!object?.uuid && hasFormulaValues(properties || [])
+
   // Derived states for editing modes
   const isPropertiesEditing = activeEditingSection === 'properties'
 
@@ -138,56 +156,90 @@ export function PropertiesTab({
         showToast={false}
         headerExtra={
           !isPropertiesEditing && properties && properties.length > 0 ? (
-            <TooltipProvider>
-              <div className="flex items-center border rounded-md overflow-hidden">
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <button
-                      type="button"
-                      data-testid="properties-detailed-view-toggle"
-                      onClick={() => setViewMode('detailed')}
-                      className={cn(
-                        'p-1.5 transition-colors',
-                        viewMode === 'detailed'
-                          ? 'bg-primary text-primary-foreground'
-                          : 'hover:bg-muted text-muted-foreground'
-                      )}
-                    >
-                      <List className="h-3.5 w-3.5" />
-                    </button>
-                  </TooltipTrigger>
-                  <TooltipContent side="bottom">
-                    {t('objects.properties.detailedView')}
-                  </TooltipContent>
-                </Tooltip>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <button
-                      type="button"
-                      data-testid="properties-grid-view-toggle"
-                      onClick={() => setViewMode('grid')}
-                      className={cn(
-                        'p-1.5 transition-colors',
-                        viewMode === 'grid'
-                          ? 'bg-primary text-primary-foreground'
-                          : 'hover:bg-muted text-muted-foreground'
-                      )}
-                    >
-                      <LayoutGrid className="h-3.5 w-3.5" />
-                    </button>
-                  </TooltipTrigger>
-                  <TooltipContent side="bottom">
-                    {t('objects.properties.passportView')}
-                  </TooltipContent>
-                </Tooltip>
-              </div>
-            </TooltipProvider>
+            <div className="flex items-center gap-2">
+              {showRecompute && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 gap-1 px-2 text-xs"
+                  data-testid="recompute-formulas"
+                  onClick={() => recomputeFormulas({ uuids: [object.uuid] })}
+                  disabled={isRecomputing}
+                >
+                  {isRecomputing ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-3 w-3" />
+                  )}
+                  {staleIds.size > 0
+                    ? t('objects.formulas.recomputeStale', {
+                        count: staleIds.size,
+                      })
+                    : t('objects.formulas.recompute')}
+                </Button>
+              )}
+              <TooltipProvider>
+                <div className="flex items-center border rounded-md overflow-hidden">
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <button
+                        type="button"
+                        data-testid="properties-detailed-view-toggle"
+                        onClick={() => setViewMode('detailed')}
+                        className={cn(
+                          'p-1.5 transition-colors',
+                          viewMode === 'detailed'
+                            ? 'bg-primary text-primary-foreground'
+                            : 'hover:bg-muted text-muted-foreground'
+                        )}
+                      >
+                        <List className="h-3.5 w-3.5" />
+                      </button>
+                    </TooltipTrigger>
+                    <TooltipContent side="bottom">
+                      {t('objects.properties.detailedView')}
+                    </TooltipContent>
+                  </Tooltip>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <button
+                        type="button"
+                        data-testid="properties-grid-view-toggle"
+                        onClick={() => setViewMode('grid')}
+                        className={cn(
+                          'p-1.5 transition-colors',
+                          viewMode === 'grid'
+                            ? 'bg-primary text-primary-foreground'
+                            : 'hover:bg-muted text-muted-foreground'
+                        )}
+                      >
+                        <LayoutGrid className="h-3.5 w-3.5" />
+                      </button>
+                    </TooltipTrigger>
+                    <TooltipContent side="bottom">
+                      {t('objects.properties.passportView')}
+                    </TooltipContent>
+                  </Tooltip>
+                </div>
+              </TooltipProvider>
+            </div>
           ) : undefined
         }
         renderDisplay={() => (
           <div>
+            {cycles.length > 0 && (
+              <p className="mb-2 flex items-center gap-1 text-xs text-destructive">
+                <AlertTriangle className="h-3 w-3 shrink-0" />
+                {t('objects.formulas.cycleWarning', {
+                  properties: cycles.map((keys) => keys.join(' → ')).join('; '),
+                })}
+              </p>
+            )}
             {viewMode === 'grid' ? (
-              <PropertyGridView properties={properties} />
+              <PropertyGridView
+                properties={properties}
+                staleValueIds={staleIds}
+              />
             ) : properties.length > 0 ? (
               <div className="space-y-2">
                 {properties.map((prop: any, idx: number) => (
@@ -300,7 +352,24 @@ export function PropertiesTab({
                                   <div className="flex items-center justify-between">
                                     <div className="flex items-center gap-2 flex-1">
                                       <div className="font-medium text-sm">
-                                        {formatNumericValue(value.value)}
+                                        {value.formulaData?.formula ? (
+                                          <FormulaDisplay
+                                            formula={value.formulaData.formula}
+                                            resolvedExpression={
+                                              value.formulaData
+                                                .resolvedExpression
+                                            }
+                                            result={value.formulaData.result}
+                                            variableMapping={
+                                              value.formulaData.variableMapping
+                                            }
+                                            isStale={staleIds.has(
+                                              `${prop.uuid}::${index}`
+                                            )}
+                                          />
+                                        ) : (
+                                          formatNumericValue(value.value)
+                                        )}
                                       </div>
                                     </div>
                                     <div className="flex items-center gap-2">
@@ -375,9 +444,13 @@ export function PropertiesTab({
             properties={editedProperties}
             isEditable={true}
             onUpdate={setEditedProperties}
+            objectUuid={object?.uuid}
           />
         )}
       />
+
+      {/* Computed from the process graph, not editable */}
+      <EmbodiedCarbonSection uuid={object?.uuid} />
     </div>
   )
 }
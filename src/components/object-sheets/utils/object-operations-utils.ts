@@ -1,6 +1,6 @@
 import { Predicate } from 'iom-sdk'
 import type { ImportObjectData } from '@/hooks/api/use-import-api'
-import { logger } from '@/lib'
+import { DEFAULT_VALUE_TYPE_CAST, logger } from '@/lib'
 import type { Attachment } from '@/types'
 
 /**
@@ -95,7 +95,7 @@ export function transformToImportFormat(
 
           return {
             value: value.value,
-            valueTypeCast: value.valueTypeCast || 'string',
+            valueTypeCast: value.valueTypeCast || DEFAULT_VALUE_TYPE_CAST,
             sourceType: value.sourceType || 'manual',
             files: valueFiles,
           }
@@ -116,6 +116,7 @@ export function transformToImportFormat(
     version: object.version,
     description: object.description,
     isTemplate: isTemplate, // Add isTemplate flag
+    ...(!isTemplate && object.modelUuid && { modelUuid: object.modelUuid }),
     ...(object.address && object.address.fullAddress && !isTemplate // Don't include address for templates
       ? {
           address: {
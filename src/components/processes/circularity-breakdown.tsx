@@ -0,0 +1,154 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+
+import type { ProductCircularity } from '@/lib'
+import type { EnhancedMaterialRelationship } from '@/types'
+
+// Bar colours of the input sources, matching the flow category colours
+const SOURCE_COLORS = {
+  virgin: '#94A3B8',
+  recycled: '#10B981',
+  reused: '#06B6D4',
+}
+
+interface CircularityBreakdownProps {
+  products: ProductCircularity[]
+  // Formats a mass in kg for display
+  formatMass: (value: number) => string
+  onRelationshipSelect?: (relationship: EnhancedMaterialRelationship) => void
+  maxItems?: number
+}
+
+export function CircularityBreakdown({
+  products,
+  formatMass,
+  onRelationshipSelect,
+  maxItems = 10,
+}: CircularityBreakdownProps) {
+  const t = useTranslations('processes.circularity')
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  if (products.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t('noProducts')}</p>
+  }
+
+  const percent = (value: number, total: number) =>
+    total > 0 ? (value / total) * 100 : 0
+
+  return (
+    <div className="divide-y">
+      {products.slice(0, maxItems).map((product) => {
+        const isExpanded = expanded === product.uuid
+        const sources = [
+          { key: 'virgin' as const, value: product.virginMass },
+          { key: 'recycled' as const, value: product.recycledInput },
+          { key: 'reused' as const, value: product.reusedInput },
+        ]
+
+        return (
+          <div key={product.uuid} className="py-2">
+            <button
+              type="button"
+              onClick={() => setExpanded(isExpanded ? null : product.uuid)}
+              className="w-full flex items-center gap-3 text-left text-sm hover:bg-muted/50"
+            >
+              {isExpanded ? (
+                <ChevronDown className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+              ) : (
+                <ChevronRight className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+              )}
+              <span className="flex-1 min-w-0">
+                <span className="block font-medium truncate">
+                  {product.name}
+                </span>
+                <span className="block text-xs text-muted-foreground">
+                  {formatMass(product.mass)}
+                </span>
+              </span>
+              <span className="hidden sm:flex h-2 w-32 rounded-full overflow-hidden bg-muted">
+                {sources.map(({ key, value }) => (
+                  <span
+                    key={key}
+                    title={t(`sources.${key}`)}
+                    style={{
+                      width: `${percent(value, product.mass)}%`,
+                      backgroundColor: SOURCE_COLORS[key],
+                    }}
+                  />
+                ))}
+              </span>
+              <span className="w-12 text-right font-semibold">
+                {product.mci.toFixed(2)}
+              </span>
+            </button>
+
+            {isExpanded && (
+              <div className="mt-2 ml-7 space-y-2 text-xs">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-muted-foreground">
+                  {sources.map(({ key, value }) => (
+                    <div key={key}>
+                      {t(`sources.${key}`)}:{' '}
+                      <span className="font-medium text-foreground">
+                        {percent(value, product.mass).toFixed(0)}%
+                      </span>
+                    </div>
+                  ))}
+                  <div>
+                    {t('wasteMass')}:{' '}
+                    <span className="font-medium text-foreground">
+                      {formatMass(product.wasteMass)}
+                    </span>
+                  </div>
+                </div>
+                <div className="rounded-md border divide-y">
+                  {product.flows.map((flow, index) => {
+                    const other =
+                      flow.role === 'input'
+                        ? flow.relationship.subject
+                        : flow.relationship.object
+                    return (
+                      <button
+                        key={`${flow.relationship.subject.uuid}-${flow.relationship.object.uuid}-${index}`}
+                        type="button"
+                        onClick={() =>
+                          onRelationshipSelect?.(flow.relationship)
+                        }
+                        className="w-full flex items-center justify-between gap-2 px-2 py-1.5 text-left hover:bg-muted/50"
+                      >
+                        <span className="truncate">
+                          <span className="text-muted-foreground">
+                            {t(`roles.${flow.role}`)}
+                          </span>{' '}
+                          {other.name}
+                        </span>
+                        <span className="flex items-center gap-3 flex-shrink-0 text-muted-foreground">
+                          <span>{t(`kinds.${flow.kind}`)}</span>
+                          <span className="font-medium text-foreground">
+                            {formatMass(flow.mass)}
+                          </span>
+                        </span>
+                      </button>
+                    )
+                  })}
+                </div>
+                {product.excluded > 0 && (
+                  <div className="text-amber-600 dark:text-amber-400">
+                    {t('excluded', { count: product.excluded })}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )
+      })}
+      {products.length > maxItems && (
+        <p className="pt-2 text-xs text-muted-foreground">
+          {t('more', { count: products.length - maxItems })}
+        </p>
+      )}
+    </div>
+  )
+}
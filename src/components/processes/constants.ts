@@ -1,43 +1,3 @@
-import { ProcessCategory, LifecycleStage } from '@/types/sankey-metadata'
-
-export const PROCESS_CATEGORIES: ProcessCategory[] = [
-  'CONSTRUCTION',
-  'DECONSTRUCTION',
-  'SORTING',
-  'RECYCLING',
-  'REFURBISHMENT',
-  'TRANSPORT',
-  'DEMOLITION',
-  'DISPOSAL',
-]
-
-export const LIFECYCLE_STAGES: LifecycleStage[] = [
-  'PRIMARY_INPUT',
-  'SECONDARY_INPUT',
-  'REUSED_COMPONENT',
-  'PROCESSING',
-  'COMPONENT',
-  'PRODUCT',
-  'USE_PHASE',
-  'WASTE',
-  'DISPOSAL',
-]
-
-export const FLOW_CATEGORY_OPTIONS = [
-  { value: 'STANDARD', labelKey: 'STANDARD' },
-  { value: 'RECYCLING', labelKey: 'RECYCLING' },
-  { value: 'REUSE', labelKey: 'REUSE' },
-  { value: 'DOWNCYCLING', labelKey: 'DOWNCYCLING' },
-  { value: 'CIRCULAR', labelKey: 'CIRCULAR' },
-  { value: 'WASTE_FLOW', labelKey: 'WASTE_FLOW' },
-] as const
-
-export const QUALITY_CHANGE_OPTIONS = [
-  { value: 'UPCYCLED', labelKey: 'UPCYCLED' },
-  { value: 'SAME', labelKey: 'SAME' },
-  { value: 'DOWNCYCLED', labelKey: 'DOWNCYCLED' },
-] as const
-
 // Color palettes for charts
 export const PROCESS_CATEGORY_COLORS = [
   '#3B82F6', // blue
@@ -0,0 +1,155 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Download, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import {
+  Button,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui'
+import { logger } from '@/lib'
+import {
+  buildExportOption,
+  diagramGraphToCsv,
+  diagramGraphToJson,
+  getDiagramExportFileName,
+  getDiagramLegend,
+  renderDiagramPng,
+  renderDiagramSvg,
+  type DiagramExportFormat,
+  type DiagramExportGraph,
+} from './diagram-export'
+
+interface DiagramExportMenuProps {
+  // Chart options of the diagram as shown
+  option: any
+  graph: DiagramExportGraph
+  // Diagram kind, used for the title and the file name
+  kind: 'sankey' | 'network'
+  isDark?: boolean
+  className?: string
+}
+
+function downloadFile(content: Blob | string, fileName: string) {
+  const url =
+    typeof content === 'string' ? content : URL.createObjectURL(content)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+
+  document.body.removeChild(link)
+  if (typeof content !== 'string') URL.revokeObjectURL(url)
+}
+
+export function DiagramExportMenu({
+  option,
+  graph,
+  kind,
+  isDark = false,
+  className,
+}: DiagramExportMenuProps) {
+  const t = useTranslations()
+  const [exporting, setExporting] = useState<DiagramExportFormat | null>(null)
+
+  const title = t(`viewSelector.${kind}`)
+  const fileName = (format: DiagramExportFormat) =>
+    getDiagramExportFileName(`${kind}-diagram`, format)
+
+  const handleExport = async (format: DiagramExportFormat) => {
+    setExporting(format)
+    try {
+      if (format === 'csv') {
+        downloadFile(
+          new Blob([diagramGraphToCsv(graph)], { type: 'text/csv' }),
+          fileName(format)
+        )
+        return
+      }
+      if (format === 'json') {
+        downloadFile(
+          new Blob([diagramGraphToJson(graph, title)], {
+            type: 'application/json',
+          }),
+          fileName(format)
+        )
+        return
+      }
+
+      const exportOption = buildExportOption(option, {
+        title,
+        subtitle: t('processes.export.subtitle', {
+          nodes: graph.nodes.length,
+          flows: graph.links.length,
+          date: new Date().toLocaleDateString(),
+        }),
+        legend: getDiagramLegend(graph.nodes).map(({ stage, color }) => ({
+          label: t(`lifecycleStages.${stage}`),
+          color,
+        })),
+        textColor: isDark ? '#E5E7EB' : '#1F2937',
+      })
+      const backgroundColor = isDark ? '#0F172A' : '#FFFFFF'
+
+      if (format === 'svg') {
+        const svg = await renderDiagramSvg({ ...exportOption, backgroundColor })
+        downloadFile(
+          new Blob([svg], { type: 'image/svg+xml' }),
+          fileName(format)
+        )
+      } else {
+        downloadFile(
+          await renderDiagramPng(exportOption, backgroundColor),
+          fileName(format)
+        )
+      }
+    } catch (error) {
+      logger.error('Failed to export diagram:', { error, format })
+      toast.error(t('processes.export.failed'))
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={className}
+          disabled={exporting !== null}
+        >
+          {exporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          {t('processes.export.button')}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport('svg')}>
+          {t('processes.export.svg')}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('png')}>
+          {t('processes.export.png')}
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => handleExport('csv')}>
+          {t('processes.export.csv')}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('json')}>
+          {t('processes.export.json')}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,227 @@
+import Papa from 'papaparse'
+
+import type {
+  EnhancedMaterialObject,
+  EnhancedMaterialRelationship,
+  LifecycleStage,
+} from '@/types'
+import { LIFECYCLE_STAGES } from '@/constants'
+
+// Size diagrams are exported at, in CSS pixels
+export const DIAGRAM_EXPORT_WIDTH = 1600
+export const DIAGRAM_EXPORT_HEIGHT = 1000
+
+// Space above the diagram for the title and below it for the legend
+const TITLE_HEIGHT = 70
+const LEGEND_HEIGHT = 60
+const LEGEND_ITEM_WIDTH = 170
+
+export type DiagramExportFormat = 'svg' | 'png' | 'csv' | 'json'
+
+/**
+ * Graph as shown in a diagram, after depth limiting and cycle removal
+ */
+export interface DiagramExportGraph {
+  nodes: EnhancedMaterialObject[]
+  links: EnhancedMaterialRelationship[]
+}
+
+export interface DiagramLegendItem {
+  stage: LifecycleStage
+  color: string
+}
+
+/**
+ * Lifecycle stages of the nodes in a graph with the colour their nodes are
+ * drawn in, in lifecycle order
+ */
+export function getDiagramLegend(
+  nodes: EnhancedMaterialObject[]
+): DiagramLegendItem[] {
+  const colors = new Map<LifecycleStage, string>()
+  nodes.forEach((node) => {
+    if (node.lifecycleStage && node.color && !colors.has(node.lifecycleStage)) {
+      colors.set(node.lifecycleStage, node.color)
+    }
+  })
+  return LIFECYCLE_STAGES.filter((stage) => colors.has(stage)).map((stage) => ({
+    stage,
+    color: colors.get(stage)!,
+  }))
+}
+
+/**
+ * Chart options for an export: the diagram's own options with a title above
+ * and the lifecycle stage legend below, without animation or interaction
+ */
+export function buildExportOption(
+  option: any,
+  {
+    title,
+    subtitle,
+    legend,
+    textColor,
+  }: {
+    title: string
+    subtitle?: string
+    legend: Array<{ label: string; color: string }>
+    textColor: string
+  }
+): any {
+  const perRow = Math.max(
+    1,
+    Math.floor((DIAGRAM_EXPORT_WIDTH - 80) / LEGEND_ITEM_WIDTH)
+  )
+  const legendElements = legend.map((item, index) => ({
+    type: 'group',
+    left: 40 + (index % perRow) * LEGEND_ITEM_WIDTH,
+    bottom: LEGEND_HEIGHT - 30 - Math.floor(index / perRow) * 22,
+    children: [
+      {
+        type: 'rect',
+        shape: { x: 0, y: 0, width: 14, height: 14, r: 3 },
+        style: { fill: item.color },
+      },
+      {
+        type: 'text',
+        x: 20,
+        y: 1,
+        style: { text: item.label, fill: textColor, fontSize: 12 },
+      },
+    ],
+  }))
+
+  return {
+    ...option,
+    animation: false,
+    tooltip: { show: false },
+    title: {
+      text: title,
+      subtext: subtitle,
+      left: 40,
+      top: 20,
+      textStyle: { color: textColor, fontSize: 20 },
+    },
+    graphic: legendElements,
+    series: (option.series || []).map((series: any) => ({
+      ...series,
+      top: TITLE_HEIGHT,
+      bottom: LEGEND_HEIGHT + 20,
+      left: 40,
+      right: 160,
+      roam: false,
+    })),
+  }
+}
+
+/**
+ * Render chart options to an SVG document
+ */
+export async function renderDiagramSvg(option: any): Promise<string> {
+  const echarts = await import('echarts')
+  const chart = echarts.init(null, null, {
+    renderer: 'svg',
+    ssr: true,
+    width: DIAGRAM_EXPORT_WIDTH,
+    height: DIAGRAM_EXPORT_HEIGHT,
+  })
+  try {
+    chart.setOption(option)
+    return chart.renderToSVGString()
+  } finally {
+    chart.dispose()
+  }
+}
+
+/**
+ * Render chart options to a PNG data URL at twice the export size
+ */
+export async function renderDiagramPng(
+  option: any,
+  backgroundColor: string
+): Promise<string> {
+  const echarts = await import('echarts')
+  // Canvas rendering needs an element, kept out of view
+  const container = document.createElement('div')
+  container.style.position = 'fixed'
+  container.style.left = '-10000px'
+  container.style.width = `${DIAGRAM_EXPORT_WIDTH}px`
+  container.style.height = `${DIAGRAM_EXPORT_HEIGHT}px`
+  document.body.appendChild(container)
+
+  const chart = echarts.init(container, null, { renderer: 'canvas' })
+  try {
+    chart.setOption(option)
+    return chart.getDataURL({ type: 'png', pixelRatio: 2, backgroundColor })
+  } finally {
+    chart.dispose()
+    document.body.removeChild(container)
+  }
+}
+
+/**
+ * One row per flow of the graph
+ */
+export function diagramGraphToCsv(graph: DiagramExportGraph): string {
+  const stages = new Map(graph.nodes.map((n) => [n.uuid, n.lifecycleStage]))
+  return Papa.unparse(
+    graph.links.map((rel) => ({
+      Process: rel.processName || '',
+      'Input UUID': rel.subject.uuid,
+      Input: rel.subject.name,
+      'Input stage':
+        rel.inputMaterial?.lifecycleStage || stages.get(rel.subject.uuid) || '',
+      'Input quantity': rel.inputMaterial?.quantity ?? rel.quantity ?? '',
+      'Input unit': rel.inputMaterial?.unit || rel.unit || '',
+      'Output UUID': rel.object.uuid,
+      Output: rel.object.name,
+      'Output stage':
+        rel.outputMaterial?.lifecycleStage || stages.get(rel.object.uuid) || '',
+      'Output quantity': rel.outputMaterial?.quantity ?? '',
+      'Output unit': rel.outputMaterial?.unit || '',
+      'Flow category': rel.flowCategory || '',
+      'Process category': rel.processTypeCode || '',
+      Emissions: rel.emissionsTotal ?? '',
+      'Emissions unit': rel.emissionsTotal ? rel.emissionsUnit || '' : '',
+      'Material loss %': rel.materialLossPercent ?? '',
+      'Start date': rel.startDate || '',
+      'End date': rel.endDate || '',
+    }))
+  )
+}
+
+/**
+ * Nodes and flows of the graph as JSON
+ */
+export function diagramGraphToJson(
+  graph: DiagramExportGraph,
+  title: string
+): string {
+  return JSON.stringify(
+    {
+      title,
+      exportedAt: new Date().toISOString(),
+      nodes: graph.nodes.map((node) => ({
+        uuid: node.uuid,
+        name: node.name,
+        type: node.type,
+        lifecycleStage: node.lifecycleStage,
+        color: node.color,
+      })),
+      links: graph.links,
+    },
+    null,
+    2
+  )
+}
+
+/**
+ * File name for an export, e.g. sankey-diagram-2024-05-01.svg
+ */
+export function getDiagramExportFileName(
+  name: string,
+  format: DiagramExportFormat
+): string {
+  const date = new Date().toISOString().split('T')[0]
+  return `${name}-${date}.${format}`
+}
@@ -1 +1,5 @@
 export * from './use-sankey-diagram-data'
+export * from './use-mass-balance-tolerance'
+export * from './use-embodied-carbon'
+export * from './use-process-history'
+export * from './use-material-lineage'
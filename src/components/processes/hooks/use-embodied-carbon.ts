@@ -0,0 +1,18 @@
+import { useMemo } from 'react'
+
+import { computeEmbodiedCarbon } from '@/lib/embodied-carbon'
+import { useSankeyDiagramData } from './use-sankey-diagram-data'
+
+/**
+ * Embodied carbon of every material in the process graph, by UUID
+ */
+export function useEmbodiedCarbon() {
+  const { relationships, isLoading } = useSankeyDiagramData()
+
+  const embodiedCarbon = useMemo(
+    () => computeEmbodiedCarbon(relationships),
+    [relationships]
+  )
+
+  return { embodiedCarbon, isLoading }
+}
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react'
+
+import {
+  DEFAULT_MASS_BALANCE_TOLERANCE,
+  MASS_BALANCE_TOLERANCE_KEY,
+} from '@/constants'
+
+/**
+ * Mass balance tolerance in percent, kept in local storage so the sheets and
+ * the dashboard use the same value
+ */
+export function useMassBalanceTolerance(): [number, (value: number) => void] {
+  const [tolerance, setToleranceState] = useState(
+    DEFAULT_MASS_BALANCE_TOLERANCE
+  )
+
+  useEffect(() => {
+    const saved = localStorage.getItem(MASS_BALANCE_TOLERANCE_KEY)
+    if (saved && Number(saved) >= 0) {
+      setToleranceState(Number(saved))
+    }
+  }, [])
+
+  const setTolerance = useCallback((value: number) => {
+    if (!(value >= 0)) return
+    setToleranceState(value)
+    localStorage.setItem(MASS_BALANCE_TOLERANCE_KEY, String(value))
+  }, [])
+
+  return [tolerance, setTolerance]
+}
@@ -0,0 +1,59 @@
+import { useMemo } from 'react'
+
+import { useStatements, useObjects } from '@/hooks/api'
+import { orientFlowStatements, traceMaterialLineage } from '@/lib/lineage'
+import { processStatementsWithMetadata } from './use-sankey-diagram-data'
+
+/**
+ * Upstream and downstream flows of a material, up to `depth` hops each way
+ * Follows both IS_INPUT_OF and IS_OUTPUT_OF statements, and only fetches the
+ * objects in the lineage.
+ */
+export function useMaterialLineage(
+  objectUuid: string,
+  depth: number,
+  options?: { enabled?: boolean }
+) {
+  const { useStatementsByPredicate } = useStatements()
+  const { useObjectsByUUIDs } = useObjects()
+  const enabled = !!objectUuid && options?.enabled !== false
+
+  const inputOfQuery = useStatementsByPredicate('IS_INPUT_OF', { enabled })
+  const outputOfQuery = useStatementsByPredicate('IS_OUTPUT_OF', { enabled })
+
+  const lineage = useMemo(() => {
+    const statements = orientFlowStatements([
+      ...(Array.isArray(inputOfQuery.data) ? inputOfQuery.data : []),
+      ...(Array.isArray(outputOfQuery.data) ? outputOfQuery.data : []),
+    ])
+    return traceMaterialLineage(statements, objectUuid, depth)
+  }, [inputOfQuery.data, outputOfQuery.data, objectUuid, depth])
+
+  const uuids = useMemo(
+    () => Array.from(new Set([...lineage.upstream, ...lineage.downstream])),
+    [lineage]
+  )
+
+  const objectsQuery = useObjectsByUUIDs(uuids, {
+    enabled: enabled && uuids.length > 0,
+    includeDeleted: false,
+  })
+
+  const { materials, relationships } = useMemo(() => {
+    if (!lineage.statements.length || !objectsQuery.data?.length) {
+      return { materials: [], relationships: [] }
+    }
+    return processStatementsWithMetadata(lineage.statements, objectsQuery.data)
+  }, [lineage, objectsQuery.data])
+
+  return {
+    materials,
+    relationships,
+    upstream: lineage.upstream,
+    downstream: lineage.downstream,
+    isLoading:
+      inputOfQuery.isLoading ||
+      outputOfQuery.isLoading ||
+      objectsQuery.isLoading,
+  }
+}
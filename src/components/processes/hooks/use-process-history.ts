@@ -0,0 +1,40 @@
+import { useMemo } from 'react'
+
+import { useStatements } from '@/hooks/api'
+import {
+  buildProcessHistory,
+  type StoredProcessStatement,
+} from '@/lib/process-versions'
+import type { EnhancedMaterialRelationship } from '@/types'
+
+function unique(values: Array<string | undefined>): string[] {
+  return Array.from(new Set(values)).filter((value): value is string =>
+    Boolean(value)
+  )
+}
+
+/**
+ * Previous versions of the process made up by the given flows, newest first
+ */
+export function useProcessHistory(flows: EnhancedMaterialRelationship[]) {
+  const { useStatementsByPredicate } = useStatements()
+  const { data: deleted, isLoading } = useStatementsByPredicate('IS_INPUT_OF', {
+    enabled: flows.length > 0,
+    softDeleted: true,
+  })
+
+  const history = useMemo(
+    () =>
+      buildProcessHistory((deleted || []) as StoredProcessStatement[], {
+        ids: unique(flows.map((flow) => flow.processId)),
+        names: unique(flows.map((flow) => flow.processName)),
+        pairs: flows.map((flow) => ({
+          subject: flow.subject.uuid,
+          object: flow.object.uuid,
+        })),
+      }),
+    [deleted, flows]
+  )
+
+  return { history, isLoading }
+}
@@ -10,7 +10,9 @@ import type {
   ProcessCategory,
   QualityChangeCode,
 } from '@/types'
-import { limitStatementDepth } from '@/components/processes/utils'
+import { sumFlowQuantities } from '@/components/processes/utils'
+import { limitStatementDepth } from '@/lib/lineage'
+import { DEFAULT_DISPLAY_UNIT } from '@/constants'
 
 interface SankeyDiagramData {
   materials: EnhancedMaterialObject[]
@@ -39,12 +41,13 @@ interface SankeyLayoutData {
  */
 export function useSankeyDiagramData(
   objectUuid?: UUID,
-  options?: { maxDepth?: number; focusNode?: string }
+  options?: { maxDepth?: number; focusNode?: string; displayUnit?: string }
 ): SankeyDiagramData & { layoutData: SankeyLayoutData | null } {
   const { useStatementsByPredicate, useObjectRelationships } = useStatements()
   const { useObjectsByUUIDs } = useObjects()
   const maxDepth = options?.maxDepth
   const focusNode = options?.focusNode
+  const displayUnit = options?.displayUnit ?? DEFAULT_DISPLAY_UNIT
 
   // Fetch input relationships
 
@@ -127,9 +130,10 @@ export function useSankeyDiagramData(
     if (!processedData.materials.length) return null
     return computeMetadataDrivenLayout(
       processedData.materials,
-      processedData.relationships
+      processedData.relationships,
+      displayUnit
     )
-  }, [processedData])
+  }, [processedData, displayUnit])
 
   const isLoading = inputStatementsQuery.isLoading || objectsQuery.isLoading
 
@@ -147,7 +151,7 @@ export function useSankeyDiagramData(
  * Process statements and objects into enhanced materials and relationships
  * using metadata from statement properties instead of name-based heuristics
  */
-function processStatementsWithMetadata(
+export function processStatementsWithMetadata(
   statements: UUStatementDTO[],
   objects: UUObjectDTO[]
 ): {
@@ -334,6 +338,12 @@ function processStatementsWithMetadata(
       'qualityChangeCode'
     ) as QualityChangeCode
     const notes = getPropertyValue(statement, 'notes')
+    const startDate = getPropertyValue(statement, 'startDate')
+    const endDate = getPropertyValue(statement, 'endDate')
+    const processVersion =
+      parseInt(getPropertyValue(statement, 'processVersion') || '1', 10) || 1
+    const processUpdatedAt = getPropertyValue(statement, 'processUpdatedAt')
+    const processId = getPropertyValue(statement, 'processId')
 
     // Extract input and output material metadata (try new simplified names first, then legacy)
     const inputLifecycleStage =
@@ -370,6 +380,10 @@ function processStatementsWithMetadata(
           name: objectObj.name || 'Unnamed Object',
         },
         processName,
+        processType: getPropertyValue(statement, 'processType'),
+        processId,
+        processVersion,
+        processUpdatedAt,
         processTypeCode,
         flowCategory,
         isCircular,
@@ -378,6 +392,8 @@ function processStatementsWithMetadata(
         materialLossPercent,
         qualityChangeCode,
         notes,
+        startDate,
+        endDate,
         customProperties: customProperties.input, // Use input custom properties for backward compatibility
         // NEW: Separated input/output data
         inputMaterial: {
@@ -394,6 +410,7 @@ function processStatementsWithMetadata(
           categoryCode: outputCategoryCode,
           customProperties: customProperties.output,
         },
+        properties: statement.properties,
       })
     }
   })
@@ -489,7 +506,8 @@ function getLifecycleStageColor(
  */
 function computeMetadataDrivenLayout(
   materials: EnhancedMaterialObject[],
-  relationships: EnhancedMaterialRelationship[]
+  relationships: EnhancedMaterialRelationship[],
+  displayUnit: string
 ): SankeyLayoutData {
   // Assign stage levels based on lifecycle metadata instead of names
   const nodes = materials.map((material) => ({
@@ -516,14 +534,11 @@ function computeMetadataDrivenLayout(
     standardFlows.push(rel) // Include recycling flows in main diagram too
   })
 
-  // Calculate statistics
-  const totalQuantity = relationships.reduce(
-    (sum, rel) => sum + (rel.quantity || 0),
-    0
-  )
-  const recyclingQuantity = recyclingFlows.reduce(
-    (sum, rel) => sum + (rel.quantity || 0),
-    0
+  // Calculate statistics in the display unit
+  const { total: totalQuantity } = sumFlowQuantities(relationships, displayUnit)
+  const { total: recyclingQuantity } = sumFlowQuantities(
+    recyclingFlows,
+    displayUnit
   )
   const recyclingRate =
     totalQuantity > 0
@@ -651,6 +666,11 @@ function extractCustomProperties(statement: UUStatementDTO): {
     'materialLossPercent',
     'qualityChangeCode',
     'notes',
+    'startDate',
+    'endDate',
+    'processId',
+    'processVersion',
+    'processUpdatedAt',
     // Legacy material-level fields
     'inputLifecycleStage',
     'outputLifecycleStage',
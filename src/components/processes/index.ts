@@ -1,7 +1,15 @@
 // Export process components
 export * from './process-view-selector'
 export * from './material-selector'
+export * from './unit-select'
+export * from './mass-balance-notice'
 export * from './count-list'
+export * from './circularity-breakdown'
+export * from './timeline-scrubber'
+export * from './diagram-export-menu'
+export * from './process-template-bar'
+export * from './process-history'
+export * from './material-lineage'
 
 // Export diagrams
 export * from './views'
@@ -0,0 +1,109 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { AlertTriangle, CheckCircle2, Scale } from 'lucide-react'
+
+import {
+  MASS_BALANCE_UNIT,
+  convertQuantity,
+  formatQuantity,
+  type MassBalanceResult,
+} from '@/lib'
+import { cn } from '@/lib/utils'
+
+interface MassBalanceNoticeProps {
+  result: MassBalanceResult
+  tolerance: number
+  // Mass unit to show the totals in, kg by default
+  displayUnit?: string
+  className?: string
+}
+
+export function MassBalanceNotice({
+  result,
+  tolerance,
+  displayUnit = MASS_BALANCE_UNIT,
+  className,
+}: MassBalanceNoticeProps) {
+  const t = useTranslations('processes.massBalance')
+
+  const unit =
+    convertQuantity(1, MASS_BALANCE_UNIT, displayUnit) === null
+      ? MASS_BALANCE_UNIT
+      : displayUnit
+  const format = (value: number) =>
+    formatQuantity(
+      convertQuantity(value, MASS_BALANCE_UNIT, unit) ?? value,
+      unit
+    )
+
+  if (result.status === 'unknown') {
+    return (
+      <div
+        className={cn(
+          'flex items-center gap-2 text-xs text-muted-foreground',
+          className
+        )}
+      >
+        <Scale className="h-3.5 w-3.5 flex-shrink-0" />
+        {t('unknown')}
+      </div>
+    )
+  }
+
+  if (result.status === 'balanced') {
+    return (
+      <div
+        className={cn(
+          'flex items-center gap-2 text-xs text-emerald-700 dark:text-emerald-400',
+          className
+        )}
+      >
+        <CheckCircle2 className="h-3.5 w-3.5 flex-shrink-0" />
+        {t('balanced', { tolerance })}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className={cn(
+        'p-3 rounded-lg border bg-amber-50 dark:bg-amber-950/30 border-amber-200 dark:border-amber-800 space-y-1.5',
+        className
+      )}
+    >
+      <div className="flex items-center gap-2 text-sm font-medium text-amber-900 dark:text-amber-200">
+        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+        {t('unbalanced', {
+          difference: Math.abs(result.differencePercent).toFixed(1),
+          tolerance,
+        })}
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-xs text-amber-800 dark:text-amber-300">
+        <div>
+          <div className="text-amber-700/80 dark:text-amber-400/80">
+            {t('inputs')}
+          </div>
+          <div className="font-medium">{format(result.inputTotal)}</div>
+        </div>
+        <div>
+          <div className="text-amber-700/80 dark:text-amber-400/80">
+            {t('expectedOutputs')}
+          </div>
+          <div className="font-medium">{format(result.expectedOutput)}</div>
+        </div>
+        <div>
+          <div className="text-amber-700/80 dark:text-amber-400/80">
+            {t('outputs')}
+          </div>
+          <div className="font-medium">{format(result.outputTotal)}</div>
+        </div>
+      </div>
+      {result.excluded > 0 && (
+        <div className="text-xs text-amber-700 dark:text-amber-400">
+          {t('excluded', { count: result.excluded })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,200 @@
+'use client'
+
+import { useState } from 'react'
+import dynamic from 'next/dynamic'
+import { GitBranch, Loader2 } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui'
+import { DEFAULT_LINEAGE_DEPTH, LINEAGE_DEPTH_OPTIONS } from '@/lib/lineage'
+import { formatQuantity } from '@/lib/units'
+import type { MaterialData } from '@/types'
+import { useMaterialLineage } from './hooks/use-material-lineage'
+import { formatCategoryName } from './utils'
+
+// echarts is only loaded once the lineage is shown
+const SankeyDiagram = dynamic(
+  () => import('./views/sankey-view').then((mod) => mod.SankeyDiagram),
+  { ssr: false }
+)
+
+interface MaterialLineageProps {
+  objectUuid: string
+  onNodeClick?: (uuid: string) => void
+}
+
+/**
+ * Where a material came from and where it ended up, drawn as a Sankey diagram
+ * with a table of every hop
+ */
+export function MaterialLineage({
+  objectUuid,
+  onNodeClick,
+}: MaterialLineageProps) {
+  const t = useTranslations('processes.lineage')
+  const [isOpen, setIsOpen] = useState(false)
+  const [depth, setDepth] = useState(DEFAULT_LINEAGE_DEPTH)
+
+  const { materials, relationships, upstream, downstream, isLoading } =
+    useMaterialLineage(objectUuid, depth, { enabled: isOpen })
+
+  const formatMaterial = (material?: MaterialData) =>
+    material?.quantity ? formatQuantity(material.quantity, material.unit) : '–'
+
+  const formatStage = (stage?: string) =>
+    stage ? formatCategoryName(stage) : '–'
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <GitBranch className="h-4 w-4 text-muted-foreground" />
+            {t('title')}
+          </CardTitle>
+          {isOpen ? (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="lineage-depth" className="text-sm">
+                {t('depth')}
+              </Label>
+              <Select
+                value={String(depth)}
+                onValueChange={(value) => setDepth(Number(value))}
+              >
+                <SelectTrigger id="lineage-depth" className="h-8 w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LINEAGE_DEPTH_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => setIsOpen(true)}>
+              {t('show')}
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">{t('description')}</p>
+      </CardHeader>
+
+      {isOpen && (
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {t('loading')}
+            </div>
+          ) : relationships.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              {t('empty')}
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">
+                  {t('upstreamCount', {
+                    count: Math.max(0, upstream.size - 1),
+                  })}
+                </Badge>
+                <Badge variant="outline">
+                  {t('downstreamCount', {
+                    count: Math.max(0, downstream.size - 1),
+                  })}
+                </Badge>
+              </div>
+
+              <SankeyDiagram
+                materials={materials}
+                relationships={relationships}
+                onNodeClick={onNodeClick}
+              />
+
+              <div className="border rounded-md overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('direction')}</TableHead>
+                      <TableHead>{t('from')}</TableHead>
+                      <TableHead>{t('to')}</TableHead>
+                      <TableHead>{t('process')}</TableHead>
+                      <TableHead>{t('inputQuantity')}</TableHead>
+                      <TableHead>{t('outputQuantity')}</TableHead>
+                      <TableHead>{t('loss')}</TableHead>
+                      <TableHead>{t('lifecycle')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {relationships.map((rel) => {
+                      const isUpstream =
+                        upstream.has(rel.subject.uuid) &&
+                        upstream.has(rel.object.uuid)
+                      return (
+                        <TableRow
+                          key={`${rel.subject.uuid}-${rel.object.uuid}-${rel.processName}`}
+                        >
+                          <TableCell>
+                            <Badge variant="secondary">
+                              {isUpstream ? t('upstream') : t('downstream')}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{rel.subject.name}</TableCell>
+                          <TableCell>{rel.object.name}</TableCell>
+                          <TableCell>{rel.processName}</TableCell>
+                          <TableCell>
+                            {formatMaterial(rel.inputMaterial)}
+                          </TableCell>
+                          <TableCell>
+                            {formatMaterial(rel.outputMaterial)}
+                          </TableCell>
+                          <TableCell>
+                            {rel.materialLossPercent
+                              ? `${rel.materialLossPercent}%`
+                              : '–'}
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {t('stages', {
+                              input: formatStage(
+                                rel.inputMaterial?.lifecycleStage
+                              ),
+                              output: formatStage(
+                                rel.outputMaterial?.lifecycleStage
+                              ),
+                            })}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
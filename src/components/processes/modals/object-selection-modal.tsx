@@ -21,10 +21,11 @@ import {
   ScrollArea,
 } from '@/components/ui'
 import { useCommonApi } from '@/hooks/api'
-import { UNIT_CATEGORIES } from '@/constants'
-import { logger } from '@/lib'
+import { logger, resolveUnit } from '@/lib'
 import { LifecycleStage, MaterialFlowMetadata } from '@/types/sankey-metadata'
-import { LIFECYCLE_STAGES, DOMAIN_CATEGORY_CODES } from '../constants'
+import { LIFECYCLE_STAGES } from '@/constants'
+import { DOMAIN_CATEGORY_CODES } from '../constants'
+import { UnitSelect } from '../unit-select'
 
 interface ObjectSelectionData {
   object: UUObjectDTO
@@ -112,7 +113,8 @@ export function ObjectSelectionModal({
     if (initialData) {
       setSelectedObject(initialData.object)
       setQuantity(initialData.quantity)
-      setUnit(initialData.unit || '')
+      // Free-text units of older flows map onto the picker's units
+      setUnit(resolveUnit(initialData.unit) || initialData.unit || '')
       setMetadata(initialData.metadata || {})
       setCustomProperties(initialData.customProperties || {})
     } else {
@@ -309,29 +311,12 @@ export function ObjectSelectionModal({
 
               <div className="space-y-2">
                 <Label htmlFor="unit">{t('objectSelection.unit')}</Label>
-                <Select value={unit} onValueChange={setUnit} required>
-                  <SelectTrigger>
-                    <SelectValue
-                      placeholder={t('objectSelection.selectUnit')}
-                    />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {Object.entries(UNIT_CATEGORIES).map(
-                      ([categoryKey, category]) => (
-                        <div key={categoryKey}>
-                          <div className="px-2 py-1 text-xs font-semibold text-gray-500 bg-gray-100">
-                            {t(`units.${category.labelKey}`)}
-                          </div>
-                          {category.units.map((unitOption) => (
-                            <SelectItem key={unitOption} value={unitOption}>
-                              {unitOption}
-                            </SelectItem>
-                          ))}
-                        </div>
-                      )
-                    )}
-                  </SelectContent>
-                </Select>
+                <UnitSelect
+                  id="unit"
+                  value={unit}
+                  onValueChange={setUnit}
+                  required
+                />
               </div>
             </div>
 
@@ -0,0 +1,115 @@
+'use client'
+
+import { History, Loader2 } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui'
+import { getProcessVersion } from '@/lib/process-versions'
+import type { EnhancedMaterialRelationship } from '@/types'
+import { useProcessHistory } from './hooks/use-process-history'
+
+interface ProcessHistoryProps {
+  // Current flows of the process
+  flows: EnhancedMaterialRelationship[]
+  // All flows, to look up material names
+  relationships?: EnhancedMaterialRelationship[]
+}
+
+/**
+ * Current version of a process and the versions it replaced
+ */
+export function ProcessHistory({ flows, relationships }: ProcessHistoryProps) {
+  const t = useTranslations('processDetails.history')
+  const { history, isLoading } = useProcessHistory(flows)
+
+  const names = new Map<string, string>()
+  ;[...(relationships || []), ...flows].forEach((rel) => {
+    names.set(rel.subject.uuid, rel.subject.name)
+    names.set(rel.object.uuid, rel.object.name)
+  })
+  const nameOf = (uuid: string) => names.get(uuid) || uuid.slice(0, 8)
+
+  const formatAmount = (quantity?: number, unit?: string) =>
+    quantity === undefined ? '–' : `${quantity} ${unit || ''}`.trim()
+
+  const formatDate = (date?: string) =>
+    date ? new Date(date).toLocaleString() : t('unknownDate')
+
+  const current = Math.max(
+    getProcessVersion(flows.map((flow) => flow.processVersion)),
+    ...history.map((version) => version.version + 1)
+  )
+  const updatedAt = flows.find(
+    (flow) => flow.processUpdatedAt
+  )?.processUpdatedAt
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <History className="h-4 w-4 text-muted-foreground" />
+          {t('title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex justify-between items-center text-sm">
+          <span className="font-medium">
+            {t('current', { version: current })}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {formatDate(updatedAt)}
+          </span>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {t('loading')}
+          </div>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('empty')}</p>
+        ) : (
+          history.map((version) => (
+            <div
+              key={version.version}
+              className="border-t pt-3 space-y-1 text-sm"
+            >
+              <div className="flex justify-between items-center">
+                <span className="font-medium">
+                  {t('version', { version: version.version })}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {formatDate(version.updatedAt)}
+                </span>
+              </div>
+              {version.processName && (
+                <p className="text-xs text-muted-foreground">
+                  {version.processName}
+                </p>
+              )}
+              {version.flows.map((flow) => (
+                <p
+                  key={`${flow.subject}:${flow.object}`}
+                  className="text-xs text-muted-foreground"
+                >
+                  {t('flow', {
+                    input: nameOf(flow.subject),
+                    inputAmount: formatAmount(
+                      flow.inputQuantity,
+                      flow.inputUnit
+                    ),
+                    output: nameOf(flow.object),
+                    outputAmount: formatAmount(
+                      flow.outputQuantity,
+                      flow.outputUnit
+                    ),
+                  })}
+                </p>
+              ))}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
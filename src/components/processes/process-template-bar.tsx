@@ -0,0 +1,159 @@
+'use client'
+
+import { useState, type FormEvent } from 'react'
+import { BookmarkPlus, Trash2 } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { toast } from 'sonner'
+
+import { useProcessTemplates } from '@/hooks/api'
+import {
+  Button,
+  Input,
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui'
+import { createProcessTemplate } from '@/lib/process-templates'
+import type { ProcessTemplate } from '@/types'
+import type { ProcessFlowData } from './utils'
+
+interface ProcessTemplateBarProps {
+  // Process as currently filled in, saved as a template on request
+  process: ProcessFlowData
+  onApply: (template: ProcessTemplate) => void
+}
+
+/**
+ * Template picker and "save as template" action for the process form
+ */
+export function ProcessTemplateBar({
+  process,
+  onApply,
+}: ProcessTemplateBarProps) {
+  const t = useTranslations('processes.templates')
+  const [selectedId, setSelectedId] = useState('')
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState('')
+  const {
+    useListProcessTemplates,
+    useCreateProcessTemplate,
+    useDeleteProcessTemplate,
+  } = useProcessTemplates()
+  const { data: templates = [] } = useListProcessTemplates()
+  const createTemplate = useCreateProcessTemplate()
+  const deleteTemplate = useDeleteProcessTemplate()
+
+  // Null when the process has no input quantity to scale the outputs by
+  const template = createProcessTemplate(name, process)
+
+  const handleSelect = (id: string) => {
+    const selected = templates.find((item) => item.id === id)
+    if (!selected) return
+    setSelectedId(id)
+    onApply(selected)
+  }
+
+  const handleDelete = async () => {
+    const selected = templates.find((item) => item.id === selectedId)
+    if (!selected) return
+    try {
+      await deleteTemplate.mutateAsync(selected.id)
+      setSelectedId('')
+      toast.success(t('deleted', { name: selected.name }))
+    } catch (error) {
+      toast.error(t('deleteFailed'), {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    }
+  }
+
+  const handleSave = async (e: FormEvent) => {
+    // Keep the submit from reaching the process form around the popover
+    e.preventDefault()
+    e.stopPropagation()
+    if (!template || !name.trim()) return
+
+    try {
+      const saved = await createTemplate.mutateAsync(template)
+      setSelectedId(saved.id)
+      toast.success(t('saved', { name: saved.name }))
+      setOpen(false)
+      setName('')
+    } catch (error) {
+      toast.error(t('saveFailed'), {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2 rounded-lg border bg-muted/30 p-3">
+      <Select value={selectedId} onValueChange={handleSelect}>
+        <SelectTrigger className="flex-1">
+          <SelectValue
+            placeholder={templates.length > 0 ? t('apply') : t('noTemplates')}
+          />
+        </SelectTrigger>
+        <SelectContent>
+          {templates.map((item) => (
+            <SelectItem key={item.id} value={item.id}>
+              {item.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selectedId && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={handleDelete}
+          disabled={deleteTemplate.isPending}
+          aria-label={t('delete')}
+          title={t('delete')}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={!template}
+            title={t('saveHint')}
+          >
+            <BookmarkPlus className="h-4 w-4 mr-1" />
+            {t('save')}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 p-3">
+          <form onSubmit={handleSave} className="flex flex-col gap-2">
+            <Input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('namePlaceholder')}
+              maxLength={100}
+              className="h-8"
+            />
+            <p className="text-xs text-muted-foreground">{t('saveHint')}</p>
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!name.trim() || createTemplate.isPending}
+            >
+              {t('save')}
+            </Button>
+          </form>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
@@ -25,18 +25,24 @@ import {
   SheetTitle,
 } from '@/components/ui'
 import { ObjectSelectionModal } from '../modals/object-selection-modal'
-import type { MaterialRelationship } from '@/types'
+import { UnitSelect } from '../unit-select'
+import { MassBalanceNotice } from '../mass-balance-notice'
+import { ProcessTemplateBar } from '../process-template-bar'
+import { useMassBalanceTolerance } from '../hooks/use-mass-balance-tolerance'
+import { checkMassBalance } from '@/lib/mass-balance'
+import { applyProcessTemplate } from '@/lib/process-templates'
+import type { MaterialRelationship, ProcessTemplate } from '@/types'
 import {
   MaterialFlowMetadata,
   ProcessCategory,
   FlowCategory,
 } from '@/types/sankey-metadata'
-import { PROCESS_TYPES } from '@/constants'
 import {
+  PROCESS_TYPES,
   PROCESS_CATEGORIES,
   FLOW_CATEGORY_OPTIONS,
   QUALITY_CHANGE_OPTIONS,
-} from '../constants'
+} from '@/constants'
 import {
   ProcessMaterial,
   ProcessFlowData,
@@ -49,7 +55,8 @@ interface ProcessCreateSheetProps {
   isOpen: boolean
   onClose: () => void
   process?: ProcessFlowData
-  onSave: (process: ProcessFlowData) => void
+  // Resolves to whether the process was saved, the sheet stays open if not
+  onSave: (process: ProcessFlowData) => Promise<boolean>
 }
 
 export function ProcessCreateSheet({
@@ -84,9 +91,22 @@ export function ProcessCreateSheet({
   const [editingMaterial, setEditingMaterial] =
     useState<ProcessMaterial | null>(null)
   const [materialType, setMaterialType] = useState<'input' | 'output'>('input')
+  // Template waiting for its input material to be picked
+  const [pendingTemplate, setPendingTemplate] =
+    useState<ProcessTemplate | null>(null)
 
   // Validation
   const [errors, setErrors] = useState<Record<string, string>>({})
+  const [isSaving, setIsSaving] = useState(false)
+  const [massBalanceTolerance] = useMassBalanceTolerance()
+
+  // Only a warning, unbalanced processes can still be saved
+  const massBalance = checkMassBalance(
+    formData.inputMaterials,
+    formData.outputMaterials,
+    formData.processMetadata?.materialLossPercent,
+    massBalanceTolerance
+  )
 
   useEffect(() => {
     if (isOpen) {
@@ -124,6 +144,36 @@ export function ProcessCreateSheet({
     return Object.keys(newErrors).length === 0
   }
 
+  // Pre-fill the whole form from a template, scaled to the input material
+  const fillFromTemplate = (
+    template: ProcessTemplate,
+    input: ProcessMaterial
+  ) => {
+    const filled = applyProcessTemplate(template, input)
+    setFormData({
+      ...formData,
+      ...filled,
+      outputMaterials: filled.outputMaterials.map((output) => ({
+        ...output,
+        object: output.object as UUObjectDTO,
+      })),
+    })
+    setErrors({})
+  }
+
+  // Apply a template to the current input, or ask for one first
+  const handleApplyTemplate = (template: ProcessTemplate) => {
+    const [input] = formData.inputMaterials
+    if (input) {
+      fillFromTemplate(template, input)
+      return
+    }
+    setPendingTemplate(template)
+    setEditingMaterial(null)
+    setMaterialType('input')
+    setIsObjectModalOpen(true)
+  }
+
   // Handle object selection for materials
   const handleObjectSave = (data: {
     object: UUObjectDTO
@@ -140,6 +190,13 @@ export function ProcessCreateSheet({
       customProperties: data.customProperties,
     }
 
+    if (pendingTemplate) {
+      fillFromTemplate(pendingTemplate, material)
+      setPendingTemplate(null)
+      setIsObjectModalOpen(false)
+      return
+    }
+
     if (editingMaterial) {
       // Update existing material
       const materialArray =
@@ -220,7 +277,7 @@ export function ProcessCreateSheet({
   }
 
   // Handle form submission
-  const handleSubmit = (e: FormEvent) => {
+  const handleSubmit = async (e: FormEvent) => {
     e.preventDefault()
 
     if (!validateForm()) {
@@ -239,8 +296,12 @@ export function ProcessCreateSheet({
       updatedAt: new Date().toISOString(),
     }
 
-    onSave(processData)
-    onClose()
+    setIsSaving(true)
+    try {
+      if (await onSave(processData)) onClose()
+    } finally {
+      setIsSaving(false)
+    }
   }
 
   const selectedProcessType = PROCESS_TYPES.find(
@@ -261,6 +322,11 @@ export function ProcessCreateSheet({
 
           <div className="py-4">
             <form onSubmit={handleSubmit} className="space-y-6">
+              <ProcessTemplateBar
+                process={formData}
+                onApply={handleApplyTemplate}
+              />
+
               {/* Process Information */}
               <div className="space-y-4">
                 <div className="space-y-2">
@@ -349,26 +415,24 @@ export function ProcessCreateSheet({
                     </div>
                   </div>
 
-                  {/* Process Impact Data */}
+                  {/* Process Quantity */}
                   <div className="grid sm:grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label htmlFor="emissionsTotal">
-                        {t('processes.form.emissions')}
+                      <Label htmlFor="processQuantity">
+                        {t('processes.form.processQuantity')}
                       </Label>
                       <Input
-                        id="emissionsTotal"
+                        id="processQuantity"
                         type="number"
                         min="0"
                         step="0.01"
-                        value={formData.processMetadata?.emissionsTotal || ''}
+                        value={formData.processMetadata?.quantity || ''}
                         onChange={(e) =>
                           setFormData({
                             ...formData,
                             processMetadata: {
                               ...formData.processMetadata!,
-                              emissionsTotal: e.target.value
-                                ? Number(e.target.value)
-                                : undefined,
+                              quantity: Number(e.target.value) || 0,
                             },
                           })
                         }
@@ -376,6 +440,71 @@ export function ProcessCreateSheet({
                       />
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="processUnit">
+                        {t('processes.form.unit')}
+                      </Label>
+                      <UnitSelect
+                        id="processUnit"
+                        value={formData.processMetadata?.unit || ''}
+                        onValueChange={(unit) =>
+                          setFormData({
+                            ...formData,
+                            processMetadata: {
+                              ...formData.processMetadata!,
+                              unit,
+                            },
+                          })
+                        }
+                      />
+                    </div>
+                  </div>
+
+                  {/* Process Impact Data */}
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="emissionsTotal">
+                        {t('processes.form.emissions')}
+                      </Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="emissionsTotal"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={formData.processMetadata?.emissionsTotal || ''}
+                          onChange={(e) =>
+                            setFormData({
+                              ...formData,
+                              processMetadata: {
+                                ...formData.processMetadata!,
+                                emissionsTotal: e.target.value
+                                  ? Number(e.target.value)
+                                  : undefined,
+                              },
+                            })
+                          }
+                          placeholder="0.00"
+                        />
+                        <UnitSelect
+                          value={
+                            formData.processMetadata?.emissionsUnit || 'kg CO2e'
+                          }
+                          onValueChange={(emissionsUnit) =>
+                            setFormData({
+                              ...formData,
+                              processMetadata: {
+                                ...formData.processMetadata!,
+                                emissionsUnit,
+                              },
+                            })
+                          }
+                          categories={['emissions']}
+                          className="w-32 shrink-0"
+                        />
+                      </div>
+                    </div>
+
                     <div className="space-y-2">
                       <Label htmlFor="materialLossPercent">
                         {t('processes.form.materialLoss')}
@@ -405,6 +534,55 @@ export function ProcessCreateSheet({
                     </div>
                   </div>
 
+                  {/* Process Period */}
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="startDate">
+                        {t('processes.form.startDate')}
+                      </Label>
+                      <Input
+                        id="startDate"
+                        type="date"
+                        value={formData.processMetadata?.startDate || ''}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            processMetadata: {
+                              ...formData.processMetadata!,
+                              startDate: e.target.value || undefined,
+                            },
+                          })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="endDate">
+                        {t('processes.form.endDate')}
+                      </Label>
+                      <Input
+                        id="endDate"
+                        type="date"
+                        min={formData.processMetadata?.startDate}
+                        value={formData.processMetadata?.endDate || ''}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            processMetadata: {
+                              ...formData.processMetadata!,
+                              endDate: e.target.value || undefined,
+                            },
+                          })
+                        }
+                        className={errors.endDate ? 'border-red-500' : ''}
+                      />
+                    </div>
+                    {errors.endDate && (
+                      <p className="col-span-2 text-sm text-red-500">
+                        {errors.endDate}
+                      </p>
+                    )}
+                  </div>
+
                   {/* Quality Change */}
                   <div className="space-y-2">
                     <Label htmlFor="qualityChange">
@@ -693,6 +871,15 @@ export function ProcessCreateSheet({
                 </div>
               )}
 
+              {/* Mass Balance */}
+              {formData.inputMaterials.length > 0 &&
+                formData.outputMaterials.length > 0 && (
+                  <MassBalanceNotice
+                    result={massBalance}
+                    tolerance={massBalanceTolerance}
+                  />
+                )}
+
               {/* Process Summary */}
               {formData.inputMaterials.length > 0 &&
                 formData.outputMaterials.length > 0 && (
@@ -752,7 +939,7 @@ export function ProcessCreateSheet({
                   {t('processes.form.cancel')}
                 </Button>
 
-                <Button type="submit" className="w-full">
+                <Button type="submit" className="w-full" disabled={isSaving}>
                   {process
                     ? t('processes.form.update')
                     : t('processes.form.create')}
@@ -769,6 +956,7 @@ export function ProcessCreateSheet({
         onClose={() => {
           setIsObjectModalOpen(false)
           setEditingMaterial(null)
+          setPendingTemplate(null)
         }}
         onSave={handleObjectSave}
         showMetadataFields={true}
@@ -783,7 +971,13 @@ export function ProcessCreateSheet({
               }
             : undefined
         }
-        title={t('objectSelection.title')}
+        title={
+          pendingTemplate
+            ? t('processes.templates.selectInput', {
+                name: pendingTemplate.name,
+              })
+            : t('objectSelection.title')
+        }
       />
     </>
   )
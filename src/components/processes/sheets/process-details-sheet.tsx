@@ -13,6 +13,8 @@ import {
   ChevronRight,
   FileText,
   Scale,
+  CalendarRange,
+  Pencil,
 } from 'lucide-react'
 import { useTranslations } from 'next-intl'
 
@@ -30,17 +32,26 @@ import {
   CardTitle,
 } from '@/components/ui'
 import { cn } from '@/lib/utils'
+import { checkProcessFlowBalance, groupProcessFlows } from '@/lib/mass-balance'
 import { MaterialRelationship } from '@/types'
 import type {
   EnhancedMaterialRelationship,
   FlowCategory,
   QualityChangeCode,
 } from '@/types/sankey-metadata'
+import { MassBalanceNotice } from '../mass-balance-notice'
+import { ProcessHistory } from '../process-history'
+import { useMassBalanceTolerance } from '../hooks/use-mass-balance-tolerance'
 
 interface RelationshipDetailsSheetProps {
   relationship: MaterialRelationship | EnhancedMaterialRelationship | null
   isOpen: boolean
   onClose: () => void
+  // All flows, to check the mass balance of the whole process
+  relationships?: EnhancedMaterialRelationship[]
+  displayUnit?: string
+  // Called with the flows of the process to edit it
+  onEdit?: (relationships: EnhancedMaterialRelationship[]) => void
 }
 
 // Flow category label
@@ -95,8 +106,12 @@ const RelationshipDetailsSheet: React.FC<RelationshipDetailsSheetProps> = ({
   relationship,
   isOpen,
   onClose,
+  relationships,
+  displayUnit,
+  onEdit,
 }) => {
   const t = useTranslations('processDetails')
+  const [massBalanceTolerance] = useMassBalanceTolerance()
 
   if (!relationship) return null
 
@@ -116,6 +131,24 @@ const RelationshipDetailsSheet: React.FC<RelationshipDetailsSheetProps> = ({
   const hasQuality = enhanced?.qualityChangeCode
   const hasImpactData = hasEmissions || hasLoss || hasQuality
 
+  // The process this flow belongs to, with the flows of its other materials
+  const processFlows = enhanced
+    ? groupProcessFlows(
+        (relationships || [enhanced]).filter(
+          (rel) => rel.processName === enhanced.processName
+        )
+      ).find((group) =>
+        group.relationships.some(
+          (rel) =>
+            rel.subject.uuid === enhanced.subject.uuid &&
+            rel.object.uuid === enhanced.object.uuid
+        )
+      )
+    : undefined
+  const massBalance = processFlows
+    ? checkProcessFlowBalance(processFlows, massBalanceTolerance)
+    : null
+
   const qualityInfo = getQualityInfo(enhanced?.qualityChangeCode)
   const QualityIcon = qualityInfo.icon
 
@@ -216,6 +249,24 @@ const RelationshipDetailsSheet: React.FC<RelationshipDetailsSheetProps> = ({
               </div>
             </div>
 
+            {/* Mass Balance */}
+            {processFlows && massBalance && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-foreground flex items-center gap-2">
+                  <Scale className="h-4 w-4 text-muted-foreground" />
+                  {t('massBalance', {
+                    inputs: processFlows.inputs.size,
+                    outputs: processFlows.outputs.size,
+                  })}
+                </h3>
+                <MassBalanceNotice
+                  result={massBalance}
+                  tolerance={massBalanceTolerance}
+                  displayUnit={displayUnit}
+                />
+              </div>
+            )}
+
             {/* Impact Metrics */}
             {hasImpactData && (
               <div className="space-y-3">
@@ -544,6 +595,38 @@ const RelationshipDetailsSheet: React.FC<RelationshipDetailsSheetProps> = ({
               </Card>
             </div>
 
+            {/* Period */}
+            {(enhanced?.startDate || enhanced?.endDate) && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium flex items-center gap-2">
+                    <CalendarRange className="h-4 w-4 text-muted-foreground" />
+                    {t('period')}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-muted-foreground">
+                    {enhanced?.startDate && enhanced?.endDate
+                      ? t('periodRange', {
+                          start: enhanced.startDate,
+                          end: enhanced.endDate,
+                        })
+                      : enhanced?.startDate
+                        ? t('periodStart', { date: enhanced.startDate })
+                        : t('periodEnd', { date: enhanced?.endDate || '' })}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* History */}
+            {processFlows && (
+              <ProcessHistory
+                flows={processFlows.relationships}
+                relationships={relationships}
+              />
+            )}
+
             {/* Notes */}
             {enhanced?.notes && (
               <Card>
@@ -564,7 +647,16 @@ const RelationshipDetailsSheet: React.FC<RelationshipDetailsSheetProps> = ({
         </ScrollArea>
 
         {/* Footer */}
-        <div className="flex-shrink-0 pt-4 border-t mt-4">
+        <div className="flex-shrink-0 pt-4 border-t mt-4 flex flex-col gap-2">
+          {processFlows && onEdit && (
+            <Button
+              onClick={() => onEdit(processFlows.relationships)}
+              className="w-full"
+            >
+              <Pencil className="h-4 w-4 mr-2" />
+              {t('editProcess')}
+            </Button>
+          )}
           <Button onClick={onClose} className="w-full" variant="outline">
             {t('close')}
           </Button>
@@ -0,0 +1,107 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useTranslations } from 'next-intl'
+import { Pause, Play } from 'lucide-react'
+
+import { Button } from '@/components/ui'
+
+// Time each year is shown for while playing
+const YEAR_INTERVAL_MS = 1200
+
+interface TimelineScrubberProps {
+  min: number
+  max: number
+  // Selected year, null shows all flows
+  value: number | null
+  onChange: (year: number | null) => void
+  isPlaying: boolean
+  onPlayingChange: (isPlaying: boolean) => void
+  className?: string
+}
+
+export function TimelineScrubber({
+  min,
+  max,
+  value,
+  onChange,
+  isPlaying,
+  onPlayingChange,
+  className = '',
+}: TimelineScrubberProps) {
+  const t = useTranslations('processes.timeline')
+
+  // Advance a year at a time, stopping at the last year
+  useEffect(() => {
+    if (!isPlaying) return
+    const timer = setTimeout(() => {
+      if (value === null || value >= max) {
+        if (value === null) onChange(min)
+        else onPlayingChange(false)
+        return
+      }
+      onChange(value + 1)
+    }, YEAR_INTERVAL_MS)
+    return () => clearTimeout(timer)
+  }, [isPlaying, value, min, max, onChange, onPlayingChange])
+
+  const handlePlay = () => {
+    if (isPlaying) {
+      onPlayingChange(false)
+      return
+    }
+    // Start over when at the end
+    if (value === null || value >= max) onChange(min)
+    onPlayingChange(true)
+  }
+
+  return (
+    <div className={`flex items-center gap-3 ${className}`}>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={handlePlay}
+        aria-label={isPlaying ? t('pause') : t('play')}
+        className="h-8 w-8 p-0 flex-shrink-0"
+      >
+        {isPlaying ? (
+          <Pause className="h-4 w-4" />
+        ) : (
+          <Play className="h-4 w-4" />
+        )}
+      </Button>
+      <span className="text-xs text-muted-foreground">{min}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={1}
+        value={value ?? max}
+        onChange={(e) => {
+          onPlayingChange(false)
+          onChange(Number(e.target.value))
+        }}
+        aria-label={t('year')}
+        className="flex-1 accent-primary"
+      />
+      <span className="text-xs text-muted-foreground">{max}</span>
+      <span className="w-28 text-right text-sm font-medium">
+        {value === null ? t('allYears') : t('upTo', { year: value })}
+      </span>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        disabled={value === null}
+        onClick={() => {
+          onPlayingChange(false)
+          onChange(null)
+        }}
+        className="h-8 text-xs"
+      >
+        {t('showAll')}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui'
+import { UNIT_CATEGORIES, type UnitCategory } from '@/constants'
+
+interface UnitSelectProps {
+  value: string
+  onValueChange: (unit: string) => void
+  placeholder?: string
+  // Limit the choice to these categories, all categories by default
+  categories?: UnitCategory[]
+  className?: string
+  id?: string
+  required?: boolean
+}
+
+export function UnitSelect({
+  value,
+  onValueChange,
+  placeholder,
+  categories,
+  className,
+  id,
+  required,
+}: UnitSelectProps) {
+  const t = useTranslations()
+
+  return (
+    <Select value={value} onValueChange={onValueChange} required={required}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue
+          placeholder={placeholder ?? t('objectSelection.selectUnit')}
+        />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(UNIT_CATEGORIES)
+          .filter(
+            ([category]) =>
+              !categories || categories.includes(category as UnitCategory)
+          )
+          .map(([category, { labelKey, units }]) => (
+            <SelectGroup key={category}>
+              <SelectLabel className="text-xs text-muted-foreground">
+                {t(`units.${labelKey}`)}
+              </SelectLabel>
+              {units.map((unit) => (
+                <SelectItem key={unit} value={unit}>
+                  {unit}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -2,8 +2,21 @@ import type {
   MaterialRelationship,
   EnhancedMaterialRelationship,
   EnhancedMaterialObject,
+  MaterialData,
+  ProcessMetadata,
 } from '@/types'
 import type { UUObjectDTO } from 'iom-sdk'
+import {
+  convertQuantity,
+  formatQuantity,
+  resolveUnit,
+  type QuantityTotal,
+} from '@/lib/units'
+import {
+  buildProcessFlowStatements,
+  type ProcessStatement,
+} from '@/lib/process-statements'
+import { applyPropertyEdits } from '@/lib/process-versions'
 
 // Enhanced material with quantity, unit, and metadata for process flows
 export interface ProcessMaterial {
@@ -60,6 +73,183 @@ export const generateRelationships = (
   return relationships
 }
 
+/**
+ * Statements for a process as filled in on the form, one per input × output
+ * pair. Custom properties are stored with the material metadata.
+ */
+export const processFlowDataToStatements = (
+  process: ProcessFlowData,
+  extraMetadata: Partial<ProcessMetadata> = {}
+): ProcessStatement[] => {
+  const toFlowMaterial = (material: ProcessMaterial) => ({
+    uuid: material.object.uuid,
+    quantity: material.quantity,
+    unit: material.unit,
+    metadata: {
+      ...(material.metadata || {}),
+      ...(material.customProperties || {}),
+    },
+  })
+
+  return buildProcessFlowStatements(
+    {
+      processName: process.name,
+      processType: process.type,
+      quantity: 0,
+      unit: 'kg',
+      ...(process.processMetadata || {}),
+      ...extraMetadata,
+    },
+    process.inputMaterials.map(toFlowMaterial),
+    process.outputMaterials.map(toFlowMaterial)
+  )
+}
+
+const toProcessMaterial = (
+  object: { uuid: string; name: string },
+  material?: MaterialData
+): ProcessMaterial => {
+  const metadata: Record<string, string> = {}
+  if (material?.lifecycleStage)
+    metadata.lifecycleStage = material.lifecycleStage
+  if (material?.categoryCode) metadata.categoryCode = material.categoryCode
+
+  return {
+    object: object as UUObjectDTO,
+    quantity: material?.quantity,
+    unit: material?.unit,
+    metadata,
+    customProperties: material?.customProperties,
+  }
+}
+
+/**
+ * Form data for the flows of an existing process, the reverse of
+ * processFlowDataToStatements. Process fields are taken from the first flow.
+ */
+export const relationshipsToProcessFlowData = (
+  relationships: EnhancedMaterialRelationship[]
+): ProcessFlowData => {
+  const [first] = relationships
+  const inputs = new Map<string, ProcessMaterial>()
+  const outputs = new Map<string, ProcessMaterial>()
+
+  relationships.forEach((rel) => {
+    if (!inputs.has(rel.subject.uuid)) {
+      inputs.set(
+        rel.subject.uuid,
+        toProcessMaterial(rel.subject, rel.inputMaterial)
+      )
+    }
+    if (!outputs.has(rel.object.uuid)) {
+      outputs.set(
+        rel.object.uuid,
+        toProcessMaterial(rel.object, rel.outputMaterial)
+      )
+    }
+  })
+
+  const name = first?.processName || ''
+  const type = first?.processType || 'processing'
+  const processMetadata: ProcessMetadata = {
+    processName: name,
+    processType: type,
+    quantity: 0,
+    unit: 'kg',
+  }
+  if (first?.processTypeCode) {
+    processMetadata.processCategory =
+      first.processTypeCode as ProcessMetadata['processCategory']
+  }
+  if (first?.flowCategory) processMetadata.flowCategory = first.flowCategory
+  if (first?.emissionsTotal !== undefined) {
+    processMetadata.emissionsTotal = first.emissionsTotal
+    processMetadata.emissionsUnit = first.emissionsUnit
+  }
+  if (first?.materialLossPercent !== undefined) {
+    processMetadata.materialLossPercent = first.materialLossPercent
+  }
+  if (first?.qualityChangeCode) {
+    processMetadata.qualityChangeCode = first.qualityChangeCode
+  }
+  if (first?.notes) processMetadata.notes = first.notes
+  if (first?.startDate) processMetadata.startDate = first.startDate
+  if (first?.endDate) processMetadata.endDate = first.endDate
+  if (first?.processId) processMetadata.processId = first.processId
+
+  return {
+    uuid: '',
+    name,
+    type,
+    description: '',
+    inputMaterials: Array.from(inputs.values()),
+    outputMaterials: Array.from(outputs.values()),
+    relationships: [],
+    processMetadata,
+    createdAt: '',
+    updatedAt: first?.processUpdatedAt || '',
+  }
+}
+
+/**
+ * Statements as currently stored for the given flows, to compare edits against
+ */
+export const relationshipsToStatements = (
+  relationships: EnhancedMaterialRelationship[]
+): ProcessStatement[] =>
+  relationships.flatMap((rel) =>
+    rel.properties
+      ? [
+          {
+            subject: rel.subject.uuid,
+            predicate: 'IS_INPUT_OF' as const,
+            object: rel.object.uuid,
+            properties: rel.properties,
+          },
+        ]
+      : processFlowDataToStatements(relationshipsToProcessFlowData([rel]))
+  )
+
+/**
+ * Statements for an edit of the given flows. Flows that already exist start
+ * from their stored properties and only get the fields changed on the form;
+ * added flows are built from the form.
+ */
+export const processEditToStatements = (
+  relationships: EnhancedMaterialRelationship[],
+  process: ProcessFlowData,
+  extraMetadata: Partial<ProcessMetadata> = {}
+): ProcessStatement[] => {
+  const pairKey = (statement: ProcessStatement) =>
+    `${statement.subject}:${statement.object}`
+  const stored = new Map(
+    relationshipsToStatements(relationships).map((statement) => [
+      pairKey(statement),
+      statement,
+    ])
+  )
+  const before = new Map(
+    processFlowDataToStatements(
+      relationshipsToProcessFlowData(relationships)
+    ).map((statement) => [pairKey(statement), statement])
+  )
+
+  return processFlowDataToStatements(process, extraMetadata).map(
+    (statement) => {
+      const current = stored.get(pairKey(statement))
+      if (!current) return statement
+      return {
+        ...statement,
+        properties: applyPropertyEdits(
+          current.properties,
+          before.get(pairKey(statement))?.properties || [],
+          statement.properties
+        ),
+      }
+    }
+  )
+}
+
 /**
  * Validate process form data
  */
@@ -88,6 +278,11 @@ export const validateProcessForm = (
   )
   const duplicateUuids = [...inputUuids].filter((uuid) => outputUuids.has(uuid))
 
+  const { startDate, endDate } = formData.processMetadata || {}
+  if (startDate && endDate && endDate < startDate) {
+    errors.endDate = t('processes.errors.endBeforeStart')
+  }
+
   if (duplicateUuids.length > 0) {
     const duplicateMaterials = formData.inputMaterials
       .filter((m) => duplicateUuids.includes(m.object.uuid))
@@ -111,6 +306,110 @@ export const formatCategoryName = (category: string): string => {
     .replace(/\b\w/g, (l) => l.toUpperCase())
 }
 
+/**
+ * Input quantity of a flow in the display unit
+ * Returns null when the flow has no quantity or its unit doesn't convert
+ */
+export function getFlowQuantity(
+  rel: EnhancedMaterialRelationship,
+  displayUnit: string
+): number | null {
+  const quantity = rel.inputMaterial?.quantity || rel.quantity
+  if (!quantity) return null
+  return convertQuantity(
+    quantity,
+    rel.inputMaterial?.unit || rel.unit,
+    displayUnit
+  )
+}
+
+/**
+ * Total input quantity of flows in the display unit
+ * Flows with a quantity whose unit doesn't convert are counted as excluded
+ */
+export function sumFlowQuantities(
+  rels: EnhancedMaterialRelationship[],
+  displayUnit: string
+): QuantityTotal {
+  return rels.reduce<QuantityTotal>(
+    (acc, rel) => {
+      if (!(rel.inputMaterial?.quantity || rel.quantity)) return acc
+      const converted = getFlowQuantity(rel, displayUnit)
+      if (converted === null) acc.excluded += 1
+      else acc.total += converted
+      return acc
+    },
+    { total: 0, excluded: 0 }
+  )
+}
+
+/**
+ * Format the input quantity of a flow as recorded, followed by the
+ * quantity in the display unit when that's a different unit
+ */
+export function formatFlowQuantity(
+  rel: EnhancedMaterialRelationship,
+  displayUnit: string
+): string | null {
+  const quantity = rel.inputMaterial?.quantity || rel.quantity
+  if (!quantity) return null
+
+  const unit = rel.inputMaterial?.unit || rel.unit
+  const recorded = formatQuantity(quantity, unit)
+  const converted = getFlowQuantity(rel, displayUnit)
+  if (converted === null || resolveUnit(unit) === resolveUnit(displayUnit)) {
+    return recorded
+  }
+  return `${recorded} (${formatQuantity(converted, displayUnit)})`
+}
+
+/**
+ * Whether a flow's process ran during a period, both ends inclusive
+ * Dates are ISO dates (YYYY-MM-DD). A process with only a start or end date
+ * ran on that day. Without a period every flow matches, with one undated
+ * flows don't.
+ */
+export function isFlowInPeriod(
+  rel: EnhancedMaterialRelationship,
+  from?: string,
+  to?: string
+): boolean {
+  if (!from && !to) return true
+
+  const start = rel.startDate || rel.endDate
+  const end = rel.endDate || rel.startDate
+  if (!start || !end) return false
+
+  return (!to || start <= to) && (!from || end >= from)
+}
+
+/**
+ * Year a flow's process started, or ended when it has no start date
+ */
+export function getFlowYear(rel: EnhancedMaterialRelationship): number | null {
+  const date = rel.startDate || rel.endDate
+  if (!date) return null
+  const year = parseInt(date.slice(0, 4), 10)
+  return Number.isNaN(year) ? null : year
+}
+
+/**
+ * First and last year of the dated flows, null when none are dated
+ */
+export function getFlowYearRange(
+  relationships: EnhancedMaterialRelationship[]
+): { min: number; max: number } | null {
+  let range: { min: number; max: number } | null = null
+  relationships.forEach((rel) => {
+    const year = getFlowYear(rel)
+    if (year === null) return
+    range = range
+      ? { min: Math.min(range.min, year), max: Math.max(range.max, year) }
+      : { min: year, max: year }
+  })
+  return range
+}
+
 /**
  * Limit Sankey diagram to show only `maxLevels` topological levels.
  * Computes depth via BFS from pure input nodes (depth 0).
@@ -204,86 +503,6 @@ export function limitSankeyDepth(
   }
 }
 
-/**
- * Compute topological depth for statement UUIDs without needing full objects.
- * Used to filter participating UUIDs before fetching objects.
- * Returns only UUIDs within the depth limit.
- *
- * When focusNode is provided, BFS starts from that node instead of graph roots,
- * enabling drill-down navigation (always showing maxLevels from the focus point).
- */
-export function limitStatementDepth(
-  statements: Array<{ subject: string; object: string }>,
-  maxLevels: number,
-  focusNode?: string
-): Set<string> {
-  if (statements.length === 0) return new Set()
-
-  // Build forward adjacency and in-degree
-  const forwardAdj = new Map<string, Set<string>>()
-  const inDegree = new Map<string, number>()
-  const allIds = new Set<string>()
-
-  statements.forEach((s) => {
-    allIds.add(s.subject)
-    allIds.add(s.object)
-  })
-  allIds.forEach((id) => {
-    forwardAdj.set(id, new Set())
-    inDegree.set(id, 0)
-  })
-
-  statements.forEach((s) => {
-    forwardAdj.get(s.subject)!.add(s.object)
-    inDegree.set(s.object, (inDegree.get(s.object) || 0) + 1)
-  })
-
-  // BFS starting points: focusNode if provided, otherwise graph roots (in-degree 0)
-  const startNodes: string[] = []
-  if (focusNode && allIds.has(focusNode)) {
-    startNodes.push(focusNode)
-  } else {
-    inDegree.forEach((deg, id) => {
-      if (deg === 0) startNodes.push(id)
-    })
-  }
-
-  const depth = new Map<string, number>()
-  const queue: string[] = [...startNodes]
-  startNodes.forEach((id) => depth.set(id, 0))
-
-  while (queue.length > 0) {
-    const current = queue.shift()!
-    const currentDepth = depth.get(current)!
-    const children = forwardAdj.get(current)
-    if (children) {
-      children.forEach((child) => {
-        const existingDepth = depth.get(child)
-        const newDepth = currentDepth + 1
-        if (existingDepth === undefined || newDepth > existingDepth) {
-          depth.set(child, newDepth)
-          queue.push(child)
-        }
-      })
-    }
-  }
-
-  // Return only UUIDs within depth limit
-  const kept = new Set<string>()
-  depth.forEach((d, id) => {
-    if (d < maxLevels) kept.add(id)
-  })
-
-  // When no focusNode, include unreachable nodes (isolated/cycles)
-  if (!focusNode) {
-    allIds.forEach((id) => {
-      if (!depth.has(id)) kept.add(id)
-    })
-  }
-
-  return kept
-}
-
 /**
  * Detect and remove cycles from relationships to ensure DAG compliance
  */
@@ -14,31 +14,66 @@ import {
   AlertTriangle,
   RotateCcw,
   Rows3,
+  Scale,
+  Building2,
 } from 'lucide-react'
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui'
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+} from '@/components/ui'
 import { CountList } from '../count-list'
+import { CircularityBreakdown } from '../circularity-breakdown'
 import type {
   EnhancedMaterialObject,
   EnhancedMaterialRelationship,
 } from '@/types'
 
+import { DEFAULT_DISPLAY_UNIT } from '@/constants'
+import {
+  EMBODIED_CARBON_UNIT,
+  MASS_BALANCE_UNIT,
+  averageCircularity,
+  checkProcessFlowBalance,
+  computeCircularity,
+  computeEmbodiedCarbon,
+  convertQuantity,
+  formatQuantity,
+  groupProcessFlows,
+  isProductNode,
+} from '@/lib'
+import { useMassBalanceTolerance } from '../hooks/use-mass-balance-tolerance'
 import { PROCESS_CATEGORY_COLORS, LIFECYCLE_STAGE_COLORS } from '../constants'
+import { sumFlowQuantities } from '../utils'
 
 const EMPTY_MATERIALS: EnhancedMaterialObject[] = []
 const EMPTY_RELATIONSHIPS: EnhancedMaterialRelationship[] = []
+const MAX_UNBALANCED_PROCESSES = 10
+const MAX_EMBODIED_CARBON_PRODUCTS = 10
 
 interface DashboardViewProps {
   materials?: EnhancedMaterialObject[]
   relationships?: EnhancedMaterialRelationship[]
   onCreateProcess?: () => void
+  // Unit the flow quantities are totalled in
+  displayUnit?: string
+  // Opens the details of a flow of an unbalanced process or a product's MCI
+  onRelationshipSelect?: (relationship: EnhancedMaterialRelationship) => void
 }
 
 export function DashboardView({
   materials = EMPTY_MATERIALS,
   relationships = EMPTY_RELATIONSHIPS,
   onCreateProcess = () => {},
+  displayUnit = DEFAULT_DISPLAY_UNIT,
+  onRelationshipSelect,
 }: DashboardViewProps) {
   const t = useTranslations()
+  const [massBalanceTolerance, setMassBalanceTolerance] =
+    useMassBalanceTolerance()
   const dashboardData = useMemo(() => {
     // Calculate KPIs
     const totalFlows = relationships.length
@@ -50,8 +85,14 @@ export function DashboardView({
         rel.inputMaterial?.lifecycleStage === 'SECONDARY_INPUT' ||
         rel.outputMaterial?.lifecycleStage === 'SECONDARY_INPUT'
     ).length
-    const circularityRate =
-      totalFlows > 0 ? Math.round((circularFlows / totalFlows) * 100) : 0
+
+    // Material Circularity Indicator per product or building, and the
+    // mass-weighted MCI across them
+    const productCircularity = computeCircularity(materials, relationships)
+    const materialCircularity = averageCircularity(productCircularity)
+
+    // Total input quantity, flows in other kinds of units are left out
+    const flowQuantity = sumFlowQuantities(relationships, displayUnit)
 
     // Material insights - calculated from filtered relationships
     const uniqueMaterialUuids = new Set<string>()
@@ -87,7 +128,14 @@ export function DashboardView({
     // Environmental impact summary
     const environmentalImpact = relationships.reduce(
       (acc, rel) => {
-        if (rel.emissionsTotal) acc.totalEmissions += rel.emissionsTotal
+        if (rel.emissionsTotal) {
+          acc.totalEmissions +=
+            convertQuantity(
+              rel.emissionsTotal,
+              rel.emissionsUnit || 'kg CO2e',
+              'kg CO2e'
+            ) ?? rel.emissionsTotal
+        }
         if (rel.materialLossPercent) {
           acc.totalMaterialLoss += rel.materialLossPercent
           acc.materialLossCount += 1
@@ -105,6 +153,32 @@ export function DashboardView({
       }
     )
 
+    // Mass balance per process, most unbalanced first
+    const processBalances = groupProcessFlows(relationships).map((group) => ({
+      group,
+      result: checkProcessFlowBalance(group, massBalanceTolerance),
+    }))
+    const unbalancedProcesses = processBalances
+      .filter(({ result }) => result.status === 'unbalanced')
+      .sort(
+        (a, b) =>
+          Math.abs(b.result.differencePercent) -
+          Math.abs(a.result.differencePercent)
+      )
+    const checkedProcesses = processBalances.filter(
+      ({ result }) => result.status !== 'unknown'
+    ).length
+
+    // Embodied carbon rolled up to each product or building, highest first
+    const embodiedCarbon = computeEmbodiedCarbon(relationships)
+    const productCarbon = materials
+      .filter(isProductNode)
+      .flatMap((material) => {
+        const carbon = embodiedCarbon.get(material.uuid)
+        return carbon && carbon.total > 0 ? [{ material, carbon }] : []
+      })
+      .sort((a, b) => b.carbon.total - a.carbon.total)
+
     // Calculate average material loss percentage
     const averageMaterialLoss =
       environmentalImpact.materialLossCount > 0
@@ -116,7 +190,8 @@ export function DashboardView({
       kpis: {
         totalFlows,
         circularFlows,
-        circularityRate,
+        materialCircularity,
+        flowQuantity,
         totalMaterials,
         reusedComponents,
       },
@@ -130,8 +205,25 @@ export function DashboardView({
         ...environmentalImpact,
         averageMaterialLoss,
       },
+      massBalance: {
+        unbalanced: unbalancedProcesses,
+        checked: checkedProcesses,
+      },
+      circularity: productCircularity,
+      embodiedCarbon: productCarbon,
     }
-  }, [materials, relationships])
+  }, [materials, relationships, displayUnit, massBalanceTolerance])
+
+  // Totals are shown in the display unit when that's a mass unit
+  const massUnit =
+    convertQuantity(1, MASS_BALANCE_UNIT, displayUnit) === null
+      ? MASS_BALANCE_UNIT
+      : displayUnit
+  const formatMass = (value: number) =>
+    formatQuantity(
+      convertQuantity(value, MASS_BALANCE_UNIT, massUnit) ?? value,
+      massUnit
+    )
 
   if (materials.length === 0 && relationships.length === 0) {
     return (
@@ -174,6 +266,24 @@ export function DashboardView({
                 <div className="text-xs text-muted-foreground">
                   {t('processes.dashboard.totalFlows')}
                 </div>
+                {dashboardData.kpis.flowQuantity.total > 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    {t('processes.dashboard.totalQuantity', {
+                      quantity: formatQuantity(
+                        dashboardData.kpis.flowQuantity.total,
+                        displayUnit
+                      ),
+                    })}
+                  </div>
+                )}
+                {dashboardData.kpis.flowQuantity.excluded > 0 && (
+                  <div className="text-xs text-amber-600 dark:text-amber-400">
+                    {t('processes.dashboard.excludedFlows', {
+                      count: dashboardData.kpis.flowQuantity.excluded,
+                      unit: displayUnit,
+                    })}
+                  </div>
+                )}
               </div>
             </div>
           </CardContent>
@@ -198,7 +308,7 @@ export function DashboardView({
           </CardContent>
         </Card>
 
-        {/* Circularity Rate */}
+        {/* Material Circularity */}
         <Card>
           <CardContent className="p-4">
             <div className="flex items-center gap-3">
@@ -207,10 +317,12 @@ export function DashboardView({
               </div>
               <div>
                 <div className="text-2xl font-semibold">
-                  {dashboardData.kpis.circularityRate}%
+                  {dashboardData.kpis.materialCircularity === null
+                    ? '–'
+                    : dashboardData.kpis.materialCircularity.toFixed(2)}
                 </div>
                 <div className="text-xs text-muted-foreground">
-                  {t('processes.dashboard.circularityRate')}
+                  {t('processes.dashboard.materialCircularity')}
                 </div>
               </div>
             </div>
@@ -397,6 +509,169 @@ export function DashboardView({
         </CardContent>
       </Card>
 
+      {/* Material Circularity per product or building */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            {t('processes.circularity.title')}
+          </CardTitle>
+          <p className="text-xs text-muted-foreground">
+            {t('processes.circularity.description')}
+          </p>
+        </CardHeader>
+        <CardContent>
+          <CircularityBreakdown
+            products={dashboardData.circularity}
+            formatMass={formatMass}
+            onRelationshipSelect={onRelationshipSelect}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Embodied Carbon per product or building */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Leaf className="h-5 w-5" />
+            {t('processes.embodiedCarbon.title')}
+          </CardTitle>
+          <p className="text-xs text-muted-foreground">
+            {t('processes.embodiedCarbon.description')}
+          </p>
+        </CardHeader>
+        <CardContent>
+          {dashboardData.embodiedCarbon.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {t('processes.embodiedCarbon.noData')}
+            </p>
+          ) : (
+            <div className="divide-y">
+              {dashboardData.embodiedCarbon
+                .slice(0, MAX_EMBODIED_CARBON_PRODUCTS)
+                .map(({ material, carbon }) => (
+                  <div
+                    key={material.uuid}
+                    className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm"
+                  >
+                    <span className="font-medium truncate">
+                      {material.name}
+                    </span>
+                    <span className="flex items-center gap-3 text-xs text-muted-foreground">
+                      {carbon.intensity !== null && (
+                        <span>
+                          {t('processes.embodiedCarbon.intensity', {
+                            value: formatQuantity(
+                              carbon.intensity,
+                              EMBODIED_CARBON_UNIT
+                            ),
+                          })}
+                        </span>
+                      )}
+                      <span className="font-medium text-foreground">
+                        {formatQuantity(carbon.total, EMBODIED_CARBON_UNIT)}
+                      </span>
+                    </span>
+                  </div>
+                ))}
+              {dashboardData.embodiedCarbon.length >
+                MAX_EMBODIED_CARBON_PRODUCTS && (
+                <p className="pt-2 text-xs text-muted-foreground">
+                  {t('processes.massBalance.more', {
+                    count:
+                      dashboardData.embodiedCarbon.length -
+                      MAX_EMBODIED_CARBON_PRODUCTS,
+                  })}
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Unbalanced Processes */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" />
+              {t('processes.massBalance.unbalancedTitle', {
+                count: dashboardData.massBalance.unbalanced.length,
+              })}
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Label
+                htmlFor="massBalanceTolerance"
+                className="text-xs text-muted-foreground"
+              >
+                {t('processes.massBalance.tolerance')}
+              </Label>
+              <Input
+                id="massBalanceTolerance"
+                type="number"
+                min="0"
+                step="0.5"
+                value={massBalanceTolerance}
+                onChange={(e) =>
+                  setMassBalanceTolerance(Number(e.target.value))
+                }
+                className="h-8 w-20"
+              />
+              <span className="text-xs text-muted-foreground">%</span>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {dashboardData.massBalance.unbalanced.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {t('processes.massBalance.allBalanced', {
+                count: dashboardData.massBalance.checked,
+              })}
+            </p>
+          ) : (
+            <div className="divide-y">
+              {dashboardData.massBalance.unbalanced
+                .slice(0, MAX_UNBALANCED_PROCESSES)
+                .map(({ group, result }) => (
+                  <button
+                    key={group.key}
+                    type="button"
+                    onClick={() =>
+                      onRelationshipSelect?.(group.relationships[0])
+                    }
+                    className="w-full flex flex-wrap items-center justify-between gap-2 py-2 text-left text-sm hover:bg-muted/50"
+                  >
+                    <span className="font-medium truncate">
+                      {group.processName ||
+                        t('processes.massBalance.unnamedProcess')}
+                    </span>
+                    <span className="flex items-center gap-3 text-xs text-muted-foreground">
+                      <span>
+                        {formatMass(result.inputTotal)} →{' '}
+                        {formatMass(result.outputTotal)}
+                      </span>
+                      <span className="font-medium text-amber-600 dark:text-amber-400">
+                        {result.differencePercent > 0 ? '+' : ''}
+                        {result.differencePercent.toFixed(1)}%
+                      </span>
+                    </span>
+                  </button>
+                ))}
+              {dashboardData.massBalance.unbalanced.length >
+                MAX_UNBALANCED_PROCESSES && (
+                <p className="pt-2 text-xs text-muted-foreground">
+                  {t('processes.massBalance.more', {
+                    count:
+                      dashboardData.massBalance.unbalanced.length -
+                      MAX_UNBALANCED_PROCESSES,
+                  })}
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Materials Display - Full Width */}
       <Card>
         <CardHeader>
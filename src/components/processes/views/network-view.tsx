@@ -8,6 +8,15 @@ import type {
   EnhancedMaterialRelationship,
   FlowCategory,
 } from '@/types'
+import { DEFAULT_DISPLAY_UNIT } from '@/constants'
+import {
+  EMBODIED_CARBON_UNIT,
+  computeEmbodiedCarbon,
+  formatQuantity,
+  type EmbodiedCarbon,
+} from '@/lib'
+import { formatFlowQuantity, getFlowQuantity } from '../utils'
+import { DiagramExportMenu } from '../diagram-export-menu'
 
 interface NetworkDiagramProps {
   materials?: EnhancedMaterialObject[]
@@ -15,6 +24,8 @@ interface NetworkDiagramProps {
   selectedRelationship?: EnhancedMaterialRelationship | null
   onLinkSelect?: (relationship: EnhancedMaterialRelationship) => void
   onNodeSelect?: (material: EnhancedMaterialObject) => void
+  // Unit flow quantities are converted to for the link widths
+  displayUnit?: string
   className?: string
 }
 
@@ -24,6 +35,7 @@ export const NetworkDiagram = memo(function NetworkDiagram({
   selectedRelationship,
   onLinkSelect,
   onNodeSelect,
+  displayUnit = DEFAULT_DISPLAY_UNIT,
   className = '',
 }: NetworkDiagramProps) {
   const { resolvedTheme } = useTheme()
@@ -46,6 +58,8 @@ export const NetworkDiagram = memo(function NetworkDiagram({
       { name: 'Waste', itemStyle: { color: '#EF4444' } }, // Red
     ]
 
+    const embodiedCarbon = computeEmbodiedCarbon(relationships)
+
     // Create nodes with positioning
     const nodes = materials.map((material) => {
       const { category, symbolSize, symbol, x, y } = getNodeProperties(
@@ -86,7 +100,10 @@ export const NetworkDiagram = memo(function NetworkDiagram({
           formatter: '{b}',
         },
         tooltip: {
-          formatter: createNodeTooltip(material),
+          formatter: createNodeTooltip(
+            material,
+            embodiedCarbon.get(material.uuid)
+          ),
         },
         original: material,
       }
@@ -104,7 +121,7 @@ export const NetworkDiagram = memo(function NetworkDiagram({
         width,
         type: lineType,
         opacity,
-      } = getLinkProperties(rel, isSelected)
+      } = getLinkProperties(rel, isSelected, displayUnit)
 
       return {
         source: rel.subject.uuid,
@@ -123,7 +140,7 @@ export const NetworkDiagram = memo(function NetworkDiagram({
           },
         },
         tooltip: {
-          formatter: createLinkTooltip(rel),
+          formatter: createLinkTooltip(rel, displayUnit),
         },
         relationship: rel,
       }
@@ -205,7 +222,7 @@ export const NetworkDiagram = memo(function NetworkDiagram({
         buildingCount,
       },
     }
-  }, [materials, relationships, selectedRelationship, isDark])
+  }, [materials, relationships, selectedRelationship, isDark, displayUnit])
 
   if (!chartOptions) {
     return null
@@ -213,6 +230,15 @@ export const NetworkDiagram = memo(function NetworkDiagram({
 
   return (
     <div className={`w-full pt-6 ${className}`}>
+      <div className="mb-4 flex justify-end">
+        <DiagramExportMenu
+          option={chartOptions}
+          graph={{ nodes: materials, links: relationships }}
+          kind="network"
+          isDark={isDark}
+        />
+      </div>
+
       {/* Network Chart */}
       <ReactECharts
         option={chartOptions}
@@ -488,14 +514,15 @@ function isBuildingNode(material: EnhancedMaterialObject): boolean {
 
 function getLinkProperties(
   rel: EnhancedMaterialRelationship,
-  isSelected: boolean
+  isSelected: boolean,
+  displayUnit: string
 ) {
   let color = '#9CA3AF'
   let width = 2
   let type: 'solid' | 'dashed' | 'dotted' = 'solid'
   let opacity = 0.6
 
-  const inputQuantity = rel.inputMaterial?.quantity || 1
+  const inputQuantity = getFlowQuantity(rel, displayUnit) || 1
   const baseWidth = Math.max(
     1.5,
     Math.min(6, Math.log10(inputQuantity + 1) * 2)
@@ -546,7 +573,10 @@ function getLinkProperties(
   return { color, width, type, opacity }
 }
 
-function createNodeTooltip(material: EnhancedMaterialObject): string {
+function createNodeTooltip(
+  material: EnhancedMaterialObject,
+  carbon?: EmbodiedCarbon
+): string {
   const parts = [`<strong>${material.name}</strong>`, `Type: ${material.type}`]
 
   if (material.lifecycleStage) {
@@ -563,16 +593,30 @@ function createNodeTooltip(material: EnhancedMaterialObject): string {
     parts.push(`Category: ${material.domainCategoryCode}`)
   }
 
+  if (carbon && carbon.total > 0) {
+    parts.push(
+      `Embodied carbon: ${formatQuantity(carbon.total, EMBODIED_CARBON_UNIT)}`
+    )
+  }
+
   return parts.join('<br/>')
 }
 
-function createLinkTooltip(rel: EnhancedMaterialRelationship): string {
+function createLinkTooltip(
+  rel: EnhancedMaterialRelationship,
+  displayUnit: string
+): string {
   const parts = [`<strong>${rel.subject.name} → ${rel.object.name}</strong>`]
 
   if (rel.processName) {
     parts.push(`Process: ${rel.processName}`)
   }
 
+  const quantity = formatFlowQuantity(rel, displayUnit)
+  if (quantity) {
+    parts.push(`Quantity: ${quantity}`)
+  }
+
   if (rel.processTypeCode) {
     parts.push(`Type: ${rel.processTypeCode.replace(/_/g, ' ')}`)
   }
@@ -1,6 +1,6 @@
 'use client'
 
-import { useMemo, memo } from 'react'
+import { useMemo, memo, useState } from 'react'
 import { useTheme } from 'next-themes'
 import ReactECharts from 'echarts-for-react'
 import type {
@@ -8,8 +8,18 @@ import type {
   EnhancedMaterialRelationship,
   FlowCategory,
 } from '@/types'
+import { DEFAULT_DISPLAY_UNIT } from '@/constants'
 import { toCapitalize } from '@/lib'
-import { detectAndRemoveCycles } from '../utils'
+import {
+  detectAndRemoveCycles,
+  formatFlowQuantity,
+  getFlowQuantity,
+  getFlowYear,
+  getFlowYearRange,
+  sumFlowQuantities,
+} from '../utils'
+import { TimelineScrubber } from '../timeline-scrubber'
+import { DiagramExportMenu } from '../diagram-export-menu'
 
 interface SankeyDiagramProps {
   materials?: EnhancedMaterialObject[]
@@ -17,6 +27,8 @@ interface SankeyDiagramProps {
   selectedRelationship?: EnhancedMaterialRelationship | null
   onLinkSelect?: (relationship: EnhancedMaterialRelationship) => void
   onNodeClick?: (nodeUuid: string, nodeName: string) => void
+  // Unit flow quantities are converted to for the link widths
+  displayUnit?: string
   className?: string
 }
 
@@ -26,211 +38,297 @@ export const SankeyDiagram = memo(function SankeyDiagram({
   selectedRelationship = null,
   onLinkSelect = () => {},
   onNodeClick,
+  displayUnit = DEFAULT_DISPLAY_UNIT,
   className = '',
 }: SankeyDiagramProps) {
   const { resolvedTheme } = useTheme()
   const isDark = resolvedTheme === 'dark'
 
-  const { chartOptions, cycleInfo } = useMemo(() => {
-    if (!materials || materials.length === 0) {
-      return { chartOptions: null, recyclingInfo: null, cycleInfo: null }
-    }
-
-    // Compute layout using metadata-driven approach
-    const { nodes, links, recyclingFlows, cycleInfo, stats } =
-      computeEnhancedLayout(materials, relationships)
-
-    // Identify materials involved in recycling/reuse
-    const recyclingMaterialIds = new Set<string>()
-    recyclingFlows.forEach((rel) => {
-      recyclingMaterialIds.add(rel.subject.uuid)
-      recyclingMaterialIds.add(rel.object.uuid)
-    })
-
-    // Create ECharts nodes with enhanced metadata visualization
-    const chartNodes = nodes.map((node) => {
-      const isRecyclingRelated =
-        recyclingMaterialIds.has(node.uuid) ||
-        !!node.isRecyclingMaterial ||
-        !!node.isReusedComponent
-
-      // Enhanced border styling for different material types
-      let borderColor = '#06B6D4'
-      let borderWidth = 1
-      let borderType: 'solid' | 'dashed' = 'solid'
-
-      if (node.isReusedComponent) {
-        borderColor = '#06B6D4' // Cyan for reused components
-        borderWidth = 3
-        borderType = 'dashed'
-      } else if (node.isRecyclingMaterial) {
-        borderColor = '#10B981' // Green for recycled materials
-        borderWidth = 2
-        borderType = 'dashed'
-      } else if (isRecyclingRelated) {
-        borderColor = '#059669' // Dark green for other recycling-related
-        borderWidth = 2
-      }
+  // Timeline: null shows every flow, a year the flows of processes that
+  // started up to and including that year
+  const [timelineYear, setTimelineYear] = useState<number | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const yearRange = useMemo(
+    () => getFlowYearRange(relationships),
+    [relationships]
+  )
 
+  const { visibleMaterials, visibleRelationships } = useMemo(() => {
+    if (timelineYear === null) {
       return {
-        name: node.uuid,
-        value: node.uuid,
-        label: {
-          show: true,
-          formatter: node.name || node.uuid,
-          position: 'right',
-          fontSize: 11,
-          fontWeight: 'bold',
-          color: isDark ? '#E5E7EB' : '#1F2937',
-        },
-        itemStyle: {
-          color: node.color,
-          borderColor,
-          borderWidth,
-          borderType,
-          opacity: 0.85,
-        },
-        tooltip: {
-          formatter: createNodeTooltip(node, isRecyclingRelated),
-        },
-        original: node,
-        isRecyclingRelated,
+        visibleMaterials: materials,
+        visibleRelationships: relationships,
       }
+    }
+    const visibleRels = relationships.filter((rel) => {
+      const year = getFlowYear(rel)
+      return year !== null && year <= timelineYear
     })
+    const involved = new Set<string>()
+    visibleRels.forEach((rel) => {
+      involved.add(rel.subject.uuid)
+      involved.add(rel.object.uuid)
+    })
+    return {
+      visibleMaterials: materials.filter((m) => involved.has(m.uuid)),
+      visibleRelationships: visibleRels,
+    }
+  }, [materials, relationships, timelineYear])
+
+  const { chartOptions, recyclingInfo, cycleInfo, exportGraph } =
+    useMemo(() => {
+      if (visibleMaterials.length === 0) {
+        return {
+          chartOptions: null,
+          recyclingInfo: null,
+          cycleInfo: null,
+          exportGraph: null,
+        }
+      }
 
-    // Create enhanced links with metadata-driven styling and impact data
-    const chartLinks = links.map((rel) => {
-      const isSelected =
-        selectedRelationship?.subject.uuid === rel.subject.uuid &&
-        selectedRelationship?.object.uuid === rel.object.uuid &&
-        selectedRelationship?.processName === rel.processName &&
-        selectedRelationship?.inputMaterial?.quantity ===
-          rel.inputMaterial?.quantity &&
-        selectedRelationship?.inputMaterial?.unit === rel.inputMaterial?.unit
-
-      const inputNode = nodes.find((n) => n.uuid === rel.subject.uuid)
-      const outputNode = nodes.find((n) => n.uuid === rel.object.uuid)
-
-      // Determine flow type and styling based on metadata
-      const { color, width, curveness, lineType } = getFlowStyling(
-        rel,
-        inputNode?.layer || 0,
-        outputNode?.layer || 0,
-        isSelected
-      )
-
-      return {
-        source: rel.subject.uuid,
-        target: rel.object.uuid,
-        value: rel.inputMaterial?.quantity || 1,
-        lineStyle: {
-          color,
-          width,
-          opacity: getFlowOpacity(rel),
-          curveness,
-          type: lineType,
-        },
-        emphasis: {
+      // Compute layout using metadata-driven approach
+      const { nodes, links, recyclingFlows, cycleInfo, stats } =
+        computeEnhancedLayout(
+          visibleMaterials,
+          visibleRelationships,
+          displayUnit
+        )
+
+      // Identify materials involved in recycling/reuse
+      const recyclingMaterialIds = new Set<string>()
+      recyclingFlows.forEach((rel) => {
+        recyclingMaterialIds.add(rel.subject.uuid)
+        recyclingMaterialIds.add(rel.object.uuid)
+      })
+
+      // Create ECharts nodes with enhanced metadata visualization
+      const chartNodes = nodes.map((node) => {
+        const isRecyclingRelated =
+          recyclingMaterialIds.has(node.uuid) ||
+          !!node.isRecyclingMaterial ||
+          !!node.isReusedComponent
+
+        // Enhanced border styling for different material types
+        let borderColor = '#06B6D4'
+        let borderWidth = 1
+        let borderType: 'solid' | 'dashed' = 'solid'
+
+        if (node.isReusedComponent) {
+          borderColor = '#06B6D4' // Cyan for reused components
+          borderWidth = 3
+          borderType = 'dashed'
+        } else if (node.isRecyclingMaterial) {
+          borderColor = '#10B981' // Green for recycled materials
+          borderWidth = 2
+          borderType = 'dashed'
+        } else if (isRecyclingRelated) {
+          borderColor = '#059669' // Dark green for other recycling-related
+          borderWidth = 2
+        }
+
+        return {
+          name: node.uuid,
+          value: node.uuid,
+          label: {
+            show: true,
+            formatter: node.name || node.uuid,
+            position: 'right',
+            fontSize: 11,
+            fontWeight: 'bold',
+            color: isDark ? '#E5E7EB' : '#1F2937',
+          },
+          itemStyle: {
+            color: node.color,
+            borderColor,
+            borderWidth,
+            borderType,
+            opacity: 0.85,
+          },
+          tooltip: {
+            formatter: createNodeTooltip(node, isRecyclingRelated),
+          },
+          original: node,
+          isRecyclingRelated,
+        }
+      })
+
+      // Create enhanced links with metadata-driven styling and impact data
+      const chartLinks = links.map((rel) => {
+        const isSelected =
+          selectedRelationship?.subject.uuid === rel.subject.uuid &&
+          selectedRelationship?.object.uuid === rel.object.uuid &&
+          selectedRelationship?.processName === rel.processName &&
+          selectedRelationship?.inputMaterial?.quantity ===
+            rel.inputMaterial?.quantity &&
+          selectedRelationship?.inputMaterial?.unit === rel.inputMaterial?.unit
+
+        const inputNode = nodes.find((n) => n.uuid === rel.subject.uuid)
+        const outputNode = nodes.find((n) => n.uuid === rel.object.uuid)
+
+        // Determine flow type and styling based on metadata
+        const { color, width, curveness, lineType } = getFlowStyling(
+          rel,
+          inputNode?.layer || 0,
+          outputNode?.layer || 0,
+          isSelected
+        )
+
+        return {
+          source: rel.subject.uuid,
+          target: rel.object.uuid,
+          // Flows in units that don't convert to the display unit can't be
+          // compared with the others, they're drawn at minimal width
+          value: getFlowQuantity(rel, displayUnit) || 1,
           lineStyle: {
-            width: width + 2,
-            opacity: 1,
+            color,
+            width,
+            opacity: getFlowOpacity(rel),
+            curveness,
+            type: lineType,
           },
-        },
-        tooltip: {
-          formatter: createLinkTooltip(rel),
-        },
-        relationship: rel,
-      }
-    })
-
-    const options = {
-      tooltip: {
-        trigger: 'item',
-        backgroundColor: isDark
-          ? 'rgba(30, 41, 59, 0.95)'
-          : 'rgba(255, 255, 255, 0.95)',
-        borderColor: isDark ? '#334155' : '#E5E7EB',
-        borderWidth: 1,
-        textStyle: {
-          fontSize: 12,
-          color: isDark ? '#E2E8F0' : '#374151',
-        },
-        confine: true,
-      },
-      series: [
-        {
-          type: 'sankey',
-          data: chartNodes,
-          links: chartLinks,
-          nodeWidth: 30,
-          nodeGap: 15,
-          nodeAlign: 'left',
-          orient: 'horizontal',
-          layoutIterations: 64,
           emphasis: {
-            focus: 'adjacency',
             lineStyle: {
+              width: width + 2,
               opacity: 1,
             },
           },
-          blur: {
-            lineStyle: {
-              opacity: 0.1,
-            },
-            itemStyle: {
-              opacity: 0.3,
-            },
+          tooltip: {
+            formatter: createLinkTooltip(rel, displayUnit),
           },
-          label: {
-            fontSize: 11,
-            fontWeight: 'normal',
-            color: isDark ? '#D1D5DB' : '#374151',
-          },
-          lineStyle: {
-            curveness: 0.5,
+          relationship: rel,
+        }
+      })
+
+      const options = {
+        tooltip: {
+          trigger: 'item',
+          backgroundColor: isDark
+            ? 'rgba(30, 41, 59, 0.95)'
+            : 'rgba(255, 255, 255, 0.95)',
+          borderColor: isDark ? '#334155' : '#E5E7EB',
+          borderWidth: 1,
+          textStyle: {
+            fontSize: 12,
+            color: isDark ? '#E2E8F0' : '#374151',
           },
+          confine: true,
         },
-      ],
-      animationDuration: 1500,
-      animationEasing: 'cubicOut',
-    }
+        series: [
+          {
+            type: 'sankey',
+            data: chartNodes,
+            links: chartLinks,
+            nodeWidth: 30,
+            nodeGap: 15,
+            nodeAlign: 'left',
+            orient: 'horizontal',
+            layoutIterations: 64,
+            emphasis: {
+              focus: 'adjacency',
+              lineStyle: {
+                opacity: 1,
+              },
+            },
+            blur: {
+              lineStyle: {
+                opacity: 0.1,
+              },
+              itemStyle: {
+                opacity: 0.3,
+              },
+            },
+            label: {
+              fontSize: 11,
+              fontWeight: 'normal',
+              color: isDark ? '#D1D5DB' : '#374151',
+            },
+            lineStyle: {
+              curveness: 0.5,
+            },
+          },
+        ],
+        animationDuration: 1500,
+        animationEasing: 'cubicOut',
+      }
 
-    return {
-      chartOptions: options,
-      recyclingInfo: { recyclingFlows, stats },
-      cycleInfo,
-    }
-  }, [materials, relationships, selectedRelationship, isDark])
+      return {
+        chartOptions: options,
+        recyclingInfo: { recyclingFlows, stats },
+        cycleInfo,
+        // Exports get the graph as drawn, without the removed cycles
+        exportGraph: { nodes, links },
+      }
+    }, [
+      visibleMaterials,
+      visibleRelationships,
+      selectedRelationship,
+      isDark,
+      displayUnit,
+    ])
+
+  const hasTimeline = !!yearRange && yearRange.min < yearRange.max
 
-  if (!chartOptions) {
+  if (!chartOptions && !hasTimeline) {
     return null
   }
 
   return (
     <div className={`w-full pt-6 ${className}`}>
-      {/* Chart */}
-      <ReactECharts
-        option={chartOptions}
-        style={{ height: '600px', width: '100%' }}
-        onEvents={{
-          click: (params: any) => {
-            if (
-              params.dataType === 'edge' &&
-              params.data?.relationship &&
-              onLinkSelect
-            ) {
-              onLinkSelect(params.data.relationship)
-            } else if (
-              params.dataType === 'node' &&
-              params.data?.original &&
-              onNodeClick
-            ) {
-              onNodeClick(params.data.original.uuid, params.data.original.name)
-            }
-          },
-        }}
-        opts={{ renderer: 'canvas' }}
-      />
+      <div className="mb-4 flex items-center gap-4">
+        {/* Timeline */}
+        {hasTimeline && yearRange && (
+          <TimelineScrubber
+            min={yearRange.min}
+            max={yearRange.max}
+            value={timelineYear}
+            onChange={setTimelineYear}
+            isPlaying={isPlaying}
+            onPlayingChange={setIsPlaying}
+            className="flex-1"
+          />
+        )}
+        {chartOptions && exportGraph && (
+          <DiagramExportMenu
+            option={chartOptions}
+            graph={exportGraph}
+            kind="sankey"
+            isDark={isDark}
+            className="ml-auto flex-shrink-0"
+          />
+        )}
+      </div>
+
+      {!chartOptions ? (
+        <div className="flex items-center justify-center h-96 text-sm text-muted-foreground">
+          No dated flows up to {timelineYear}
+        </div>
+      ) : (
+        <ReactECharts
+          option={chartOptions}
+          style={{ height: '600px', width: '100%' }}
+          onEvents={{
+            click: (params: any) => {
+              if (
+                params.dataType === 'edge' &&
+                params.data?.relationship &&
+                onLinkSelect
+              ) {
+                onLinkSelect(params.data.relationship)
+              } else if (
+                params.dataType === 'node' &&
+                params.data?.original &&
+                onNodeClick
+              ) {
+                onNodeClick(
+                  params.data.original.uuid,
+                  params.data.original.name
+                )
+              }
+            },
+          }}
+          opts={{ renderer: 'canvas' }}
+        />
+      )}
 
       {/* Simplified Legend */}
       <div className="mt-4 flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
@@ -278,6 +376,17 @@ export const SankeyDiagram = memo(function SankeyDiagram({
         <span>Hover for details • Click flows for more details</span>
       </div>
 
+      {/* Flows whose unit doesn't convert to the display unit */}
+      {recyclingInfo && recyclingInfo.stats.excludedFlows > 0 && (
+        <div className="mt-3 p-2 bg-muted/50 border rounded text-xs text-muted-foreground">
+          {recyclingInfo.stats.excludedFlows} flow
+          {recyclingInfo.stats.excludedFlows > 1 ? 's' : ''} can&apos;t be
+          converted to {displayUnit} and{' '}
+          {recyclingInfo.stats.excludedFlows > 1 ? 'are' : 'is'} drawn at
+          minimal width
+        </div>
+      )}
+
       {/* Compact Cycle Detection Notice */}
       {cycleInfo && cycleInfo.removedCount > 0 && (
         <div className="mt-3 p-2 bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800 rounded text-xs">
@@ -319,7 +428,8 @@ export const SankeyDiagram = memo(function SankeyDiagram({
  */
 function computeEnhancedLayout(
   materials: EnhancedMaterialObject[],
-  relationships: EnhancedMaterialRelationship[]
+  relationships: EnhancedMaterialRelationship[],
+  displayUnit: string
 ) {
   // Assign stage levels based on lifecycle metadata
   const nodes = materials.map((material) => ({
@@ -350,14 +460,14 @@ function computeEnhancedLayout(
   const { validFlows, removedFlows, cycleInfo } =
     detectAndRemoveCycles(standardFlows)
 
-  // Calculate statistics
-  const totalQuantity = relationships.reduce(
-    (sum, rel) => sum + (rel.quantity || 0),
-    0
+  // Calculate statistics in the display unit
+  const { total: totalQuantity, excluded: excludedFlows } = sumFlowQuantities(
+    relationships,
+    displayUnit
   )
-  const recyclingQuantity = recyclingFlows.reduce(
-    (sum, rel) => sum + (rel.quantity || 0),
-    0
+  const { total: recyclingQuantity } = sumFlowQuantities(
+    recyclingFlows,
+    displayUnit
   )
   const recyclingRate =
     totalQuantity > 0
@@ -376,6 +486,7 @@ function computeEnhancedLayout(
       recyclingRate,
       totalQuantity,
       recyclingQuantity,
+      excludedFlows,
       removedCycles: removedFlows.length,
     },
   }
@@ -540,15 +651,23 @@ function createNodeTooltip(
 }
 
 /**
- * Create enhanced link tooltip with process-level data only (no material quantities)
+ * Create enhanced link tooltip with process-level data and the input quantity
  */
-function createLinkTooltip(rel: EnhancedMaterialRelationship): string {
+function createLinkTooltip(
+  rel: EnhancedMaterialRelationship,
+  displayUnit: string
+): string {
   const parts = [`<strong>${rel.subject.name} → ${rel.object.name}</strong>`]
 
   if (rel.processName) {
     parts.push(`Process: ${rel.processName}`)
   }
 
+  const quantity = formatFlowQuantity(rel, displayUnit)
+  if (quantity) {
+    parts.push(`Quantity: ${quantity}`)
+  }
+
   if (rel.processTypeCode) {
     parts.push(`Type: ${rel.processTypeCode.replace('_', ' ')}`)
   }
@@ -15,16 +15,21 @@ import {
   TablePagination,
 } from '@/components/ui'
 import { usePagination } from '@/hooks'
+import { DEFAULT_DISPLAY_UNIT } from '@/constants'
+import { formatQuantity } from '@/lib'
 import {
   EnhancedMaterialRelationship,
   QualityChangeCode,
 } from '@/types/sankey-metadata'
+import { formatFlowQuantity, sumFlowQuantities } from '../utils'
 
 interface ProcessTableViewProps {
   relationships: EnhancedMaterialRelationship[]
   onRelationshipSelect?: (relationship: EnhancedMaterialRelationship) => void
   selectedRelationship?: EnhancedMaterialRelationship | null
   pageSize?: number
+  // Unit quantities are converted to next to their recorded unit
+  displayUnit?: string
 }
 
 export function ProcessTableView({
@@ -32,6 +37,7 @@ export function ProcessTableView({
   onRelationshipSelect,
   selectedRelationship,
   pageSize = 10,
+  displayUnit = DEFAULT_DISPLAY_UNIT,
 }: ProcessTableViewProps) {
   const t = useTranslations('processTable')
   const [searchTerm] = useState('')
@@ -81,17 +87,10 @@ export function ProcessTableView({
     return filteredRelationships.slice(startIndex, endIndex)
   }, [filteredRelationships, currentPage, pageSize])
 
-  const formatQuantity = (relationship: EnhancedMaterialRelationship) => {
-    // Use input material quantity/unit from the new structure
-    const quantity =
-      relationship.inputMaterial?.quantity || relationship.quantity
-    const unit = relationship.inputMaterial?.unit || relationship.unit
-
-    if (quantity && unit) {
-      return `${quantity.toLocaleString()} ${unit}`
-    }
-    return 'Not specified'
-  }
+  const quantityTotal = useMemo(
+    () => sumFlowQuantities(filteredRelationships, displayUnit),
+    [filteredRelationships, displayUnit]
+  )
 
   // Helper to get text and styling for quality change
   const getQualityChangeInfo = (code?: QualityChangeCode) => {
@@ -176,7 +175,8 @@ export function ProcessTableView({
                   </TableCell>
                   <TableCell className="text-right font-mono">
                     <Badge variant="secondary">
-                      {formatQuantity(relationship)}
+                      {formatFlowQuantity(relationship, displayUnit) ??
+                        'Not specified'}
                     </Badge>
                   </TableCell>
                   <TableCell>
@@ -264,6 +264,25 @@ export function ProcessTableView({
         </Table>
       </div>
 
+      {/* Quantity Total */}
+      {quantityTotal.total > 0 && (
+        <div className="flex justify-end gap-3 px-2 pt-3 text-sm text-muted-foreground">
+          <span>
+            {t('totalQuantity', {
+              quantity: formatQuantity(quantityTotal.total, displayUnit),
+            })}
+          </span>
+          {quantityTotal.excluded > 0 && (
+            <span className="text-amber-600 dark:text-amber-400">
+              {t('excludedFlows', {
+                count: quantityTotal.excluded,
+                unit: displayUnit,
+              })}
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Table Info and Pagination */}
       {paginationInfo.totalPages > 1 && (
         <TablePagination
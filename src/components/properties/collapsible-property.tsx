@@ -2,12 +2,14 @@ import { useRef, useState } from 'react'
 import { ChevronRight, FunctionSquare, Plus, Trash2, X } from 'lucide-react'
 import { useTranslations } from 'next-intl'
 
-import { formatNumericValue } from '@/lib'
+import { formatNumericValue, validatePropertyValue } from '@/lib'
 import { Badge, Button, Input, Label } from '@/components/ui'
 import { FileList } from '@/components/object-sheets/components/file-display'
 import { FormulaDisplay } from './formula-display'
 import { FormulaEditor } from './formula-editor'
 import { ValueModeToggle } from './value-mode-toggle'
+import { ValueTypeSelect } from './value-type-select'
+import { TypedValueDisplay, TypedValueInput } from './typed-value-input'
 import type { AvailableProperty } from './hooks/use-formula-evaluation'
 
 const EMPTY_AVAILABLE_PROPERTIES: AvailableProperty[] = []
@@ -20,6 +22,8 @@ interface CollapsiblePropertyProps {
   onUpdate?: (updatedProperty: any) => void
   onRemove?: () => void
   availableProperties?: AvailableProperty[]
+  // Object the property belongs to, for formulas using its parent or children
+  objectUuid?: string
 }
 
 /**
@@ -31,7 +35,9 @@ function CollapsibleValueItem({
   valueIndex,
   isEditable,
   availableProperties,
+  objectUuid,
   onValueChange,
+  onTypeChange,
   onFormulaChange,
   onRemove,
 }: {
@@ -39,7 +45,9 @@ function CollapsibleValueItem({
   valueIndex: number
   isEditable: boolean
   availableProperties: AvailableProperty[]
+  objectUuid?: string
   onValueChange: (index: number, newValue: string) => void
+  onTypeChange: (index: number, valueTypeCast: string) => void
   onFormulaChange: (index: number, formulaData: any) => void
   onRemove: (index: number) => void
 }) {
@@ -49,6 +57,10 @@ function CollapsibleValueItem({
   )
 
   const hasFormula = !!value.formulaData?.formula
+  const validationError = validatePropertyValue(
+    value.value,
+    value.valueTypeCast
+  )
 
   return (
     <div className="space-y-2 border rounded-md p-2 bg-muted/5">
@@ -102,6 +114,7 @@ function CollapsibleValueItem({
       {isFormulaMode && isEditable ? (
         <FormulaEditor
           availableProperties={availableProperties}
+          objectUuid={objectUuid}
           initialFormula={value.formulaData?.formula || ''}
           initialMapping={value.formulaData?.variableMapping}
           onChange={(data) => {
@@ -126,14 +139,27 @@ function CollapsibleValueItem({
           variableMapping={value.formulaData.variableMapping}
         />
       ) : isEditable ? (
-        <Input
-          value={value.value || ''}
-          onChange={(e) => onValueChange(valueIndex, e.target.value)}
-          placeholder={t('objects.propertyValuePlaceholder')}
-        />
+        <>
+          <ValueTypeSelect
+            valueTypeCast={value.valueTypeCast}
+            onChange={(cast) => onTypeChange(valueIndex, cast)}
+          />
+          <TypedValueInput
+            value={value.value || ''}
+            valueTypeCast={value.valueTypeCast}
+            onChange={(newValue) => onValueChange(valueIndex, newValue)}
+            placeholder={t('objects.propertyValuePlaceholder')}
+          />
+          {validationError && (
+            <p className="text-sm text-destructive">{validationError}</p>
+          )}
+        </>
       ) : (
         <div className="p-2 border rounded-md bg-background w-full">
-          {formatNumericValue(value.value)}
+          <TypedValueDisplay
+            value={value.value}
+            valueTypeCast={value.valueTypeCast}
+          />
         </div>
       )}
 
@@ -155,6 +181,7 @@ export function CollapsibleProperty({
   onUpdate,
   onRemove,
   availableProperties = EMPTY_AVAILABLE_PROPERTIES,
+  objectUuid,
 }: CollapsiblePropertyProps) {
   const t = useTranslations()
   const [editedProperty, setEditedProperty] = useState<any>({})
@@ -205,6 +232,26 @@ export function CollapsibleProperty({
     onUpdate(updated)
   }
 
+  // Handle value type changes
+  const handleValueTypeChange = (valueIndex: number, valueTypeCast: string) => {
+    if (!isEditable || !onUpdate) return
+
+    const updatedValues = [...(editedProperty.values || [])]
+    updatedValues[valueIndex] = {
+      ...updatedValues[valueIndex],
+      valueTypeCast,
+    }
+
+    const updated = {
+      ...editedProperty,
+      values: updatedValues,
+      _modified: true,
+    }
+
+    setEditedProperty(updated)
+    onUpdate(updated)
+  }
+
   // Handle value formula changes
   const handleValueFormulaChange = (valueIndex: number, formulaData: any) => {
     if (!isEditable || !onUpdate) return
@@ -278,13 +325,20 @@ export function CollapsibleProperty({
           </div>
 
           <div className="ml-4 text-sm text-muted-foreground">
-            {property.values?.length === 1
-              ? property.values[0].formulaData?.formula
-                ? `= ${formatNumericValue(property.values[0].formulaData.result) ?? '...'}`
-                : formatNumericValue(property.values[0].value)
-              : t('objects.values', {
-                  count: property.values?.length || 0,
-                })}
+            {property.values?.length === 1 ? (
+              property.values[0].formulaData?.formula ? (
+                `= ${formatNumericValue(property.values[0].formulaData.result) ?? '...'}`
+              ) : (
+                <TypedValueDisplay
+                  value={property.values[0].value}
+                  valueTypeCast={property.values[0].valueTypeCast}
+                />
+              )
+            ) : (
+              t('objects.values', {
+                count: property.values?.length || 0,
+              })
+            )}
           </div>
         </div>
 
@@ -343,7 +397,9 @@ export function CollapsibleProperty({
                     valueIndex={index}
                     isEditable={isEditable}
                     availableProperties={availableProperties}
+                    objectUuid={objectUuid}
                     onValueChange={handleValueChange}
+                    onTypeChange={handleValueTypeChange}
                     onFormulaChange={handleValueFormulaChange}
                     onRemove={handleRemoveValue}
                   />
@@ -2,7 +2,12 @@
 
 import { useState } from 'react'
 import { useTranslations } from 'next-intl'
-import { FunctionSquare, ChevronDown, ChevronUp } from 'lucide-react'
+import {
+  AlertTriangle,
+  FunctionSquare,
+  ChevronDown,
+  ChevronUp,
+} from 'lucide-react'
 
 import { cn } from '@/lib/utils'
 import { Badge } from '@/components/ui'
@@ -17,6 +22,8 @@ interface FormulaDisplayProps {
   >
   className?: string
   compact?: boolean
+  // The stored result no longer matches the values it was computed from
+  isStale?: boolean
 }
 
 /**
@@ -30,6 +37,7 @@ export function FormulaDisplay({
   variableMapping,
   className,
   compact = false,
+  isStale = false,
 }: FormulaDisplayProps) {
   const t = useTranslations()
   const [isExpanded, setIsExpanded] = useState(false)
@@ -37,6 +45,18 @@ export function FormulaDisplay({
   const displayResult =
     result !== null && result !== undefined ? String(result) : '—'
 
+  const staleBadge = isStale && (
+    <Badge
+      variant="secondary"
+      className="h-4 px-1 text-[10px] gap-0.5 bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-300"
+      title={t('objects.formulas.staleHint')}
+      data-testid="formula-stale-badge"
+    >
+      <AlertTriangle className="h-2.5 w-2.5" />
+      {t('objects.formulas.stale')}
+    </Badge>
+  )
+
   if (compact) {
     return (
       <div className={cn('flex items-center gap-1.5', className)}>
@@ -48,6 +68,7 @@ export function FormulaDisplay({
           fx
         </Badge>
         <span className="text-sm font-medium">{displayResult}</span>
+        {staleBadge}
       </div>
     )
   }
@@ -63,6 +84,7 @@ export function FormulaDisplay({
           {t('objects.properties.formulaType')}
         </Badge>
         <span className="text-sm font-bold">{displayResult}</span>
+        {staleBadge}
         <button
           type="button"
           onClick={() => setIsExpanded(!isExpanded)}
@@ -1,8 +1,8 @@
 'use client'
 
-import { useEffect, useRef, useCallback } from 'react'
+import { useEffect, useRef, useCallback, useMemo, useState } from 'react'
 import { useTranslations } from 'next-intl'
-import { AlertCircle, CheckCircle2, ChevronDown } from 'lucide-react'
+import { AlertCircle, CheckCircle2, Link2 } from 'lucide-react'
 
 import { cn } from '@/lib/utils'
 import {
@@ -11,26 +11,32 @@ import {
   Badge,
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
   Separator,
-  DropdownMenu,
-  DropdownMenuContent,
-  DropdownMenuItem,
-  DropdownMenuLabel,
-  DropdownMenuSeparator,
-  DropdownMenuTrigger,
   Button,
 } from '@/components/ui'
-import { FORMULA_TEMPLATES } from '@/constants'
 import {
   useFormulaEvaluation,
   type AvailableProperty,
 } from './hooks/use-formula-evaluation'
+import { useFormulaSources } from './hooks/use-formula-sources'
+import {
+  getFormulaSourceKey,
+  getReferencedObjectUuids,
+} from './formula-sources'
+import { FormulaTemplateMenu } from './formula-template-menu'
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 
 interface FormulaEditorProps {
   availableProperties: AvailableProperty[]
+  // Object being edited, its parent and children become formula sources
+  objectUuid?: string
   initialFormula?: string
   initialMapping?: Record<string, { propertyKey: string; propertyUuid: string }>
   onChange?: (data: {
@@ -48,6 +54,7 @@ interface FormulaEditorProps {
 
 export function FormulaEditor({
   availableProperties,
+  objectUuid,
   initialFormula = '',
   initialMapping,
   onChange,
@@ -57,6 +64,38 @@ export function FormulaEditor({
   const onChangeRef = useRef(onChange)
   onChangeRef.current = onChange
 
+  // Other objects referenced by UUID, restored from the saved mapping
+  const [referencedUuids, setReferencedUuids] = useState(() =>
+    getReferencedObjectUuids(initialMapping)
+  )
+  const [referenceInput, setReferenceInput] = useState('')
+  const { sources } = useFormulaSources(objectUuid, referencedUuids)
+
+  const allProperties = useMemo(
+    () => [...availableProperties, ...sources],
+    [availableProperties, sources]
+  )
+
+  // Picker groups: this object, then each parent, the children and
+  // referenced objects
+  const propertyGroups = useMemo(() => {
+    const groups = new Map<string, AvailableProperty[]>()
+    allProperties.forEach((prop) => {
+      const group =
+        prop.source === 'parent'
+          ? t('objects.properties.formulaSourceParent', {
+              name: prop.sourceName || '',
+            })
+          : prop.source === 'children'
+            ? t('objects.properties.formulaSourceChildren')
+            : prop.source === 'object'
+              ? prop.sourceName || ''
+              : t('objects.properties.formulaSourceSelf')
+      groups.set(group, [...(groups.get(group) || []), prop])
+    })
+    return Array.from(groups.entries())
+  }, [allProperties, t])
+
   const {
     formula,
     setFormula,
@@ -66,7 +105,18 @@ export function FormulaEditor({
     variableMapping,
     mapVariable,
     evaluation,
-  } = useFormulaEvaluation(availableProperties)
+  } = useFormulaEvaluation(allProperties)
+
+  const trimmedReference = referenceInput.trim()
+  const isValidReference = UUID_PATTERN.test(trimmedReference)
+
+  const handleAddReference = () => {
+    if (!isValidReference) return
+    setReferencedUuids((prev) =>
+      prev.includes(trimmedReference) ? prev : [...prev, trimmedReference]
+    )
+    setReferenceInput('')
+  }
 
   // Initialize with initial values (once)
   const initialized = useRef(false)
@@ -77,12 +127,26 @@ export function FormulaEditor({
     }
   }, [initialFormula, initialMapping, setFormulaWithMapping])
 
+  // Variables bound by name (parent.x, children.x) are saved like mapped ones
+  const savedMapping = useMemo(() => {
+    const mapping = { ...variableMapping }
+    resolvedVariables.forEach((v) => {
+      if (!mapping[v.name] && v.propertyUuid) {
+        mapping[v.name] = {
+          propertyKey: v.propertyKey,
+          propertyUuid: v.propertyUuid,
+        }
+      }
+    })
+    return mapping
+  }, [variableMapping, resolvedVariables])
+
   // Notify parent of changes — use ref to avoid re-render loop
   const prevDataRef = useRef('')
   useEffect(() => {
     const dataKey = JSON.stringify({
       formula,
-      variableMapping,
+      variableMapping: savedMapping,
       result: evaluation.result,
       isValid: evaluation.isValid,
     })
@@ -90,13 +154,13 @@ export function FormulaEditor({
       prevDataRef.current = dataKey
       onChangeRef.current?.({
         formula,
-        variableMapping,
+        variableMapping: savedMapping,
         result: evaluation.result,
         resolvedExpression: evaluation.resolvedExpression,
         isValid: evaluation.isValid,
       })
     }
-  }, [formula, variableMapping, evaluation])
+  }, [formula, savedMapping, evaluation])
 
   const handleTemplateSelect = useCallback(
     (templateFormula: string) => {
@@ -124,61 +188,12 @@ export function FormulaEditor({
                   : ''
             )}
           />
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                className="h-9 gap-1 shrink-0"
-                disabled={disabled}
-              >
-                {t('objects.properties.formulaTemplates')}
-                <ChevronDown className="h-3.5 w-3.5" />
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent
-              align="end"
-              className="w-60 max-h-72 overflow-y-auto"
-            >
-              {(
-                [
-                  'basic',
-                  'statistics',
-                  'geometry',
-                  'conversion',
-                  'finance',
-                ] as const
-              ).map((cat, catIdx) => {
-                const items = FORMULA_TEMPLATES.filter(
-                  (t) => t.category === cat
-                )
-                if (items.length === 0) return null
-                return (
-                  <div key={cat}>
-                    {catIdx > 0 && <DropdownMenuSeparator />}
-                    <DropdownMenuLabel className="text-[10px] uppercase tracking-wider text-muted-foreground">
-                      {cat}
-                    </DropdownMenuLabel>
-                    {items.map((tmpl) => (
-                      <DropdownMenuItem
-                        key={tmpl.label}
-                        onClick={() => handleTemplateSelect(tmpl.formula)}
-                        className="flex flex-col items-start gap-0.5"
-                      >
-                        <span className="font-medium text-sm">
-                          {tmpl.label}
-                        </span>
-                        <span className="text-xs text-muted-foreground font-mono">
-                          {tmpl.formula}
-                        </span>
-                      </DropdownMenuItem>
-                    ))}
-                  </div>
-                )
-              })}
-            </DropdownMenuContent>
-          </DropdownMenu>
+          <FormulaTemplateMenu
+            formula={formula.trim()}
+            canSave={!!formula.trim() && evaluation.isValid}
+            onSelect={handleTemplateSelect}
+            disabled={disabled}
+          />
         </div>
         {evaluation.error && formula.trim() && (
           <p className="text-xs text-destructive flex items-center gap-1">
@@ -216,13 +231,19 @@ export function FormulaEditor({
                     </Badge>
                     <span className="text-muted-foreground text-xs">→</span>
                     <Select
-                      value={currentMapping?.propertyUuid || ''}
+                      value={
+                        currentMapping?.propertyUuid ||
+                        resolved?.propertyUuid ||
+                        ''
+                      }
                       onValueChange={(uuid) => {
-                        const prop = availableProperties.find(
-                          (p) => p.uuid === uuid
-                        )
+                        const prop = allProperties.find((p) => p.uuid === uuid)
                         if (prop) {
-                          mapVariable(varName, prop.key, prop.uuid)
+                          mapVariable(
+                            varName,
+                            getFormulaSourceKey(prop),
+                            prop.uuid
+                          )
                         }
                       }}
                       disabled={disabled}
@@ -235,23 +256,35 @@ export function FormulaEditor({
                         />
                       </SelectTrigger>
                       <SelectContent>
-                        {availableProperties.length > 0 ? (
-                          availableProperties.map((prop) => (
-                            <SelectItem
-                              key={prop.uuid}
-                              value={prop.uuid}
-                              className="text-xs"
-                            >
-                              <span className="font-medium">
-                                {prop.label || prop.key}
-                              </span>
-                              <span className="mx-1 text-muted-foreground">
-                                –
-                              </span>
-                              <span className="text-muted-foreground">
-                                {prop.value || '(empty)'}
-                              </span>
-                            </SelectItem>
+                        {allProperties.length > 0 ? (
+                          propertyGroups.map(([group, props]) => (
+                            <SelectGroup key={group}>
+                              <SelectLabel className="text-[10px] uppercase tracking-wider text-muted-foreground">
+                                {group}
+                              </SelectLabel>
+                              {props.map((prop) => (
+                                <SelectItem
+                                  key={prop.uuid}
+                                  value={prop.uuid}
+                                  className="text-xs"
+                                >
+                                  <span className="font-medium">
+                                    {prop.label || prop.key}
+                                  </span>
+                                  <span className="mx-1 text-muted-foreground">
+                                    –
+                                  </span>
+                                  <span className="text-muted-foreground">
+                                    {prop.values
+                                      ? t(
+                                          'objects.properties.formulaChildValues',
+                                          { count: prop.values.length }
+                                        )
+                                      : prop.value || '(empty)'}
+                                  </span>
+                                </SelectItem>
+                              ))}
+                            </SelectGroup>
                           ))
                         ) : (
                           <div className="px-2 py-1.5 text-xs text-muted-foreground">
@@ -266,10 +299,48 @@ export function FormulaEditor({
                           = {resolved.resolvedValue}
                         </Badge>
                       )}
+                    {resolved?.resolvedValues && (
+                      <Badge variant="outline" className="text-xs font-mono">
+                        [{resolved.resolvedValues.join(', ')}]
+                      </Badge>
+                    )}
                   </div>
                 )
               })}
             </div>
+
+            {/* Reference another object by UUID */}
+            <div className="flex items-center gap-2">
+              <Input
+                value={referenceInput}
+                onChange={(e) => setReferenceInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault()
+                    handleAddReference()
+                  }
+                }}
+                placeholder={t(
+                  'objects.properties.formulaReferencePlaceholder'
+                )}
+                disabled={disabled}
+                className="h-7 text-xs font-mono flex-1"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 gap-1 text-xs shrink-0"
+                onClick={handleAddReference}
+                disabled={disabled || !isValidReference}
+              >
+                <Link2 className="h-3.5 w-3.5" />
+                {t('objects.properties.formulaAddReference')}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {t('objects.properties.formulaSourcesHint')}
+            </p>
           </div>
         </>
       )}
@@ -0,0 +1,213 @@
+import {
+  computeFormula,
+  type AvailableProperty,
+} from './hooks/use-formula-evaluation'
+import { buildSelfSources, getReferencedObjectUuids } from './formula-sources'
+
+/**
+ * Recomputing stored formula results.
+ *
+ * A formula value keeps the result it had when it was saved. Its variable
+ * mapping lists the values it depends on, so after those change the formula
+ * can be evaluated again. Formula values that depend on other formula values
+ * of the same object are computed in dependency order, cycles are reported
+ * and left as they are.
+ */
+
+export interface FormulaRecomputeFailure {
+  id: string
+  propertyKey: string
+  error: string
+}
+
+export interface FormulaRecomputeResult {
+  // Properties with their formula values brought up to date
+  properties: any[]
+  // Properties with at least one recomputed value, ready to be saved
+  changed: any[]
+  // IDs (`propertyId::valueIndex`) of values whose stored result was stale
+  stale: string[]
+  // Property keys of each dependency cycle
+  cycles: string[][]
+  // Values that couldn't be evaluated, e.g. because a source was removed
+  failed: FormulaRecomputeFailure[]
+}
+
+interface FormulaNode {
+  id: string
+  propertyIndex: number
+  valueIndex: number
+  dependencies: string[]
+}
+
+const propertyId = (property: any): string =>
+  property.uuid || property._tempId || ''
+
+const isActive = (property: any) =>
+  !property._deleted && !property.softDeleted && property.key
+
+// Results within rounding noise of each other are the same
+const sameResult = (stored: unknown, result: number) => {
+  if (stored === null || stored === undefined || stored === '') return false
+  const previous = Number(stored)
+  if (!Number.isFinite(previous)) return false
+  return (
+    Math.abs(previous - result) <=
+    1e-9 * Math.max(1, Math.abs(previous), Math.abs(result))
+  )
+}
+
+/**
+ * UUIDs of other objects referenced by any formula of these properties
+ */
+export function getFormulaReferencedUuids(properties: any[]): string[] {
+  const uuids = new Set<string>()
+  properties.filter(isActive).forEach((property) => {
+    ;(property.values || []).forEach((v: any) => {
+      getReferencedObjectUuids(v.formulaData?.variableMapping).forEach((uuid) =>
+        uuids.add(uuid)
+      )
+    })
+  })
+  return Array.from(uuids)
+}
+
+/**
+ * Whether any value of these properties is a formula
+ */
+export function hasFormulaValues(properties: any[]): boolean {
+  return properties.some(
+    (property) =>
+      isActive(property) &&
+      (property.values || []).some((v: any) => !!v.formulaData?.formula)
+  )
+}
+
+function collectFormulaNodes(properties: any[]): Map<string, FormulaNode> {
+  const nodes = new Map<string, FormulaNode>()
+  properties.forEach((property, propertyIndex) => {
+    if (!isActive(property)) return
+    ;(property.values || []).forEach((v: any, valueIndex: number) => {
+      if (!v.formulaData?.formula) return
+      nodes.set(`${propertyId(property)}::${valueIndex}`, {
+        id: `${propertyId(property)}::${valueIndex}`,
+        propertyIndex,
+        valueIndex,
+        dependencies: Object.values(
+          (v.formulaData.variableMapping || {}) as Record<
+            string,
+            { propertyUuid: string }
+          >
+        ).map((mapping) => mapping.propertyUuid),
+      })
+    })
+  })
+  return nodes
+}
+
+/**
+ * Formula values in dependency order, and the cycles found on the way
+ */
+function orderFormulaNodes(nodes: Map<string, FormulaNode>) {
+  const order: FormulaNode[] = []
+  const cycles: FormulaNode[][] = []
+  const state = new Map<string, 'visiting' | 'done'>()
+  const stack: FormulaNode[] = []
+
+  const visit = (node: FormulaNode) => {
+    state.set(node.id, 'visiting')
+    stack.push(node)
+    node.dependencies.forEach((dependencyId) => {
+      const dependency = nodes.get(dependencyId)
+      if (!dependency) return
+      const dependencyState = state.get(dependencyId)
+      if (dependencyState === 'visiting') {
+        cycles.push(stack.slice(stack.indexOf(dependency)))
+      } else if (!dependencyState) {
+        visit(dependency)
+      }
+    })
+    stack.pop()
+    state.set(node.id, 'done')
+    order.push(node)
+  }
+
+  nodes.forEach((node) => {
+    if (!state.has(node.id)) visit(node)
+  })
+
+  return { order, cycles }
+}
+
+/**
+ * Evaluate every formula value of an object again.
+ * `externalSources` holds the values of its parents, children and referenced
+ * objects (see formula-sources).
+ */
+export function recomputeFormulas(
+  properties: any[],
+  externalSources: AvailableProperty[] = []
+): FormulaRecomputeResult {
+  const working = properties.map((property) => ({
+    ...property,
+    values: [...(property.values || [])],
+  }))
+  const nodes = collectFormulaNodes(working)
+  const { order, cycles } = orderFormulaNodes(nodes)
+
+  const inCycle = new Set(cycles.flat().map((node) => node.id))
+  const changedIndexes = new Set<number>()
+  const stale: string[] = []
+  const failed: FormulaRecomputeFailure[] = []
+
+  order
+    .filter((node) => !inCycle.has(node.id))
+    .forEach((node) => {
+      const property = working[node.propertyIndex]
+      const value = property.values[node.valueIndex]
+      const { formula, variableMapping = {} } = value.formulaData
+
+      // Same sources as the editor: siblings of the property, not itself
+      const sources = [
+        ...buildSelfSources(working).filter(
+          (source) => !source.uuid.startsWith(`${propertyId(property)}::`)
+        ),
+        ...externalSources,
+      ]
+      const { evaluation } = computeFormula(formula, variableMapping, sources)
+
+      if (evaluation.result === null) {
+        failed.push({
+          id: node.id,
+          propertyKey: property.key,
+          error: evaluation.error || 'Not all variables can be resolved',
+        })
+        return
+      }
+
+      if (sameResult(value.formulaData.result, evaluation.result)) return
+
+      stale.push(node.id)
+      changedIndexes.add(node.propertyIndex)
+      property.values[node.valueIndex] = {
+        ...value,
+        value: evaluation.result.toString(),
+        formulaData: {
+          ...value.formulaData,
+          result: evaluation.result,
+          resolvedExpression: evaluation.resolvedExpression,
+          isValid: true,
+        },
+      }
+    })
+
+  return {
+    properties: working,
+    changed: working.filter((_, index) => changedIndexes.has(index)),
+    stale,
+    cycles: cycles.map((cycle) =>
+      Array.from(new Set(cycle.map((node) => working[node.propertyIndex].key)))
+    ),
+    failed,
+  }
+}
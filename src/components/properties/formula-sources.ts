@@ -0,0 +1,148 @@
+import type {
+  AvailableProperty,
+  FormulaSource,
+} from './hooks/use-formula-evaluation'
+
+/**
+ * Properties of other objects that formulas can use: the parent, the
+ * children and any object referenced by UUID.
+ *
+ * Their composite IDs say where the value lives, so a saved mapping can be
+ * resolved again when the formula is reopened:
+ * - `@<objectUuid>/<key>::<valueIndex>` for a value of another object
+ * - `children/<key>` for the values of every child
+ */
+
+const OBJECT_PREFIX = '@'
+const CHILDREN_PREFIX = 'children/'
+
+const isNumeric = (value: unknown): value is string =>
+  typeof value === 'string' &&
+  value.trim() !== '' &&
+  !isNaN(Number(value.trim()))
+
+const activeProperties = (object: any): any[] =>
+  (object?.properties || []).filter((p: any) => !p.softDeleted && p.key)
+
+const activeValues = (property: any): any[] =>
+  (property.values || []).filter((v: any) => !v.softDeleted)
+
+/**
+ * Numeric values of the object's own properties, one entry per value with a
+ * `propertyId::valueIndex` ID. Works on saved properties and on the edited
+ * ones, which may be new (`_tempId`) or marked for deletion.
+ */
+export function buildSelfSources(properties: any[]): AvailableProperty[] {
+  const result: AvailableProperty[] = []
+
+  properties
+    .filter((p) => !p._deleted && !p.softDeleted && p.key)
+    .forEach((p) => {
+      const propId = p.uuid || p._tempId || ''
+      ;(p.values || []).forEach((v: any, idx: number) => {
+        // Skip empty, placeholder, or non-numeric values
+        if (v._needsInput || !isNumeric(v.value)) return
+        result.push({
+          uuid: `${propId}::${idx}`,
+          key: p.key,
+          label: p.label || p.key,
+          value: v.value.trim(),
+          valueIndex: idx,
+        })
+      })
+    })
+
+  return result
+}
+
+/**
+ * Numeric values of a parent or referenced object, one entry per value.
+ * The first value of each parent property also binds as `parent.<key>`.
+ */
+export function buildObjectSources(
+  object: any,
+  source: Extract<FormulaSource, 'parent' | 'object'>
+): AvailableProperty[] {
+  if (!object?.uuid) return []
+
+  const result: AvailableProperty[] = []
+  activeProperties(object).forEach((property) => {
+    activeValues(property).forEach((v: any, idx: number) => {
+      if (!isNumeric(v.value)) return
+      result.push({
+        uuid: `${OBJECT_PREFIX}${object.uuid}/${property.key}::${idx}`,
+        key: property.key,
+        label: property.label || property.key,
+        value: v.value.trim(),
+        valueIndex: idx,
+        source,
+        sourceName: object.name || object.uuid,
+        ...(source === 'parent' &&
+          idx === 0 && { path: `parent.${property.key}` }),
+      })
+    })
+  })
+  return result
+}
+
+interface ChildrenEntry {
+  label: string
+  values: string[]
+}
+
+/**
+ * One entry per property key found on the children, holding the numeric
+ * values of every child. Binds as `children.<key>`.
+ */
+export function buildChildrenSources(children: any[]): AvailableProperty[] {
+  const byKey = new Map<string, ChildrenEntry>()
+
+  children.forEach((child) => {
+    activeProperties(child).forEach((property) => {
+      const entry: ChildrenEntry = byKey.get(property.key) || {
+        label: property.label || property.key,
+        values: [],
+      }
+      activeValues(property).forEach((v: any) => {
+        if (isNumeric(v.value)) entry.values.push(v.value.trim())
+      })
+      byKey.set(property.key, entry)
+    })
+  })
+
+  return Array.from(byKey.entries())
+    .filter(([, entry]) => entry.values.length > 0)
+    .map(([key, entry]) => ({
+      uuid: `${CHILDREN_PREFIX}${key}`,
+      key,
+      label: entry.label,
+      value: entry.values.join(', '),
+      values: entry.values,
+      source: 'children' as const,
+      path: `children.${key}`,
+    }))
+}
+
+/**
+ * UUIDs of the objects a variable mapping points to
+ */
+export function getReferencedObjectUuids(
+  mapping?: Record<string, { propertyUuid: string }>
+): string[] {
+  const uuids = new Set<string>()
+  Object.values(mapping || {}).forEach(({ propertyUuid }) => {
+    if (!propertyUuid?.startsWith(OBJECT_PREFIX)) return
+    const uuid = propertyUuid.slice(OBJECT_PREFIX.length).split('/')[0]
+    if (uuid) uuids.add(uuid)
+  })
+  return Array.from(uuids)
+}
+
+/**
+ * Key shown for a mapped variable, e.g. `children.weight` or `Wall A.width`
+ */
+export function getFormulaSourceKey(property: AvailableProperty): string {
+  if (property.path) return property.path
+  if (property.sourceName) return `${property.sourceName}.${property.key}`
+  return property.key
+}
@@ -0,0 +1,235 @@
+'use client'
+
+import { useState, type FormEvent } from 'react'
+import { useTranslations } from 'next-intl'
+import { BookmarkPlus, ChevronDown, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import {
+  Button,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+  Input,
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui'
+import { FORMULA_TEMPLATES } from '@/constants'
+import { useAuth } from '@/contexts'
+import { useFormulaTemplates } from '@/hooks/api'
+import type { TeamFormulaTemplate } from '@/types'
+
+const BUILT_IN_CATEGORIES = [
+  'basic',
+  'statistics',
+  'geometry',
+  'conversion',
+  'finance',
+] as const
+
+interface FormulaTemplateMenuProps {
+  // Formula as currently entered, saved as a team template on request
+  formula: string
+  canSave: boolean
+  onSelect: (formula: string) => void
+  disabled?: boolean
+}
+
+/**
+ * Built-in and team formula templates, and the "save as template" action
+ */
+export function FormulaTemplateMenu({
+  formula,
+  canSave,
+  onSelect,
+  disabled = false,
+}: FormulaTemplateMenuProps) {
+  const t = useTranslations()
+  const { userUUID } = useAuth()
+  const [open, setOpen] = useState(false)
+  const [label, setLabel] = useState('')
+  const [description, setDescription] = useState('')
+  const {
+    useListFormulaTemplates,
+    useCreateFormulaTemplate,
+    useDeleteFormulaTemplate,
+  } = useFormulaTemplates()
+  const { data: teamTemplates = [] } = useListFormulaTemplates()
+  const createTemplate = useCreateFormulaTemplate()
+  const deleteTemplate = useDeleteFormulaTemplate()
+
+  const handleDelete = async (template: TeamFormulaTemplate) => {
+    try {
+      await deleteTemplate.mutateAsync(template.id)
+      toast.success(
+        t('objects.formulas.templateDeleted', { name: template.label })
+      )
+    } catch (error) {
+      toast.error(t('objects.formulas.templateDeleteFailed'), {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    }
+  }
+
+  const handleSave = async (e: FormEvent) => {
+    // Keep the submit from reaching the property form around the popover
+    e.preventDefault()
+    e.stopPropagation()
+    if (!canSave || !label.trim()) return
+
+    try {
+      const saved = await createTemplate.mutateAsync({
+        label,
+        formula,
+        description,
+      })
+      toast.success(t('objects.formulas.templateSaved', { name: saved.label }))
+      setOpen(false)
+      setLabel('')
+      setDescription('')
+    } catch (error) {
+      toast.error(t('objects.formulas.templateSaveFailed'), {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-9 gap-1 shrink-0"
+            disabled={disabled}
+          >
+            {t('objects.properties.formulaTemplates')}
+            <ChevronDown className="h-3.5 w-3.5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent
+          align="end"
+          className="w-60 max-h-72 overflow-y-auto"
+        >
+          {teamTemplates.length > 0 && (
+            <>
+              <DropdownMenuLabel className="text-[10px] uppercase tracking-wider text-muted-foreground">
+                {t('objects.formulas.teamTemplates')}
+              </DropdownMenuLabel>
+              {teamTemplates.map((tmpl) => (
+                <DropdownMenuItem
+                  key={tmpl.id}
+                  onClick={() => onSelect(tmpl.formula)}
+                  className="flex items-start gap-2"
+                  title={tmpl.description}
+                >
+                  <div className="flex flex-col gap-0.5 min-w-0 flex-1">
+                    <span className="font-medium text-sm">{tmpl.label}</span>
+                    <span className="text-xs text-muted-foreground font-mono truncate">
+                      {tmpl.formula}
+                    </span>
+                  </div>
+                  {tmpl.createdBy === userUUID && (
+                    <button
+                      type="button"
+                      className="text-muted-foreground hover:text-destructive p-0.5"
+                      aria-label={t('objects.formulas.deleteTemplate')}
+                      title={t('objects.formulas.deleteTemplate')}
+                      disabled={deleteTemplate.isPending}
+                      onClick={(e) => {
+                        // Deleting shouldn't also apply the template
+                        e.preventDefault()
+                        e.stopPropagation()
+                        handleDelete(tmpl)
+                      }}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          {BUILT_IN_CATEGORIES.map((cat, catIdx) => {
+            const items = FORMULA_TEMPLATES.filter(
+              (tmpl) => tmpl.category === cat
+            )
+            if (items.length === 0) return null
+            return (
+              <div key={cat}>
+                {catIdx > 0 && <DropdownMenuSeparator />}
+                <DropdownMenuLabel className="text-[10px] uppercase tracking-wider text-muted-foreground">
+                  {cat}
+                </DropdownMenuLabel>
+                {items.map((tmpl) => (
+                  <DropdownMenuItem
+                    key={tmpl.label}
+                    onClick={() => onSelect(tmpl.formula)}
+                    className="flex flex-col items-start gap-0.5"
+                  >
+                    <span className="font-medium text-sm">{tmpl.label}</span>
+                    <span className="text-xs text-muted-foreground font-mono">
+                      {tmpl.formula}
+                    </span>
+                  </DropdownMenuItem>
+                ))}
+              </div>
+            )
+          })}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-9 px-2 shrink-0"
+            disabled={disabled || !canSave}
+            aria-label={t('objects.formulas.saveTemplate')}
+            title={t('objects.formulas.saveTemplate')}
+          >
+            <BookmarkPlus className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 p-3">
+          <form onSubmit={handleSave} className="flex flex-col gap-2">
+            <code className="text-xs font-mono truncate">{formula}</code>
+            <Input
+              autoFocus
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder={t('objects.formulas.templateNamePlaceholder')}
+              maxLength={100}
+              className="h-8"
+            />
+            <Input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder={t('objects.formulas.templateDescriptionPlaceholder')}
+              maxLength={200}
+              className="h-8"
+            />
+            <p className="text-xs text-muted-foreground">
+              {t('objects.formulas.saveTemplateHint')}
+            </p>
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!label.trim() || createTemplate.isPending}
+            >
+              {t('objects.formulas.saveTemplate')}
+            </Button>
+          </form>
+        </PopoverContent>
+      </Popover>
+    </>
+  )
+}
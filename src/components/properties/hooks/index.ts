@@ -1,3 +1,5 @@
 export * from './use-property-editor'
 export * from './use-property-management'
 export * from './use-formula-evaluation'
+export * from './use-formula-sources'
+export * from './use-formula-staleness'
@@ -2,11 +2,15 @@ import { useState, useCallback, useMemo } from 'react'
 import jsep from 'jsep'
 import type { Expression } from 'jsep'
 
+import { convertQuantity } from '@/lib/units'
+
 export interface FormulaVariable {
   name: string
   propertyKey: string
   propertyUuid: string
   resolvedValue: number | null
+  // One value per child when bound to a children aggregate
+  resolvedValues?: number[]
 }
 
 export interface FormulaEvaluationResult {
@@ -16,28 +20,72 @@ export interface FormulaEvaluationResult {
   error: string | null
 }
 
+export type FormulaSource = 'self' | 'parent' | 'children' | 'object'
+
 export interface AvailableProperty {
   uuid: string // Composite ID: "propertyId::valueIndex" for unique selection
   key: string
   label?: string
   value: string
   valueIndex?: number
+  // Object the value comes from, the edited object itself when not set
+  source?: FormulaSource
+  // Name of the parent or referenced object
+  sourceName?: string
+  // Values of every child, for aggregates like sum(children.weight)
+  values?: string[]
+  // Dotted name that binds to this property without mapping, e.g. parent.width
+  path?: string
 }
 
+type ScopeValue = number | number[]
+
 // Built-in math functions supported in formulas
 const MATH_FUNCTIONS: Record<string, (...args: number[]) => number> = {
   abs: Math.abs,
   ceil: Math.ceil,
   floor: Math.floor,
-  round: Math.round,
+  round: (value, digits = 0) => {
+    const factor = Math.pow(10, digits)
+    return Math.round(value * factor) / factor
+  },
   sqrt: Math.sqrt,
   pow: Math.pow,
   min: Math.min,
   max: Math.max,
   log: Math.log,
   log10: Math.log10,
+  sum: (...args) => args.reduce((total, arg) => total + arg, 0),
+  avg: (...args) =>
+    args.length
+      ? args.reduce((total, arg) => total + arg, 0) / args.length
+      : NaN,
+  count: (...args) => args.length,
+  clamp: (value, lo, hi) => Math.min(Math.max(value, lo), hi),
+}
+
+// Functions handled by the evaluator itself: if() only evaluates the branch
+// it takes, convert() takes its units as text
+const SPECIAL_FUNCTIONS = new Set(['if', 'convert'])
+
+// Comparisons evaluate to 1 (true) or 0 (false)
+const COMPARISONS: Record<string, (left: number, right: number) => boolean> = {
+  '<': (left, right) => left < right,
+  '>': (left, right) => left > right,
+  '<=': (left, right) => left <= right,
+  '>=': (left, right) => left >= right,
+  '==': (left, right) => left === right,
+  '===': (left, right) => left === right,
+  '!=': (left, right) => left !== right,
+  '!==': (left, right) => left !== right,
 }
 
+// A single `=`, not part of ==, !=, <= or >=
+const ASSIGNMENT_PATTERN = /(^|[^=!<>])=(?!=)/
+
+// Functions that take the values of a list variable as their arguments
+const AGGREGATE_FUNCTIONS = new Set(['sum', 'avg', 'count', 'min', 'max'])
+
 // Built-in constants (not user variables)
 const BUILTIN_CONSTANTS: Record<string, number> = {
   PI: Math.PI,
@@ -46,9 +94,23 @@ const BUILTIN_CONSTANTS: Record<string, number> = {
 
 const BUILTIN_NAMES = new Set([
   ...Object.keys(MATH_FUNCTIONS),
+  ...Array.from(SPECIAL_FUNCTIONS),
   ...Object.keys(BUILTIN_CONSTANTS),
 ])
 
+/**
+ * Dotted name of a member expression like `children.weight`, null when it
+ * isn't a plain chain of identifiers
+ */
+function memberPath(node: Expression): string | null {
+  if (node.type === 'Identifier') return (node as any).name
+  if (node.type !== 'MemberExpression' || (node as any).computed) return null
+  const object = memberPath((node as any).object)
+  const property = (node as any).property
+  if (!object || property?.type !== 'Identifier') return null
+  return `${object}.${property.name}`
+}
+
 /**
  * Extract user-defined variable names from a jsep AST.
  * Excludes built-in function names and constants.
@@ -62,7 +124,10 @@ function extractVariables(expression: string): {
     const ast = jsep(expression)
 
     // Reject assignment expressions — formulas must be pure expressions
-    if (ast.type === 'AssignmentExpression' || expression.includes('=')) {
+    if (
+      ast.type === 'AssignmentExpression' ||
+      ASSIGNMENT_PATTERN.test(expression)
+    ) {
       return {
         variables: [],
         error: 'Assignments are not allowed. Use a pure expression like x * y',
@@ -96,9 +161,13 @@ function extractVariables(expression: string): {
           walk((node as any).consequent)
           walk((node as any).alternate)
           break
-        case 'MemberExpression':
-          walk((node as any).object)
+        case 'MemberExpression': {
+          // parent.width and children.weight are variables of their own
+          const path = memberPath(node)
+          if (path) symbols.add(path)
+          else walk((node as any).object)
           break
+        }
         case 'ArrayExpression':
           ;((node as any).elements || []).forEach(walk)
           break
@@ -118,18 +187,88 @@ function extractVariables(expression: string): {
   }
 }
 
+/**
+ * Value of a variable in the scope, either a number or a list of values
+ */
+function lookupVariable(
+  node: Expression,
+  scope: Record<string, ScopeValue>
+): ScopeValue {
+  const name = memberPath(node)
+  if (name === null) {
+    throw new Error(`Unsupported expression type: ${node.type}`)
+  }
+  if (name in BUILTIN_CONSTANTS) return BUILTIN_CONSTANTS[name]
+  if (name in scope) return scope[name]
+  throw new Error(`Undefined variable: ${name}`)
+}
+
+/**
+ * Text argument of convert(), only string literals are accepted
+ */
+function unitArgument(node: Expression | undefined): string {
+  if (node?.type !== 'Literal' || typeof (node as any).value !== 'string') {
+    throw new Error(
+      'convert() needs its units as text, e.g. convert(x, "kg", "t")'
+    )
+  }
+  return (node as any).value
+}
+
+/**
+ * Evaluate the built-in functions that don't take plain numbers
+ */
+function evaluateSpecialCall(
+  fnName: string,
+  args: Expression[],
+  scope: Record<string, ScopeValue>
+): number {
+  if (fnName === 'if') {
+    if (args.length !== 3) {
+      throw new Error('if() takes a condition and two values: if(x > 0, x, 0)')
+    }
+    return evaluateAst(args[0], scope)
+      ? evaluateAst(args[1], scope)
+      : evaluateAst(args[2], scope)
+  }
+
+  // convert(value, from, to)
+  if (args.length !== 3) {
+    throw new Error(
+      'convert() takes a value and two units: convert(x, "kg", "t")'
+    )
+  }
+  const from = unitArgument(args[1])
+  const to = unitArgument(args[2])
+  const converted = convertQuantity(evaluateAst(args[0], scope), from, to)
+  if (converted === null) {
+    throw new Error(`Cannot convert ${from} to ${to}`)
+  }
+  return converted
+}
+
 /**
  * Evaluate a jsep AST node with a given scope.
  */
-function evaluateAst(node: Expression, scope: Record<string, number>): number {
+function evaluateAst(
+  node: Expression,
+  scope: Record<string, ScopeValue>
+): number {
   switch (node.type) {
     case 'Literal':
+      if (typeof (node as any).value === 'string') {
+        throw new Error('Text is only allowed as a unit in convert()')
+      }
       return Number((node as any).value)
-    case 'Identifier': {
-      const name = (node as any).name
-      if (name in BUILTIN_CONSTANTS) return BUILTIN_CONSTANTS[name]
-      if (name in scope) return scope[name]
-      throw new Error(`Undefined variable: ${name}`)
+    case 'Identifier':
+    case 'MemberExpression': {
+      const value = lookupVariable(node, scope)
+      if (Array.isArray(value)) {
+        throw new Error(
+          `${memberPath(node)} has several values, use it in sum(), avg(), min(), max() or count()`
+        )
+      }
+      return value
     }
     case 'UnaryExpression': {
       const arg = evaluateAst((node as any).argument, scope)
@@ -144,10 +283,22 @@ function evaluateAst(node: Expression, scope: Record<string, number>): number {
           throw new Error(`Unknown unary operator: ${(node as any).operator}`)
       }
     }
-    case 'BinaryExpression': {
+    case 'BinaryExpression':
+    case 'LogicalExpression': {
+      const operator = (node as any).operator
       const left = evaluateAst((node as any).left, scope)
+      // && and || don't evaluate their right side when the left decides
+      if (operator === '&&') {
+        return left && evaluateAst((node as any).right, scope) ? 1 : 0
+      }
+      if (operator === '||') {
+        return left || evaluateAst((node as any).right, scope) ? 1 : 0
+      }
       const right = evaluateAst((node as any).right, scope)
-      switch ((node as any).operator) {
+      if (operator in COMPARISONS) {
+        return COMPARISONS[operator](left, right) ? 1 : 0
+      }
+      switch (operator) {
         case '+':
           return left + right
         case '-':
@@ -161,18 +312,28 @@ function evaluateAst(node: Expression, scope: Record<string, number>): number {
         case '**':
           return Math.pow(left, right)
         default:
-          throw new Error(`Unknown binary operator: ${(node as any).operator}`)
+          throw new Error(`Unknown binary operator: ${operator}`)
       }
     }
     case 'CallExpression': {
       const callee = (node as any).callee
       const fnName = callee.type === 'Identifier' ? callee.name : null
+      if (fnName && SPECIAL_FUNCTIONS.has(fnName)) {
+        return evaluateSpecialCall(fnName, (node as any).arguments || [], scope)
+      }
       if (!fnName || !(fnName in MATH_FUNCTIONS)) {
         throw new Error(`Unknown function: ${fnName}`)
       }
-      const args = ((node as any).arguments || []).map((a: Expression) =>
-        evaluateAst(a, scope)
-      )
+      const args: number[] = []
+      ;((node as any).arguments || []).forEach((a: Expression) => {
+        // Lists are spread into aggregates: sum(children.weight)
+        const value =
+          AGGREGATE_FUNCTIONS.has(fnName) && memberPath(a) !== null
+            ? lookupVariable(a, scope)
+            : evaluateAst(a, scope)
+        if (Array.isArray(value)) args.push(...value)
+        else args.push(value)
+      })
       return MATH_FUNCTIONS[fnName](...args)
     }
     case 'ConditionalExpression': {
@@ -191,157 +352,244 @@ function evaluateAst(node: Expression, scope: Record<string, number>): number {
  */
 function safeEvaluate(
   expression: string,
-  scope: Record<string, number>
+  scope: Record<string, ScopeValue>
 ): number {
   const ast = jsep(expression)
   return evaluateAst(ast, scope)
 }
 
+type VariableMapping = Record<
+  string,
+  { propertyKey: string; propertyUuid: string }
+>
+
 /**
- * Hook for formula parsing, variable detection, and evaluation.
- * Uses jsep (~6KB) for safe expression parsing and a custom evaluator.
+ * Resolve variable values from mapped properties
  */
-export function useFormulaEvaluation(availableProperties: AvailableProperty[]) {
-  const [formula, setFormula] = useState('')
-  const [variableMapping, setVariableMapping] = useState<
-    Record<string, { propertyKey: string; propertyUuid: string }>
-  >({})
-
-  // Detect variables from the formula expression
-  const parseResult = useMemo(() => {
-    if (!formula.trim()) return { variables: [] as string[], error: null }
-    return extractVariables(formula)
-  }, [formula])
-
-  const detectedVariables = parseResult.variables
-
-  // Resolve variable values from mapped properties
-  const resolvedVariables = useMemo((): FormulaVariable[] => {
-    return detectedVariables.map((varName) => {
-      const mapping = variableMapping[varName]
-      if (!mapping) {
-        return {
-          name: varName,
-          propertyKey: '',
-          propertyUuid: '',
-          resolvedValue: null,
-        }
+function resolveVariables(
+  variables: string[],
+  variableMapping: VariableMapping,
+  availableProperties: AvailableProperty[]
+): FormulaVariable[] {
+  return variables.map((varName) => {
+    // parent.x and children.x bind by name unless mapped by hand
+    const byPath = availableProperties.find((p) => p.path === varName)
+    const mapping =
+      variableMapping[varName] ||
+      (byPath && { propertyKey: varName, propertyUuid: byPath.uuid })
+    if (!mapping) {
+      return {
+        name: varName,
+        propertyKey: '',
+        propertyUuid: '',
+        resolvedValue: null,
       }
+    }
 
-      // Find the property value by UUID (supports composite IDs like "propId::0")
-      const prop = availableProperties.find(
-        (p) => p.uuid === mapping.propertyUuid
-      )
-
-      const numValue = prop?.value ? parseFloat(prop.value) : null
+    // Find the property value by UUID (supports composite IDs like "propId::0")
+    const prop = availableProperties.find(
+      (p) => p.uuid === mapping.propertyUuid
+    )
 
+    if (prop?.values) {
       return {
         name: varName,
         propertyKey: mapping.propertyKey,
         propertyUuid: mapping.propertyUuid,
-        resolvedValue: isNaN(numValue as number) ? null : numValue,
+        resolvedValue: null,
+        resolvedValues: prop.values
+          .map((value) => parseFloat(value))
+          .filter((value) => !isNaN(value)),
       }
-    })
-  }, [detectedVariables, variableMapping, availableProperties])
+    }
 
-  // Evaluate the formula with resolved values
-  const evaluation = useMemo((): FormulaEvaluationResult => {
-    if (!formula.trim()) {
-      return {
-        isValid: false,
-        result: null,
-        resolvedExpression: '',
-        error: null,
-      }
+    const numValue = prop?.value ? parseFloat(prop.value) : null
+
+    return {
+      name: varName,
+      propertyKey: mapping.propertyKey,
+      propertyUuid: mapping.propertyUuid,
+      resolvedValue: isNaN(numValue as number) ? null : numValue,
     }
+  })
+}
 
-    // Check for assignment rejection
-    if (parseResult.error) {
-      return {
-        isValid: false,
-        result: null,
-        resolvedExpression: '',
-        error: parseResult.error,
-      }
+/**
+ * Evaluate a formula with its resolved variables
+ */
+function evaluateFormula(
+  formula: string,
+  parseError: string | null,
+  resolvedVariables: FormulaVariable[]
+): FormulaEvaluationResult {
+  if (!formula.trim()) {
+    return {
+      isValid: false,
+      result: null,
+      resolvedExpression: '',
+      error: null,
     }
+  }
 
-    // Check if formula parses
-    try {
-      jsep(formula)
-    } catch (e: any) {
-      return {
-        isValid: false,
-        result: null,
-        resolvedExpression: '',
-        error: e.message || 'Invalid formula syntax',
-      }
+  // Check for assignment rejection
+  if (parseError) {
+    return {
+      isValid: false,
+      result: null,
+      resolvedExpression: '',
+      error: parseError,
     }
+  }
 
-    // Check if all variables are mapped and have values
-    const allMapped = resolvedVariables.every((v) => v.propertyKey !== '')
-    const allResolved = resolvedVariables.every((v) => v.resolvedValue !== null)
+  // Check if formula parses
+  try {
+    jsep(formula)
+  } catch (e: any) {
+    return {
+      isValid: false,
+      result: null,
+      resolvedExpression: '',
+      error: e.message || 'Invalid formula syntax',
+    }
+  }
 
-    // Build resolved expression string
-    let resolvedExpression = formula
-    resolvedVariables.forEach((v) => {
-      if (v.resolvedValue !== null) {
-        resolvedExpression = resolvedExpression.replace(
-          new RegExp(`\\b${v.name}\\b`, 'g'),
-          String(v.resolvedValue)
-        )
-      }
+  // Check if all variables are mapped and have values
+  const allMapped = resolvedVariables.every((v) => v.propertyKey !== '')
+  const allResolved = resolvedVariables.every(
+    (v) => v.resolvedValue !== null || v.resolvedValues
+  )
+
+  // Build resolved expression string, longest names first so that
+  // `weight` doesn't replace part of `children.weight`, and leaving the units
+  // of convert() alone
+  let resolvedExpression = formula
+  ;[...resolvedVariables]
+    .sort((a, b) => b.name.length - a.name.length)
+    .forEach((v) => {
+      const replacement = v.resolvedValues
+        ? `[${v.resolvedValues.join(', ')}]`
+        : v.resolvedValue
+      if (replacement === null) return
+      const name = v.name.replace(/\./g, '\\.')
+      resolvedExpression = resolvedExpression.replace(
+        new RegExp(`(^|[^\\w.'"])${name}(?![\\w.'"])`, 'g'),
+        `$1${replacement}`
+      )
     })
 
-    if (!allMapped) {
-      return {
-        isValid: true,
-        result: null,
-        resolvedExpression,
-        error: null,
-      }
+  if (!allMapped) {
+    return {
+      isValid: true,
+      result: null,
+      resolvedExpression,
+      error: null,
     }
+  }
 
-    if (!allResolved) {
-      // Identify which variables have non-numeric values
-      const nonNumeric = resolvedVariables
-        .filter((v) => v.propertyKey && v.resolvedValue === null)
-        .map((v) => `${v.name} → "${v.propertyKey}"`)
-      return {
-        isValid: true,
-        result: null,
-        resolvedExpression,
-        error:
-          nonNumeric.length > 0
-            ? `Non-numeric values: ${nonNumeric.join(', ')}`
-            : 'Some mapped properties have non-numeric values',
-      }
+  if (!allResolved) {
+    // Identify which variables have non-numeric values
+    const nonNumeric = resolvedVariables
+      .filter(
+        (v) => v.propertyKey && v.resolvedValue === null && !v.resolvedValues
+      )
+      .map((v) => `${v.name} → "${v.propertyKey}"`)
+    return {
+      isValid: true,
+      result: null,
+      resolvedExpression,
+      error:
+        nonNumeric.length > 0
+          ? `Non-numeric values: ${nonNumeric.join(', ')}`
+          : 'Some mapped properties have non-numeric values',
     }
+  }
 
-    // Evaluate with custom evaluator
-    try {
-      const scope: Record<string, number> = {}
-      resolvedVariables.forEach((v) => {
-        if (v.resolvedValue !== null) {
-          scope[v.name] = v.resolvedValue
-        }
-      })
-      const result = safeEvaluate(formula, scope)
-
-      return {
-        isValid: true,
-        result: typeof result === 'number' && !isNaN(result) ? result : null,
-        resolvedExpression,
-        error: null,
-      }
-    } catch (e: any) {
-      return {
-        isValid: false,
-        result: null,
-        resolvedExpression,
-        error: e.message || 'Evaluation error',
+  // Evaluate with custom evaluator
+  try {
+    const scope: Record<string, ScopeValue> = {}
+    resolvedVariables.forEach((v) => {
+      if (v.resolvedValues) {
+        scope[v.name] = v.resolvedValues
+      } else if (v.resolvedValue !== null) {
+        scope[v.name] = v.resolvedValue
       }
+    })
+    const result = safeEvaluate(formula, scope)
+
+    return {
+      isValid: true,
+      // NaN from 0 / 0 or avg() of no children, Infinity from min() of none
+      result:
+        typeof result === 'number' && Number.isFinite(result) ? result : null,
+      resolvedExpression,
+      error: null,
+    }
+  } catch (e: any) {
+    return {
+      isValid: false,
+      result: null,
+      resolvedExpression,
+      error: e.message || 'Evaluation error',
     }
-  }, [formula, resolvedVariables, parseResult.error])
+  }
+}
+
+/**
+ * Evaluate a saved formula outside the editor, e.g. to recompute a stored
+ * result after its source values changed.
+ */
+export function computeFormula(
+  formula: string,
+  variableMapping: VariableMapping,
+  availableProperties: AvailableProperty[]
+): {
+  resolvedVariables: FormulaVariable[]
+  evaluation: FormulaEvaluationResult
+} {
+  const parseResult = formula.trim()
+    ? extractVariables(formula)
+    : { variables: [] as string[], error: null }
+  const resolvedVariables = resolveVariables(
+    parseResult.variables,
+    variableMapping,
+    availableProperties
+  )
+  return {
+    resolvedVariables,
+    evaluation: evaluateFormula(formula, parseResult.error, resolvedVariables),
+  }
+}
+
+/**
+ * Hook for formula parsing, variable detection, and evaluation.
+ * Uses jsep (~6KB) for safe expression parsing and a custom evaluator.
+ */
+export function useFormulaEvaluation(availableProperties: AvailableProperty[]) {
+  const [formula, setFormula] = useState('')
+  const [variableMapping, setVariableMapping] = useState<
+    Record<string, { propertyKey: string; propertyUuid: string }>
+  >({})
+
+  // Detect variables from the formula expression
+  const parseResult = useMemo(() => {
+    if (!formula.trim()) return { variables: [] as string[], error: null }
+    return extractVariables(formula)
+  }, [formula])
+
+  const detectedVariables = parseResult.variables
+
+  // Resolve variable values from mapped properties
+  const resolvedVariables = useMemo(
+    () =>
+      resolveVariables(detectedVariables, variableMapping, availableProperties),
+    [detectedVariables, variableMapping, availableProperties]
+  )
+
+  // Evaluate the formula with resolved values
+  const evaluation = useMemo(
+    () => evaluateFormula(formula, parseResult.error, resolvedVariables),
+    [formula, resolvedVariables, parseResult.error]
+  )
 
   // Map a variable to a property value (propertyUuid may be a composite ID like "propId::0")
   const mapVariable = useCallback(
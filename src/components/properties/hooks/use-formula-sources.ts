@@ -0,0 +1,58 @@
+import { useMemo } from 'react'
+
+import { useAggregate } from '@/hooks/api'
+import { buildChildrenSources, buildObjectSources } from '../formula-sources'
+import type { AvailableProperty } from './use-formula-evaluation'
+
+/**
+ * Properties of the parents and children of an object, and of any other
+ * objects a formula references, for use as formula variables
+ */
+export function useFormulaSources(
+  objectUuid?: string,
+  referencedUuids: string[] = []
+) {
+  const { useAggregateByUUID, useAggregatesByUUIDs, useAggregateChildren } =
+    useAggregate()
+
+  const objectQuery = useAggregateByUUID(objectUuid || '', {
+    refetchOnWindowFocus: false,
+  })
+  const parentUuids = useMemo(
+    (): string[] => objectQuery.data?.parents || [],
+    [objectQuery.data]
+  )
+
+  const parentsQuery = useAggregatesByUUIDs(parentUuids)
+  const childrenQuery = useAggregateChildren(objectUuid || '')
+
+  // Parents are already loaded, and an object can't reference itself
+  const otherUuids = referencedUuids.filter(
+    (uuid) => uuid !== objectUuid && !parentUuids.includes(uuid)
+  )
+  const referencedQuery = useAggregatesByUUIDs(otherUuids)
+
+  const sources = useMemo((): AvailableProperty[] => {
+    const parents = parentsQuery.data || []
+    const referenced = (referencedQuery.data || []).filter(
+      (object: any) => !parentUuids.includes(object.uuid)
+    )
+    return [
+      ...parents.flatMap((parent: any) => buildObjectSources(parent, 'parent')),
+      ...buildChildrenSources(childrenQuery.data || []),
+      ...referenced.flatMap((object: any) =>
+        buildObjectSources(object, 'object')
+      ),
+    ]
+  }, [parentsQuery.data, childrenQuery.data, referencedQuery.data, parentUuids])
+
+  return {
+    sources,
+    referencedObjects: referencedQuery.data || [],
+    isLoading:
+      objectQuery.isLoading ||
+      parentsQuery.isLoading ||
+      childrenQuery.isLoading ||
+      referencedQuery.isLoading,
+  }
+}
@@ -0,0 +1,41 @@
+import { useMemo } from 'react'
+
+import {
+  getFormulaReferencedUuids,
+  hasFormulaValues,
+  recomputeFormulas,
+} from '../formula-recompute'
+import { useFormulaSources } from './use-formula-sources'
+
+const EMPTY_STALENESS = {
+  staleIds: new Set<string>(),
+  cycles: [] as string[][],
+}
+
+/**
+ * Formula values of an object whose stored result no longer matches their
+ * sources, and the dependency cycles among them
+ */
+export function useFormulaStaleness(
+  objectUuid: string | undefined,
+  properties: any[]
+) {
+  const hasFormulas = hasFormulaValues(properties)
+  const referencedUuids = useMemo(
+    () => getFormulaReferencedUuids(properties),
+    [properties]
+  )
+
+  // Only objects with formulas need their parents and children
+  const { sources, isLoading } = useFormulaSources(
+    hasFormulas ? objectUuid : undefined,
+    referencedUuids
+  )
+
+  return useMemo(() => {
+    // Until the sources are in, cross-object formulas would look stale
+    if (!hasFormulas || isLoading) return EMPTY_STALENESS
+    const result = recomputeFormulas(properties, sources)
+    return { staleIds: new Set(result.stale), cycles: result.cycles }
+  }, [hasFormulas, isLoading, properties, sources])
+}
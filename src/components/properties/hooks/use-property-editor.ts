@@ -2,7 +2,12 @@ import { useState, useEffect } from 'react'
 import { toast } from 'sonner'
 import { useTranslations } from 'next-intl'
 
-import { logger, isForbiddenError } from '@/lib'
+import {
+  DEFAULT_VALUE_TYPE_CAST,
+  isForbiddenError,
+  logger,
+  validatePropertyValue,
+} from '@/lib'
 import { usePropertyManagement } from './use-property-management'
 
 export interface UsePropertyEditorProps {
@@ -65,7 +70,12 @@ export function usePropertyEditor({
     // Check if any value content has changed
     const valuesChanged = prop.values?.some((val: any, i: number) => {
       const origVal = originalProp.values?.[i]
-      return !origVal || val.value !== origVal.value
+      return (
+        !origVal ||
+        val.value !== origVal.value ||
+        (val.valueTypeCast || DEFAULT_VALUE_TYPE_CAST) !==
+          (origVal.valueTypeCast || DEFAULT_VALUE_TYPE_CAST)
+      )
     })
 
     return valuesChanged
@@ -98,7 +108,12 @@ export function usePropertyEditor({
       // Check if any value content has changed
       const valuesChanged = prop.values?.some((val: any, i: number) => {
         const origVal = originalProp.values?.[i]
-        return !origVal || val.value !== origVal.value
+        return (
+          !origVal ||
+          val.value !== origVal.value ||
+          (val.valueTypeCast || DEFAULT_VALUE_TYPE_CAST) !==
+            (origVal.valueTypeCast || DEFAULT_VALUE_TYPE_CAST)
+        )
       })
 
       return valuesChanged
@@ -109,6 +124,23 @@ export function usePropertyEditor({
       return
     }
 
+    // Values that don't match their type
+    const invalidProperty = propertiesToUpdate.find(
+      (property) =>
+        !property._deleted &&
+        (property.values || []).some(
+          (val: any) =>
+            !val.formulaData?.formula &&
+            validatePropertyValue(val.value, val.valueTypeCast)
+        )
+    )
+    if (invalidProperty) {
+      toast.error(
+        t('objects.invalidPropertyValue', { property: invalidProperty.key })
+      )
+      throw new Error(`Invalid value for property ${invalidProperty.key}`)
+    }
+
     try {
       // Create an array to track all API operations
       const operations = []
@@ -3,7 +3,7 @@
 import { useState, useCallback } from 'react'
 import type { UUPropertyDTO, UUPropertyValueDTO } from 'iom-sdk'
 
-import { logger } from '@/lib'
+import { DEFAULT_VALUE_TYPE_CAST, logger } from '@/lib'
 import { useProperties } from '@/hooks/api/use-properties'
 
 /**
@@ -57,6 +57,7 @@ export function usePropertyManagement() {
               propertyUuid: newProperty.uuid,
               value: {
                 value: value.value,
+                valueTypeCast: value.valueTypeCast || DEFAULT_VALUE_TYPE_CAST,
               },
             })
           }
@@ -1,9 +1,14 @@
 export * from './collapsible-property'
 export * from './formula-display'
 export * from './formula-editor'
+export * from './formula-recompute'
+export * from './formula-sources'
+export * from './formula-template-menu'
 export * from './property-field'
 export * from './property-field-template'
 export * from './property-grid-view'
 export * from './property-section-editor'
 export * from './value-mode-toggle'
+export * from './value-type-select'
+export * from './typed-value-input'
 export * from './hooks'
@@ -1,9 +1,15 @@
-import { Control, useFieldArray } from 'react-hook-form'
+import {
+  Control,
+  useFieldArray,
+  useFormContext,
+  useWatch,
+} from 'react-hook-form'
 import { PlusIcon, XIcon } from 'lucide-react'
 import { useTranslations } from 'next-intl'
 
 import {
   Button,
+  Checkbox,
   Input,
   Label,
   FormItem,
@@ -11,6 +17,9 @@ import {
   FormControl,
   FormMessage,
 } from '@/components/ui'
+import { DEFAULT_VALUE_TYPE_CAST } from '@/lib/property-types'
+import { ValueTypeSelect } from './value-type-select'
+import { TypedValueInput } from './typed-value-input'
 
 interface PropertyFieldTemplateProps {
   control: Control<any>
@@ -19,6 +28,10 @@ interface PropertyFieldTemplateProps {
   onRemove: () => void
 }
 
+/**
+ * A property of a model: its key and label, the type of its values, whether
+ * objects must fill it in and the values they start with
+ */
 export function PropertyFieldTemplate({
   control,
   name,
@@ -26,6 +39,7 @@ export function PropertyFieldTemplate({
   onRemove,
 }: PropertyFieldTemplateProps) {
   const t = useTranslations()
+  const { getValues, setValue } = useFormContext()
   const valuesName = `${name}.values`
 
   const {
@@ -37,9 +51,25 @@ export function PropertyFieldTemplate({
     name: valuesName,
   })
 
+  const valueTypeCast: string | undefined = useWatch({
+    control,
+    name: `${name}.valueTypeCast`,
+  })
+
+  // Every default value has the type of the property
+  const handleTypeChange = (cast: string) => {
+    setValue(`${name}.valueTypeCast`, cast)
+    ;(getValues(valuesName) || []).forEach((_: unknown, valueIndex: number) =>
+      setValue(`${valuesName}.${valueIndex}.valueTypeCast`, cast, {
+        shouldValidate: true,
+      })
+    )
+  }
+
   const handleAddValue = () => {
     appendValue({
       value: '',
+      valueTypeCast: valueTypeCast || DEFAULT_VALUE_TYPE_CAST,
       formula: '',
       files: [], // Keep the structure but no file UI
     })
@@ -64,27 +94,72 @@ export function PropertyFieldTemplate({
             </Button>
           </div>
 
-          <FormField
-            control={control}
-            name={`${name}.key`}
-            render={({ field }) => (
-              <FormItem className="flex-1">
-                <FormControl>
-                  <Input
-                    id={`property-${index}`}
-                    placeholder={t('objects.propertyNamePlaceholder')}
-                    {...field}
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
+          <div className="grid grid-cols-2 gap-2">
+            <FormField
+              control={control}
+              name={`${name}.key`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl>
+                    <Input
+                      id={`property-${index}`}
+                      placeholder={t('objects.propertyNamePlaceholder')}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`${name}.label`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl>
+                    <Input
+                      placeholder={t('models.schema.labelPlaceholder')}
+                      aria-label={t('models.schema.label')}
+                      {...field}
+                      value={field.value || ''}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <ValueTypeSelect
+              valueTypeCast={valueTypeCast}
+              onChange={handleTypeChange}
+            />
+            <FormField
+              control={control}
+              name={`${name}.required`}
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={!!field.value}
+                      onCheckedChange={(checked) =>
+                        field.onChange(checked === true)
+                      }
+                    />
+                  </FormControl>
+                  <Label className="text-sm font-normal">
+                    {t('models.schema.required')}
+                  </Label>
+                </FormItem>
+              )}
+            />
+          </div>
         </div>
       </div>
 
       <div className="space-y-3">
-        <Label className="text-sm">{t('objects.propertyValues')}</Label>
+        <Label className="text-sm">{t('models.schema.defaultValues')}</Label>
 
         {valueFields.map((valueField, valueIndex) => (
           <div key={valueField.id} className="space-y-2">
@@ -95,8 +170,9 @@ export function PropertyFieldTemplate({
                 render={({ field }) => (
                   <FormItem className="flex-1">
                     <FormControl>
-                      <Input
-                        placeholder={t('objects.propertyValuePlaceholder')}
+                      <TypedValueInput
+                        valueTypeCast={valueTypeCast}
+                        placeholder={t('models.schema.defaultValuePlaceholder')}
                         {...field}
                       />
                     </FormControl>
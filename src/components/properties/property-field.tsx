@@ -25,6 +25,8 @@ import {
 } from '@/components/ui'
 import { FormulaEditor } from './formula-editor'
 import { ValueModeToggle } from './value-mode-toggle'
+import { ValueTypeSelect } from './value-type-select'
+import { TypedValueInput } from './typed-value-input'
 import type { AvailableProperty } from './hooks/use-formula-evaluation'
 
 const EMPTY_AVAILABLE_PROPERTIES: AvailableProperty[] = []
@@ -71,6 +73,11 @@ function ValueFieldItem({
     name: `${valuesName}.${valueIndex}.formulaData`,
   })
 
+  const valueTypeCast = useWatch({
+    control,
+    name: `${valuesName}.${valueIndex}.valueTypeCast`,
+  })
+
   const [isFormulaMode, setIsFormulaMode] = useState(!!formulaData?.formula)
 
   const switchToTextMode = () => {
@@ -162,22 +169,33 @@ function ValueFieldItem({
           )}
         />
       ) : (
-        <FormField
-          key={`${valueField.id}-${arrayVersion}`}
-          control={control}
-          name={`${valuesName}.${valueIndex}.value`}
-          render={({ field }) => (
-            <FormItem>
-              <FormControl>
-                <Input
-                  placeholder={t('objects.propertyValuePlaceholder')}
-                  {...field}
-                />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
+        <>
+          <ValueTypeSelect
+            valueTypeCast={valueTypeCast}
+            onChange={(cast) =>
+              setValue(`${valuesName}.${valueIndex}.valueTypeCast`, cast, {
+                shouldValidate: true,
+              })
+            }
+          />
+          <FormField
+            key={`${valueField.id}-${arrayVersion}`}
+            control={control}
+            name={`${valuesName}.${valueIndex}.value`}
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <TypedValueInput
+                    valueTypeCast={valueTypeCast}
+                    placeholder={t('objects.propertyValuePlaceholder')}
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </>
       )}
 
       {/* File Attachments */}
@@ -7,9 +7,14 @@ import { FormulaDisplay } from './formula-display'
 
 interface PropertyGridViewProps {
   properties: any[]
+  // `propertyUuid::valueIndex` of formula values with an outdated result
+  staleValueIds?: Set<string>
 }
 
-export function PropertyGridView({ properties }: PropertyGridViewProps) {
+export function PropertyGridView({
+  properties,
+  staleValueIds,
+}: PropertyGridViewProps) {
   const t = useTranslations()
 
   if (!properties || properties.length === 0) {
@@ -82,6 +87,7 @@ export function PropertyGridView({ properties }: PropertyGridViewProps) {
                         }
                         result={value.formulaData.result}
                         variableMapping={value.formulaData.variableMapping}
+                        isStale={staleValueIds?.has(`${prop.uuid}::${vIdx}`)}
                         compact
                       />
                     ) : (
@@ -5,18 +5,22 @@ import { toast } from 'sonner'
 
 import { Button } from '@/components/ui'
 import { CollapsibleProperty } from './collapsible-property'
+import { buildSelfSources } from './formula-sources'
 import type { AvailableProperty } from './hooks/use-formula-evaluation'
 
 interface PropertySectionEditorProps {
   properties: any[]
   isEditable: boolean
   onUpdate?: (updatedProperties: any[]) => void
+  // Object being edited, lets formulas use its parent and children
+  objectUuid?: string
 }
 
 export function PropertySectionEditor({
   properties,
   isEditable,
   onUpdate,
+  objectUuid,
 }: PropertySectionEditorProps) {
   const t = useTranslations()
   const [expandedPropertyId, setExpandedPropertyId] = useState<string | null>(
@@ -206,39 +210,10 @@ export function PropertySectionEditor({
       deleted: p._deleted,
     }))
   )
-  const availableProperties = useMemo((): AvailableProperty[] => {
-    const result: AvailableProperty[] = []
-
-    editedProperties
-      .filter((p) => !p._deleted && p.key)
-      .forEach((p) => {
-        const propId = p.uuid || p._tempId || ''
-        const propKey = p.key
-        const propLabel = p.label || p.key
-
-        // Create one entry per value so each is independently selectable
-        // Only include values that are non-empty and numeric (usable in formulas)
-        if (p.values && p.values.length > 0) {
-          p.values.forEach((v: any, idx: number) => {
-            // Skip empty, placeholder, or non-numeric values
-            if (!v.value || v._needsInput) return
-            const trimmed = v.value.trim()
-            if (trimmed === '' || isNaN(Number(trimmed))) return
-
-            result.push({
-              // Composite ID: propertyId::valueIndex for unique Select keys
-              uuid: `${propId}::${idx}`,
-              key: propKey,
-              label: propLabel,
-              value: trimmed,
-              valueIndex: idx,
-            })
-          })
-        }
-      })
-
-    return result
-  }, [propertiesKey, editedProperties])
+  const availableProperties = useMemo(
+    (): AvailableProperty[] => buildSelfSources(editedProperties),
+    [propertiesKey, editedProperties]
+  )
 
   return (
     <div className="space-y-4">
@@ -266,6 +241,7 @@ export function PropertySectionEditor({
             onUpdate={(updated) => handlePropertyUpdate(index, updated)}
             onRemove={() => handleRemoveProperty(index)}
             availableProperties={siblingProperties}
+            objectUuid={objectUuid}
           />
         )
       })}
@@ -0,0 +1,197 @@
+'use client'
+
+import { forwardRef } from 'react'
+import { ExternalLink } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+
+import {
+  Checkbox,
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui'
+import { formatNumericValue } from '@/lib/utils'
+import { parseValueTypeCast } from '@/lib/property-types'
+import { validatePropertyValue } from '@/lib/validations/property-value'
+
+interface TypedValueInputProps {
+  value?: string
+  onChange: (value: string) => void
+  onBlur?: () => void
+  valueTypeCast?: string
+  placeholder?: string
+  id?: string
+  name?: string
+  disabled?: boolean
+}
+
+/**
+ * Editor for a property value that matches its type: a number with its unit,
+ * a date picker, a checkbox, a dropdown of enum options or a URL
+ */
+export const TypedValueInput = forwardRef<
+  HTMLInputElement,
+  TypedValueInputProps
+>(function TypedValueInput(
+  {
+    value = '',
+    onChange,
+    onBlur,
+    valueTypeCast,
+    placeholder,
+    id,
+    name,
+    disabled,
+  },
+  ref
+) {
+  const t = useTranslations('objects.valueTypes')
+  const { type, unit, options = [] } = parseValueTypeCast(valueTypeCast)
+  const inputProps = { ref, id, name, disabled, onBlur }
+
+  switch (type) {
+    case 'number':
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            {...inputProps}
+            inputMode="decimal"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+          />
+          {unit && (
+            <span className="text-sm text-muted-foreground">{unit}</span>
+          )}
+        </div>
+      )
+    case 'date':
+      return (
+        <Input
+          {...inputProps}
+          type="date"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      )
+    case 'boolean':
+      return (
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            id={id}
+            disabled={disabled}
+            checked={value === 'true'}
+            onCheckedChange={(checked) =>
+              onChange(checked === true ? 'true' : 'false')
+            }
+          />
+          {value === 'true' ? t('true') : t('false')}
+        </label>
+      )
+    case 'enum':
+      if (options.length > 0) {
+        return (
+          <Select
+            value={value || undefined}
+            onValueChange={onChange}
+            disabled={disabled}
+          >
+            <SelectTrigger id={id}>
+              <SelectValue placeholder={t('selectOption')} />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )
+      }
+      break
+    case 'url':
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            {...inputProps}
+            type="url"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="https://"
+          />
+          {value && !validatePropertyValue(value, valueTypeCast) && (
+            <a
+              href={value}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-muted-foreground hover:text-foreground"
+              aria-label={t('openUrl')}
+            >
+              <ExternalLink className="h-4 w-4" />
+            </a>
+          )}
+        </div>
+      )
+  }
+
+  return (
+    <Input
+      {...inputProps}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+    />
+  )
+})
+
+interface TypedValueDisplayProps {
+  value?: string | null
+  valueTypeCast?: string
+}
+
+/**
+ * Read-only property value, formatted for its type
+ */
+export function TypedValueDisplay({
+  value,
+  valueTypeCast,
+}: TypedValueDisplayProps) {
+  const t = useTranslations('objects.valueTypes')
+  const { type, unit } = parseValueTypeCast(valueTypeCast)
+
+  if (value === null || value === undefined || value === '') return null
+
+  switch (type) {
+    case 'number':
+      return (
+        <>
+          {formatNumericValue(value)}
+          {unit ? ` ${unit}` : ''}
+        </>
+      )
+    case 'boolean':
+      return <>{value === 'true' ? t('true') : t('false')}</>
+    case 'url':
+      return validatePropertyValue(value, valueTypeCast) ? (
+        <>{value}</>
+      ) : (
+        <a
+          href={value}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="underline underline-offset-2 break-all"
+        >
+          {value}
+        </a>
+      )
+    case 'date':
+    case 'enum':
+      return <>{value}</>
+    default:
+      return <>{formatNumericValue(value)}</>
+  }
+}
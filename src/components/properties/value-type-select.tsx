@@ -0,0 +1,108 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+
+import {
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui'
+import {
+  PROPERTY_VALUE_TYPES,
+  formatValueTypeCast,
+  parseValueTypeCast,
+  type PropertyValueType,
+} from '@/lib/property-types'
+
+interface ValueTypeSelectProps {
+  valueTypeCast?: string
+  onChange: (valueTypeCast: string) => void
+  disabled?: boolean
+}
+
+/**
+ * Type of a property value, with the unit of a number or the options of an
+ * enum. Used by both PropertyField (RHF) and CollapsibleProperty (local state).
+ */
+export function ValueTypeSelect({
+  valueTypeCast,
+  onChange,
+  disabled = false,
+}: ValueTypeSelectProps) {
+  const t = useTranslations('objects.valueTypes')
+  const cast = parseValueTypeCast(valueTypeCast)
+
+  // Kept as typed, the cast drops surrounding spaces and empty options
+  const [unit, setUnit] = useState(cast.unit || '')
+  const [options, setOptions] = useState((cast.options || []).join(', '))
+
+  const splitOptions = (text: string) => text.split(',')
+
+  const handleTypeChange = (type: PropertyValueType) => {
+    onChange(
+      formatValueTypeCast({ type, unit, options: splitOptions(options) })
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={cast.type}
+        onValueChange={(type) => handleTypeChange(type as PropertyValueType)}
+        disabled={disabled}
+      >
+        <SelectTrigger
+          className="h-8 w-32"
+          aria-label={t('label')}
+          data-testid="value-type-select"
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PROPERTY_VALUE_TYPES.map((type) => (
+            <SelectItem key={type} value={type}>
+              {t(type)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {cast.type === 'number' && (
+        <Input
+          className="h-8 flex-1"
+          value={unit}
+          onChange={(e) => {
+            setUnit(e.target.value)
+            onChange(
+              formatValueTypeCast({ type: 'number', unit: e.target.value })
+            )
+          }}
+          placeholder={t('unitPlaceholder')}
+          disabled={disabled}
+        />
+      )}
+
+      {cast.type === 'enum' && (
+        <Input
+          className="h-8 flex-1"
+          value={options}
+          onChange={(e) => {
+            setOptions(e.target.value)
+            onChange(
+              formatValueTypeCast({
+                type: 'enum',
+                options: splitOptions(e.target.value),
+              })
+            )
+          }}
+          placeholder={t('optionsPlaceholder')}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  )
+}
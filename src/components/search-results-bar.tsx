@@ -1,14 +1,25 @@
 'use client'
 
-import { Search, X } from 'lucide-react'
+import { AlertTriangle, Search, X } from 'lucide-react'
 import { useTranslations } from 'next-intl'
 
-import { Badge, Button } from '@/components/ui'
+import {
+  MAX_SEARCH_BRANCHES,
+  type ParsedSearch,
+  type SearchQueryError,
+} from '@/lib/search-parser'
+import { buildSearchUrl } from '@/lib/search-url'
+import { Badge, Button, CopyButton } from '@/components/ui'
+import {
+  SaveSearchButton,
+  SearchExpressionChips,
+} from '@/components/global-search'
 
 interface SearchPagination {
   totalElements: number
   currentPage: number
   totalPages: number
+  isIncomplete?: boolean
 }
 
 interface SearchResultsBarProps {
@@ -18,6 +29,12 @@ interface SearchResultsBarProps {
   resultsCount?: number
   /** Pagination info (for paginated view) */
   pagination?: SearchPagination
+  /** Why the search wasn't run, shown instead of the results */
+  error?: SearchQueryError | null
+  /** Parsed search, rendered as editable chips when provided */
+  parsedSearch?: ParsedSearch | null
+  /** Callback with the rebuilt query after a chip is edited or removed */
+  onSearchChange?: (query: string) => void
   /** Callback when clear search is clicked */
   onClearSearch: () => void
   /** Optional className */
@@ -26,12 +43,16 @@ interface SearchResultsBarProps {
 
 /**
  * Search results information bar.
- * Shows search query, result count/pagination, and clear button.
+ * Shows search query, result count/pagination, share/save actions and
+ * clear button.
  */
 export function SearchResultsBar({
   searchQuery,
   resultsCount = 0,
   pagination,
+  error,
+  parsedSearch,
+  onSearchChange,
   onClearSearch,
   className,
 }: SearchResultsBarProps) {
@@ -60,17 +81,47 @@ export function SearchResultsBar({
                   count: resultsCount,
                 })}
           </Badge>
+          {error && (
+            <span className="flex items-center gap-1 text-xs text-destructive">
+              <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+              {t(`search.errors.${error}`, { max: MAX_SEARCH_BRANCHES })}
+            </span>
+          )}
+          {pagination?.isIncomplete && (
+            <span className="flex items-center gap-1 text-xs text-amber-600">
+              <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+              {t('objects.resultsIncomplete', {
+                count: pagination.totalElements,
+              })}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <CopyButton
+            text={
+              typeof window !== 'undefined'
+                ? `${window.location.origin}${buildSearchUrl(searchQuery)}`
+                : ''
+            }
+            label={t('savedSearches.shareLink')}
+            size="default"
+            iconSize="default"
+            className="h-9 w-9 p-0"
+          />
+          <SaveSearchButton query={searchQuery} />
+          <Button variant="ghost" size="sm" onClick={onClearSearch}>
+            <X className="h-4 w-4 mr-1" />
+            {t('objects.clearSearch')}
+          </Button>
         </div>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={onClearSearch}
-          className="flex-shrink-0"
-        >
-          <X className="h-4 w-4 mr-1" />
-          {t('objects.clearSearch')}
-        </Button>
       </div>
+      {parsedSearch?.expression && onSearchChange && (
+        <SearchExpressionChips
+          parsedSearch={parsedSearch}
+          onQueryChange={onSearchChange}
+          className="mt-3"
+        />
+      )}
     </div>
   )
 }
@@ -7,8 +7,10 @@ import {
   RotateCcw,
   FolderPlus,
   GitBranch,
+  Download,
   Loader2,
   Plus,
+  RefreshCw,
   X,
 } from 'lucide-react'
 import type { GroupCreateDTO } from 'iom-sdk'
@@ -32,6 +34,7 @@ import {
   AlertDialogAction,
 } from '@/components/ui'
 import { cn } from '@/lib'
+import type { ObjectExportFlavour } from '@/lib/object-export'
 import { useGroups } from '@/hooks'
 import { useAuth } from '@/contexts'
 import { canUserWriteRecords } from '@/lib/group-utils'
@@ -50,12 +53,17 @@ interface BulkActionsToolbarProps {
   onAddToGroup: (groupUUID: string) => void
   onCreateAndAddToGroup: (name: string) => void
   onSetParent: (parentUUID: string) => void
+  onExport: (flavour: ObjectExportFlavour) => void
+  /** Re-evaluate stored formula results of the selected objects */
+  onRecomputeFormulas?: () => void
   onClearSelection: () => void
   /** Loading states */
   isDeleting?: boolean
   isRestoring?: boolean
   isAddingToGroup?: boolean
   isSettingParent?: boolean
+  isExporting?: boolean
+  isRecomputing?: boolean
 }
 
 export function BulkActionsToolbar({
@@ -67,11 +75,15 @@ export function BulkActionsToolbar({
   onAddToGroup,
   onCreateAndAddToGroup,
   onSetParent,
+  onExport,
+  onRecomputeFormulas,
   onClearSelection,
   isDeleting = false,
   isRestoring = false,
   isAddingToGroup = false,
   isSettingParent = false,
+  isExporting = false,
+  isRecomputing = false,
 }: BulkActionsToolbarProps) {
   const t = useTranslations()
   const { useListGroups } = useGroups()
@@ -263,6 +275,55 @@ export function BulkActionsToolbar({
             </DropdownMenuContent>
           </DropdownMenu>
 
+          {/* Export selected objects with their descendants */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 rounded-none first:rounded-l-md last:rounded-r-md gap-1.5"
+                disabled={isExporting}
+              >
+                {isExporting ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <Download className="h-3.5 w-3.5" />
+                )}
+                <span className="hidden sm:inline">
+                  {t('objects.export.action')}
+                </span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => onExport('json')}>
+                {t('objects.export.json')}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onExport('jsonld')}>
+                {t('objects.export.jsonLd')}
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          {/* Recompute formulas */}
+          {hasNonDeletedSelected && onRecomputeFormulas && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 rounded-none first:rounded-l-md last:rounded-r-md gap-1.5"
+              onClick={onRecomputeFormulas}
+              disabled={isRecomputing}
+            >
+              {isRecomputing ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <RefreshCw className="h-3.5 w-3.5" />
+              )}
+              <span className="hidden sm:inline">
+                {t('objects.bulk.recomputeFormulas')}
+              </span>
+            </Button>
+          )}
+
           {/* Set Parent — using ParentSelector in compact mode */}
           {hasNonDeletedSelected && (
             <div className="flex items-center">
@@ -9,6 +9,7 @@ import {
   RotateCcw,
   Copy,
   ChevronDown,
+  Download,
 } from 'lucide-react'
 
 import {
@@ -17,8 +18,12 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui'
+import type { ObjectExportFlavour } from '@/lib/object-export'
 
 interface ObjectActionsCellProps {
   /** The object to perform actions on */
@@ -31,6 +36,8 @@ interface ObjectActionsCellProps {
   onShowQRCode: (object: any, e: MouseEvent) => void
   /** Callback when "Duplicate" is clicked */
   onDuplicate: (object: any) => void
+  /** Callback when an "Export" format is chosen */
+  onExport?: (object: any, flavour: ObjectExportFlavour) => void
   /** Callback when "Create Template" is clicked */
   onCreateTemplate: (object: any) => void
   /** Callback when "Delete" is clicked */
@@ -55,6 +62,7 @@ export function ObjectActionsCell({
   onViewDetails,
   onShowQRCode,
   onDuplicate,
+  onExport,
   onCreateTemplate,
   onDelete,
   onRestore,
@@ -115,6 +123,32 @@ export function ObjectActionsCell({
               <QrCode className="h-4 w-4 mr-2" />
               {t('objects.actions.showQrCode')}
             </DropdownMenuItem>
+            {onExport && (
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger onClick={(e) => e.stopPropagation()}>
+                  <Download className="h-4 w-4 mr-2" />
+                  {t('objects.export.action')}
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onExport(object, 'json')
+                    }}
+                  >
+                    {t('objects.export.json')}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onExport(object, 'jsonld')
+                    }}
+                  >
+                    {t('objects.export.jsonLd')}
+                  </DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            )}
             {!isDeleted && (
               <>
                 <DropdownMenuItem
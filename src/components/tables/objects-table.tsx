@@ -3,6 +3,7 @@
 import { MouseEvent, useState, useEffect, useMemo } from 'react'
 import { useTranslations } from 'next-intl'
 import {
+  AlertTriangle,
   FileText,
   Trash2,
   QrCode,
@@ -31,10 +32,20 @@ import {
   DropdownMenuTrigger,
   CopyButton,
 } from '@/components/ui'
-import { cn, logger } from '@/lib'
+import {
+  checkModelSchema,
+  cn,
+  DEFAULT_VALUE_TYPE_CAST,
+  logger,
+  type ModelSchemaIssue,
+} from '@/lib'
 import { useUnifiedDelete, useObjects, useGroups } from '@/hooks'
+import { useExportObjects, useModelSchemas } from '@/hooks/api'
 import { GroupBadge } from '@/components/ui/group-badge'
-import { CopyObjectsSheet } from '@/components/object-sheets'
+import {
+  CopyObjectsSheet,
+  ModelSchemaIssueList,
+} from '@/components/object-sheets'
 import { useObjectOperations } from '@/components/object-sheets/hooks/use-object-operations'
 import {
   QRCodeModal,
@@ -130,6 +141,8 @@ export function ObjectsTable({
     handleDeleteCancel,
   } = useUnifiedDelete()
 
+  const { exportObjects } = useExportObjects()
+
   // Revert functionality
   const { useRevertObject } = useObjects()
   const revertObjectMutation = useRevertObject()
@@ -147,6 +160,22 @@ export function ObjectsTable({
     return map
   }, [groups])
 
+  // Objects that no longer match the schema of their model
+  const { useListModelSchemas } = useModelSchemas()
+  const { data: schemas } = useListModelSchemas()
+  const schemaIssues = useMemo(() => {
+    const issues = new Map<string, ModelSchemaIssue[]>()
+    if (!schemas?.length) return issues
+    const byModel = new Map(schemas.map((schema) => [schema.modelUuid, schema]))
+    data.forEach((object) => {
+      const schema = object?.modelUuid && byModel.get(object.modelUuid)
+      if (!schema || isObjectDeleted(object)) return
+      const found = checkModelSchema(object.properties || [], schema.properties)
+      if (found.length > 0) issues.set(object.uuid, found)
+    })
+    return issues
+  }, [data, schemas])
+
   // Load data from props
   useEffect(() => {
     setData(initialData ?? [])
@@ -230,12 +259,12 @@ export function ObjectsTable({
             type: prop.type || 'string',
             values: prop.values?.map((val: any) => ({
               value: 'Variable',
-              valueTypeCast: val.valueTypeCast || 'string',
+              valueTypeCast: val.valueTypeCast || DEFAULT_VALUE_TYPE_CAST,
               files: [],
             })) || [
               {
                 value: 'Variable',
-                valueTypeCast: 'string',
+                valueTypeCast: DEFAULT_VALUE_TYPE_CAST,
                 sourceType: 'manual',
                 files: [],
               },
@@ -274,6 +303,7 @@ export function ObjectsTable({
         const childCount =
           object.childCount || (object.children ? object.children.length : 0)
         const isDeleted = isObjectDeleted(object)
+        const issues = schemaIssues.get(object.uuid)
 
         return (
           <div className="flex items-center font-medium">
@@ -290,6 +320,26 @@ export function ObjectsTable({
                 {t('objects.deletedBadge')}
               </span>
             )}
+            {issues && (
+              <TooltipProvider delayDuration={300}>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <span
+                      className="ml-2 inline-flex items-center text-amber-500"
+                      aria-label={t('objects.schema.notConforming')}
+                    >
+                      <AlertTriangle className="h-3.5 w-3.5" />
+                    </span>
+                  </TooltipTrigger>
+                  <TooltipContent side="right" className="max-w-xs space-y-1">
+                    <p className="font-medium">
+                      {t('objects.schema.notConforming')}
+                    </p>
+                    <ModelSchemaIssueList issues={issues} />
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
             {childCount > 0 && (
               <TooltipProvider delayDuration={300}>
                 <Tooltip>
@@ -386,6 +436,9 @@ export function ObjectsTable({
               setCopyTarget(obj)
               setIsCopySheetOpen(true)
             }}
+            onExport={(obj, flavour) => {
+              exportObjects({ uuids: [obj.uuid], flavour })
+            }}
             onCreateTemplate={(obj) => {
               setTemplateSource(obj)
               setIsTemplateDialogOpen(true)
@@ -406,7 +459,7 @@ export function ObjectsTable({
     })
 
     return cols
-  }, [enableRowSelection, t, groupsMap, readOnly])
+  }, [enableRowSelection, t, groupsMap, readOnly, schemaIssues])
 
   return (
     <>
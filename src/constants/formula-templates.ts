@@ -6,8 +6,8 @@ export interface FormulaTemplate {
 }
 
 /**
- * Formula templates for common calculations.
- * In the future these can be fetched from an API.
+ * Built-in formula templates for common calculations. Templates saved by
+ * the team come from /api/formula-templates.
  */
 export const FORMULA_TEMPLATES: FormulaTemplate[] = [
   // Basic
@@ -59,6 +59,24 @@ export const FORMULA_TEMPLATES: FormulaTemplate[] = [
     description: 'Remainder of x / y',
     category: 'basic',
   },
+  {
+    label: 'Round',
+    formula: 'round(x, 2)',
+    description: 'x rounded to 2 decimals',
+    category: 'basic',
+  },
+  {
+    label: 'Conditional',
+    formula: 'x > limit ? x - limit : 0',
+    description: 'Amount of x above a limit',
+    category: 'basic',
+  },
+  {
+    label: 'If',
+    formula: 'if(x >= y, x, y)',
+    description: 'x when it is at least y, otherwise y',
+    category: 'basic',
+  },
 
   // Statistics
   {
@@ -87,10 +105,22 @@ export const FORMULA_TEMPLATES: FormulaTemplate[] = [
   },
   {
     label: 'Clamp',
-    formula: 'max(lo, min(x, hi))',
+    formula: 'clamp(x, lo, hi)',
     description: 'Clamp x between lo and hi',
     category: 'statistics',
   },
+  {
+    label: 'Sum (Children)',
+    formula: 'sum(children.weight)',
+    description: 'Total of a property over all children',
+    category: 'statistics',
+  },
+  {
+    label: 'Average (Children)',
+    formula: 'avg(children.weight)',
+    description: 'Average of a property over all children',
+    category: 'statistics',
+  },
   {
     label: 'Variance (2)',
     formula: 'pow(x - (x + y) / 2, 2) + pow(y - (x + y) / 2, 2)',
@@ -155,6 +185,12 @@ export const FORMULA_TEMPLATES: FormulaTemplate[] = [
     description: 'Convert x by a factor',
     category: 'conversion',
   },
+  {
+    label: 'Convert Units',
+    formula: 'convert(x, "kg", "t")',
+    description: 'Convert x from one unit to another',
+    category: 'conversion',
+  },
 
   // Finance
   {
@@ -1,6 +1,8 @@
 export * from './site'
+export * from './units'
 export * from './limits'
 export * from './view-types'
 export * from './client'
 export * from './auth'
 export * from './formula-templates'
+export * from './processes'
@@ -21,11 +21,14 @@ export const MAX_PREVIEW_ROWS = 500 // Maximum number of rows to process for pre
 export const MAX_IMPORT_PAYLOAD_MB = 100 // Max import payload size
 export const MAX_OBJECTS_PER_IMPORT = 50000 // Max objects per import
 export const MAX_CONCURRENT_JOBS_PER_USER = 5 // Max concurrent import jobs
+export const MAX_IMPORT_OBJECT_KB = 1024 // Max size of a single imported object
+export const MAX_VALIDATION_ISSUES = 1000 // Issues kept in a dry-run report
 
 // Import processing configuration (optimized for performance)
 export const API_BATCH_SIZE = 25 // Objects per API request
 export const API_REQUEST_DELAY = 50 // Delay between requests (ms)
 export const PARALLEL_REQUESTS = 15 // Concurrent API requests
+export const PROCESS_IMPORT_BATCH_SIZE = 100 // Process flow statements per request
 
 // Advanced performance tuning
 export const MAX_BATCH_SIZE = 100 // Maximum batch size for very large imports
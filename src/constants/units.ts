@@ -0,0 +1,119 @@
+/**
+ * Unit registry for material quantities
+ * Quantities convert within a category through the factor of each unit
+ * relative to the category's base unit
+ */
+
+// Unit categories for material selection
+export const UNIT_CATEGORIES = {
+  weight: { labelKey: 'weight', baseUnit: 'kg', units: ['kg', 'g', 't', 'lb'] },
+  volume: {
+    labelKey: 'volume',
+    baseUnit: 'm³',
+    units: ['m³', 'L', 'mL', 'gal'],
+  },
+  area: { labelKey: 'area', baseUnit: 'm²', units: ['m²', 'cm²', 'ft²'] },
+  length: {
+    labelKey: 'length',
+    baseUnit: 'm',
+    units: ['m', 'mm', 'cm', 'km', 'ft', 'in'],
+  },
+  count: {
+    labelKey: 'count',
+    baseUnit: 'pcs',
+    units: ['pcs', 'ea', 'units', 'items'],
+  },
+  energy: { labelKey: 'energy', baseUnit: 'kWh', units: ['kWh', 'MJ', 'BTU'] },
+  emissions: {
+    labelKey: 'emissions',
+    baseUnit: 'kg CO2e',
+    units: ['kg CO2e', 't CO2e'],
+  },
+} as const
+
+export type UnitCategory = keyof typeof UNIT_CATEGORIES
+
+// Factor of each unit relative to the base unit of its category
+export const UNIT_FACTORS: Record<string, number> = {
+  kg: 1,
+  g: 0.001,
+  t: 1000,
+  lb: 0.45359237,
+  'm³': 1,
+  L: 0.001,
+  mL: 0.000001,
+  gal: 0.003785411784, // US gallon
+  'm²': 1,
+  'cm²': 0.0001,
+  'ft²': 0.09290304,
+  m: 1,
+  mm: 0.001,
+  cm: 0.01,
+  km: 1000,
+  ft: 0.3048,
+  in: 0.0254,
+  pcs: 1,
+  ea: 1,
+  units: 1,
+  items: 1,
+  kWh: 1,
+  MJ: 1 / 3.6,
+  BTU: 0.00029307107,
+  'kg CO2e': 1,
+  't CO2e': 1000,
+}
+
+// Other spellings found in process data, keyed in the normalised form of
+// normalizeUnitKey (lowercase, no spaces or dots)
+export const UNIT_ALIASES: Record<string, string> = {
+  kilogram: 'kg',
+  kilograms: 'kg',
+  kgs: 'kg',
+  gram: 'g',
+  grams: 'g',
+  tonne: 't',
+  tonnes: 't',
+  ton: 't',
+  tons: 't',
+  lbs: 'lb',
+  m3: 'm³',
+  liter: 'L',
+  liters: 'L',
+  litre: 'L',
+  litres: 'L',
+  l: 'L',
+  ml: 'mL',
+  m2: 'm²',
+  cm2: 'cm²',
+  ft2: 'ft²',
+  sqm: 'm²',
+  meter: 'm',
+  meters: 'm',
+  metre: 'm',
+  metres: 'm',
+  pc: 'pcs',
+  piece: 'pcs',
+  pieces: 'pcs',
+  stuks: 'pcs',
+  st: 'pcs',
+  unit: 'units',
+  item: 'items',
+  kwh: 'kWh',
+  mj: 'MJ',
+  btu: 'BTU',
+  kgco2e: 'kg CO2e',
+  kgco2: 'kg CO2e',
+  kgco2eq: 'kg CO2e',
+  tco2e: 't CO2e',
+  tco2: 't CO2e',
+}
+
+export const DEFAULT_DISPLAY_UNIT = 'kg'
+
+// Local storage key for the display unit of the process views
+export const PROCESS_DISPLAY_UNIT_KEY = 'processDisplayUnit'
+
+// Allowed difference between a process's inputs and outputs plus its
+// material loss, as a percentage of the inputs
+export const DEFAULT_MASS_BALANCE_TOLERANCE = 5
+export const MASS_BALANCE_TOLERANCE_KEY = 'massBalanceTolerance'
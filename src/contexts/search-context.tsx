@@ -5,13 +5,24 @@ import { usePathname, useRouter } from 'next/navigation'
 
 import { logger } from '@/lib'
 import { useCommonApi } from '@/hooks/api'
-import type { ParsedSearch } from '@/lib/search-parser'
-import { parseSearchQuery } from '@/lib/search-parser'
+import type { ParsedSearch, SearchQueryError } from '@/lib/search-parser'
+import {
+  getSearchQueryError,
+  parseSearchQuery,
+  isServerSideSearch,
+  matchesSearchExpression,
+  stringifySearchExpression,
+  toSearchRequests,
+} from '@/lib/search-parser'
 
 interface SearchContextType {
   searchQuery: string
   setSearchQuery: (query: string) => void
   isSearching: boolean
+  // Parsed form of the active search (null when not searching)
+  parsedSearch: ParsedSearch | null
+  // Why the active search wasn't run, it has no results then
+  searchError: SearchQueryError | null
   // New search mode functionality
   isSearchMode: boolean
   searchViewResults: any[]
@@ -22,6 +33,8 @@ interface SearchContextType {
     pageSize: number
     isFirstPage: boolean
     isLastPage: boolean
+    // True when a locally filtered search stopped before loading every match
+    isIncomplete: boolean
     handlePageChange: (page: number) => void
     handleFirst: () => void
     handlePrevious: () => void
@@ -36,6 +49,11 @@ interface SearchContextType {
 const SearchContext = createContext<SearchContextType | undefined>(undefined)
 
 const MIN_SEARCH_CHARS = 2
+// Results fetched per request when a search has to be filtered client-side
+const EXPANDED_SEARCH_FETCH_SIZE = 200
+// Upper bound on pages fetched per request before the results are reported
+// as incomplete
+const MAX_EXPANDED_SEARCH_PAGES = 25
 
 // Pages where search results are displayed directly
 const OBJECTS_PAGE = '/objects'
@@ -51,6 +69,10 @@ export function SearchProvider({ children }: { children: React.ReactNode }) {
   const [searchPaginationData, setSearchPaginationData] = useState<any>(null)
   const [currentParsedSearch, setCurrentParsedSearch] =
     useState<ParsedSearch | null>(null)
+  const [searchError, setSearchError] = useState<SearchQueryError | null>(null)
+  // Full result set for searches that are filtered and paginated locally
+  const expandedResultsRef = useRef<any[] | null>(null)
+  const expandedIncompleteRef = useRef(false)
 
   const pathname = usePathname()
   const router = useRouter()
@@ -104,16 +126,132 @@ export function SearchProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  // Transform search results to match view data format
+  const toViewResults = (content: any[]) =>
+    content.map((result: any) => ({
+      ...result,
+      hasChildren: result.children && result.children.length > 0,
+      childCount: result.children ? result.children.length : 0,
+    }))
+
+  // Show one page of a locally filtered result set
+  const showExpandedPage = (
+    results: any[],
+    page: number,
+    isIncomplete: boolean
+  ) => {
+    const totalPages = Math.max(1, Math.ceil(results.length / searchPageSize))
+    const safePage = Math.min(Math.max(page, 0), totalPages - 1)
+
+    setSearchPaginationData({
+      totalElements: results.length,
+      totalPages,
+      first: safePage === 0,
+      last: safePage >= totalPages - 1,
+      isIncomplete,
+    })
+    setSearchCurrentPage(safePage)
+    setSearchViewResults(
+      toViewResults(
+        results.slice(
+          safePage * searchPageSize,
+          (safePage + 1) * searchPageSize
+        )
+      )
+    )
+    setIsSearchMode(true)
+  }
+
+  // Execute searches using OR, negation or comparisons: one request per
+  // branch, each paged through and filtered by the conditions the API
+  // can't express
+  const executeExpandedSearch = async (
+    parsed: ParsedSearch,
+    isTemplate: boolean | undefined
+  ) => {
+    const merged = new Map<string, any>()
+    let isIncomplete = false
+
+    for (const request of toSearchRequests(parsed)) {
+      const requestSearchBy = {
+        ...(isTemplate !== undefined ? { isTemplate } : {}),
+        ...request.searchBy,
+      }
+      const hasFilters = Object.keys(requestSearchBy).length > 0
+
+      for (let page = 0; ; page++) {
+        if (page >= MAX_EXPANDED_SEARCH_PAGES) {
+          isIncomplete = true
+          break
+        }
+
+        const results = await searchMutationRef.current.mutateAsync({
+          searchTerm: request.searchTerm || undefined,
+          searchBy: hasFilters ? requestSearchBy : undefined,
+          size: EXPANDED_SEARCH_FETCH_SIZE,
+          page,
+        })
+        const content = results?.content || []
+
+        for (const result of content) {
+          if (
+            !merged.has(result.uuid) &&
+            matchesSearchExpression(result, request.conditions)
+          ) {
+            merged.set(result.uuid, result)
+          }
+        }
+
+        if (
+          !results ||
+          results.last ||
+          content.length < EXPANDED_SEARCH_FETCH_SIZE
+        ) {
+          break
+        }
+      }
+    }
+
+    expandedResultsRef.current = Array.from(merged.values())
+    expandedIncompleteRef.current = isIncomplete
+    showExpandedPage(expandedResultsRef.current, 0, isIncomplete)
+  }
+
   // Execute search with pagination support
   const executeSearchWithPagination = async (
     parsed: ParsedSearch,
     page: number = 0
   ) => {
+    // Locally filtered searches are already fully loaded
+    if (expandedResultsRef.current) {
+      showExpandedPage(
+        expandedResultsRef.current,
+        page,
+        expandedIncompleteRef.current
+      )
+      return
+    }
+
+    const error = getSearchQueryError(parsed)
+    setSearchError(error)
+    if (error) {
+      setSearchViewResults([])
+      setSearchPaginationData(null)
+      setIsSearchMode(true)
+      return
+    }
+
     setIsSearching(true)
 
     try {
       // Inject isTemplate based on page context
       const isTemplate = getIsTemplateForSearch(parsed)
+
+      if (!isServerSideSearch(parsed)) {
+        await executeExpandedSearch(parsed, isTemplate)
+        return
+      }
+
       const contextSearchBy = {
         ...parsed.searchBy,
         ...(isTemplate !== undefined ? { isTemplate } : {}),
@@ -134,14 +272,7 @@ export function SearchProvider({ children }: { children: React.ReactNode }) {
         setSearchCurrentPage(page)
 
         if (results.content && results.content.length > 0) {
-          // Transform search results to match view data format
-          const transformedResults = results.content.map((result: any) => ({
-            ...result,
-            hasChildren: result.children && result.children.length > 0,
-            childCount: result.children ? result.children.length : 0,
-          }))
-
-          setSearchViewResults(transformedResults)
+          setSearchViewResults(toViewResults(results.content))
           setIsSearchMode(true)
         } else {
           setSearchViewResults([])
@@ -167,7 +298,9 @@ export function SearchProvider({ children }: { children: React.ReactNode }) {
 
     // Parse the search query
     const parsed = parseSearchQuery(query)
+    setSearchQuery(stringifySearchExpression(parsed.expression) || query)
     setCurrentParsedSearch(parsed)
+    expandedResultsRef.current = null
 
     // Reset to first page when starting new search
     await executeSearchWithPagination(parsed, 0)
@@ -176,16 +309,10 @@ export function SearchProvider({ children }: { children: React.ReactNode }) {
   // Execute search from parsed search object (for CommandCenter)
   const executeSearchFromParsed = (parsed: ParsedSearch) => {
     // Reconstruct the display query from the parsed search
-    const displayQuery = [
-      parsed.searchTerm,
-      ...parsed.filters
-        .filter((f) => f.type !== 'text')
-        .map((f) => `${f.type}:${f.value}`),
-    ]
-      .filter(Boolean)
-      .join(' ')
+    const displayQuery = stringifySearchExpression(parsed.expression)
     setSearchQuery(displayQuery || parsed.searchTerm || '')
     setCurrentParsedSearch(parsed)
+    expandedResultsRef.current = null
 
     // Redirect to the correct page based on search context
     resolveSearchPage(parsed)
@@ -246,6 +373,7 @@ export function SearchProvider({ children }: { children: React.ReactNode }) {
         pageSize: searchPageSize,
         isFirstPage: searchPaginationData.first || false,
         isLastPage: searchPaginationData.last || false,
+        isIncomplete: searchPaginationData.isIncomplete || false,
         handlePageChange,
         handleFirst,
         handlePrevious,
@@ -261,6 +389,8 @@ export function SearchProvider({ children }: { children: React.ReactNode }) {
     setSearchCurrentPage(0)
     setIsSearchMode(false)
     setCurrentParsedSearch(null)
+    setSearchError(null)
+    expandedResultsRef.current = null
   }
 
   return (
@@ -269,6 +399,8 @@ export function SearchProvider({ children }: { children: React.ReactNode }) {
         searchQuery,
         setSearchQuery,
         isSearching,
+        parsedSearch: currentParsedSearch,
+        searchError,
         // New search mode functionality
         isSearchMode,
         searchViewResults,
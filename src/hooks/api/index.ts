@@ -10,3 +10,9 @@ export { useImportApi } from './use-import-api'
 export { useFilesApi } from './use-files-api'
 export { useCopyObjects } from './use-copy-objects'
 export { useGroups } from './use-groups'
+export { useSavedSearches } from './use-saved-searches'
+export { useProcessTemplates } from './use-process-templates'
+export { useFormulaTemplates } from './use-formula-templates'
+export { useModelSchemas } from './use-model-schemas'
+export { useExportObjects } from './use-export-objects'
+export { useRecomputeFormulas } from './use-recompute-formulas'
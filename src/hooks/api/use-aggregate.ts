@@ -3,6 +3,52 @@ import type { AggregateFindDTO } from 'iom-sdk'
 
 import { useIomSdkClient } from '@/contexts'
 
+const CHILDREN_PAGE_SIZE = 50
+
+/**
+ * Looks up one aggregate entity by UUID, null when there is none
+ */
+export async function fetchAggregateByUuid(
+  client: any,
+  uuid: string
+): Promise<any | null> {
+  const response = await client.node.searchAggregates({
+    accessFind: { readDefaultGroup: true },
+    searchBy: { uuid },
+    page: 0,
+    size: 1,
+  })
+  return response?.content?.[0] || null
+}
+
+/**
+ * All direct children of an aggregate entity that aren't soft-deleted
+ */
+export async function fetchAggregateChildren(
+  client: any,
+  parentUuid: string
+): Promise<any[]> {
+  const children: any[] = []
+  let page = 0
+  let hasMore = true
+
+  while (hasMore) {
+    const response = await client.node.searchAggregates({
+      accessFind: { readDefaultGroup: true },
+      parentUUID: parentUuid,
+      hasParentUUIDFilter: true,
+      page,
+      size: CHILDREN_PAGE_SIZE,
+      searchBy: { softDeleted: false },
+    })
+    children.push(...(response?.content || []))
+    hasMore = !!response?.content?.length && !response?.last
+    page++
+  }
+
+  return children
+}
+
 export function useAggregate() {
   const client = useIomSdkClient()
 
@@ -12,14 +58,7 @@ export function useAggregate() {
       queryKey: ['aggregate', uuid],
       queryFn: async () => {
         if (!uuid) return null
-
-        const response = await client.node.searchAggregates({
-          accessFind: { readDefaultGroup: true },
-          searchBy: { uuid },
-          page: 0,
-          size: 1,
-        })
-        return response.content?.[0] || null
+        return fetchAggregateByUuid(client, uuid)
       },
       enabled: !!uuid,
       staleTime: 30000,
@@ -28,6 +67,42 @@ export function useAggregate() {
     })
   }
 
+  // Get aggregate entities by UUIDs, skipping the ones that can't be read
+  const useAggregatesByUUIDs = (uuids: string[], options = {}) => {
+    const uniqueUuids = Array.from(new Set(uuids.filter(Boolean))).sort()
+    return useQuery({
+      queryKey: ['aggregates', 'byUUIDs', uniqueUuids],
+      queryFn: async () => {
+        const responses = await Promise.all(
+          uniqueUuids.map(async (uuid) => {
+            try {
+              return await fetchAggregateByUuid(client, uuid)
+            } catch {
+              return null
+            }
+          })
+        )
+        return responses.filter(Boolean)
+      },
+      enabled: uniqueUuids.length > 0,
+      staleTime: 30000,
+      gcTime: 5 * 60 * 1000,
+      ...options,
+    })
+  }
+
+  // Get all direct children of an aggregate entity
+  const useAggregateChildren = (parentUuid: string, options = {}) => {
+    return useQuery({
+      queryKey: ['aggregates', 'children', parentUuid, 'all'],
+      queryFn: () => fetchAggregateChildren(client, parentUuid),
+      enabled: !!parentUuid,
+      staleTime: 30000,
+      gcTime: 5 * 60 * 1000,
+      ...options,
+    })
+  }
+
   // Get paginated aggregate entities (for tables/lists)
   const useAggregateEntities = (params?: AggregateFindDTO, options = {}) => {
     return useQuery({
@@ -168,6 +243,8 @@ export function useAggregate() {
 
   return {
     useAggregateByUUID,
+    useAggregatesByUUIDs,
+    useAggregateChildren,
     useAggregateEntities,
     useModelEntities,
     useAggregateEntitiesWithHistory,
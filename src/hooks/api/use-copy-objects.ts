@@ -3,7 +3,7 @@ import { useTranslations } from 'next-intl'
 import { Predicate } from 'iom-sdk'
 import { toast } from 'sonner'
 
-import { logger } from '@/lib'
+import { DEFAULT_VALUE_TYPE_CAST, logger } from '@/lib'
 import { useIomSdkClient } from '@/contexts'
 import type { ImportObjectData } from './use-import-api'
 
@@ -54,7 +54,7 @@ export function mapAggregateToImportData(
         values:
           prop.values?.map((val: any) => ({
             value: val.value || '',
-            valueTypeCast: val.valueTypeCast || 'string',
+            valueTypeCast: val.valueTypeCast || DEFAULT_VALUE_TYPE_CAST,
             sourceType: val.sourceType,
             files: [],
           })) || [],
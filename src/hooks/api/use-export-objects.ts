@@ -0,0 +1,174 @@
+import { useMutation } from '@tanstack/react-query'
+import { useTranslations } from 'next-intl'
+import { toast } from 'sonner'
+
+import { logger } from '@/lib'
+import {
+  createObjectExport,
+  getObjectExportFileName,
+  serializeObjectExport,
+  type ExportedObject,
+  type ObjectExportDocument,
+  type ObjectExportFlavour,
+} from '@/lib/object-export'
+import { useIomSdkClient } from '@/contexts'
+import { fetchAggregateByUuid } from './use-aggregate'
+import { fetchDescendants, mapAggregateToImportData } from './use-copy-objects'
+
+export interface ExportObjectsParams {
+  uuids: string[]
+  flavour: ObjectExportFlavour
+}
+
+// ─── helpers ────────────────────────────────────────────────────────────────
+
+function toFileMetadata(files: any[] | undefined) {
+  return (files || [])
+    .filter((file: any) => !file.softDeleted)
+    .map((file: any) => ({
+      uuid: file.uuid || '',
+      fileName: file.fileName || '',
+      fileReference: file.fileReference || '',
+      label: file.label || undefined,
+      contentType: file.contentType || undefined,
+      size: file.size ?? undefined,
+    }))
+}
+
+/**
+ * Maps an aggregate entity to an exported object.
+ * Builds on mapAggregateToImportData and adds the original UUID, parents,
+ * model and file metadata that a copy leaves out.
+ */
+export function mapAggregateToExportedObject(aggregate: any): ExportedObject {
+  const importData = mapAggregateToImportData(aggregate, {
+    namePrefix: '',
+    copyProperties: true,
+    copyAddress: true,
+  })
+
+  // Same filter as mapAggregateToImportData, so indexes line up
+  const sourceProperties = (aggregate.properties || []).filter(
+    (prop: any) => !prop.softDeleted
+  )
+
+  const files = toFileMetadata(aggregate.files)
+
+  return {
+    ...importData,
+    uuid: aggregate.uuid,
+    ...(aggregate.isTemplate && { isTemplate: true }),
+    parents: (aggregate.parents || [])
+      .map((parent: any) => parent?.uuid || parent)
+      .filter(Boolean),
+    ...(aggregate.modelUuid && { modelUuid: aggregate.modelUuid }),
+    createdAt: aggregate.createdAt || undefined,
+    lastUpdatedAt: aggregate.lastUpdatedAt || undefined,
+    properties: importData.properties?.map((property, index) => {
+      const source = sourceProperties[index]
+      return {
+        ...property,
+        values: property.values?.map((value, valueIndex) => ({
+          ...value,
+          files: toFileMetadata(source?.values?.[valueIndex]?.files),
+        })),
+        files: toFileMetadata(source?.files),
+      }
+    }),
+    ...(files.length > 0 && { files }),
+  }
+}
+
+/**
+ * Fetches the given objects and all their descendants and builds an
+ * export document. Objects reachable from several roots are exported once.
+ */
+export async function buildObjectExport(
+  client: any,
+  uuids: string[]
+): Promise<ObjectExportDocument> {
+  const objects: ExportedObject[] = []
+  const seen = new Set<string>()
+
+  const add = (aggregate: any) => {
+    if (!aggregate?.uuid || seen.has(aggregate.uuid)) return
+    seen.add(aggregate.uuid)
+    objects.push(mapAggregateToExportedObject(aggregate))
+  }
+
+  for (const uuid of uuids) {
+    const aggregate = await fetchAggregateByUuid(client, uuid)
+    if (!aggregate) {
+      logger.warn(`Object ${uuid} not found, skipping export`)
+      continue
+    }
+    add(aggregate)
+
+    if (aggregate.children && aggregate.children.length > 0) {
+      const descendants = await fetchDescendants(client, uuid)
+      descendants.forEach(add)
+    }
+  }
+
+  return createObjectExport(objects, uuids)
+}
+
+function downloadExport(
+  exportDocument: ObjectExportDocument,
+  flavour: ObjectExportFlavour
+) {
+  const blob = new Blob([serializeObjectExport(exportDocument, flavour)], {
+    type: flavour === 'jsonld' ? 'application/ld+json' : 'application/json',
+  })
+  const name =
+    exportDocument.rootUuids.length === 1
+      ? exportDocument.objects[0]?.name || ''
+      : ''
+
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = getObjectExportFileName(name, flavour)
+  document.body.appendChild(link)
+  link.click()
+
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+// ─── hook ───────────────────────────────────────────────────────────────────
+
+/**
+ * Hook for exporting objects with their whole subtree as a JSON or JSON-LD
+ * file that can be imported again.
+ */
+export function useExportObjects() {
+  const client = useIomSdkClient()
+  const t = useTranslations()
+
+  const mutation = useMutation({
+    mutationFn: async ({ uuids, flavour }: ExportObjectsParams) => {
+      const exportDocument = await buildObjectExport(client, uuids)
+      if (exportDocument.objects.length === 0) {
+        throw new Error('No objects found to export')
+      }
+      downloadExport(exportDocument, flavour)
+      return exportDocument
+    },
+    onSuccess: (exportDocument) => {
+      const count = exportDocument.objects.length
+      toast.success(t('objects.export.success', { count }))
+      logger.info(`Exported ${count} object(s)`)
+    },
+    onError: (error) => {
+      logger.error('Export objects failed:', error)
+      toast.error(t('objects.export.failed'))
+    },
+  })
+
+  return {
+    exportObjects: mutation.mutate,
+    isExporting: mutation.isPending,
+    error: mutation.error,
+  }
+}
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { useAuth, useIomSdkClient } from '@/contexts'
+import type { TeamFormulaTemplate, TeamFormulaTemplateInput } from '@/types'
+
+const FORMULA_TEMPLATES_ENDPOINT = '/api/formula-templates'
+
+/**
+ * Hook for the formula templates shared by the team, stored server-side
+ */
+export function useFormulaTemplates() {
+  const client = useIomSdkClient()
+  const queryClient = useQueryClient()
+  const { isAuthenticated } = useAuth()
+
+  const request = async (
+    input: string,
+    init: { method?: string; body?: string } = {}
+  ) => {
+    const token = client.getToken()
+    if (!token) {
+      throw new Error('No authentication token available. Please login first.')
+    }
+
+    const response = await fetch(input, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Formula template request failed')
+    }
+    return data
+  }
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ['formulaTemplates'] })
+
+  const useListFormulaTemplates = (options = {}) => {
+    return useQuery({
+      queryKey: ['formulaTemplates'],
+      queryFn: async (): Promise<TeamFormulaTemplate[]> => {
+        const data = await request(FORMULA_TEMPLATES_ENDPOINT)
+        return data.templates
+      },
+      enabled: isAuthenticated,
+      staleTime: 60000,
+      ...options,
+    })
+  }
+
+  const useCreateFormulaTemplate = () => {
+    return useMutation({
+      mutationFn: async (
+        input: TeamFormulaTemplateInput
+      ): Promise<TeamFormulaTemplate> => {
+        const data = await request(FORMULA_TEMPLATES_ENDPOINT, {
+          method: 'POST',
+          body: JSON.stringify(input),
+        })
+        return data.template
+      },
+      onSuccess: invalidate,
+    })
+  }
+
+  const useDeleteFormulaTemplate = () => {
+    return useMutation({
+      mutationFn: async (id: string) => {
+        await request(
+          `${FORMULA_TEMPLATES_ENDPOINT}?id=${encodeURIComponent(id)}`,
+          { method: 'DELETE' }
+        )
+      },
+      onSuccess: invalidate,
+    })
+  }
+
+  return {
+    useListFormulaTemplates,
+    useCreateFormulaTemplate,
+    useDeleteFormulaTemplate,
+  }
+}
@@ -10,6 +10,8 @@ export interface ImportObjectData {
   version?: string
   description?: string
   isTemplate?: boolean
+  // Model the object was created from
+  modelUuid?: string
   address?: {
     fullAddress: string
     street: string
@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { useAuth, useIomSdkClient } from '@/contexts'
+import type { ModelSchema, ModelSchemaInput } from '@/types'
+
+const MODEL_SCHEMAS_ENDPOINT = '/api/model-schemas'
+
+/**
+ * Hook for the property schemas of models, stored server-side per model
+ */
+export function useModelSchemas() {
+  const client = useIomSdkClient()
+  const queryClient = useQueryClient()
+  const { isAuthenticated } = useAuth()
+
+  const request = async (
+    input: string,
+    init: { method?: string; body?: string } = {}
+  ) => {
+    const token = client.getToken()
+    if (!token) {
+      throw new Error('No authentication token available. Please login first.')
+    }
+
+    const response = await fetch(input, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Model schema request failed')
+    }
+    return data
+  }
+
+  const useListModelSchemas = (options = {}) => {
+    return useQuery({
+      queryKey: ['modelSchemas'],
+      queryFn: async (): Promise<ModelSchema[]> => {
+        const data = await request(MODEL_SCHEMAS_ENDPOINT)
+        return data.schemas
+      },
+      enabled: isAuthenticated,
+      staleTime: 60000,
+      ...options,
+    })
+  }
+
+  const useSaveModelSchema = () => {
+    return useMutation({
+      mutationFn: async (input: ModelSchemaInput): Promise<ModelSchema> => {
+        const data = await request(MODEL_SCHEMAS_ENDPOINT, {
+          method: 'PUT',
+          body: JSON.stringify(input),
+        })
+        return data.schema
+      },
+      onSuccess: () =>
+        queryClient.invalidateQueries({ queryKey: ['modelSchemas'] }),
+    })
+  }
+
+  return {
+    useListModelSchemas,
+    useSaveModelSchema,
+  }
+}
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { useAuth, useIomSdkClient } from '@/contexts'
+import type { ProcessTemplate, ProcessTemplateInput } from '@/types'
+
+const PROCESS_TEMPLATES_ENDPOINT = '/api/process-templates'
+
+/**
+ * Hook for the current user's process templates, stored server-side per user
+ */
+export function useProcessTemplates() {
+  const client = useIomSdkClient()
+  const queryClient = useQueryClient()
+  const { isAuthenticated, userUUID } = useAuth()
+
+  const request = async (
+    input: string,
+    init: { method?: string; body?: string } = {}
+  ) => {
+    const token = client.getToken()
+    if (!token) {
+      throw new Error('No authentication token available. Please login first.')
+    }
+
+    const response = await fetch(input, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Process template request failed')
+    }
+    return data
+  }
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ['processTemplates'] })
+
+  const useListProcessTemplates = (options = {}) => {
+    return useQuery({
+      queryKey: ['processTemplates', userUUID],
+      queryFn: async (): Promise<ProcessTemplate[]> => {
+        const data = await request(PROCESS_TEMPLATES_ENDPOINT)
+        return data.templates
+      },
+      enabled: isAuthenticated,
+      staleTime: 60000,
+      ...options,
+    })
+  }
+
+  const useCreateProcessTemplate = () => {
+    return useMutation({
+      mutationFn: async (
+        input: ProcessTemplateInput
+      ): Promise<ProcessTemplate> => {
+        const data = await request(PROCESS_TEMPLATES_ENDPOINT, {
+          method: 'POST',
+          body: JSON.stringify(input),
+        })
+        return data.template
+      },
+      onSuccess: invalidate,
+    })
+  }
+
+  const useDeleteProcessTemplate = () => {
+    return useMutation({
+      mutationFn: async (id: string) => {
+        await request(
+          `${PROCESS_TEMPLATES_ENDPOINT}?id=${encodeURIComponent(id)}`,
+          { method: 'DELETE' }
+        )
+      },
+      onSuccess: invalidate,
+    })
+  }
+
+  return {
+    useListProcessTemplates,
+    useCreateProcessTemplate,
+    useDeleteProcessTemplate,
+  }
+}
@@ -0,0 +1,213 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useTranslations } from 'next-intl'
+import { toast } from 'sonner'
+
+import { logger } from '@/lib'
+import { useIomSdkClient } from '@/contexts'
+import {
+  buildChildrenSources,
+  buildObjectSources,
+} from '@/components/properties/formula-sources'
+import {
+  getFormulaReferencedUuids,
+  hasFormulaValues,
+  recomputeFormulas,
+  type FormulaRecomputeResult,
+} from '@/components/properties/formula-recompute'
+import { fetchAggregateByUuid, fetchAggregateChildren } from './use-aggregate'
+
+export interface RecomputeFormulasParams {
+  uuids: string[]
+}
+
+export interface RecomputeFormulasSummary {
+  objects: number
+  updated: number
+  failed: number
+  // "Object: key → key" per dependency cycle
+  cycles: string[]
+}
+
+// ─── helpers ────────────────────────────────────────────────────────────────
+
+const toUuid = (ref: any): string => ref?.uuid || ref
+
+/**
+ * Recomputes the formula values of one object against the current values of
+ * its parents, children and referenced objects, and saves the ones that
+ * changed.
+ */
+export async function recomputeObjectFormulas(
+  client: any,
+  aggregate: any
+): Promise<FormulaRecomputeResult> {
+  const properties = (aggregate.properties || []).filter(
+    (prop: any) => !prop.softDeleted
+  )
+  if (!hasFormulaValues(properties)) return recomputeFormulas(properties)
+
+  const parentUuids: string[] = (aggregate.parents || [])
+    .map(toUuid)
+    .filter(Boolean)
+  const referencedUuids = getFormulaReferencedUuids(properties).filter(
+    (uuid) => uuid !== aggregate.uuid && !parentUuids.includes(uuid)
+  )
+
+  const [parents, children, referenced] = await Promise.all([
+    Promise.all(parentUuids.map((uuid) => fetchAggregateByUuid(client, uuid))),
+    fetchAggregateChildren(client, aggregate.uuid),
+    Promise.all(
+      referencedUuids.map((uuid) => fetchAggregateByUuid(client, uuid))
+    ),
+  ])
+
+  const result = recomputeFormulas(properties, [
+    ...parents.flatMap((parent) => buildObjectSources(parent, 'parent')),
+    ...buildChildrenSources(children),
+    ...referenced.flatMap((object) => buildObjectSources(object, 'object')),
+  ])
+
+  // A value that fails to save is reported as failed, the others are still
+  // saved
+  for (const property of result.changed) {
+    const stale = (property.values || [])
+      .map((value: any, index: number) => ({
+        id: `${property.uuid}::${index}`,
+        value,
+      }))
+      .filter(({ id }: { id: string }) => result.stale.includes(id))
+    const saves = await Promise.allSettled(
+      stale.map(({ value }: { value: any }) =>
+        client.node.setValueForProperty(property.uuid, value)
+      )
+    )
+    saves.forEach((save, index) => {
+      if (save.status === 'fulfilled') return
+      const { id } = stale[index]
+      logger.error(`Failed to save formula value ${id}:`, save.reason)
+      result.stale = result.stale.filter((staleId) => staleId !== id)
+      result.failed.push({
+        id,
+        propertyKey: property.key,
+        error:
+          save.reason instanceof Error
+            ? save.reason.message
+            : String(save.reason),
+      })
+    })
+  }
+
+  return result
+}
+
+const countFormulaValues = (aggregate: any): number =>
+  (aggregate.properties || [])
+    .filter((prop: any) => !prop.softDeleted)
+    .flatMap((prop: any) => prop.values || [])
+    .filter((value: any) => !!value.formulaData?.formula).length
+
+/**
+ * Children before their parents, so a parent's sum(children.x) sees the
+ * recomputed child values
+ */
+function orderChildrenFirst(aggregates: any[]): any[] {
+  const byUuid = new Map(aggregates.map((a) => [a.uuid, a]))
+  const ordered: any[] = []
+  const visited = new Set<string>()
+
+  const visit = (aggregate: any) => {
+    if (visited.has(aggregate.uuid)) return
+    visited.add(aggregate.uuid)
+    ;(aggregate.children || []).forEach((child: any) => {
+      const selected = byUuid.get(toUuid(child))
+      if (selected) visit(selected)
+    })
+    ordered.push(aggregate)
+  }
+
+  aggregates.forEach(visit)
+  return ordered
+}
+
+// ─── hook ───────────────────────────────────────────────────────────────────
+
+/**
+ * Hook for bringing stored formula results up to date, for one object or a
+ * bulk selection.
+ */
+export function useRecomputeFormulas() {
+  const client = useIomSdkClient()
+  const queryClient = useQueryClient()
+  const t = useTranslations()
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      uuids,
+    }: RecomputeFormulasParams): Promise<RecomputeFormulasSummary> => {
+      const aggregates = (
+        await Promise.all(
+          uuids.map((uuid) => fetchAggregateByUuid(client, uuid))
+        )
+      ).filter(Boolean)
+
+      const summary: RecomputeFormulasSummary = {
+        objects: aggregates.length,
+        updated: 0,
+        failed: 0,
+        cycles: [],
+      }
+
+      // An object that fails counts its formulas as failed, the bulk
+      // recompute carries on with the next one
+      for (const aggregate of orderChildrenFirst(aggregates)) {
+        let result: FormulaRecomputeResult
+        try {
+          result = await recomputeObjectFormulas(client, aggregate)
+        } catch (error) {
+          logger.error(
+            `Failed to recompute formulas of ${aggregate.uuid}:`,
+            error
+          )
+          summary.failed += countFormulaValues(aggregate)
+          continue
+        }
+        summary.updated += result.stale.length
+        summary.failed += result.failed.length
+        result.cycles.forEach((keys) =>
+          summary.cycles.push(
+            `${aggregate.name || aggregate.uuid}: ${keys.join(' → ')}`
+          )
+        )
+      }
+
+      return summary
+    },
+    onSuccess: (summary) => {
+      queryClient.invalidateQueries({ queryKey: ['object'] })
+      queryClient.invalidateQueries({ queryKey: ['aggregates'] })
+      queryClient.invalidateQueries({ queryKey: ['aggregate'] })
+
+      toast.success(
+        t('objects.formulas.recomputed', { count: summary.updated })
+      )
+      if (summary.cycles.length > 0) {
+        logger.warn('Formula cycles skipped:', summary.cycles)
+        toast.warning(
+          t('objects.formulas.cycles', { cycles: summary.cycles.join('; ') })
+        )
+      }
+      if (summary.failed > 0) {
+        toast.warning(t('objects.formulas.failed', { count: summary.failed }))
+      }
+    },
+    onError: (error) => {
+      logger.error('Recompute formulas failed:', error)
+      toast.error(t('objects.formulas.recomputeFailed'))
+    },
+  })
+
+  return {
+    recomputeFormulas: mutation.mutate,
+    isRecomputing: mutation.isPending,
+  }
+}
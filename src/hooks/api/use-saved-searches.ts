@@ -0,0 +1,103 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { useAuth, useIomSdkClient } from '@/contexts'
+import type { SavedSearch, SavedSearchInput } from '@/types'
+
+const SAVED_SEARCHES_ENDPOINT = '/api/saved-searches'
+
+/**
+ * Hook for the current user's saved searches, stored server-side per user
+ */
+export function useSavedSearches() {
+  const client = useIomSdkClient()
+  const queryClient = useQueryClient()
+  const { isAuthenticated, userUUID } = useAuth()
+
+  const request = async (
+    input: string,
+    init: { method?: string; body?: string } = {}
+  ) => {
+    const token = client.getToken()
+    if (!token) {
+      throw new Error('No authentication token available. Please login first.')
+    }
+
+    const response = await fetch(input, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Saved search request failed')
+    }
+    return data
+  }
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ['savedSearches'] })
+
+  const useListSavedSearches = (options = {}) => {
+    return useQuery({
+      queryKey: ['savedSearches', userUUID],
+      queryFn: async (): Promise<SavedSearch[]> => {
+        const data = await request(SAVED_SEARCHES_ENDPOINT)
+        return data.searches
+      },
+      enabled: isAuthenticated,
+      staleTime: 60000,
+      ...options,
+    })
+  }
+
+  const useCreateSavedSearch = () => {
+    return useMutation({
+      mutationFn: async (input: SavedSearchInput): Promise<SavedSearch> => {
+        const data = await request(SAVED_SEARCHES_ENDPOINT, {
+          method: 'POST',
+          body: JSON.stringify(input),
+        })
+        return data.search
+      },
+      onSuccess: invalidate,
+    })
+  }
+
+  const useUpdateSavedSearch = () => {
+    return useMutation({
+      mutationFn: async ({
+        id,
+        ...changes
+      }: Partial<SavedSearchInput> & { id: string }): Promise<SavedSearch> => {
+        const data = await request(SAVED_SEARCHES_ENDPOINT, {
+          method: 'PATCH',
+          body: JSON.stringify({ id, ...changes }),
+        })
+        return data.search
+      },
+      onSuccess: invalidate,
+    })
+  }
+
+  const useDeleteSavedSearch = () => {
+    return useMutation({
+      mutationFn: async (id: string) => {
+        await request(
+          `${SAVED_SEARCHES_ENDPOINT}?id=${encodeURIComponent(id)}`,
+          { method: 'DELETE' }
+        )
+      },
+      onSuccess: invalidate,
+    })
+  }
+
+  return {
+    useListSavedSearches,
+    useCreateSavedSearch,
+    useUpdateSavedSearch,
+    useDeleteSavedSearch,
+  }
+}
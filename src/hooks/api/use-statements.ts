@@ -10,6 +10,13 @@ import type {
 
 import { useIomSdkClient } from '@/contexts'
 import type { ProcessMetadata, MaterialFlowMetadata } from '@/types'
+import {
+  buildProcessStatementProperties,
+  namespaceFlowMetadata,
+  type ProcessStatement,
+} from '@/lib/process-statements'
+import type { ProcessUpdatePlan } from '@/lib/process-versions'
+import { generateUUIDv7, logger } from '@/lib'
 import { toast } from 'sonner'
 import { useTranslations } from 'next-intl'
 
@@ -36,17 +43,21 @@ export function useStatements() {
 
   // Search statements by predicate (useful for filtering process relationships)
   // Uses accessFind: { readDefaultGroup: true } to search within user's groups
+  // Pass softDeleted: true to search the deleted statements instead
   const useStatementsByPredicate = (
     predicate: string,
-    options?: { enabled?: boolean }
+    options?: { enabled?: boolean; softDeleted?: boolean }
   ) => {
+    const softDeleted = options?.softDeleted ?? false
     return useQuery({
-      queryKey: ['statements', 'predicate', predicate],
+      queryKey: softDeleted
+        ? ['statements', 'predicate', predicate, 'deleted']
+        : ['statements', 'predicate', predicate],
       queryFn: async () => {
         return await client.node.searchStatements({
           uuStatementFind: {
             predicate: predicate as Predicate,
-            softDeleted: false,
+            softDeleted,
           },
           accessFind: { readDefaultGroup: true },
         })
@@ -104,94 +115,10 @@ export function useStatements() {
         materialMetadata?: MaterialFlowMetadata
       }) => {
         // Create statement properties from process metadata
-        const properties: UUStatementsProperty[] = [
-          // Core process properties
-          {
-            key: 'processName',
-            values: [{ value: processMetadata.processName }],
-          },
-          {
-            key: 'processType',
-            values: [{ value: processMetadata.processType }],
-          },
-          {
-            key: 'quantity',
-            values: [{ value: processMetadata.quantity.toString() }],
-          },
-          {
-            key: 'unit',
-            values: [{ value: processMetadata.unit }],
-          },
-        ]
-
-        // Add process-level lifecycle metadata
-        if (processMetadata.processCategory) {
-          properties.push({
-            key: 'processCategory',
-            values: [{ value: processMetadata.processCategory }],
-          })
-        }
-        if (processMetadata.isRecycling !== undefined) {
-          properties.push({
-            key: 'isRecycling',
-            values: [{ value: String(processMetadata.isRecycling) }],
-          })
-        }
-        if (processMetadata.isDeconstruction !== undefined) {
-          properties.push({
-            key: 'isDeconstruction',
-            values: [{ value: String(processMetadata.isDeconstruction) }],
-          })
-        }
-        if (processMetadata.sourceBuildingUuid) {
-          properties.push({
-            key: 'sourceBuildingUuid',
-            values: [{ value: processMetadata.sourceBuildingUuid }],
-          })
-        }
-        if (processMetadata.targetBuildingUuid) {
-          properties.push({
-            key: 'targetBuildingUuid',
-            values: [{ value: processMetadata.targetBuildingUuid }],
-          })
-        }
-
-        // Add material-level flow metadata if provided
-        if (materialMetadata) {
-          Object.entries(materialMetadata).forEach(([key, value]) => {
-            if (value !== undefined && value !== null) {
-              properties.push({
-                key,
-                values: [{ value: String(value) }],
-              })
-            }
-          })
-        }
-
-        // Add any additional metadata properties not already handled
-        Object.entries(processMetadata)
-          .filter(
-            ([key]) =>
-              ![
-                'processName',
-                'processType',
-                'quantity',
-                'unit',
-                'processCategory',
-                'isRecycling',
-                'isDeconstruction',
-                'sourceBuildingUuid',
-                'targetBuildingUuid',
-              ].includes(key)
-          )
-          .forEach(([key, value]) => {
-            if (value !== undefined && value !== null) {
-              properties.push({
-                key,
-                values: [{ value: String(value) }],
-              })
-            }
-          })
+        const properties = buildProcessStatementProperties(
+          processMetadata,
+          materialMetadata
+        ) as UUStatementsProperty[]
 
         // Create the statement with properties - use direct client call to avoid invalidation
         const statement = await client.node.createStatement({
@@ -238,43 +165,15 @@ export function useStatements() {
         }>
       }) => {
         const results = []
+        // Every flow of the process shares its identity
+        const processId = processMetadata.processId || generateUUIDv7()
 
         // Create ONLY input relationships (input materials → output materials)
         // This avoids creating redundant IS_OUTPUT_OF statements that cause cycles
         for (const input of inputMaterials) {
           for (const output of outputMaterials) {
             // Create namespaced metadata to avoid conflicts
-            const namespacedMetadata: MaterialFlowMetadata = {}
-
-            // Add input-specific properties with "input_" prefix
-            if (input.metadata) {
-              Object.entries(input.metadata).forEach(([key, value]) => {
-                if (value !== undefined && value !== null) {
-                  ;(namespacedMetadata as any)[`input_${key}`] = value
-                }
-              })
-            }
-
-            // Add output-specific properties with "output_" prefix
-            if (output.metadata) {
-              Object.entries(output.metadata).forEach(([key, value]) => {
-                if (value !== undefined && value !== null) {
-                  ;(namespacedMetadata as any)[`output_${key}`] = value
-                }
-              })
-            }
-
-            // Add input quantity and unit with namespace
-            namespacedMetadata.input_quantity = input.quantity
-            namespacedMetadata.input_unit = input.unit
-
-            // Add output quantity and unit with namespace (always store both)
-            if (output.quantity !== undefined) {
-              namespacedMetadata.output_quantity = output.quantity
-            }
-            if (output.unit) {
-              namespacedMetadata.output_unit = output.unit
-            }
+            const namespacedMetadata = namespaceFlowMetadata(input, output)
 
             const result = await createProcessStatementMutation.mutateAsync({
               subject: input.uuid,
@@ -282,6 +181,7 @@ export function useStatements() {
               object: output.uuid,
               processMetadata: {
                 ...processMetadata,
+                processId,
                 // No legacy quantity/unit - use namespaced versions only
               },
               materialMetadata: namespacedMetadata,
@@ -300,6 +200,67 @@ export function useStatements() {
     })
   }
 
+  // Apply an edit of a process. Statements are soft-deleted by subject,
+  // predicate and object, so changed flows are soft-deleted before they are
+  // created again and recreated as they were when that fails. Dropped flows
+  // are only soft-deleted once the new statements exist. A failed restore is
+  // reported on its own, the save error is what the mutation fails with.
+  const useUpdateProcessFlow = () => {
+    return useMutation({
+      mutationFn: async ({
+        remove,
+        create,
+      }: Pick<ProcessUpdatePlan, 'remove' | 'create'>) => {
+        const softDelete = (statement: ProcessStatement) =>
+          client.node.softDeleteStatement(
+            statement.subject as UUID,
+            statement.predicate as Predicate,
+            statement.object as UUID
+          )
+        const createdPairs = new Set(
+          create.map((statement) => `${statement.subject}:${statement.object}`)
+        )
+        const isReplaced = (statement: ProcessStatement) =>
+          createdPairs.has(`${statement.subject}:${statement.object}`)
+
+        const replaced: ProcessStatement[] = []
+        try {
+          for (const statement of remove.filter(isReplaced)) {
+            await softDelete(statement)
+            replaced.push(statement)
+          }
+          if (create.length > 0) {
+            await client.node.createStatements(create as UUStatementDTO[])
+          }
+        } catch (error) {
+          if (replaced.length > 0) {
+            try {
+              await client.node.createStatements(replaced as UUStatementDTO[])
+            } catch (restoreError) {
+              logger.error('Failed to restore replaced process flows:', {
+                error: restoreError,
+                statements: replaced,
+              })
+              toast.error(
+                t('processes.edit.restoreFailed', { count: replaced.length })
+              )
+              queryClient.invalidateQueries({ queryKey: ['statements'] })
+            }
+          }
+          throw error
+        }
+
+        for (const statement of remove.filter((s) => !isReplaced(s))) {
+          await softDelete(statement)
+        }
+      },
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: ['statements'] })
+        queryClient.invalidateQueries({ queryKey: ['aggregates'] })
+      },
+    })
+  }
+
   // Find all relationships for an entity (legacy - use useObjectRelationships instead)
   const useFindAllRelationships = (
     entityUuid: UUID,
@@ -399,6 +360,7 @@ export function useStatements() {
     useCreateStatements,
     useCreateProcessStatement,
     useCreateProcessFlow,
+    useUpdateProcessFlow,
     useFindAllRelationships,
     useObjectRelationships,
     useDeleteStatement,
@@ -3,3 +3,5 @@ export * from './use-column-mapper'
 export * from './use-file-processor'
 export * from './use-bulk-import'
 export * from './use-import-manager'
+export * from './use-merge-import'
+export * from './use-process-import'
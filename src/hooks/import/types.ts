@@ -2,6 +2,9 @@
  * Shared types for import-related hooks and components
  */
 
+import type { ImportValidationReport } from '@/lib/import-validation'
+import type { ImportMergeSummary } from '@/lib/import-merge'
+
 export type ImportJobStatus =
   | 'pending'
   | 'receiving'
@@ -11,6 +14,11 @@ export type ImportJobStatus =
   | 'failed'
   | 'cancelled'
 
+export interface ImportFailureGroup {
+  error: string
+  count: number
+}
+
 export interface ImportJobSummary {
   jobId: string
   status: ImportJobStatus
@@ -20,10 +28,21 @@ export interface ImportJobSummary {
   createdAt: number | null
   completedAt: number | null
   error: string | null
+  // Validated only, nothing was imported
+  dryRun?: boolean
+  // Objects a merge import updated or left alone instead of creating them
+  merge?: ImportMergeSummary | null
+  // Job this job retries the failed objects of
+  parentJobId?: string | null
+  // Job that retried this job's failed objects
+  retryJobId?: string | null
 }
 
 export interface ImportJobDetails extends ImportJobSummary {
-  // Additional fields from detailed status API
+  // Validation report of dry-run jobs
+  report?: ImportValidationReport | null
+  // Stored failures by error message, these objects can be retried
+  failureGroups?: ImportFailureGroup[]
 }
 
 /**
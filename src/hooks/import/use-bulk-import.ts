@@ -5,6 +5,13 @@ import { useTranslations } from 'next-intl'
 import { useIomSdkClient } from '@/contexts'
 import { logger } from '@/lib'
 import { API_CHUNK_SIZE } from '@/constants'
+import type { ImportPayloadObject } from '@/lib/import-hierarchy'
+import type {
+  ImportMergeFailure,
+  ImportMergeKey,
+  ImportMergeSummary,
+} from '@/lib/import-merge'
+import { useMergeImport } from './use-merge-import'
 
 interface UseBulkImportOptions {
   onImportStarted?: (jobId: string) => void
@@ -12,10 +19,26 @@ interface UseBulkImportOptions {
   autoRedirect?: boolean
 }
 
+interface StartBulkImportOptions {
+  // Only validate the objects and store a report, nothing is imported
+  dryRun?: boolean
+  // Update objects matching this key instead of creating duplicates
+  merge?: ImportMergeKey | null
+}
+
+// Sent with the objects and stored on the job
+interface ImportJobOptions {
+  dryRun: boolean
+  merge?: ImportMergeSummary
+  // Recorded as failures of the job, only sent with the first chunk
+  mergeFailures?: ImportMergeFailure[]
+}
+
 interface UseBulkImportResult {
   isImporting: boolean
   startBulkImport: (
-    data: unknown[]
+    data: unknown[],
+    options?: StartBulkImportOptions
   ) => Promise<{ success: boolean; jobId?: string; error?: string }>
 }
 
@@ -25,6 +48,9 @@ interface ChunkPayload {
   chunkIndex: number
   totalChunks: number
   sessionId: string | null
+  dryRun: boolean
+  merge?: ImportMergeSummary
+  mergeFailures?: ImportMergeFailure[]
 }
 
 interface ApiResponse {
@@ -41,10 +67,12 @@ export function useBulkImport({
   const client = useIomSdkClient()
   const [isImporting, setIsImporting] = useState(false)
   const t = useTranslations()
+  const { mergeObjects } = useMergeImport()
 
   const startBulkImport = useCallback(
     async (
-      mappedData: unknown[]
+      mappedData: unknown[],
+      { dryRun = false, merge = null }: StartBulkImportOptions = {}
     ): Promise<{ success: boolean; jobId?: string; error?: string }> => {
       if (isImporting) {
         return { success: false, error: 'Import already in progress' }
@@ -61,9 +89,32 @@ export function useBulkImport({
           )
         }
 
+        const jobOptions: ImportJobOptions = { dryRun }
+        let objects = mappedData
+
+        // Dry runs validate everything as new objects
+        if (merge && !dryRun) {
+          toast.loading(t('import.toasts.matching'), { id: 'merge-import' })
+          try {
+            const result = await mergeObjects(
+              mappedData as ImportPayloadObject[],
+              merge,
+              (done, total) =>
+                toast.loading(t('import.toasts.updating', { done, total }), {
+                  id: 'merge-import',
+                })
+            )
+            objects = result.create
+            jobOptions.merge = result.summary
+            jobOptions.mergeFailures = result.failures
+          } finally {
+            toast.dismiss('merge-import')
+          }
+        }
+
         // Estimate data size for chunked upload decision
         const estimatedDataSizeMB =
-          JSON.stringify(mappedData).length / (1024 * 1024)
+          JSON.stringify(objects).length / (1024 * 1024)
 
         let jobId: string
 
@@ -74,17 +125,24 @@ export function useBulkImport({
               size: estimatedDataSizeMB.toFixed(2),
             })
           )
-          jobId = await handleChunkedUpload(mappedData, token)
+          jobId = await handleChunkedUpload(objects, token, jobOptions)
         } else {
           // Standard upload for smaller datasets
-          jobId = await handleStandardUpload(mappedData, token)
+          jobId = await handleStandardUpload(objects, token, jobOptions)
         }
 
         if (jobId) {
           onImportStarted?.(jobId)
-          toast.success(t('import.toasts.jobStarted'), {
-            description: t('import.importJobId', { id: jobId }),
-          })
+          toast.success(
+            t(
+              dryRun
+                ? 'import.toasts.dryRunStarted'
+                : 'import.toasts.jobStarted'
+            ),
+            {
+              description: t('import.importJobId', { id: jobId }),
+            }
+          )
 
           if (autoRedirect) {
             router.push(`/import-status?jobId=${jobId}`)
@@ -112,6 +170,7 @@ export function useBulkImport({
     [
       isImporting,
       client,
+      mergeObjects,
       onImportStarted,
       onImportError,
       autoRedirect,
@@ -122,10 +181,12 @@ export function useBulkImport({
 
   const handleStandardUpload = async (
     mappedData: unknown[],
-    jwtToken: string
+    jwtToken: string,
+    jobOptions: ImportJobOptions
   ): Promise<string> => {
     const payload = {
       aggregateEntityList: mappedData,
+      ...jobOptions,
     }
 
     const response = await fetch('/api/import', {
@@ -148,7 +209,8 @@ export function useBulkImport({
 
   const handleChunkedUpload = async (
     mappedData: unknown[],
-    jwtToken: string
+    jwtToken: string,
+    jobOptions: ImportJobOptions
   ): Promise<string> => {
     const totalObjects = mappedData.length
     const totalChunks = Math.ceil(totalObjects / API_CHUNK_SIZE)
@@ -191,6 +253,9 @@ export function useBulkImport({
         chunkIndex,
         totalChunks,
         sessionId: jobId, // Only null for first chunk
+        dryRun: jobOptions.dryRun,
+        merge: jobOptions.merge,
+        ...(chunkIndex === 0 && { mergeFailures: jobOptions.mergeFailures }),
       }
 
       const response = await fetch('/api/import/chunk', {
@@ -1,6 +1,7 @@
 import { useState, useEffect, useMemo, useCallback } from 'react'
 
 import { logger } from '@/lib'
+import { resolveSpreadsheetParents } from '@/lib/import-hierarchy'
 import {
   IMPORT_HEADER_ROW_KEY,
   IMPORT_START_ROW_KEY,
@@ -63,6 +64,9 @@ export const DEFAULT_PROPERTIES: PropertyDefinition[] = [
   { key: 'description', label: 'Description' },
   { key: 'version', label: 'Version' },
   { key: 'abbreviation', label: 'Abbreviation' },
+  { key: 'parent', label: 'Parent' },
+  { key: 'parentPath', label: 'Parent path' },
+  { key: 'uuid', label: 'UUID' },
   { key: '__property__', label: 'As Property', isCustomProperty: true },
 ]
 
@@ -231,9 +235,10 @@ export function useColumnMapper({
     // Use all rows from start index, not just preview rows
     const allDataRows = sheetData.slice(startRowIndex)
 
-    return allDataRows.map((row) => {
+    const rows = allDataRows.map((row, rowIndex) => {
       const obj: Record<string, any> = {
         properties: [], // Initialize properties as an array of objects, not a nested object
+        sourceRow: startRowIndex + rowIndex + 1, // Spreadsheet row number, for failure reports
       }
 
       Object.entries(columnMapping).forEach(([colIndex, propKey]) => {
@@ -264,6 +269,9 @@ export function useColumnMapper({
 
       return obj
     })
+
+    // Parent / Parent path columns become references between the rows
+    return resolveSpreadsheetParents(rows, startRowIndex + 1)
   }, [sheetData, startRowIndex, columnMapping])
 
   // Map multiple columns as properties
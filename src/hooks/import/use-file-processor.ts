@@ -2,12 +2,16 @@ import { useState, useCallback } from 'react'
 import Papa from 'papaparse'
 
 import { logger } from '@/lib'
+import type { ImportPayloadObject } from '@/lib/import-hierarchy'
+import { parseJsonImport } from '@/lib/import-json'
 import { MAX_FILE_SIZE_MB, STREAM_CHUNK_SIZE } from '@/constants'
 
 export interface SheetData {
   name: string
   data: any[]
   suggestedStartRow?: number
+  // Set for JSON files that already match the import schema
+  objects?: ImportPayloadObject[]
 }
 
 export interface UseFileProcessorProps {
@@ -25,7 +29,7 @@ export interface UseFileProcessorResult {
 }
 
 /**
- * Hook for processing XLSX and CSV files with improved handling of large files
+ * Hook for processing XLSX, CSV and JSON files with improved handling of large files
  */
 export function useFileProcessor({
   onProgress,
@@ -66,12 +70,18 @@ export function useFileProcessor({
         }
 
         // Check file type
-        if (!file.name.endsWith('.xlsx') && !file.name.endsWith('.csv')) {
-          throw new Error('Please upload an XLSX or CSV file')
+        if (
+          !file.name.endsWith('.xlsx') &&
+          !file.name.endsWith('.csv') &&
+          !file.name.endsWith('.json')
+        ) {
+          throw new Error('Please upload an XLSX, CSV or JSON file')
         }
 
         // Use different processing based on file type
-        if (file.name.endsWith('.csv')) {
+        if (file.name.endsWith('.json')) {
+          return await processJSONFile(file)
+        } else if (file.name.endsWith('.csv')) {
           // For CSV files, use dedicated CSV parser
           return await processCSVFile(file)
         } else {
@@ -156,6 +166,26 @@ export function useFileProcessor({
     [updateProgress]
   )
 
+  // Process JSON files
+  const processJSONFile = useCallback(
+    async (file: File): Promise<SheetData[]> => {
+      updateProgress(10)
+      const text = await file.text()
+      updateProgress(40)
+
+      const parsed = parseJsonImport(text)
+      updateProgress(100)
+
+      if (parsed.kind === 'objects') {
+        return [{ name: file.name, data: [], objects: parsed.objects }]
+      }
+
+      // Records with their own schema go through the column mapper
+      return [{ name: file.name, data: parsed.rows, suggestedStartRow: 0 }]
+    },
+    [updateProgress]
+  )
+
   // Process standard-sized files
   const processStandardFile = useCallback(
     async (file: File): Promise<SheetData[]> => {
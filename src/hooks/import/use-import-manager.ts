@@ -1,9 +1,12 @@
 import { useState, useEffect, useCallback } from 'react'
-import { useAuth } from '@/contexts'
+import { useAuth, useIomSdkClient } from '@/contexts'
 import { logger } from '@/lib'
-import { ImportJobSummary, isActiveJobStatus } from './types'
+import type { FailureReportFormat } from '@/lib/import-failure-report'
+import type { ImportPayloadObject } from '@/lib/import-hierarchy'
+import { ImportJobDetails, ImportJobSummary, isActiveJobStatus } from './types'
+import { useMergeImport } from './use-merge-import'
 
-export interface ImportManagerJobDetails extends ImportJobSummary {
+export interface ImportManagerJobDetails extends ImportJobDetails {
   // Additional fields from detailed status API if needed
 }
 
@@ -31,12 +34,24 @@ interface UseImportManagerResult {
   // Job cancellation
   cancelJob: (jobId: string) => Promise<void>
   cancellingJobId: string | null
+
+  // Retry failed objects, resolves with the retry job's ID
+  retryJob: (jobId: string) => Promise<string>
+  retryingJobId: string | null
+
+  // Download the failed objects of a job as a spreadsheet
+  downloadFailureReport: (
+    jobId: string,
+    format: FailureReportFormat
+  ) => Promise<void>
 }
 
 export function useImportManager(
   initialJobId?: string | null
 ): UseImportManagerResult {
   const { userUUID } = useAuth()
+  const client = useIomSdkClient()
+  const { mergeObjects } = useMergeImport()
 
   // Jobs list state
   const [jobs, setJobs] = useState<ImportJobSummary[]>([])
@@ -58,6 +73,9 @@ export function useImportManager(
   // Cancel job state
   const [cancellingJobId, setCancellingJobId] = useState<string | null>(null)
 
+  // Retry job state
+  const [retryingJobId, setRetryingJobId] = useState<string | null>(null)
+
   // Fetch all jobs
   const fetchJobs = useCallback(async () => {
     try {
@@ -195,6 +213,104 @@ export function useImportManager(
     [fetchJobs, fetchSelectedJob, selectedJobId]
   )
 
+  // Retry the failed objects of a job in a new job
+  const retryJob = useCallback(
+    async (jobId: string) => {
+      try {
+        setRetryingJobId(jobId)
+        const token = client.getToken()
+        if (!token) {
+          throw new Error(
+            'No authentication token available. Please login first.'
+          )
+        }
+
+        const retryUrl = `/api/import/jobs/${jobId}/retry`
+        const updatesResponse = await fetch(retryUrl, {
+          headers: { Authorization: `Bearer ${token}` },
+        })
+        if (!updatesResponse.ok) {
+          const errorData = await updatesResponse.json()
+          throw new Error(errorData.error || 'Failed to retry job')
+        }
+
+        // Failed merge updates are applied here, the retry job records the
+        // ones that fail again and creates objects that no longer exist
+        const { updates } = (await updatesResponse.json()) as {
+          updates: ImportPayloadObject[]
+        }
+        const mergeResult =
+          updates.length > 0
+            ? await mergeObjects(updates, { type: 'uuid' })
+            : null
+
+        const response = await fetch(retryUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify(
+            mergeResult
+              ? {
+                  merge: mergeResult.summary,
+                  mergeFailures: mergeResult.failures,
+                  aggregateEntityList: mergeResult.create,
+                }
+              : {}
+          ),
+        })
+
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.error || 'Failed to retry job')
+        }
+
+        const result = (await response.json()) as { jobId: string }
+        await fetchJobs()
+        return result.jobId
+      } catch (err) {
+        logger.error('Error retrying job:', err)
+        throw err
+      } finally {
+        setRetryingJobId(null)
+      }
+    },
+    [client, fetchJobs, mergeObjects]
+  )
+
+  const downloadFailureReport = useCallback(
+    async (jobId: string, format: FailureReportFormat) => {
+      const token = client.getToken()
+      if (!token) {
+        throw new Error(
+          'No authentication token available. Please login first.'
+        )
+      }
+
+      const response = await fetch(
+        `/api/import/jobs/${jobId}/failures?format=${format}`,
+        { headers: { Authorization: `Bearer ${token}` } }
+      )
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to download failure report')
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `import-failures-${jobId.substring(0, 8)}.${format}`
+      document.body.appendChild(link)
+      link.click()
+
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+    },
+    [client]
+  )
+
   return {
     // Jobs list
     jobs,
@@ -219,5 +335,10 @@ export function useImportManager(
     // Job cancellation
     cancelJob,
     cancellingJobId,
+
+    // Job retry
+    retryJob,
+    retryingJobId,
+    downloadFailureReport,
   }
 }
@@ -0,0 +1,209 @@
+import { useCallback } from 'react'
+
+import { useIomSdkClient } from '@/contexts'
+import { fetchAggregateByUuid } from '@/hooks/api/use-aggregate'
+import { DEFAULT_VALUE_TYPE_CAST, logger } from '@/lib'
+import type { ImportPayloadObject } from '@/lib/import-hierarchy'
+import {
+  planImportMerge,
+  type ExistingImportObject,
+  type ImportMergeFailure,
+  type ImportMergeKey,
+  type ImportMergeSummary,
+  type ImportObjectUpdate,
+} from '@/lib/import-merge'
+
+const MERGE_PAGE_SIZE = 100
+
+/**
+ * Looks up existing objects by UUID, one request each. Unknown and
+ * soft-deleted objects are left out.
+ */
+export async function fetchObjectsByUuid(
+  client: any,
+  uuids: string[]
+): Promise<ExistingImportObject[]> {
+  const objects: ExistingImportObject[] = []
+  for (const uuid of uuids) {
+    const aggregate = await fetchAggregateByUuid(client, uuid)
+    if (aggregate && !aggregate.softDeleted) objects.push(aggregate)
+  }
+  return objects
+}
+
+async function fetchAllObjects(
+  client: any,
+  searchBy: Record<string, unknown>
+): Promise<ExistingImportObject[]> {
+  const objects: ExistingImportObject[] = []
+  let page = 0
+  let hasMore = true
+
+  while (hasMore) {
+    const response = await client.node.searchAggregates({
+      accessFind: { readDefaultGroup: true },
+      searchBy: { softDeleted: false, isTemplate: false, ...searchBy },
+      page,
+      size: MERGE_PAGE_SIZE,
+    })
+
+    objects.push(...(response?.content || []))
+    hasMore = !!response?.content?.length && !response?.last
+    page++
+  }
+
+  return objects
+}
+
+/**
+ * Looks up existing objects by name. The search also returns partial
+ * matches, only objects whose name equals one of the names (ignoring case
+ * and surrounding whitespace) are kept.
+ */
+export async function fetchObjectsByName(
+  client: any,
+  names: string[]
+): Promise<ExistingImportObject[]> {
+  const objects = new Map<string, ExistingImportObject>()
+  for (const name of new Set(names.map((name) => name.trim()))) {
+    const wanted = name.toLowerCase()
+    const found = await fetchAllObjects(client, { name })
+    found
+      .filter((object) => object.name?.trim().toLowerCase() === wanted)
+      .forEach((object) => objects.set(object.uuid, object))
+  }
+  return [...objects.values()]
+}
+
+/**
+ * Fetches the existing objects import objects can be matched against: by
+ * UUID one by one, by the names of the import objects, or the objects that
+ * have the merge property.
+ */
+export async function fetchMergeCandidates(
+  client: any,
+  objects: ImportPayloadObject[],
+  mergeKey: ImportMergeKey
+): Promise<ExistingImportObject[]> {
+  if (mergeKey.type === 'uuid') {
+    const uuids = objects
+      .map((object) => object.uuid?.trim())
+      .filter((uuid): uuid is string => !!uuid)
+    return fetchObjectsByUuid(client, [...new Set(uuids)])
+  }
+
+  if (mergeKey.type === 'nameParent') {
+    const names = objects
+      .map((object) => object.name?.trim())
+      .filter((name): name is string => !!name)
+    return fetchObjectsByName(client, names)
+  }
+
+  return fetchAllObjects(client, { 'properties.label': mergeKey.propertyKey })
+}
+
+/**
+ * Applies one planned update: changed object fields through
+ * createOrUpdateObject, then each changed property's values through
+ * setValueForProperty. Properties the object doesn't have yet are added, a
+ * replaced property is soft-deleted after its replacement is saved.
+ */
+export async function applyMergeUpdate(
+  client: any,
+  update: ImportObjectUpdate
+): Promise<void> {
+  if (update.fields) {
+    await client.node.createOrUpdateObject({
+      uuid: update.uuid,
+      ...update.fields,
+    })
+  }
+
+  for (const change of update.properties) {
+    let propertyUuid = change.propertyUuid
+    if (!propertyUuid) {
+      const property = await client.node.addPropertyToObject(update.uuid, {
+        key: change.key,
+        label: change.label || change.key,
+        type: change.type,
+      })
+      propertyUuid = property?.uuid
+      if (!propertyUuid) {
+        throw new Error(`Failed to add property "${change.key}"`)
+      }
+    }
+
+    for (const value of change.values) {
+      await client.node.setValueForProperty(propertyUuid, {
+        ...(value.uuid && { uuid: value.uuid }),
+        value: value.value,
+        valueTypeCast: value.valueTypeCast || DEFAULT_VALUE_TYPE_CAST,
+      })
+    }
+
+    if (change.replacesPropertyUuid) {
+      await client.node.softDeleteProperty(change.replacesPropertyUuid)
+    }
+  }
+}
+
+interface UseMergeImportResult {
+  // Updates matched objects and returns the objects that still need creating
+  mergeObjects: (
+    objects: ImportPayloadObject[],
+    mergeKey: ImportMergeKey,
+    onProgress?: (done: number, total: number) => void
+  ) => Promise<{
+    create: ImportPayloadObject[]
+    summary: ImportMergeSummary
+    // Updates that failed, to be recorded on the import job
+    failures: ImportMergeFailure[]
+  }>
+}
+
+export function useMergeImport(): UseMergeImportResult {
+  const client = useIomSdkClient()
+
+  const mergeObjects = useCallback<UseMergeImportResult['mergeObjects']>(
+    async (objects, mergeKey, onProgress) => {
+      const existing = await fetchMergeCandidates(client, objects, mergeKey)
+      const plan = planImportMerge(objects, existing, mergeKey)
+      const positions = new Map(objects.map((object, index) => [object, index]))
+
+      let updated = 0
+      const failures: ImportMergeFailure[] = []
+      for (const update of plan.updates) {
+        try {
+          await applyMergeUpdate(client, update)
+          updated++
+        } catch (error) {
+          logger.error(`Failed to update object ${update.uuid}:`, error)
+          const source = plan.sources.get(update.uuid)
+          failures.push({
+            object: {
+              ...source,
+              name: source?.name ?? update.name,
+              uuid: update.uuid,
+            },
+            index: source ? (positions.get(source) ?? -1) : -1,
+            error: error instanceof Error ? error.message : 'Update failed',
+          })
+        }
+        onProgress?.(updated + failures.length, plan.updates.length)
+      }
+
+      return {
+        create: plan.create,
+        summary: {
+          updated,
+          unchanged: plan.unchanged,
+          failed: failures.length,
+        },
+        failures,
+      }
+    },
+    [client]
+  )
+
+  return { mergeObjects }
+}
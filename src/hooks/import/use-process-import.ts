@@ -0,0 +1,88 @@
+import { useCallback } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+
+import { useIomSdkClient } from '@/contexts'
+import { PROCESS_IMPORT_BATCH_SIZE } from '@/constants'
+import { logger } from '@/lib'
+import {
+  getProcessImportReferences,
+  planProcessImport,
+  type ProcessImportFlow,
+  type ProcessImportPlan,
+  type ProcessImportRow,
+} from '@/lib/import-processes'
+import { fetchObjectsByName, fetchObjectsByUuid } from './use-merge-import'
+
+export interface ProcessImportFailure {
+  rows: number[]
+  error: string
+}
+
+export interface ProcessImportResult {
+  created: number
+  failures: ProcessImportFailure[]
+}
+
+interface UseProcessImportResult {
+  // Validates the rows and resolves their materials against existing objects
+  planImport: (rows: ProcessImportRow[]) => Promise<ProcessImportPlan>
+  // Creates the flows' statements in batches, a failed batch doesn't stop
+  // the ones after it
+  importFlows: (
+    flows: ProcessImportFlow[],
+    onProgress?: (done: number, total: number) => void
+  ) => Promise<ProcessImportResult>
+}
+
+export function useProcessImport(): UseProcessImportResult {
+  const client = useIomSdkClient()
+  const queryClient = useQueryClient()
+
+  const planImport = useCallback<UseProcessImportResult['planImport']>(
+    async (rows) => {
+      // Only the referenced materials are fetched, UUIDs directly and
+      // names through a search. UUIDs that match no object may be names.
+      const { uuids, names } = getProcessImportReferences(rows)
+      const byUuid = await fetchObjectsByUuid(client, uuids)
+      const found = new Set(byUuid.map((object) => object.uuid))
+      const byName = await fetchObjectsByName(client, [
+        ...names,
+        ...uuids.filter((uuid) => !found.has(uuid)),
+      ])
+      return planProcessImport(rows, [...byUuid, ...byName])
+    },
+    [client]
+  )
+
+  const importFlows = useCallback<UseProcessImportResult['importFlows']>(
+    async (flows, onProgress) => {
+      let created = 0
+      const failures: ProcessImportFailure[] = []
+
+      for (let i = 0; i < flows.length; i += PROCESS_IMPORT_BATCH_SIZE) {
+        const batch = flows.slice(i, i + PROCESS_IMPORT_BATCH_SIZE)
+        try {
+          await client.node.createStatements(
+            batch.map((flow) => flow.statement)
+          )
+          created += batch.length
+        } catch (error) {
+          logger.error('Failed to create process flow statements:', error)
+          failures.push({
+            rows: batch.map((flow) => flow.row),
+            error: error instanceof Error ? error.message : String(error),
+          })
+        }
+        onProgress?.(Math.min(i + batch.length, flows.length), flows.length)
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['statements'] })
+      queryClient.invalidateQueries({ queryKey: ['aggregates'] })
+
+      return { created, failures }
+    },
+    [client, queryClient]
+  )
+
+  return { planImport, importFlows }
+}
@@ -7,6 +7,10 @@ export * from './api/use-import-api'
 export * from './api/use-objects'
 export * from './api/use-properties'
 export * from './api/use-groups'
+export * from './api/use-saved-searches'
+export * from './api/use-process-templates'
+export * from './api/use-formula-templates'
+export * from './api/use-model-schemas'
 export * from './api/use-statements'
 export * from './api/use-uuid'
 
@@ -20,6 +24,8 @@ export * from './import/use-bulk-import'
 export * from './import/use-column-mapper'
 export * from './import/use-file-processor'
 export * from './import/use-import-manager'
+export * from './import/use-merge-import'
+export * from './import/use-process-import'
 
 // Process Hooks - Business logic
 export * from './process/use-object-processes'
@@ -29,6 +35,7 @@ export * from './ui/use-bulk-actions'
 export * from './ui/use-bulk-selection'
 export * from './ui/use-debounce'
 export * from './ui/use-pagination'
+export * from './ui/use-search-url-sync'
 export * from './ui/use-unified-delete'
 
 // Utility Hooks - General utilities
@@ -1,3 +1,4 @@
 export * from './use-debounce'
 export * from './use-pagination'
 export * from './use-unified-delete'
+export * from './use-search-url-sync'
@@ -4,7 +4,9 @@ import { useMemo, useCallback } from 'react'
 import type { RowSelectionState } from '@tanstack/react-table'
 
 import { isObjectDeleted } from '@/lib'
+import type { ObjectExportFlavour } from '@/lib/object-export'
 import { useBulkActions } from '@/hooks'
+import { useExportObjects, useRecomputeFormulas } from '@/hooks/api'
 
 interface UseBulkSelectionOptions {
   data: any[]
@@ -24,12 +26,16 @@ interface UseBulkSelectionReturn {
     handleAddToGroup: (groupUUID: string) => void
     handleCreateAndAddToGroup: (name: string) => void
     handleSetParent: (parentUUID: string) => void
+    handleExport: (flavour: ObjectExportFlavour) => void
+    handleRecomputeFormulas: () => void
   }
   mutations: {
     isDeleting: boolean
     isRestoring: boolean
     isAddingToGroup: boolean
     isSettingParent: boolean
+    isExporting: boolean
+    isRecomputing: boolean
   }
 }
 
@@ -50,6 +56,8 @@ export function useBulkSelection({
     bulkCreateAndAddToGroupMutation,
     bulkSetParentMutation,
   } = useBulkActions()
+  const { exportObjects, isExporting } = useExportObjects()
+  const { recomputeFormulas, isRecomputing } = useRecomputeFormulas()
 
   // Derive selected objects from data based on rowSelection
   const selectedObjects = useMemo(() => {
@@ -126,6 +134,25 @@ export function useBulkSelection({
     [selectedObjects, bulkSetParentMutation, clearSelection]
   )
 
+  // Export keeps the selection so more actions can follow
+  const handleExport = useCallback(
+    (flavour: ObjectExportFlavour) => {
+      const uuids = selectedObjects.map((obj: any) => obj.uuid)
+      if (uuids.length === 0) return
+      exportObjects({ uuids, flavour })
+    },
+    [selectedObjects, exportObjects]
+  )
+
+  // Recompute keeps the selection too, deleted objects are left alone
+  const handleRecomputeFormulas = useCallback(() => {
+    const uuids = selectedObjects
+      .filter((obj: any) => !isObjectDeleted(obj))
+      .map((obj: any) => obj.uuid)
+    if (uuids.length === 0) return
+    recomputeFormulas({ uuids })
+  }, [selectedObjects, recomputeFormulas])
+
   return {
     selectedObjects,
     selectedCount,
@@ -138,6 +165,8 @@ export function useBulkSelection({
       handleAddToGroup,
       handleCreateAndAddToGroup,
       handleSetParent,
+      handleExport,
+      handleRecomputeFormulas,
     },
     mutations: {
       isDeleting: bulkDeleteMutation.isPending,
@@ -146,6 +175,8 @@ export function useBulkSelection({
         bulkAddToGroupMutation.isPending ||
         bulkCreateAndAddToGroupMutation.isPending,
       isSettingParent: bulkSetParentMutation.isPending,
+      isExporting,
+      isRecomputing,
     },
   }
 }
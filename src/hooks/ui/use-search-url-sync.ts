@@ -0,0 +1,68 @@
+'use client'
+
+import { useCallback, useEffect, useRef } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+
+import { useSearch } from '@/contexts'
+import { SEARCH_QUERY_PARAM } from '@/lib/search-url'
+
+/**
+ * Keeps the active search and the `?q=` query string parameter in sync,
+ * so a filtered result set can be shared as a link and survives reloads.
+ *
+ * Returns a clear handler that also removes the parameter from the URL.
+ */
+export function useSearchUrlSync() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { isSearchMode, searchQuery, executeAdvancedSearch, clearSearch } =
+    useSearch()
+
+  // Last query written to or read from the URL, to avoid sync loops
+  const syncedQueryRef = useRef<string | null>(null)
+  const urlQuery = searchParams.get(SEARCH_QUERY_PARAM)
+
+  const replaceUrlQuery = useCallback(
+    (query: string | null) => {
+      const params = new URLSearchParams(searchParams.toString())
+      if (query) {
+        params.set(SEARCH_QUERY_PARAM, query)
+      } else {
+        params.delete(SEARCH_QUERY_PARAM)
+      }
+      const search = params.toString()
+      router.replace(search ? `${pathname}?${search}` : pathname, {
+        scroll: false,
+      })
+    },
+    [router, pathname, searchParams]
+  )
+
+  // URL → search: run the search from a pasted or navigated link
+  useEffect(() => {
+    if (urlQuery && urlQuery !== syncedQueryRef.current) {
+      syncedQueryRef.current = urlQuery
+      executeAdvancedSearch(urlQuery)
+    } else if (!urlQuery && syncedQueryRef.current) {
+      syncedQueryRef.current = null
+      clearSearch()
+    }
+  }, [urlQuery])
+
+  // Search → URL: reflect searches started from the command center
+  useEffect(() => {
+    if (isSearchMode && searchQuery && searchQuery !== urlQuery) {
+      syncedQueryRef.current = searchQuery
+      replaceUrlQuery(searchQuery)
+    }
+  }, [isSearchMode, searchQuery])
+
+  const clearSearchAndUrl = useCallback(() => {
+    syncedQueryRef.current = null
+    clearSearch()
+    if (urlQuery) replaceUrlQuery(null)
+  }, [clearSearch, replaceUrlQuery, urlQuery])
+
+  return { clearSearch: clearSearchAndUrl }
+}
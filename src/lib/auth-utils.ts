@@ -1,4 +1,16 @@
 import { NextRequest } from 'next/server'
+import crypto from 'crypto'
+
+import { decodeJWTPayload, isJWTExpired } from './jwt-utils'
+import { logger } from './logger'
+import { getRedis } from './redis'
+import { REDIS_KEYS } from './redis-utils'
+
+// Longest time a token verified by the API is trusted without asking again
+const VERIFIED_TOKEN_TTL_SECONDS = 5 * 60
+// How long to wait for the API before treating a token as unverified or an
+// object as inaccessible
+const NODE_API_TIMEOUT_MS = 5000
 
 /**
  * Check if request is from localhost (for development)
@@ -7,3 +19,134 @@ export function isLocalhost(req: NextRequest): boolean {
   const host = req.headers.get('host') || ''
   return host.includes('localhost') || host.includes('127.0.0.1')
 }
+
+/**
+ * Extract the JWT bearer token from the Authorization header
+ */
+export function getBearerToken(req: Request): string | null {
+  const authorization = req.headers.get('authorization')
+  if (!authorization || !authorization.startsWith('Bearer ')) {
+    return null
+  }
+  return authorization.substring(7) // Remove 'Bearer ' prefix
+}
+
+/**
+ * Ask the node API whether it accepts the token. The API checks the
+ * signature, so only a successful response verifies the token. Errors,
+ * timeouts and an unreachable API leave it unverified.
+ */
+async function isTokenAcceptedByApi(
+  token: string,
+  userUUID: string
+): Promise<boolean> {
+  const nodeApiUrl = process.env.NODE_API_URL
+  if (!nodeApiUrl) {
+    logger.error('Cannot verify JWT token: NODE_API_URL is not configured')
+    return false
+  }
+
+  const response = await fetch(`${nodeApiUrl}/api/UUStatements/search`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ uuStatementFind: { subject: userUUID } }),
+    signal: AbortSignal.timeout(NODE_API_TIMEOUT_MS),
+  })
+
+  if (!response.ok && response.status !== 401 && response.status !== 403) {
+    logger.error('Cannot verify JWT token: API responded with', {
+      status: response.status,
+    })
+  }
+  return response.ok
+}
+
+/**
+ * Resolve the requesting user's UUID from a verified JWT bearer token.
+ * Verification results are cached in Redis until the token expires, at most
+ * for VERIFIED_TOKEN_TTL_SECONDS.
+ */
+export async function getRequestUserUUID(req: Request): Promise<string | null> {
+  const token = getBearerToken(req)
+  if (!token) return null
+
+  const payload = decodeJWTPayload(token)
+  if (!payload?.userUUID || isJWTExpired(payload)) return null
+
+  const tokenHash = crypto.createHash('sha256').update(token).digest('hex')
+  const cacheKey = REDIS_KEYS.verifiedToken(tokenHash)
+
+  try {
+    const redis = getRedis()
+    if ((await redis.get(cacheKey)) === payload.userUUID) {
+      return payload.userUUID
+    }
+
+    if (!(await isTokenAcceptedByApi(token, payload.userUUID))) {
+      logger.security('rejected_jwt_token', { userUUID: payload.userUUID })
+      return null
+    }
+
+    const secondsLeft = payload.exp
+      ? Math.floor(payload.exp - Date.now() / 1000)
+      : VERIFIED_TOKEN_TTL_SECONDS
+    const ttl = Math.min(secondsLeft, VERIFIED_TOKEN_TTL_SECONDS)
+    if (ttl > 0) {
+      await redis.setex(cacheKey, ttl, payload.userUUID)
+    }
+
+    return payload.userUUID
+  } catch (error) {
+    logger.error('Failed to verify JWT token', { error })
+    return null
+  }
+}
+
+export type ObjectAccess = 'read' | 'edit'
+
+/**
+ * Ask the node API whether the token's user can read an object, or edit it:
+ * find it through one of their own groups. Errors and timeouts count as no
+ * access.
+ */
+export async function canAccessObject(
+  token: string,
+  uuid: string,
+  access: ObjectAccess
+): Promise<boolean> {
+  const nodeApiUrl = process.env.NODE_API_URL
+  if (!nodeApiUrl) {
+    logger.error('Cannot check object access: NODE_API_URL is not configured')
+    return false
+  }
+
+  try {
+    const response = await fetch(`${nodeApiUrl}/api/Aggregate/search`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        accessFind:
+          access === 'edit'
+            ? { readOwnGroups: true }
+            : { readDefaultGroup: true },
+        searchBy: { uuid, softDeleted: false },
+        page: 0,
+        size: 1,
+      }),
+      signal: AbortSignal.timeout(NODE_API_TIMEOUT_MS),
+    })
+    if (!response.ok) return false
+
+    const data = await response.json()
+    return (data?.content || []).some((object: any) => object?.uuid === uuid)
+  } catch (error) {
+    logger.error('Failed to check object access', { uuid, error })
+    return false
+  }
+}
@@ -0,0 +1,214 @@
+import type {
+  EnhancedMaterialObject,
+  EnhancedMaterialRelationship,
+} from '@/types'
+import { convertQuantity } from './units'
+
+// Unit the circularity masses are computed in
+export const CIRCULARITY_UNIT = 'kg'
+
+// Utility factor F(X) = 0.9 / X, with the product's utility X taken as the
+// industry average (X = 1) since lifetime and intensity of use aren't recorded
+const UTILITY_FACTOR = 0.9
+
+export type CircularFlowSource = 'virgin' | 'recycled' | 'reused'
+export type CircularFlowDestination = 'waste' | 'recycled' | 'reused'
+
+export interface CircularityFlow {
+  relationship: EnhancedMaterialRelationship
+  // Input into the product, or where the product goes at end of life
+  role: 'input' | 'endOfLife'
+  kind: CircularFlowSource | CircularFlowDestination
+  mass: number
+}
+
+export interface ProductCircularity {
+  uuid: string
+  name: string
+  // Mass of the inputs, M
+  mass: number
+  // Virgin feedstock, V
+  virginMass: number
+  recycledInput: number
+  reusedInput: number
+  recycledOutput: number
+  reusedOutput: number
+  // Unrecoverable waste, W
+  wasteMass: number
+  linearFlowIndex: number
+  mci: number
+  flows: CircularityFlow[]
+  // Flows left out because they have no mass quantity
+  excluded: number
+}
+
+const RECYCLING_CATEGORIES = ['RECYCLING', 'DOWNCYCLING', 'CIRCULAR']
+
+export function isProductNode(material: EnhancedMaterialObject): boolean {
+  return (
+    material.lifecycleStage === 'PRODUCT' ||
+    material.lifecycleStage === 'USE_PHASE'
+  )
+}
+
+function classifyInput(rel: EnhancedMaterialRelationship): CircularFlowSource {
+  const stage = rel.inputMaterial?.lifecycleStage
+  if (stage === 'REUSED_COMPONENT' || rel.flowCategory === 'REUSE') {
+    return 'reused'
+  }
+  if (
+    stage === 'SECONDARY_INPUT' ||
+    RECYCLING_CATEGORIES.includes(rel.flowCategory || '')
+  ) {
+    return 'recycled'
+  }
+  return 'virgin'
+}
+
+function classifyEndOfLife(
+  rel: EnhancedMaterialRelationship
+): CircularFlowDestination {
+  const stage = rel.outputMaterial?.lifecycleStage
+  if (stage === 'WASTE' || stage === 'DISPOSAL') return 'waste'
+  if (stage === 'REUSED_COMPONENT' || rel.flowCategory === 'REUSE') {
+    return 'reused'
+  }
+  if (
+    stage === 'SECONDARY_INPUT' ||
+    RECYCLING_CATEGORIES.includes(rel.flowCategory || '')
+  ) {
+    return 'recycled'
+  }
+  return 'waste'
+}
+
+function flowMass(
+  quantity: number | undefined,
+  unit: string | undefined
+): number | null {
+  if (!quantity) return null
+  return convertQuantity(quantity, unit, CIRCULARITY_UNIT)
+}
+
+function lossFraction(rel: EnhancedMaterialRelationship): number {
+  return Math.min(1, Math.max(0, (rel.materialLossPercent || 0) / 100))
+}
+
+/**
+ * Material Circularity Indicator (Ellen MacArthur Foundation) of one product
+ *
+ * Inputs are the flows into the product, classified by the lifecycle stage of
+ * the input and the flow category. End-of-life flows are the flows out of it;
+ * without any, all of the product goes to landfill. Masses are in kg, flows
+ * without a mass quantity are left out.
+ */
+export function computeProductCircularity(
+  product: { uuid: string; name: string },
+  relationships: EnhancedMaterialRelationship[]
+): ProductCircularity {
+  const flows: CircularityFlow[] = []
+  let excluded = 0
+  // Waste from producing recycled feedstock (WF) and from recycling the
+  // product at end of life (WC)
+  let feedstockWaste = 0
+  let recyclingWaste = 0
+
+  relationships.forEach((rel) => {
+    if (rel.object.uuid === product.uuid) {
+      const mass = flowMass(
+        rel.inputMaterial?.quantity ?? rel.quantity,
+        rel.inputMaterial?.unit || rel.unit
+      )
+      if (mass === null) {
+        excluded++
+        return
+      }
+      const kind = classifyInput(rel)
+      if (kind === 'recycled') feedstockWaste += mass * lossFraction(rel)
+      flows.push({ relationship: rel, role: 'input', kind, mass })
+    } else if (rel.subject.uuid === product.uuid) {
+      // A process with several outputs repeats the product's input quantity
+      // on each flow, so take the quantity of each destination instead
+      const mass = flowMass(
+        rel.outputMaterial?.quantity,
+        rel.outputMaterial?.unit
+      )
+      if (mass === null) {
+        excluded++
+        return
+      }
+      const kind = classifyEndOfLife(rel)
+      if (kind === 'recycled') recyclingWaste += mass * lossFraction(rel)
+      flows.push({ relationship: rel, role: 'endOfLife', kind, mass })
+    }
+  })
+
+  const sum = (role: CircularityFlow['role'], kind: CircularityFlow['kind']) =>
+    flows
+      .filter((flow) => flow.role === role && flow.kind === kind)
+      .reduce((total, flow) => total + flow.mass, 0)
+
+  const recycledInput = sum('input', 'recycled')
+  const reusedInput = sum('input', 'reused')
+  const mass = recycledInput + reusedInput + sum('input', 'virgin')
+
+  // Collected for recycling and reuse can't exceed the product's mass
+  const reusedOutput = Math.min(sum('endOfLife', 'reused'), mass)
+  const recycledOutput = Math.min(
+    sum('endOfLife', 'recycled'),
+    mass - reusedOutput
+  )
+
+  const virginMass = mass - recycledInput - reusedInput
+  const landfillMass = mass - recycledOutput - reusedOutput
+  const wasteMass = landfillMass + (feedstockWaste + recyclingWaste) / 2
+
+  const denominator = 2 * mass + (feedstockWaste - recyclingWaste) / 2
+  const linearFlowIndex =
+    denominator > 0 ? (virginMass + wasteMass) / denominator : 1
+  const mci = mass > 0 ? Math.max(0, 1 - linearFlowIndex * UTILITY_FACTOR) : 0
+
+  return {
+    uuid: product.uuid,
+    name: product.name,
+    mass,
+    virginMass,
+    recycledInput,
+    reusedInput,
+    recycledOutput,
+    reusedOutput,
+    wasteMass,
+    linearFlowIndex,
+    mci,
+    flows,
+    excluded,
+  }
+}
+
+/**
+ * MCI of every product or building with mass inputs, highest mass first
+ */
+export function computeCircularity(
+  materials: EnhancedMaterialObject[],
+  relationships: EnhancedMaterialRelationship[]
+): ProductCircularity[] {
+  return materials
+    .filter(isProductNode)
+    .map((material) => computeProductCircularity(material, relationships))
+    .filter((product) => product.mass > 0)
+    .sort((a, b) => b.mass - a.mass)
+}
+
+/**
+ * Mass-weighted MCI of a set of products, null without any product mass
+ */
+export function averageCircularity(
+  products: ProductCircularity[]
+): number | null {
+  const totalMass = products.reduce((sum, product) => sum + product.mass, 0)
+  if (totalMass === 0) return null
+  return (
+    products.reduce((sum, product) => sum + product.mci * product.mass, 0) /
+    totalMass
+  )
+}
@@ -0,0 +1,124 @@
+import type { EnhancedMaterialRelationship } from '@/types'
+import { groupProcessFlows, type ProcessFlowGroup } from './mass-balance'
+import { convertQuantity } from './units'
+
+// Unit embodied carbon is computed in
+export const EMBODIED_CARBON_UNIT = 'kg CO2e'
+
+export interface EmbodiedCarbon {
+  // Cumulative emissions of the processes up to and including the ones
+  // producing the material, in kg CO2e
+  total: number
+  // Share of the emissions of the producing processes themselves
+  direct: number
+  // Mass produced by the processes, null when it isn't in a mass unit
+  mass: number | null
+  // kg CO2e per kg produced
+  intensity: number | null
+}
+
+const toMass = (quantity?: number, unit?: string): number | null =>
+  quantity ? convertQuantity(quantity, unit, 'kg') : null
+
+function processEmissions(group: ProcessFlowGroup): number {
+  const rel = group.relationships.find((r) => r.emissionsTotal)
+  if (!rel?.emissionsTotal) return 0
+  return (
+    convertQuantity(
+      rel.emissionsTotal,
+      rel.emissionsUnit || EMBODIED_CARBON_UNIT,
+      EMBODIED_CARBON_UNIT
+    ) ?? 0
+  )
+}
+
+/**
+ * Roll process emissions up through the process graph
+ *
+ * Processes are walked from primary inputs to final products. Each process
+ * passes on the embodied carbon of its inputs plus its own emissions,
+ * allocated to its outputs by mass (evenly when the outputs have no mass
+ * quantities). An input carries its material's carbon intensity times the
+ * mass used, or an even share of the material's carbon when either mass is
+ * unknown. Processes in a loop are taken in order once nothing else is left,
+ * with the carbon of the loop as far as it's known by then.
+ */
+export function computeEmbodiedCarbon(
+  relationships: EnhancedMaterialRelationship[]
+): Map<string, EmbodiedCarbon> {
+  const groups = groupProcessFlows(relationships)
+  const result = new Map<string, EmbodiedCarbon>()
+  const get = (uuid: string): EmbodiedCarbon => {
+    let carbon = result.get(uuid)
+    if (!carbon) {
+      carbon = { total: 0, direct: 0, mass: null, intensity: null }
+      result.set(uuid, carbon)
+    }
+    return carbon
+  }
+
+  // Processes producing and consuming each material
+  const producers = new Map<string, ProcessFlowGroup[]>()
+  const consumers = new Map<string, number>()
+  groups.forEach((group) => {
+    group.inputs.forEach((_, uuid) => {
+      get(uuid)
+      consumers.set(uuid, (consumers.get(uuid) || 0) + 1)
+    })
+    group.outputs.forEach((output, uuid) => {
+      const carbon = get(uuid)
+      producers.set(uuid, [...(producers.get(uuid) || []), group])
+      const mass = toMass(output.quantity, output.unit)
+      if (mass !== null) carbon.mass = (carbon.mass || 0) + mass
+    })
+  })
+
+  const done = new Set<ProcessFlowGroup>()
+  const isReady = (group: ProcessFlowGroup) =>
+    [...group.inputs.keys()].every((uuid) =>
+      (producers.get(uuid) || []).every(
+        (producer) => producer === group || done.has(producer)
+      )
+    )
+
+  const pending = [...groups]
+  while (pending.length > 0) {
+    const index = Math.max(0, pending.findIndex(isReady))
+    const [group] = pending.splice(index, 1)
+
+    let carried = 0
+    group.inputs.forEach((input, uuid) => {
+      const carbon = get(uuid)
+      const mass = toMass(input.quantity, input.unit)
+      carried +=
+        carbon.mass && mass !== null
+          ? (carbon.total / carbon.mass) * mass
+          : carbon.total / (consumers.get(uuid) || 1)
+    })
+
+    const emissions = processEmissions(group)
+    const outputs = [...group.outputs.entries()].map(([uuid, output]) => ({
+      uuid,
+      mass: toMass(output.quantity, output.unit),
+    }))
+    const outputMass = outputs.every((output) => output.mass !== null)
+      ? outputs.reduce((sum, output) => sum + (output.mass || 0), 0)
+      : 0
+
+    outputs.forEach((output) => {
+      const share =
+        outputMass > 0 ? (output.mass || 0) / outputMass : 1 / outputs.length
+      const carbon = get(output.uuid)
+      carbon.total += (carried + emissions) * share
+      carbon.direct += emissions * share
+    })
+
+    done.add(group)
+  }
+
+  result.forEach((carbon) => {
+    carbon.intensity = carbon.mass ? carbon.total / carbon.mass : null
+  })
+
+  return result
+}
@@ -0,0 +1,121 @@
+/**
+ * Import Failure Report
+ *
+ * Turns the failure records of an import job into a spreadsheet that can be
+ * fixed and imported again: the object's fields and properties get their own
+ * columns next to the row, error and the payload that was sent.
+ */
+
+import Papa from 'papaparse'
+
+import type { FailureRecord } from './redis-utils'
+import { toImportPayload, type ImportPayloadObject } from './import-hierarchy'
+
+export type FailureReportFormat = 'csv' | 'xlsx'
+
+export interface FailureReport {
+  headers: string[]
+  rows: (string | number)[][]
+}
+
+const OBJECT_COLUMNS = [
+  ['Name', 'name'],
+  ['Description', 'description'],
+  ['Abbreviation', 'abbreviation'],
+  ['Version', 'version'],
+] as const
+
+// Characters that make spreadsheet apps read a cell as a formula
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r']
+
+/**
+ * Imported text is shown as text, a leading quote keeps values such as
+ * "=HYPERLINK(...)" from running as formulas when the report is opened
+ */
+function escapeFormula(value: string): string {
+  return FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix))
+    ? `'${value}`
+    : value
+}
+
+/**
+ * Build the report rows, ordered by their row in the original import
+ */
+export function buildFailureReport(failures: FailureRecord[]): FailureReport {
+  const objects = failures.map(
+    (failure) => failure.object as unknown as ImportPayloadObject
+  )
+
+  // Parents that failed too are referenced by name, they're in the report
+  const namesByImportId = new Map<string, string>()
+  objects.forEach((object) => {
+    if (object.importId) namesByImportId.set(object.importId, object.name)
+  })
+
+  const propertyKeys: string[] = []
+  objects.forEach((object) =>
+    object.properties?.forEach((property) => {
+      if (property.key && !propertyKeys.includes(property.key)) {
+        propertyKeys.push(property.key)
+      }
+    })
+  )
+
+  const rows = failures
+    .map((failure, index) => {
+      const object = objects[index]
+      // Only the first parent fits the "Parent" column
+      const parent =
+        object.parents?.[0] ||
+        namesByImportId.get(object.parentImportIds?.[0] || '') ||
+        ''
+      const values = new Map(
+        (object.properties || []).map((property) => [
+          property.key,
+          (property.values || []).map((value) => value.value).join('; '),
+        ])
+      )
+
+      return [
+        object.sourceRow ?? failure.index + 1,
+        failure.detail || failure.error,
+        ...OBJECT_COLUMNS.map(([, field]) => object[field] || ''),
+        parent,
+        object.uuid || '',
+        ...propertyKeys.map((key) => values.get(key) || ''),
+        JSON.stringify(toImportPayload(object)),
+      ].map((cell) => (typeof cell === 'string' ? escapeFormula(cell) : cell))
+    })
+    .sort((a, b) => Number(a[0]) - Number(b[0]))
+
+  return {
+    headers: [
+      'Row',
+      'Error',
+      ...OBJECT_COLUMNS.map(([label]) => label),
+      'Parent',
+      'UUID',
+      ...propertyKeys,
+      'Payload',
+    ].map(escapeFormula),
+    rows,
+  }
+}
+
+export function failureReportToCsv(report: FailureReport): string {
+  return Papa.unparse({ fields: report.headers, data: report.rows })
+}
+
+export async function failureReportToXlsx(
+  report: FailureReport
+): Promise<Buffer> {
+  const ExcelJSModule = await import('exceljs')
+  const workbook = new ExcelJSModule.default.Workbook()
+  const worksheet = workbook.addWorksheet('Failures')
+
+  worksheet.addRow(report.headers).font = { bold: true }
+  worksheet.addRows(report.rows)
+  worksheet.views = [{ state: 'frozen', ySplit: 1 }]
+
+  return Buffer.from(await workbook.xlsx.writeBuffer())
+}
@@ -0,0 +1,359 @@
+/**
+ * Import Hierarchy
+ *
+ * Objects in an import can point at parents created by the same import
+ * through `importId` / `parentImportIds`, and at existing objects through
+ * `parents` (UUIDs). The import processor creates objects level by level
+ * and links each one to its parents with `IS_PARENT_OF` statements once
+ * their UUIDs are known.
+ *
+ * Spreadsheet rows get these references from the "Parent" and
+ * "Parent path" columns, see `resolveSpreadsheetParents`.
+ */
+
+import type { ImportObjectData } from '@/hooks/api/use-import-api'
+
+export interface ImportPayloadObject extends ImportObjectData {
+  // Reference used by other objects in the same import to point at this one
+  importId?: string
+  // Parents that are created by the same import
+  parentImportIds?: string[]
+  // Existing object to update, used by merge imports
+  uuid?: string
+  // Row of the object in the source spreadsheet (1-based)
+  sourceRow?: number
+  // "Parent" value that matched no row, UUID or name in the sheet
+  unresolvedParent?: string
+}
+
+// Separator between the levels of a "Parent path" value
+export const PARENT_PATH_SEPARATOR = '>'
+
+// Error type of failure records of created objects that couldn't be linked
+// to their parents. The objects exist, so they are never imported again.
+export const PARENT_LINK_FAILED = 'PARENT_LINK_FAILED'
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+// `#12` or `row 12`, the row number as shown in the spreadsheet
+const ROW_REFERENCE_PATTERN = /^(?:#|row\s*)(\d+)$/i
+
+/**
+ * Group import objects into levels so every object comes after the parents
+ * it references. Objects without parents in the import form the first level.
+ */
+function groupByImportLevel<T extends ImportPayloadObject>(
+  objects: T[]
+): T[][] {
+  const byImportId = new Map<string, T>()
+  objects.forEach((object) => {
+    if (object.importId) byImportId.set(object.importId, object)
+  })
+
+  const depths = new Map<T, number>()
+  const depthOf = (object: T, path: Set<T>): number => {
+    const known = depths.get(object)
+    if (known !== undefined) return known
+    if (path.has(object)) return 0
+
+    path.add(object)
+    let depth = 0
+    for (const ref of object.parentImportIds || []) {
+      const parent = byImportId.get(ref)
+      if (parent) depth = Math.max(depth, depthOf(parent, path) + 1)
+    }
+    path.delete(object)
+
+    depths.set(object, depth)
+    return depth
+  }
+
+  const levels: T[][] = []
+  objects.forEach((object) => {
+    const depth = depthOf(object, new Set())
+    ;(levels[depth] ||= []).push(object)
+  })
+  return levels.filter(Boolean)
+}
+
+/**
+ * Groups of import objects whose parents in the import lead back to
+ * themselves, like A → B → A. None of them can be created after its parents.
+ */
+export function findParentCycles<T extends ImportPayloadObject>(
+  objects: T[]
+): T[][] {
+  const byImportId = new Map<string, T>()
+  objects.forEach((object) => {
+    if (object.importId) byImportId.set(object.importId, object)
+  })
+
+  // Strongly connected components of the parent references (Tarjan)
+  const order = new Map<T, number>()
+  const lowLink = new Map<T, number>()
+  const stack: T[] = []
+  const onStack = new Set<T>()
+  const cycles: T[][] = []
+
+  const visit = (object: T) => {
+    order.set(object, order.size)
+    lowLink.set(object, order.get(object)!)
+    stack.push(object)
+    onStack.add(object)
+
+    for (const ref of object.parentImportIds || []) {
+      const parent = byImportId.get(ref)
+      if (!parent) continue
+      if (!order.has(parent)) {
+        visit(parent)
+        lowLink.set(
+          object,
+          Math.min(lowLink.get(object)!, lowLink.get(parent)!)
+        )
+      } else if (onStack.has(parent)) {
+        lowLink.set(object, Math.min(lowLink.get(object)!, order.get(parent)!))
+      }
+    }
+
+    if (lowLink.get(object) !== order.get(object)) return
+    const component: T[] = []
+    let member: T
+    do {
+      member = stack.pop()!
+      onStack.delete(member)
+      component.push(member)
+    } while (member !== object)
+    const selfReference = (object.parentImportIds || []).includes(
+      object.importId || ''
+    )
+    if (component.length > 1 || selfReference) cycles.push(component.reverse())
+  }
+
+  objects.forEach((object) => {
+    if (!order.has(object)) visit(object)
+  })
+  return cycles
+}
+
+/**
+ * Order import objects so every object comes after the parents it references
+ */
+export function sortByImportLevel<T extends ImportPayloadObject>(
+  objects: T[]
+): T[] {
+  return groupByImportLevel(objects).flat()
+}
+
+/**
+ * Split import objects into batches of at most `batchSize`, level by level,
+ * so no batch contains both an object and one of its parents
+ */
+export function splitImportBatches<T extends ImportPayloadObject>(
+  objects: T[],
+  batchSize: number
+): T[][] {
+  const batches: T[][] = []
+  for (const level of groupByImportLevel(objects)) {
+    for (let i = 0; i < level.length; i += batchSize) {
+      batches.push(level.slice(i, i + batchSize))
+    }
+  }
+  return batches
+}
+
+/**
+ * The object as sent to the Node API import endpoint. Parents are linked
+ * afterwards with statements, so hierarchy fields are left out. New objects
+ * get their UUID from the API.
+ */
+export function toImportPayload(object: ImportPayloadObject): ImportObjectData {
+  const payload: ImportPayloadObject = { ...object }
+  delete payload.importId
+  delete payload.parentImportIds
+  delete payload.parents
+  delete payload.uuid
+  delete payload.sourceRow
+  delete payload.unresolvedParent
+  return payload
+}
+
+/**
+ * UUIDs of all parents of an import object, replacing references to parents
+ * created earlier in the same import with their UUIDs. Returns null when one
+ * of those parents wasn't created or couldn't be found in the sheet.
+ */
+export function resolveImportParents(
+  object: ImportPayloadObject,
+  createdUuids: Map<string, string>
+): string[] | null {
+  if (object.unresolvedParent) return null
+
+  const created = (object.parentImportIds || []).map((ref) =>
+    createdUuids.get(ref)
+  )
+  if (created.some((uuid) => !uuid)) return null
+
+  return [...new Set([...(object.parents || []), ...(created as string[])])]
+}
+
+/**
+ * Replace references to parents created earlier in the same import with
+ * their UUIDs, so the object can be imported again on its own (retries)
+ */
+export function linkCreatedParents(
+  object: ImportPayloadObject,
+  createdUuids: Map<string, string>
+): ImportPayloadObject {
+  const created = (object.parentImportIds || []).filter((ref) =>
+    createdUuids.has(ref)
+  )
+  if (created.length === 0) return object
+
+  const linked: ImportPayloadObject = {
+    ...object,
+    parents: [
+      ...new Set([
+        ...(object.parents || []),
+        ...created.map((ref) => createdUuids.get(ref)!),
+      ]),
+    ],
+    parentImportIds: object.parentImportIds!.filter(
+      (ref) => !createdUuids.has(ref)
+    ),
+  }
+  if (linked.parentImportIds!.length === 0) delete linked.parentImportIds
+  return linked
+}
+
+/**
+ * Split a "Parent path" value such as `Building A > Floor 2` into its levels
+ */
+export function parseParentPath(value: string): string[] {
+  return value
+    .split(PARENT_PATH_SEPARATOR)
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+}
+
+const pathKey = (segments: string[]) =>
+  segments.map((segment) => segment.toLowerCase()).join(PARENT_PATH_SEPARATOR)
+
+/**
+ * Turn the `parent` / `parentPath` fields of mapped spreadsheet rows into
+ * import references.
+ *
+ * A parent can be a row reference (`#12`), the UUID of an existing object
+ * or the name of another row. A parent that is none of these is kept as
+ * `unresolvedParent`, which validation reports against the row. A parent
+ * path is matched level by level against the rows' own paths. Path levels
+ * that aren't rows in the sheet are added as extra objects, so
+ * `Building A > Floor 2` creates both levels when they're missing.
+ *
+ * @param firstRowNumber - spreadsheet row number (1-based) of the first row
+ */
+export function resolveSpreadsheetParents(
+  rows: Record<string, any>[],
+  firstRowNumber: number
+): ImportPayloadObject[] {
+  const hasHierarchy = rows.some((row) => row.parent || row.parentPath)
+  if (!hasHierarchy) return rows as ImportPayloadObject[]
+
+  const objects: ImportPayloadObject[] = rows.map((row, index) => {
+    const object: ImportPayloadObject = {
+      ...row,
+      name: row.name ?? '',
+      importId: `row:${firstRowNumber + index}`,
+    }
+    delete (object as Record<string, any>).parent
+    delete (object as Record<string, any>).parentPath
+    return object
+  })
+
+  // Lookups for the rows themselves
+  const byName = new Map<string, ImportPayloadObject>()
+  const byPath = new Map<string, ImportPayloadObject>()
+  rows.forEach((row, index) => {
+    const object = objects[index]
+    const name = String(object.name).trim()
+    if (!name) return
+
+    if (!byName.has(name.toLowerCase())) byName.set(name.toLowerCase(), object)
+
+    const segments = row.parentPath
+      ? [...parseParentPath(String(row.parentPath)), name]
+      : row.parent
+        ? undefined
+        : [name]
+    if (segments && !byPath.has(pathKey(segments))) {
+      byPath.set(pathKey(segments), object)
+    }
+  })
+
+  // Objects created for path levels that aren't rows
+  const added: ImportPayloadObject[] = []
+  const ensurePath = (segments: string[]): string => {
+    const key = pathKey(segments)
+    const existing = byPath.get(key)
+    if (existing) return existing.importId!
+
+    const object: ImportPayloadObject = {
+      name: segments[segments.length - 1],
+      importId: `path:${key}`,
+    }
+    byPath.set(key, object)
+    if (segments.length > 1) {
+      object.parentImportIds = [ensurePath(segments.slice(0, -1))]
+    }
+    added.push(object)
+    return object.importId!
+  }
+
+  rows.forEach((row, index) => {
+    const object = objects[index]
+    const parentImportIds: string[] = []
+    const parents: string[] = []
+
+    if (row.parentPath) {
+      const segments = parseParentPath(String(row.parentPath))
+      if (segments.length > 0) parentImportIds.push(ensurePath(segments))
+    }
+
+    const parent = row.parent ? String(row.parent).trim() : ''
+    const rowReference = parent.match(ROW_REFERENCE_PATTERN)
+    const referencedRow = rowReference
+      ? objects[Number(rowReference[1]) - firstRowNumber]
+      : undefined
+
+    if (rowReference) {
+      if (referencedRow && referencedRow !== object) {
+        parentImportIds.push(referencedRow.importId!)
+      } else {
+        object.unresolvedParent = parent
+      }
+    } else if (UUID_PATTERN.test(parent)) {
+      parents.push(parent)
+    } else if (parent) {
+      const named = byName.get(parent.toLowerCase())
+      if (named && named !== object) {
+        parentImportIds.push(named.importId!)
+      } else {
+        object.unresolvedParent = parent
+      }
+    }
+
+    const ownParents = [...new Set(parentImportIds)].filter(
+      (ref) => ref !== object.importId
+    )
+    if (ownParents.length > 0) object.parentImportIds = ownParents
+    if (parents.length > 0) object.parents = parents
+  })
+
+  // Only keep references other objects actually use
+  const referenced = new Set(
+    [...added, ...objects].flatMap((object) => object.parentImportIds || [])
+  )
+  return [...added, ...objects].map((object) => {
+    if (!referenced.has(object.importId!)) delete object.importId
+    return object
+  })
+}
@@ -0,0 +1,386 @@
+/**
+ * JSON Import
+ *
+ * Reads JSON files for the import wizard. Accepts arrays of
+ * `ImportObjectData`, aggregate entities as returned by the API (optionally
+ * wrapped in `{ content }` or `{ aggregateEntityList }`) and object exports.
+ *
+ * Nested `children` are flattened parents-first. Parent references between
+ * objects in the same file are kept as `importId` / `parentImportIds` (see
+ * `import-hierarchy`); references to objects outside the file stay in
+ * `parents`.
+ *
+ * Records that don't match the import schema are returned as rows so they
+ * can go through the column mapper instead.
+ */
+
+import type { ImportObjectData } from '@/hooks/api/use-import-api'
+import type { ImportPayloadObject } from './import-hierarchy'
+import { isObjectExport, parseObjectExport } from './object-export'
+
+export type ParsedJsonImport =
+  | { kind: 'objects'; objects: ImportPayloadObject[] }
+  | { kind: 'rows'; rows: unknown[][] }
+
+type ImportProperty = NonNullable<ImportObjectData['properties']>[number]
+type ImportPropertyValue = NonNullable<ImportProperty['values']>[number]
+type JsonRecord = Record<string, any>
+
+// Fields that map onto the import schema or the hierarchy
+const IMPORT_FIELDS = new Set([
+  'name',
+  'abbreviation',
+  'version',
+  'description',
+  'isTemplate',
+  'address',
+  'files',
+  'properties',
+  'parents',
+  'children',
+  'uuid',
+  'id',
+  'importId',
+  'parentImportIds',
+])
+
+// Read-only fields of aggregate entities and exports, ignored on import
+const METADATA_FIELDS = new Set([
+  'createdAt',
+  'createdBy',
+  'lastUpdatedAt',
+  'lastUpdatedBy',
+  'softDeleted',
+  'softDeletedAt',
+  'softDeleteBy',
+  'modelUuid',
+  'groupUUID',
+])
+
+function isRecord(value: unknown): value is JsonRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+function optionalString(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value)
+  if (typeof value !== 'string') return undefined
+  return value.trim() || undefined
+}
+
+function toReference(value: unknown): string | undefined {
+  return optionalString(isRecord(value) ? value.uuid : value)
+}
+
+/**
+ * Whether a parsed JSON item can be imported without column mapping.
+ * Unknown fields mean the file uses its own schema.
+ */
+export function matchesImportSchema(item: unknown): boolean {
+  if (!isRecord(item) || !optionalString(item.name)) return false
+
+  const knownKeys = Object.keys(item).every(
+    (key) => IMPORT_FIELDS.has(key) || METADATA_FIELDS.has(key)
+  )
+  if (!knownKeys) return false
+
+  if (
+    item.properties !== undefined &&
+    !Array.isArray(item.properties) &&
+    !isRecord(item.properties)
+  ) {
+    return false
+  }
+
+  return asArray(item.children).every(
+    (child) => typeof child === 'string' || matchesImportSchema(child)
+  )
+}
+
+function normalizeFiles(files: unknown) {
+  return asArray(files)
+    .filter(
+      (file): file is JsonRecord =>
+        isRecord(file) &&
+        !file.softDeleted &&
+        !!optionalString(file.fileName) &&
+        !!optionalString(file.fileReference)
+    )
+    .map((file) => ({
+      uuid: optionalString(file.uuid) || '',
+      fileName: String(file.fileName),
+      fileReference: String(file.fileReference),
+      label: optionalString(file.label),
+      contentType: optionalString(file.contentType),
+      size: typeof file.size === 'number' ? file.size : undefined,
+    }))
+}
+
+function normalizeValue(value: unknown): ImportPropertyValue {
+  if (!isRecord(value)) {
+    return { value: value === null || value === undefined ? '' : String(value) }
+  }
+
+  const files = normalizeFiles(value.files)
+  return {
+    value:
+      value.value === null || value.value === undefined
+        ? ''
+        : String(value.value),
+    ...(optionalString(value.valueTypeCast) && {
+      valueTypeCast: String(value.valueTypeCast),
+    }),
+    ...(optionalString(value.sourceType) && {
+      sourceType: String(value.sourceType),
+    }),
+    ...(files.length > 0 && { files }),
+  }
+}
+
+function normalizeProperties(properties: unknown): ImportProperty[] {
+  // Plain `{ key: value }` objects are accepted as a shorthand
+  const list = isRecord(properties)
+    ? Object.entries(properties).map(([key, value]) => ({
+        key,
+        values: asArray(value),
+      }))
+    : asArray(properties)
+
+  return list
+    .filter(
+      (property): property is JsonRecord =>
+        isRecord(property) &&
+        !property.softDeleted &&
+        !!(optionalString(property.key) || optionalString(property.label))
+    )
+    .map((property) => {
+      const key = optionalString(property.key) || String(property.label).trim()
+      const files = normalizeFiles(property.files)
+      return {
+        key,
+        label: optionalString(property.label) || key,
+        ...(optionalString(property.type) && {
+          type: String(property.type),
+        }),
+        values: asArray(property.values ?? property.value)
+          .filter((value) => !(isRecord(value) && value.softDeleted))
+          .map(normalizeValue),
+        ...(files.length > 0 && { files }),
+      }
+    })
+}
+
+function normalizeAddress(address: unknown): ImportObjectData['address'] {
+  if (!isRecord(address)) return undefined
+  return {
+    fullAddress: optionalString(address.fullAddress) || '',
+    street: optionalString(address.street) || '',
+    houseNumber: optionalString(address.houseNumber) || '',
+    city: optionalString(address.city) || '',
+    postalCode: optionalString(address.postalCode) || '',
+    country: optionalString(address.country) || '',
+    state: optionalString(address.state),
+    district: optionalString(address.district),
+  }
+}
+
+/**
+ * Map a JSON item to the import schema, dropping hierarchy and metadata
+ */
+export function normalizeImportObject(item: JsonRecord): ImportObjectData {
+  const properties = normalizeProperties(item.properties)
+  // Object-level files don't carry a UUID in the import schema
+  const files = normalizeFiles(item.files).map((file) => ({
+    fileName: file.fileName,
+    fileReference: file.fileReference,
+    label: file.label,
+    contentType: file.contentType,
+    size: file.size,
+  }))
+  const address = normalizeAddress(item.address)
+
+  return {
+    name: String(item.name).trim(),
+    ...(optionalString(item.abbreviation) && {
+      abbreviation: optionalString(item.abbreviation),
+    }),
+    ...(optionalString(item.version) && {
+      version: optionalString(item.version),
+    }),
+    ...(optionalString(item.description) && {
+      description: optionalString(item.description),
+    }),
+    ...(item.isTemplate === true && { isTemplate: true }),
+    ...(address && { address }),
+    ...(files.length > 0 && { files }),
+    ...(properties.length > 0 && { properties }),
+  }
+}
+
+interface FlatEntry {
+  item: JsonRecord
+  importId: string
+  parentRefs: string[]
+}
+
+function flattenItems(
+  items: unknown[],
+  parentRef: string | undefined,
+  entries: Map<string, FlatEntry>
+) {
+  for (const item of items) {
+    // Children listed by UUID point at objects outside the nesting
+    if (!isRecord(item)) continue
+
+    const importId =
+      optionalString(item.importId) ||
+      toReference(item.uuid) ||
+      optionalString(item.id) ||
+      `json:${entries.size + 1}`
+
+    const parentRefs = [
+      ...asArray(item.parentImportIds),
+      ...asArray(item.parents),
+      parentRef,
+    ]
+      .map(toReference)
+      .filter((ref): ref is string => !!ref && ref !== importId)
+
+    // The same object can appear nested and at the top level
+    const existing = entries.get(importId)
+    if (existing) {
+      existing.parentRefs = [
+        ...new Set([...existing.parentRefs, ...parentRefs]),
+      ]
+    } else {
+      entries.set(importId, {
+        item,
+        importId,
+        parentRefs: [...new Set(parentRefs)],
+      })
+    }
+
+    flattenItems(asArray(item.children), importId, entries)
+  }
+}
+
+/**
+ * Order objects so every parent inside the import precedes its children.
+ * Cycles are broken by keeping the original order.
+ */
+function sortParentsFirst(entries: Map<string, FlatEntry>): FlatEntry[] {
+  const sorted: FlatEntry[] = []
+  const visited = new Set<string>()
+
+  const visit = (entry: FlatEntry, path: Set<string>) => {
+    if (visited.has(entry.importId) || path.has(entry.importId)) return
+    path.add(entry.importId)
+    for (const ref of entry.parentRefs) {
+      const parent = entries.get(ref)
+      if (parent) visit(parent, path)
+    }
+    path.delete(entry.importId)
+    visited.add(entry.importId)
+    sorted.push(entry)
+  }
+
+  entries.forEach((entry) => visit(entry, new Set()))
+  return sorted
+}
+
+/**
+ * Flatten JSON items that match the import schema into import objects,
+ * ordered parents-first
+ */
+export function flattenImportObjects(items: unknown[]): ImportPayloadObject[] {
+  const entries = new Map<string, FlatEntry>()
+  flattenItems(items, undefined, entries)
+
+  const referenced = new Set<string>()
+  entries.forEach((entry) =>
+    entry.parentRefs.forEach((ref) => {
+      if (entries.has(ref)) referenced.add(ref)
+    })
+  )
+
+  return sortParentsFirst(entries).map(({ item, importId, parentRefs }) => {
+    const parents = parentRefs.filter((ref) => !entries.has(ref))
+    const parentImportIds = parentRefs.filter((ref) => entries.has(ref))
+    const uuid = toReference(item.uuid)
+
+    return {
+      ...normalizeImportObject(item),
+      // Kept so merge imports can match existing objects by UUID
+      ...(uuid && { uuid }),
+      ...(parents.length > 0 && { parents }),
+      ...(referenced.has(importId) && { importId }),
+      ...(parentImportIds.length > 0 && { parentImportIds }),
+    }
+  })
+}
+
+// Header row from the union of keys, nested values as JSON
+function toRows(records: JsonRecord[]): unknown[][] {
+  const headers: string[] = []
+  records.forEach((record) =>
+    Object.keys(record).forEach((key) => {
+      if (!headers.includes(key)) headers.push(key)
+    })
+  )
+
+  return [
+    headers,
+    ...records.map((record) =>
+      headers.map((header) => {
+        const value = record[header]
+        if (value === null || value === undefined) return ''
+        return typeof value === 'object' ? JSON.stringify(value) : value
+      })
+    ),
+  ]
+}
+
+/**
+ * Parse the text of a JSON import file. Throws when the file isn't valid
+ * JSON or doesn't contain a list of objects.
+ */
+export function parseJsonImport(text: string): ParsedJsonImport {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+
+  if (isObjectExport(data)) {
+    return {
+      kind: 'objects',
+      objects: flattenImportObjects(parseObjectExport(data).objects),
+    }
+  }
+
+  const items: unknown[] = Array.isArray(data)
+    ? data
+    : isRecord(data) && Array.isArray(data.aggregateEntityList)
+      ? data.aggregateEntityList
+      : isRecord(data) && Array.isArray(data.content)
+        ? data.content
+        : [data]
+
+  if (items.length === 0) {
+    throw new Error('No objects found in the file')
+  }
+  if (!items.every(isRecord)) {
+    throw new Error('JSON file must contain a list of objects')
+  }
+
+  if (items.every(matchesImportSchema)) {
+    return { kind: 'objects', objects: flattenImportObjects(items) }
+  }
+
+  return { kind: 'rows', rows: toRows(items) }
+}
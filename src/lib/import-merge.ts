@@ -0,0 +1,354 @@
+/**
+ * Import Merge
+ *
+ * Plans merge imports: objects that match an existing object by the chosen
+ * key are turned into updates of changed fields, properties and values;
+ * only objects without a match are created. Empty cells never clear
+ * existing values, but a property imported with fewer values than it has
+ * loses the extra ones.
+ *
+ * Updates are applied before the import job starts. Updates that fail are
+ * sent along with the job and stored as its failure records, so they show
+ * up in the failure report and are applied again when the job is retried.
+ */
+
+import type { ImportObjectData } from '@/hooks/api/use-import-api'
+import type { FailureRecord } from './redis-utils'
+import {
+  linkCreatedParents,
+  sortByImportLevel,
+  type ImportPayloadObject,
+} from './import-hierarchy'
+
+export type ImportMergeKey =
+  | { type: 'uuid' }
+  | { type: 'nameParent' }
+  | { type: 'property'; propertyKey: string }
+
+// The parts of an existing aggregate entity the merge looks at
+export interface ExistingImportObject {
+  uuid: string
+  name?: string
+  abbreviation?: string
+  version?: string
+  description?: string
+  parents?: string[]
+  properties?: {
+    uuid: string
+    key: string
+    softDeleted?: boolean
+    values?: { uuid: string; value?: string | null; softDeleted?: boolean }[]
+  }[]
+}
+
+export interface ImportPropertyChange {
+  key: string
+  label?: string
+  type?: string
+  // Missing when the object doesn't have the property yet
+  propertyUuid?: string
+  // Existing value UUIDs are reused position by position
+  values: { uuid?: string; value: string; valueTypeCast?: string }[]
+  // Property with more values than imported, replaced by a new property so
+  // the extra values go. Soft-deleted once the new one is saved.
+  replacesPropertyUuid?: string
+}
+
+export interface ImportObjectUpdate {
+  uuid: string
+  name: string
+  // Changed object fields, undefined when only properties changed
+  fields?: Partial<
+    Pick<ImportObjectData, 'name' | 'abbreviation' | 'version' | 'description'>
+  >
+  properties: ImportPropertyChange[]
+}
+
+export interface ImportMergePlan {
+  create: ImportPayloadObject[]
+  updates: ImportObjectUpdate[]
+  // Import object each update was planned from, by the matched object's UUID
+  sources: Map<string, ImportPayloadObject>
+  unchanged: number
+}
+
+export interface ImportMergeSummary {
+  updated: number
+  unchanged: number
+  failed: number
+}
+
+// An update that failed, `object.uuid` is the object it should update
+export interface ImportMergeFailure {
+  object: ImportPayloadObject
+  // Position of the object in the import (0-based)
+  index: number
+  error: string
+}
+
+// Error type of failure records that are updates of existing objects
+export const MERGE_UPDATE_FAILED = 'MERGE_UPDATE_FAILED'
+
+const OBJECT_FIELDS = [
+  'name',
+  'abbreviation',
+  'version',
+  'description',
+] as const
+
+const normalizeName = (name: unknown) =>
+  String(name ?? '')
+    .trim()
+    .toLowerCase()
+
+// Properties of both import objects and existing objects
+interface KeyedProperty {
+  key?: string
+  softDeleted?: boolean
+  values?: { value?: string | null; softDeleted?: boolean }[]
+}
+
+function firstPropertyValue(
+  properties: KeyedProperty[] | undefined,
+  key: string
+): string | undefined {
+  const property = properties?.find(
+    (candidate) => candidate.key === key && !candidate.softDeleted
+  )
+  const value = property?.values?.find((candidate) => !candidate.softDeleted)
+  return value?.value?.trim() || undefined
+}
+
+// Keys an existing object can be found by
+function existingKeys(
+  object: ExistingImportObject,
+  mergeKey: ImportMergeKey
+): string[] {
+  switch (mergeKey.type) {
+    case 'uuid':
+      return [object.uuid.toLowerCase()]
+    case 'nameParent': {
+      const name = normalizeName(object.name)
+      if (!name) return []
+      const parents = object.parents?.length ? object.parents : ['']
+      return parents.map((parent) => `${parent}/${name}`)
+    }
+    case 'property': {
+      const value = firstPropertyValue(object.properties, mergeKey.propertyKey)
+      return value ? [value] : []
+    }
+  }
+}
+
+// Keys an import object is matched by, parents from the same import must
+// have matched an existing object themselves
+function importKeys(
+  object: ImportPayloadObject,
+  mergeKey: ImportMergeKey,
+  matchedUuids: Map<string, string>
+): string[] {
+  switch (mergeKey.type) {
+    case 'uuid':
+      return object.uuid ? [object.uuid.trim().toLowerCase()] : []
+    case 'nameParent': {
+      const name = normalizeName(object.name)
+      const inFile = (object.parentImportIds || []).map((ref) =>
+        matchedUuids.get(ref)
+      )
+      if (!name || inFile.some((uuid) => !uuid)) return []
+
+      const parents = [...(object.parents || []), ...(inFile as string[])]
+      return (parents.length ? parents : ['']).map(
+        (parent) => `${parent}/${name}`
+      )
+    }
+    case 'property': {
+      const value = firstPropertyValue(object.properties, mergeKey.propertyKey)
+      return value ? [value] : []
+    }
+  }
+}
+
+function diffObject(
+  object: ImportPayloadObject,
+  existing: ExistingImportObject
+): ImportObjectUpdate | null {
+  const fields: ImportObjectUpdate['fields'] = {}
+  OBJECT_FIELDS.forEach((field) => {
+    const value = object[field]?.trim()
+    if (value && value !== (existing[field] || '')) fields[field] = value
+  })
+
+  const properties: ImportPropertyChange[] = []
+  for (const property of object.properties || []) {
+    if (!property.key) continue
+
+    const values = (property.values || [])
+      .map((value) => ({
+        value: String(value.value ?? '').trim(),
+        valueTypeCast: value.valueTypeCast,
+      }))
+      .filter((value) => value.value !== '')
+    if (values.length === 0) continue
+
+    const current = existing.properties?.find(
+      (candidate) => candidate.key === property.key && !candidate.softDeleted
+    )
+    const currentValues = (current?.values || []).filter(
+      (value) => !value.softDeleted
+    )
+    const same =
+      values.length === currentValues.length &&
+      values.every(
+        (value, index) =>
+          value.value === String(currentValues[index].value ?? '').trim()
+      )
+    if (same) continue
+
+    if (current && currentValues.length > values.length) {
+      properties.push({
+        key: property.key,
+        label: property.label,
+        type: property.type,
+        values,
+        replacesPropertyUuid: current.uuid,
+      })
+      continue
+    }
+
+    properties.push({
+      key: property.key,
+      label: property.label,
+      type: property.type,
+      propertyUuid: current?.uuid,
+      values: values.map((value, index) => ({
+        ...value,
+        uuid: currentValues[index]?.uuid,
+      })),
+    })
+  }
+
+  const hasFields = Object.keys(fields).length > 0
+  if (!hasFields && properties.length === 0) return null
+
+  return {
+    uuid: existing.uuid,
+    name: existing.name || object.name,
+    fields: hasFields ? fields : undefined,
+    properties,
+  }
+}
+
+/**
+ * Split import objects into updates of existing objects and objects to
+ * create. New objects whose parent in the import matched an existing object
+ * are linked to that object instead.
+ */
+export function planImportMerge(
+  objects: ImportPayloadObject[],
+  existing: ExistingImportObject[],
+  mergeKey: ImportMergeKey
+): ImportMergePlan {
+  const index = new Map<string, ExistingImportObject>()
+  existing.forEach((object) =>
+    existingKeys(object, mergeKey).forEach((key) => {
+      if (!index.has(key)) index.set(key, object)
+    })
+  )
+
+  const matchedUuids = new Map<string, string>()
+  const create: ImportPayloadObject[] = []
+  const updates: ImportObjectUpdate[] = []
+  const sources = new Map<string, ImportPayloadObject>()
+  let unchanged = 0
+
+  for (const object of sortByImportLevel(objects)) {
+    const match = importKeys(object, mergeKey, matchedUuids)
+      .map((key) => index.get(key))
+      .find(Boolean)
+
+    if (!match) {
+      create.push(object)
+      continue
+    }
+
+    if (object.importId) matchedUuids.set(object.importId, match.uuid)
+    const update = diffObject(object, match)
+    if (update) {
+      updates.push(update)
+      sources.set(update.uuid, object)
+    } else {
+      unchanged++
+    }
+  }
+
+  return {
+    create: create.map((object) => linkCreatedParents(object, matchedUuids)),
+    updates,
+    sources,
+    unchanged,
+  }
+}
+
+/**
+ * Read the merge summary sent along with a merge import, null for regular
+ * imports
+ */
+export function parseMergeSummary(value: unknown): ImportMergeSummary | null {
+  if (!value || typeof value !== 'object') return null
+
+  const { updated, unchanged, failed } = value as Record<string, unknown>
+  const count = (n: unknown) =>
+    typeof n === 'number' && Number.isInteger(n) && n >= 0 ? n : 0
+
+  return {
+    updated: count(updated),
+    unchanged: count(unchanged),
+    failed: count(failed),
+  }
+}
+
+/**
+ * Read the failed updates sent along with a merge import. Entries without
+ * the UUID of the object to update are dropped.
+ */
+export function parseMergeFailures(value: unknown): ImportMergeFailure[] {
+  if (!Array.isArray(value)) return []
+
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object') return []
+    const { object, index, error } = entry as Record<string, unknown>
+    if (
+      !object ||
+      typeof object !== 'object' ||
+      typeof (object as ImportPayloadObject).uuid !== 'string'
+    ) {
+      return []
+    }
+
+    return [
+      {
+        object: object as ImportPayloadObject,
+        index: typeof index === 'number' && index >= 0 ? index : -1,
+        error: typeof error === 'string' ? error : 'Update failed',
+      },
+    ]
+  })
+}
+
+/**
+ * Failure records for the failed updates of a merge import
+ */
+export function toMergeFailureRecords(
+  failures: ImportMergeFailure[],
+  timestamp = Date.now()
+): FailureRecord[] {
+  return failures.map((failure) => ({
+    batchNumber: -1,
+    index: failure.index,
+    object: { ...failure.object },
+    error: failure.error,
+    errorType: MERGE_UPDATE_FAILED,
+    timestamp,
+  }))
+}
@@ -0,0 +1,480 @@
+/**
+ * Process Import
+ *
+ * Turns spreadsheet rows into process flow statements. Each row is one flow
+ * from an input material to an output material; rows with the same process
+ * name make up one process. Materials are referenced by UUID or by name.
+ */
+
+import Papa from 'papaparse'
+
+import {
+  FLOW_CATEGORY_OPTIONS,
+  LIFECYCLE_STAGES,
+  PROCESS_CATEGORIES,
+  PROCESS_TYPES,
+  QUALITY_CHANGE_OPTIONS,
+} from '@/constants'
+import type {
+  FlowCategory,
+  LifecycleStage,
+  MaterialFlowMetadata,
+  ProcessCategory,
+  ProcessMetadata,
+  QualityChangeCode,
+} from '@/types'
+import {
+  buildProcessStatementProperties,
+  namespaceFlowMetadata,
+  type ProcessStatement,
+} from './process-statements'
+import { resolveUnit } from './units'
+import { generateUUIDv7 } from './utils'
+
+export const PROCESS_IMPORT_FIELDS = [
+  'processName',
+  'processType',
+  'processCategory',
+  'flowCategory',
+  'input',
+  'inputQuantity',
+  'inputUnit',
+  'inputLifecycleStage',
+  'inputCategoryCode',
+  'output',
+  'outputQuantity',
+  'outputUnit',
+  'outputLifecycleStage',
+  'outputCategoryCode',
+  'emissionsTotal',
+  'emissionsUnit',
+  'materialLossPercent',
+  'qualityChangeCode',
+  'startDate',
+  'endDate',
+  'notes',
+] as const
+
+export type ProcessImportField = (typeof PROCESS_IMPORT_FIELDS)[number]
+
+export const REQUIRED_PROCESS_IMPORT_FIELDS: ProcessImportField[] = [
+  'processName',
+  'input',
+  'output',
+]
+
+// Column index per field
+export type ProcessImportMapping = Partial<Record<ProcessImportField, number>>
+
+// Other header names a field is recognised by, normalized
+const FIELD_ALIASES: Partial<Record<ProcessImportField, string[]>> = {
+  processName: ['process', 'proces', 'procesnaam'],
+  input: ['inputmaterial', 'from', 'source', 'van'],
+  output: ['outputmaterial', 'to', 'target', 'naar'],
+  inputQuantity: ['inputqty', 'inputamount'],
+  outputQuantity: ['outputqty', 'outputamount'],
+  emissionsTotal: ['emissions', 'co2', 'co2e'],
+  materialLossPercent: ['loss', 'materialloss', 'losspercent'],
+  qualityChangeCode: ['qualitychange'],
+  startDate: ['start', 'startdatum'],
+  endDate: ['end', 'einddatum'],
+}
+
+export interface ProcessImportRow {
+  // Row number in the sheet, 1-based
+  row: number
+  values: Partial<Record<ProcessImportField, string>>
+}
+
+export interface ProcessImportObject {
+  uuid: string
+  name?: string
+}
+
+export type ProcessImportErrorCode =
+  | 'required'
+  | 'notFound'
+  | 'ambiguous'
+  | 'sameMaterial'
+  | 'duplicate'
+  | 'invalidNumber'
+  | 'invalidPercent'
+  | 'invalidOption'
+  | 'invalidDate'
+  | 'endBeforeStart'
+
+export interface ProcessImportError {
+  row: number
+  field?: ProcessImportField
+  code: ProcessImportErrorCode
+  value?: string
+}
+
+export interface ProcessImportFlow {
+  row: number
+  processName: string
+  input: ProcessImportObject
+  output: ProcessImportObject
+  statement: ProcessStatement
+}
+
+export interface ProcessImportPlan {
+  flows: ProcessImportFlow[]
+  errors: ProcessImportError[]
+  // Rows with at least one error, these are skipped
+  invalidRows: number
+  processCount: number
+}
+
+function normalizeHeader(header: unknown): string {
+  return String(header ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Suggest a column for each field from the header row
+ */
+export function suggestProcessImportMapping(
+  headers: unknown[]
+): ProcessImportMapping {
+  const mapping: ProcessImportMapping = {}
+  const normalized = headers.map(normalizeHeader)
+  const used = new Set<number>()
+
+  PROCESS_IMPORT_FIELDS.forEach((field) => {
+    const names = [field, ...(FIELD_ALIASES[field] || [])].map(normalizeHeader)
+    const index = normalized.findIndex(
+      (header, column) =>
+        !!header && !used.has(column) && names.includes(header)
+    )
+    if (index !== -1) {
+      mapping[field] = index
+      used.add(index)
+    }
+  })
+
+  return mapping
+}
+
+/**
+ * Read the mapped cells of the rows below the header row, leaving out rows
+ * without any mapped value
+ */
+export function readProcessImportRows(
+  data: unknown[][],
+  headerRow: number,
+  mapping: ProcessImportMapping
+): ProcessImportRow[] {
+  const rows: ProcessImportRow[] = []
+  for (let index = headerRow + 1; index < data.length; index++) {
+    const cells = data[index] || []
+    const values: ProcessImportRow['values'] = {}
+    Object.entries(mapping).forEach(([field, column]) => {
+      const cell = column === undefined ? undefined : cells[column]
+      const value = cell === null || cell === undefined ? '' : String(cell)
+      if (value.trim()) {
+        values[field as ProcessImportField] = value.trim()
+      }
+    })
+    if (Object.keys(values).length > 0) {
+      rows.push({ row: index + 1, values })
+    }
+  }
+  return rows
+}
+
+/**
+ * Parse a number written with either a decimal point or a decimal comma
+ */
+export function parseImportNumber(value: string): number | null {
+  let text = value.replace(/\s/g, '')
+  const lastComma = text.lastIndexOf(',')
+  const lastPoint = text.lastIndexOf('.')
+  if (lastComma > lastPoint) {
+    // 1.234,5 or 12,5
+    text = text.replace(/\./g, '').replace(',', '.')
+  } else {
+    // 1,234.5
+    text = text.replace(/,/g, '')
+  }
+  if (!text) return null
+  const number = Number(text)
+  return Number.isFinite(number) ? number : null
+}
+
+// Days between the Excel epoch and the Unix epoch
+const EXCEL_EPOCH_OFFSET = 25569
+
+/**
+ * Parse an ISO date, a day-month-year date or an Excel serial date
+ * @returns The date as YYYY-MM-DD, or null when it isn't a valid date
+ */
+export function parseImportDate(value: string): string | null {
+  let date: Date | null = null
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  const dayFirst = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/)
+  if (iso) {
+    date = new Date(Date.UTC(+iso[1], +iso[2] - 1, +iso[3]))
+    if (date.getUTCDate() !== +iso[3]) return null
+  } else if (dayFirst) {
+    date = new Date(Date.UTC(+dayFirst[3], +dayFirst[2] - 1, +dayFirst[1]))
+    if (date.getUTCDate() !== +dayFirst[1]) return null
+  } else if (/^\d{5}$/.test(value)) {
+    date = new Date((Number(value) - EXCEL_EPOCH_OFFSET) * 86400000)
+  }
+
+  if (!date || isNaN(date.getTime())) return null
+  return date.toISOString().split('T')[0]
+}
+
+// Match a value to one of the options, ignoring case, spaces and dashes
+function matchOption<T extends string>(
+  value: string,
+  options: readonly T[]
+): T | null {
+  const normalized = value
+    .trim()
+    .toUpperCase()
+    .replace(/[\s-]+/g, '_')
+  return options.find((option) => option.toUpperCase() === normalized) ?? null
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Materials the rows reference, split into UUIDs and names so existing
+ * objects can be looked up without loading all of them
+ */
+export function getProcessImportReferences(rows: ProcessImportRow[]): {
+  uuids: string[]
+  names: string[]
+} {
+  const uuids = new Set<string>()
+  const names = new Set<string>()
+  rows.forEach(({ values }) => {
+    ;[values.input, values.output].forEach((ref) => {
+      if (!ref) return
+      if (UUID_PATTERN.test(ref)) uuids.add(ref)
+      else names.add(ref)
+    })
+  })
+  return { uuids: [...uuids], names: [...names] }
+}
+
+/**
+ * Validate the rows, resolve their materials and build a statement per row.
+ * Rows with errors are left out of the flows.
+ */
+export function planProcessImport(
+  rows: ProcessImportRow[],
+  objects: ProcessImportObject[]
+): ProcessImportPlan {
+  const byUuid = new Map(objects.map((object) => [object.uuid, object]))
+  const byName = new Map<string, ProcessImportObject[]>()
+  objects.forEach((object) => {
+    const name = object.name?.trim().toLowerCase()
+    if (!name) return
+    byName.set(name, [...(byName.get(name) || []), object])
+  })
+
+  const flows: ProcessImportFlow[] = []
+  const errors: ProcessImportError[] = []
+  // Statements are identified by subject and object, so a pair can only be
+  // imported once
+  const seenPairs = new Map<string, number>()
+  // Rows of the same process share one identity, see lib/process-versions
+  const processIds = new Map<string, string>()
+  let invalidRows = 0
+
+  rows.forEach(({ row, values }) => {
+    const rowErrors: ProcessImportError[] = []
+    const fail = (
+      field: ProcessImportField,
+      code: ProcessImportErrorCode,
+      value = values[field]
+    ) => rowErrors.push({ row, field, code, value })
+
+    REQUIRED_PROCESS_IMPORT_FIELDS.forEach((field) => {
+      if (!values[field]) fail(field, 'required')
+    })
+
+    const resolveMaterial = (field: 'input' | 'output') => {
+      const ref = values[field]
+      if (!ref) return null
+      const object = byUuid.get(ref)
+      if (object) return object
+      const matches = byName.get(ref.toLowerCase()) || []
+      if (matches.length === 1) return matches[0]
+      fail(field, matches.length > 1 ? 'ambiguous' : 'notFound')
+      return null
+    }
+    const input = resolveMaterial('input')
+    const output = resolveMaterial('output')
+    if (input && output && input.uuid === output.uuid) {
+      fail('output', 'sameMaterial')
+    }
+
+    const number = (field: ProcessImportField) => {
+      const value = values[field]
+      if (!value) return undefined
+      const parsed = parseImportNumber(value)
+      if (parsed === null || parsed < 0) fail(field, 'invalidNumber')
+      return parsed ?? undefined
+    }
+    const option = <T extends string>(
+      field: ProcessImportField,
+      options: readonly T[]
+    ) => {
+      const value = values[field]
+      if (!value) return undefined
+      const matched = matchOption(value, options)
+      if (!matched) fail(field, 'invalidOption')
+      return matched ?? undefined
+    }
+    const date = (field: 'startDate' | 'endDate') => {
+      const value = values[field]
+      if (!value) return undefined
+      const parsed = parseImportDate(value)
+      if (!parsed) fail(field, 'invalidDate')
+      return parsed ?? undefined
+    }
+    const unit = (field: 'inputUnit' | 'outputUnit') => {
+      const value = values[field]
+      return value ? resolveUnit(value) || value : undefined
+    }
+
+    const materialLossPercent = number('materialLossPercent')
+    if (materialLossPercent !== undefined && materialLossPercent > 100) {
+      fail('materialLossPercent', 'invalidPercent')
+    }
+    const startDate = date('startDate')
+    const endDate = date('endDate')
+    if (startDate && endDate && endDate < startDate) {
+      fail('endDate', 'endBeforeStart')
+    }
+
+    const processName = values.processName || ''
+    if (!processIds.has(processName)) {
+      processIds.set(processName, generateUUIDv7())
+    }
+    const processMetadata: ProcessMetadata = {
+      processName,
+      processId: processIds.get(processName),
+      processType:
+        option(
+          'processType',
+          PROCESS_TYPES.map((type) => type.value)
+        ) || 'processing',
+      quantity: 0,
+      unit: 'kg',
+      processCategory: option<ProcessCategory>(
+        'processCategory',
+        PROCESS_CATEGORIES
+      ),
+      flowCategory: option<FlowCategory>(
+        'flowCategory',
+        FLOW_CATEGORY_OPTIONS.map((category) => category.value)
+      ),
+      emissionsTotal: number('emissionsTotal'),
+      emissionsUnit: values.emissionsUnit,
+      materialLossPercent,
+      qualityChangeCode: option<QualityChangeCode>(
+        'qualityChangeCode',
+        QUALITY_CHANGE_OPTIONS.map((code) => code.value)
+      ),
+      notes: values.notes,
+      startDate,
+      endDate,
+    }
+    const inputMetadata: MaterialFlowMetadata = {
+      lifecycleStage: option<LifecycleStage>(
+        'inputLifecycleStage',
+        LIFECYCLE_STAGES
+      ),
+      categoryCode: values.inputCategoryCode,
+    }
+    const outputMetadata: MaterialFlowMetadata = {
+      lifecycleStage: option<LifecycleStage>(
+        'outputLifecycleStage',
+        LIFECYCLE_STAGES
+      ),
+      categoryCode: values.outputCategoryCode,
+    }
+    const inputQuantity = number('inputQuantity')
+    const outputQuantity = number('outputQuantity')
+
+    if (input && output && rowErrors.length === 0) {
+      const pair = `${input.uuid}:${output.uuid}`
+      const firstRow = seenPairs.get(pair)
+      if (firstRow !== undefined) {
+        fail('output', 'duplicate', String(firstRow))
+      } else {
+        seenPairs.set(pair, row)
+      }
+    }
+
+    if (rowErrors.length > 0 || !input || !output) {
+      errors.push(...rowErrors)
+      invalidRows++
+      return
+    }
+
+    flows.push({
+      row,
+      processName: processMetadata.processName,
+      input,
+      output,
+      statement: {
+        subject: input.uuid,
+        predicate: 'IS_INPUT_OF',
+        object: output.uuid,
+        properties: buildProcessStatementProperties(
+          processMetadata,
+          namespaceFlowMetadata(
+            {
+              quantity: inputQuantity,
+              unit: unit('inputUnit'),
+              metadata: inputMetadata,
+            },
+            {
+              quantity: outputQuantity,
+              unit: unit('outputUnit'),
+              metadata: outputMetadata,
+            }
+          )
+        ),
+      },
+    })
+  })
+
+  return {
+    flows,
+    errors,
+    invalidRows,
+    processCount: new Set(flows.map((flow) => flow.processName)).size,
+  }
+}
+
+/**
+ * Errors as CSV next to the row values, so the rows can be fixed and
+ * imported again
+ */
+export function processImportErrorsToCsv(
+  errors: ProcessImportError[],
+  rows: ProcessImportRow[],
+  describe: (error: ProcessImportError) => string
+): string {
+  const rowsByNumber = new Map(rows.map((row) => [row.row, row]))
+  return Papa.unparse(
+    errors.map((error) => ({
+      Row: error.row,
+      Field: error.field || '',
+      Error: describe(error),
+      ...rowsByNumber.get(error.row)?.values,
+    })),
+    { columns: ['Row', 'Field', 'Error', ...PROCESS_IMPORT_FIELDS] }
+  )
+}
@@ -1,9 +1,164 @@
 import { logger } from '@/lib/logger'
+import { getErrorDetail } from '@/lib/error-utils'
 import { getRedis } from '@/lib/redis'
 import { untrackUserJob } from '@/lib/security-utils'
-import { hsetWithTTL, REDIS_KEYS } from '@/lib/redis-utils'
+import {
+  hsetWithTTL,
+  recordJobFailures,
+  setWithTTL,
+  REDIS_KEYS,
+} from '@/lib/redis-utils'
+import { validateImportObjects } from '@/lib/import-validation'
+import {
+  findParentCycles,
+  linkCreatedParents,
+  resolveImportParents,
+  PARENT_LINK_FAILED,
+  splitImportBatches,
+  toImportPayload,
+  type ImportPayloadObject,
+} from '@/lib/import-hierarchy'
 import { API_BATCH_SIZE, API_REQUEST_DELAY } from '@/constants'
 
+interface ParentStatement {
+  subject: string
+  predicate: 'IS_PARENT_OF'
+  object: string
+}
+
+/**
+ * Link objects created by the import to their parents
+ */
+async function createParentStatements(
+  nodeApiUrl: string,
+  jwtToken: string,
+  statements: ParentStatement[]
+): Promise<void> {
+  const response = await fetch(`${nodeApiUrl}/api/UUStatements`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${jwtToken}`,
+    },
+    body: JSON.stringify(statements),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Statement creation failed with status ${response.status}`)
+  }
+}
+
+/**
+ * Store failed objects with their position in the import. Parents that were
+ * created are linked by UUID, so the objects can be retried on their own.
+ */
+async function recordFailedObjects(
+  jobId: string,
+  batchNumber: number,
+  objects: ImportPayloadObject[],
+  positions: Map<ImportPayloadObject, number>,
+  createdUuids: Map<string, string>,
+  error: string,
+  errorType: string,
+  detail?: string
+) {
+  const timestamp = Date.now()
+  try {
+    await recordJobFailures(
+      jobId,
+      objects.map((object) => ({
+        batchNumber,
+        index: positions.get(object) ?? -1,
+        object: { ...linkCreatedParents(object, createdUuids) },
+        error,
+        detail,
+        errorType,
+        timestamp,
+      }))
+    )
+  } catch (recordError: any) {
+    logger.import(
+      'Failed to record failed objects',
+      { jobId, batchIndex: batchNumber, error: recordError.message },
+      'error'
+    )
+  }
+}
+
+// A created object and the parents it should be linked to
+interface LinkedObject {
+  object: ImportPayloadObject
+  uuid: string
+  parents: string[]
+}
+
+/**
+ * Store created objects whose parent links failed, with their UUID and the
+ * parents they are missing
+ */
+async function recordLinkFailures(
+  jobId: string,
+  batchNumber: number,
+  linked: LinkedObject[],
+  positions: Map<ImportPayloadObject, number>,
+  detail: string
+) {
+  const timestamp = Date.now()
+  try {
+    await recordJobFailures(
+      jobId,
+      linked.map(({ object, uuid, parents }) => ({
+        batchNumber,
+        index: positions.get(object) ?? -1,
+        object: { ...object, uuid, parents, parentImportIds: undefined },
+        error: 'Failed to link the object to its parents',
+        detail,
+        errorType: PARENT_LINK_FAILED,
+        timestamp,
+      }))
+    )
+  } catch (recordError: any) {
+    logger.import(
+      'Failed to record failed parent links',
+      { jobId, batchIndex: batchNumber, error: recordError.message },
+      'error'
+    )
+  }
+}
+
+/**
+ * Validate the objects of a dry-run job and store the report instead of
+ * sending anything to the Node API
+ */
+async function completeDryRun(
+  jobId: string,
+  objects: ImportPayloadObject[],
+  userUUID?: string
+) {
+  const report = validateImportObjects(objects)
+  await setWithTTL(REDIS_KEYS.report(jobId), JSON.stringify(report))
+
+  const finalStatus = report.invalid > 0 ? 'completed_with_errors' : 'completed'
+  await hsetWithTTL(REDIS_KEYS.job(jobId), {
+    status: finalStatus,
+    processed: objects.length.toString(),
+    failed: report.invalid.toString(),
+    completedAt: Date.now().toString(),
+  })
+
+  if (userUUID) {
+    await untrackUserJob(userUUID, jobId)
+  }
+
+  logger.import(`Dry run ${jobId} completed`, {
+    jobId,
+    status: finalStatus,
+    totalObjects: objects.length,
+    invalid: report.invalid,
+    issueCounts: report.issueCounts,
+  })
+}
+
 export async function processImportJob(jobId: string) {
   const redis = getRedis()
 
@@ -31,6 +186,8 @@ export async function processImportJob(jobId: string) {
     const totalChunks = parseInt(jobData.totalChunks || '0')
     let processed = parseInt(jobData.processed || '0')
     let failed = parseInt(jobData.failed || '0')
+    // Created objects that couldn't be linked to their parents
+    let linkFailed = parseInt(jobData.linkFailed || '0')
     const jwtToken = jobData.jwtToken
 
     if (!jwtToken) {
@@ -68,7 +225,7 @@ export async function processImportJob(jobId: string) {
     const batchSize = API_BATCH_SIZE
 
     // Collect all objects from all chunks to process them in batches
-    const allObjects = []
+    const allObjects: ImportPayloadObject[] = []
 
     // Get objects from all chunks
     for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
@@ -99,8 +256,24 @@ export async function processImportJob(jobId: string) {
       totalObjects: allObjects.length,
     })
 
+    if (jobData.dryRun === 'true') {
+      await completeDryRun(jobId, allObjects, jobData.userUUID)
+      return
+    }
+
+    // Batches never mix hierarchy levels, so parents from the same import
+    // are created (and their UUIDs known) before their children are linked
+    const batches = splitImportBatches(allObjects, batchSize)
+    const createdUuids = new Map<string, string>()
+    // Objects whose parents lead back to themselves can never be created
+    const cyclic = new Set(findParentCycles(allObjects).flat())
+    // Position of each object in the import, batches are ordered by level
+    const positions = new Map(
+      allObjects.map((object, index) => [object, index])
+    )
+
     // Process objects in batches by calling the Node API directly
-    for (let i = 0; i < allObjects.length; i += batchSize) {
+    for (let b = 0, i = 0; b < batches.length; i += batches[b].length, b++) {
       // Check if job has been cancelled before processing next batch
       const currentJobData = await redis.hgetall(REDIS_KEYS.job(jobId))
       if (currentJobData.status === 'cancelled') {
@@ -112,19 +285,83 @@ export async function processImportJob(jobId: string) {
         return
       }
 
-      const batch = allObjects.slice(i, i + batchSize)
-
-      try {
-        // Call the Node API bulk import endpoint directly
+      // Children of parents that failed or weren't found can't be linked,
+      // count them as failed
+      const resolved = batches[b].map((object) =>
+        resolveImportParents(object, createdUuids)
+      )
+      const sources = batches[b].filter((_, index) => resolved[index])
+      const parentUuids = resolved.filter((uuids): uuids is string[] => !!uuids)
+      const batch = sources.map(toImportPayload)
+      const skipped = batches[b].filter((_, index) => !resolved[index])
+      if (skipped.length > 0) {
+        const notFound = skipped.filter((object) => object.unresolvedParent)
+        const inCycle = skipped.filter(
+          (object) => !object.unresolvedParent && cyclic.has(object)
+        )
+        const parentFailed = skipped.filter(
+          (object) => !object.unresolvedParent && !cyclic.has(object)
+        )
+        failed += skipped.length
         logger.import(
-          `Calling Node API for batch ${Math.floor(i / batchSize) + 1}`,
+          `Skipping ${skipped.length} object(s) whose parent is missing`,
           {
             jobId,
-            nodeApiUrl,
-            batchSize: batch.length,
-            endpoint: `${nodeApiUrl}/api/Aggregate/Import`,
-          }
+            batchIndex: b,
+            parentFailed: parentFailed.length,
+            parentNotFound: notFound.length,
+            parentCycle: inCycle.length,
+          },
+          'warn'
+        )
+        await hsetWithTTL(REDIS_KEYS.job(jobId), {
+          failed: failed.toString(),
+          lastError:
+            parentFailed.length > 0
+              ? 'Parent object failed to import'
+              : inCycle.length > 0
+                ? 'Parents form a cycle in the import'
+                : 'Parent not found in the import',
+          lastErrorTimestamp: Date.now().toString(),
+        })
+        await recordFailedObjects(
+          jobId,
+          b,
+          parentFailed,
+          positions,
+          createdUuids,
+          'Parent object failed to import',
+          'PARENT_FAILED'
+        )
+        await recordFailedObjects(
+          jobId,
+          b,
+          notFound,
+          positions,
+          createdUuids,
+          'Parent not found in the import',
+          'PARENT_NOT_FOUND'
+        )
+        await recordFailedObjects(
+          jobId,
+          b,
+          inCycle,
+          positions,
+          createdUuids,
+          'Parents form a cycle in the import',
+          'PARENT_CYCLE'
         )
+      }
+      if (batch.length === 0) continue
+
+      try {
+        // Call the Node API bulk import endpoint directly
+        logger.import(`Calling Node API for batch ${b + 1}`, {
+          jobId,
+          nodeApiUrl,
+          batchSize: batch.length,
+          endpoint: `${nodeApiUrl}/api/Aggregate/Import`,
+        })
 
         const response = await fetch(`${nodeApiUrl}/api/Aggregate/Import`, {
           method: 'POST',
@@ -137,7 +374,7 @@ export async function processImportJob(jobId: string) {
 
         logger.import(`Node API response received`, {
           jobId,
-          batchIndex: Math.floor(i / batchSize),
+          batchIndex: b,
           status: response.status,
           statusText: response.statusText,
           ok: response.ok,
@@ -149,16 +386,18 @@ export async function processImportJob(jobId: string) {
             .json()
             .catch(() => ({ error: 'Unknown error' }))
 
-          const apiError = new Error(
+          const apiError: any = new Error(
             errorData.error || `API call failed with status ${response.status}`
           )
+          apiError.status = response.status
+          apiError.body = errorData
 
           // Add detailed API error context
           logger.import(
             `Node API call failed`,
             {
               jobId,
-              batchIndex: Math.floor(i / batchSize),
+              batchIndex: b,
               nodeApiUrl,
               endpoint: `${nodeApiUrl}/api/Aggregate/Import`,
               httpStatus: response.status,
@@ -176,6 +415,68 @@ export async function processImportJob(jobId: string) {
           throw apiError
         }
 
+        // Remember created UUIDs of objects other objects point at and
+        // link the new objects to their parents
+        if (
+          sources.some(
+            (object, index) => object.importId || parentUuids[index].length
+          )
+        ) {
+          const created = await response.json().catch(() => null)
+          const statements: ParentStatement[] = []
+          const linked: LinkedObject[] = []
+
+          sources.forEach((object, index) => {
+            const uuid = Array.isArray(created) ? created[index]?.uuid : null
+            if (!uuid) {
+              logger.import(
+                'Node API response has no UUID for imported object',
+                { jobId, batchIndex: b, index },
+                'warn'
+              )
+              return
+            }
+
+            if (object.importId) createdUuids.set(object.importId, uuid)
+            if (parentUuids[index].length > 0) {
+              linked.push({ object, uuid, parents: parentUuids[index] })
+            }
+            parentUuids[index].forEach((parentUuid) =>
+              statements.push({
+                subject: parentUuid,
+                predicate: 'IS_PARENT_OF',
+                object: uuid,
+              })
+            )
+          })
+
+          if (statements.length > 0) {
+            try {
+              await createParentStatements(nodeApiUrl, jwtToken, statements)
+            } catch (error: any) {
+              // Objects exist, only the links are missing
+              logger.import(
+                `Failed to link objects to their parents`,
+                { jobId, batchIndex: b, error: error.message },
+                'error'
+              )
+              linkFailed += linked.length
+              await hsetWithTTL(REDIS_KEYS.job(jobId), {
+                linkFailed: linkFailed.toString(),
+                lastError: `Failed to link ${linked.length} object(s) to their parents`,
+                lastErrorTimestamp: Date.now().toString(),
+              })
+              await recordLinkFailures(
+                jobId,
+                b,
+                linked,
+                positions,
+                error.message
+              )
+            }
+          }
+        }
+
         // Update progress
         processed += batch.length
         await hsetWithTTL(REDIS_KEYS.job(jobId), {
@@ -183,18 +484,15 @@ export async function processImportJob(jobId: string) {
           lastProcessedAt: Date.now().toString(),
         })
 
-        logger.import(
-          `Processed batch ${Math.floor(i / batchSize) + 1} for job ${jobId}`,
-          {
-            jobId,
-            batchSize: batch.length,
-            processed,
-            total: allObjects.length,
-          }
-        )
+        logger.import(`Processed batch ${b + 1} for job ${jobId}`, {
+          jobId,
+          batchSize: batch.length,
+          processed,
+          total: allObjects.length,
+        })
 
         // Add delay between batches to avoid overwhelming the API
-        if (i + batchSize < allObjects.length && requestDelay > 0) {
+        if (b + 1 < batches.length && requestDelay > 0) {
           await new Promise((resolve) => setTimeout(resolve, requestDelay))
         }
       } catch (error: any) {
@@ -203,7 +501,7 @@ export async function processImportJob(jobId: string) {
         // Enhanced error logging with detailed context for Sentry
         const errorContext = {
           jobId,
-          batchIndex: Math.floor(i / batchSize),
+          batchIndex: b,
           batchSize: batch.length,
           batchStartIndex: i,
           batchEndIndex: i + batch.length - 1,
@@ -221,9 +519,9 @@ export async function processImportJob(jobId: string) {
           networkError: error.cause?.message || 'unknown',
           // Add sample of failed objects for debugging (first 3 objects)
           sampleObjects: batch.slice(0, 3).map((obj) => ({
-            id: obj.id || 'no-id',
-            type: obj.type || 'unknown',
-            hasRequiredFields: !!(obj.id && obj.type),
+            name: obj.name || 'no-name',
+            propertyCount: obj.properties?.length || 0,
+            hasRequiredFields: !!obj.name,
           })),
         }
 
@@ -238,16 +536,31 @@ export async function processImportJob(jobId: string) {
           failed: failed.toString(),
           lastError: error.message,
           lastErrorTimestamp: Date.now().toString(),
-          lastErrorBatch: Math.floor(i / batchSize).toString(),
+          lastErrorBatch: b.toString(),
         })
+        await recordFailedObjects(
+          jobId,
+          b,
+          sources,
+          positions,
+          createdUuids,
+          error.message,
+          error.status ? `HTTP_${error.status}` : 'NETWORK_ERROR',
+          getErrorDetail(error)
+        )
 
         // Continue processing other batches even if one fails
         continue
       }
     }
 
-    // Mark job as completed or partially failed
-    const finalStatus = failed > 0 ? 'completed_with_errors' : 'completed'
+    // Mark job as completed or partially failed, including updates of a
+    // merge import that failed before the job started
+    const mergeFailed = parseInt(jobData.mergeFailed || '0')
+    const finalStatus =
+      failed > 0 || mergeFailed > 0 || linkFailed > 0
+        ? 'completed_with_errors'
+        : 'completed'
     await hsetWithTTL(REDIS_KEYS.job(jobId), {
       status: finalStatus,
       processed: processed.toString(),
@@ -329,3 +642,63 @@ export async function processImportJob(jobId: string) {
     }
   }
 }
+
+/**
+ * Mark a stored job as processing and run it in the background. The job is
+ * marked failed when processing throws.
+ *
+ * @param source - which route started the job, for logging
+ */
+export async function startImportJob(jobId: string, source: string) {
+  try {
+    const redis = getRedis()
+
+    // Test Redis connection before processing
+    await redis.ping()
+    logger.import('Redis connection verified for job processing', {
+      jobId,
+      source,
+    })
+
+    // Update job status to processing
+    await redis.hset(REDIS_KEYS.job(jobId), { status: 'processing' })
+
+    // Process the job in the background
+    // We're using setImmediate to make it non-blocking
+    setImmediate(() => {
+      processImportJob(jobId).catch((error) => {
+        const errorContext = {
+          jobId,
+          source,
+          error: error.message,
+          errorStack: error.stack,
+          timestamp: new Date().toISOString(),
+        }
+
+        logger.import('Background job failed', errorContext, 'error')
+
+        // Update job status to failed
+        redis
+          .hset(REDIS_KEYS.job(jobId), {
+            status: 'failed',
+            error: error.message,
+            failedAt: Date.now().toString(),
+          })
+          .catch(() =>
+            logger.import('Job status update failed', { jobId }, 'error')
+          )
+      })
+    })
+  } catch (error) {
+    logger.import(
+      'Failed to start background processing',
+      {
+        jobId,
+        source,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      'error'
+    )
+  }
+}
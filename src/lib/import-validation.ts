@@ -0,0 +1,195 @@
+/**
+ * Import Validation
+ *
+ * Checks import objects without persisting anything, for dry-run imports.
+ * Each issue points at the object's spreadsheet row, or at its position in
+ * the import (1-based) for objects that don't come from a sheet row.
+ */
+
+import { MAX_IMPORT_OBJECT_KB, MAX_VALIDATION_ISSUES } from '@/constants'
+import { findParentCycles, type ImportPayloadObject } from './import-hierarchy'
+import { parseValueTypeCast } from './property-types'
+
+export type ImportIssueType =
+  | 'missing_required'
+  | 'duplicate_name'
+  | 'invalid_number'
+  | 'oversize'
+  | 'unresolved_parent'
+  | 'parent_cycle'
+
+export interface ImportRowIssue {
+  row: number
+  name: string
+  type: ImportIssueType
+  // Field or property key the issue is about
+  field?: string
+  // Offending value, the row of the first object for duplicates or the rows
+  // of a parent cycle
+  value?: string
+}
+
+export interface ImportValidationReport {
+  total: number
+  valid: number
+  invalid: number
+  issueCounts: Record<ImportIssueType, number>
+  // First MAX_VALIDATION_ISSUES issues, ordered by row
+  issues: ImportRowIssue[]
+  truncated: boolean
+}
+
+const NUMERIC_TYPES = new Set(['number', 'integer', 'decimal', 'float'])
+
+/**
+ * Whether a value can be stored as a number. Accepts a decimal comma.
+ */
+export function isNumericValue(value: string): boolean {
+  const trimmed = value.trim()
+  if (trimmed === '') return true
+  return Number.isFinite(Number(trimmed.replace(',', '.')))
+}
+
+// Objects count as siblings when they share the same set of parents
+function siblingKey(object: ImportPayloadObject): string {
+  const parents = [
+    ...(object.parents || []),
+    ...(object.parentImportIds || []).map((ref) => `import:${ref}`),
+  ].sort()
+  return `${parents.join('|')}/${object.name.trim().toLowerCase()}`
+}
+
+function validateObject(
+  object: ImportPayloadObject,
+  row: number
+): ImportRowIssue[] {
+  const name = typeof object.name === 'string' ? object.name.trim() : ''
+  const issues: ImportRowIssue[] = []
+
+  if (!name) {
+    issues.push({ row, name, type: 'missing_required', field: 'name' })
+  }
+
+  for (const property of object.properties || []) {
+    if (!property.key?.trim()) {
+      issues.push({
+        row,
+        name,
+        type: 'missing_required',
+        field: property.label || 'key',
+      })
+      continue
+    }
+
+    for (const value of property.values || []) {
+      const numeric =
+        NUMERIC_TYPES.has(property.type || '') ||
+        parseValueTypeCast(value.valueTypeCast).type === 'number'
+      if (numeric && !isNumericValue(String(value.value ?? ''))) {
+        issues.push({
+          row,
+          name,
+          type: 'invalid_number',
+          field: property.key,
+          value: String(value.value),
+        })
+      }
+    }
+  }
+
+  if (object.unresolvedParent) {
+    issues.push({
+      row,
+      name,
+      type: 'unresolved_parent',
+      field: 'parent',
+      value: object.unresolvedParent,
+    })
+  }
+
+  const sizeKB = JSON.stringify(object).length / 1024
+  if (sizeKB > MAX_IMPORT_OBJECT_KB) {
+    issues.push({ row, name, type: 'oversize', value: sizeKB.toFixed(0) })
+  }
+
+  return issues
+}
+
+/**
+ * Validate all objects of an import and build the dry-run report
+ */
+export function validateImportObjects(
+  objects: ImportPayloadObject[],
+  maxIssues = MAX_VALIDATION_ISSUES
+): ImportValidationReport {
+  const issueCounts: Record<ImportIssueType, number> = {
+    missing_required: 0,
+    duplicate_name: 0,
+    invalid_number: 0,
+    oversize: 0,
+    unresolved_parent: 0,
+    parent_cycle: 0,
+  }
+  const issues: ImportRowIssue[] = []
+  const invalidObjects = new Set<number>()
+  const firstRowBySibling = new Map<string, number>()
+  const rowOf = (object: ImportPayloadObject, index: number) =>
+    object.sourceRow ?? index + 1
+
+  // Rows of the parent cycle each object is part of
+  const positions = new Map(objects.map((object, index) => [object, index]))
+  const cycleRows = new Map<ImportPayloadObject, string>()
+  findParentCycles(objects).forEach((cycle) => {
+    const rows = cycle
+      .map((object) => rowOf(object, positions.get(object)!))
+      .join(' → ')
+    cycle.forEach((object) => cycleRows.set(object, rows))
+  })
+
+  objects.forEach((object, index) => {
+    const row = rowOf(object, index)
+    const add = (issue: ImportRowIssue) => {
+      issueCounts[issue.type]++
+      invalidObjects.add(index)
+      if (issues.length < maxIssues) issues.push(issue)
+    }
+
+    validateObject(object, row).forEach(add)
+    const cycle = cycleRows.get(object)
+    if (cycle) {
+      add({
+        row,
+        name: typeof object.name === 'string' ? object.name.trim() : '',
+        type: 'parent_cycle',
+        field: 'parent',
+        value: cycle,
+      })
+    }
+
+    if (typeof object.name !== 'string' || !object.name.trim()) return
+
+    const key = siblingKey(object)
+    const firstRow = firstRowBySibling.get(key)
+    if (firstRow === undefined) {
+      firstRowBySibling.set(key, row)
+    } else {
+      add({
+        row,
+        name: object.name.trim(),
+        type: 'duplicate_name',
+        value: String(firstRow),
+      })
+    }
+  })
+
+  const totalIssues = Object.values(issueCounts).reduce((a, b) => a + b, 0)
+
+  return {
+    total: objects.length,
+    valid: objects.length - invalidObjects.size,
+    invalid: invalidObjects.size,
+    issueCounts,
+    issues: issues.sort((a, b) => a.row - b.row),
+    truncated: totalIssues > issues.length,
+  }
+}
@@ -9,12 +9,25 @@ export * from './upload-service'
 
 // Validation schemas
 export * from './validations/object-model'
+export * from './validations/property-value'
 
 // Logging (client-safe)
 export * from './logger'
 
+// Property value types (client-safe)
+export * from './property-types'
+
 // Search parser (client-safe)
 export * from './search-parser'
+export * from './search-url'
+
+// Unit conversion (client-safe)
+export * from './units'
+export * from './mass-balance'
+export * from './circularity'
+export * from './embodied-carbon'
+export * from './process-templates'
+export * from './model-schema'
 
 // Note: Redis, security, and auth utilities are server-side only
 // Import them directly in API routes:
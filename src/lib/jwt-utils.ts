@@ -44,6 +44,13 @@ export function decodeJWTPayload(token: string): JWTPayload | null {
   }
 }
 
+/**
+ * Whether the token's `exp` claim has passed (tokens without one never expire)
+ */
+export function isJWTExpired(payload: JWTPayload, now = Date.now()): boolean {
+  return payload.exp !== undefined && payload.exp * 1000 <= now
+}
+
 /**
  * Extract userUUID from JWT token
  */
@@ -0,0 +1,175 @@
+/**
+ * Material Lineage
+ *
+ * Where a material came from and where it ended up: the materials reachable
+ * from it against and along the direction of its process flows.
+ */
+
+// Levels the lineage view can show in each direction
+export const LINEAGE_DEPTH_OPTIONS = [1, 2, 3, 4, 5]
+export const DEFAULT_LINEAGE_DEPTH = 3
+
+interface FlowStatement {
+  subject: string
+  predicate?: string
+  object: string
+}
+
+export interface MaterialLineage<T> {
+  // Materials the object was made from, including the object itself
+  upstream: Set<string>
+  // Materials the object went into, including the object itself
+  downstream: Set<string>
+  statements: T[]
+}
+
+/**
+ * Statements pointing from input to output material. IS_OUTPUT_OF statements
+ * point the other way and are reversed, unless an IS_INPUT_OF statement
+ * already connects the same materials.
+ */
+export function orientFlowStatements<T extends FlowStatement>(
+  statements: T[]
+): T[] {
+  const pairs = new Set(
+    statements
+      .filter((statement) => statement.predicate !== 'IS_OUTPUT_OF')
+      .map((statement) => `${statement.subject}:${statement.object}`)
+  )
+
+  return statements.flatMap((statement) => {
+    if (statement.predicate !== 'IS_OUTPUT_OF') return [statement]
+
+    const key = `${statement.object}:${statement.subject}`
+    if (pairs.has(key)) return []
+    pairs.add(key)
+    return [
+      {
+        ...statement,
+        subject: statement.object,
+        predicate: 'IS_INPUT_OF',
+        object: statement.subject,
+      } as T,
+    ]
+  })
+}
+
+/**
+ * Compute topological depth for statement UUIDs without needing full objects.
+ * Used to filter participating UUIDs before fetching objects.
+ * Returns only UUIDs within the depth limit.
+ *
+ * When focusNode is provided, BFS starts from that node instead of graph roots,
+ * enabling drill-down navigation (always showing maxLevels from the focus point).
+ */
+export function limitStatementDepth(
+  statements: Array<{ subject: string; object: string }>,
+  maxLevels: number,
+  focusNode?: string
+): Set<string> {
+  if (statements.length === 0) return new Set()
+
+  // Build forward adjacency and in-degree
+  const forwardAdj = new Map<string, Set<string>>()
+  const inDegree = new Map<string, number>()
+  const allIds = new Set<string>()
+
+  statements.forEach((s) => {
+    allIds.add(s.subject)
+    allIds.add(s.object)
+  })
+  allIds.forEach((id) => {
+    forwardAdj.set(id, new Set())
+    inDegree.set(id, 0)
+  })
+
+  statements.forEach((s) => {
+    forwardAdj.get(s.subject)!.add(s.object)
+    inDegree.set(s.object, (inDegree.get(s.object) || 0) + 1)
+  })
+
+  // BFS starting points: focusNode if provided, otherwise graph roots (in-degree 0)
+  const startNodes: string[] = []
+  if (focusNode && allIds.has(focusNode)) {
+    startNodes.push(focusNode)
+  } else {
+    inDegree.forEach((deg, id) => {
+      if (deg === 0) startNodes.push(id)
+    })
+  }
+
+  const depth = new Map<string, number>()
+  const queue: string[] = [...startNodes]
+  startNodes.forEach((id) => depth.set(id, 0))
+
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    const currentDepth = depth.get(current)!
+    const children = forwardAdj.get(current)
+    if (children) {
+      children.forEach((child) => {
+        const existingDepth = depth.get(child)
+        // Capped at the limit so the search ends in graphs with cycles, and
+        // start nodes stay at depth 0 when a cycle leads back to them
+        const newDepth = Math.min(currentDepth + 1, maxLevels)
+        if (existingDepth === 0) return
+        if (existingDepth === undefined || newDepth > existingDepth) {
+          depth.set(child, newDepth)
+          queue.push(child)
+        }
+      })
+    }
+  }
+
+  // Return only UUIDs within depth limit
+  const kept = new Set<string>()
+  depth.forEach((d, id) => {
+    if (d < maxLevels) kept.add(id)
+  })
+
+  // When no focusNode, include unreachable nodes (isolated/cycles)
+  if (!focusNode) {
+    allIds.forEach((id) => {
+      if (!depth.has(id)) kept.add(id)
+    })
+  }
+
+  return kept
+}
+
+/**
+ * Upstream and downstream lineage of a material, up to `depth` hops in each
+ * direction. Statements must point from input to output material, see
+ * orientFlowStatements.
+ */
+export function traceMaterialLineage<
+  T extends { subject: string; object: string },
+>(statements: T[], uuid: string, depth: number): MaterialLineage<T> {
+  const inGraph = statements.some(
+    (statement) => statement.subject === uuid || statement.object === uuid
+  )
+  if (!inGraph || depth < 1) {
+    return { upstream: new Set(), downstream: new Set(), statements: [] }
+  }
+
+  // Depth counts levels, the material itself is level 0
+  const downstream = limitStatementDepth(statements, depth + 1, uuid)
+  const upstream = limitStatementDepth(
+    statements.map((statement) => ({
+      subject: statement.object,
+      object: statement.subject,
+    })),
+    depth + 1,
+    uuid
+  )
+
+  return {
+    upstream,
+    downstream,
+    statements: statements.filter(
+      (statement) =>
+        (upstream.has(statement.subject) && upstream.has(statement.object)) ||
+        (downstream.has(statement.subject) && downstream.has(statement.object))
+    ),
+  }
+}
@@ -0,0 +1,161 @@
+import type { EnhancedMaterialRelationship } from '@/types'
+import { sumQuantities } from './units'
+
+// Unit mass balances are computed in
+export const MASS_BALANCE_UNIT = 'kg'
+
+export interface MassBalanceFlow {
+  quantity?: number
+  unit?: string
+}
+
+export type MassBalanceStatus = 'balanced' | 'unbalanced' | 'unknown'
+
+export interface MassBalanceResult {
+  // 'unknown' when inputs or outputs have no quantity in a mass unit
+  status: MassBalanceStatus
+  inputTotal: number
+  outputTotal: number
+  // Input total minus the declared material loss
+  expectedOutput: number
+  // Output total minus the expected output
+  difference: number
+  // Difference as a percentage of the input total
+  differencePercent: number
+  // Flows left out because their unit isn't a mass unit
+  excluded: number
+}
+
+/**
+ * Compare the summed inputs of a process with its summed outputs plus the
+ * declared material loss, in kg
+ * @param tolerancePercent - Allowed difference as a percentage of the inputs
+ */
+export function checkMassBalance(
+  inputs: MassBalanceFlow[],
+  outputs: MassBalanceFlow[],
+  materialLossPercent: number | undefined,
+  tolerancePercent: number
+): MassBalanceResult {
+  const input = sumQuantities(inputs, MASS_BALANCE_UNIT)
+  const output = sumQuantities(outputs, MASS_BALANCE_UNIT)
+
+  const expectedOutput = input.total * (1 - (materialLossPercent || 0) / 100)
+  const difference = output.total - expectedOutput
+  const differencePercent =
+    input.total > 0 ? (difference / input.total) * 100 : 0
+
+  let status: MassBalanceStatus = 'unknown'
+  if (input.total > 0 && output.total > 0) {
+    status =
+      Math.abs(differencePercent) <= tolerancePercent
+        ? 'balanced'
+        : 'unbalanced'
+  }
+
+  return {
+    status,
+    inputTotal: input.total,
+    outputTotal: output.total,
+    expectedOutput,
+    difference,
+    differencePercent,
+    excluded: input.excluded + output.excluded,
+  }
+}
+
+export interface ProcessFlowGroup {
+  key: string
+  processName: string
+  relationships: EnhancedMaterialRelationship[]
+  // Quantity of each input and output material, by material UUID
+  inputs: Map<string, MassBalanceFlow>
+  outputs: Map<string, MassBalanceFlow>
+  materialLossPercent?: number
+}
+
+/**
+ * Group flows into the processes they were created by
+ *
+ * A process is stored as one statement per input/output pair, all with the
+ * process name. Flows with the same name are split into separate processes
+ * when they don't share any material.
+ */
+export function groupProcessFlows(
+  relationships: EnhancedMaterialRelationship[]
+): ProcessFlowGroup[] {
+  const byName = new Map<string, EnhancedMaterialRelationship[]>()
+  relationships.forEach((rel) => {
+    const name = rel.processName || ''
+    byName.set(name, [...(byName.get(name) || []), rel])
+  })
+
+  const groups: ProcessFlowGroup[] = []
+
+  byName.forEach((flows, processName) => {
+    // Union-find over the materials of the flows
+    const parents = new Map<string, string>()
+    const find = (uuid: string): string => {
+      const parent = parents.get(uuid) ?? uuid
+      if (parent === uuid) return uuid
+      const root = find(parent)
+      parents.set(uuid, root)
+      return root
+    }
+    flows.forEach((rel) =>
+      parents.set(find(rel.subject.uuid), find(rel.object.uuid))
+    )
+
+    const components = new Map<string, ProcessFlowGroup>()
+    flows.forEach((rel) => {
+      const root = find(rel.subject.uuid)
+      let group = components.get(root)
+      if (!group) {
+        group = {
+          key: `${processName}:${root}`,
+          processName,
+          relationships: [],
+          inputs: new Map(),
+          outputs: new Map(),
+        }
+        components.set(root, group)
+      }
+
+      group.relationships.push(rel)
+      if (!group.inputs.has(rel.subject.uuid)) {
+        group.inputs.set(rel.subject.uuid, {
+          quantity: rel.inputMaterial?.quantity ?? rel.quantity,
+          unit: rel.inputMaterial?.unit || rel.unit,
+        })
+      }
+      if (!group.outputs.has(rel.object.uuid)) {
+        group.outputs.set(rel.object.uuid, {
+          quantity: rel.outputMaterial?.quantity,
+          unit: rel.outputMaterial?.unit,
+        })
+      }
+      if (group.materialLossPercent === undefined) {
+        group.materialLossPercent = rel.materialLossPercent
+      }
+    })
+
+    groups.push(...components.values())
+  })
+
+  return groups
+}
+
+/**
+ * Mass balance of a group of process flows
+ */
+export function checkProcessFlowBalance(
+  group: ProcessFlowGroup,
+  tolerancePercent: number
+): MassBalanceResult {
+  return checkMassBalance(
+    [...group.inputs.values()],
+    [...group.outputs.values()],
+    group.materialLossPercent,
+    tolerancePercent
+  )
+}
@@ -0,0 +1,139 @@
+import type { ModelPropertySchema, ModelSchema } from '@/types'
+import {
+  DEFAULT_VALUE_TYPE_CAST,
+  formatValueTypeCast,
+  parseValueTypeCast,
+} from './property-types'
+import { validatePropertyValue } from './validations/property-value'
+
+export type ModelSchemaIssueKind = 'missing' | 'type' | 'unit' | 'invalid'
+
+/**
+ * A way an object doesn't match the schema of its model
+ */
+export interface ModelSchemaIssue {
+  key: string
+  kind: ModelSchemaIssueKind
+  // Validation message of an invalid value
+  message?: string
+}
+
+const activeProperties = (properties: any[] = []): any[] =>
+  properties.filter((p) => p?.key && !p.softDeleted && !p._deleted)
+
+const filledValues = (property: any): any[] =>
+  (property.values || []).filter(
+    (v: any) =>
+      !v.softDeleted &&
+      !v._needsInput &&
+      typeof v.value === 'string' &&
+      v.value.trim() !== ''
+  )
+
+/**
+ * Schema described by a model's properties. Models saved before schemas
+ * existed have no stored schema, their example values become the defaults
+ * and nothing is required. The model form adds `required` and a property-wide
+ * `valueTypeCast`.
+ */
+export function schemaFromModelProperties(
+  properties: any[] = []
+): ModelPropertySchema[] {
+  return activeProperties(properties).map((property) => {
+    const values = filledValues(property)
+    return {
+      key: property.key.trim(),
+      ...(property.label &&
+        property.label !== property.key && { label: property.label }),
+      valueTypeCast: formatValueTypeCast(
+        parseValueTypeCast(
+          property.valueTypeCast ||
+            property.values?.[0]?.valueTypeCast ||
+            DEFAULT_VALUE_TYPE_CAST
+        )
+      ),
+      required: !!property.required,
+      defaultValues: values.map((v: any) => v.value),
+    }
+  })
+}
+
+/**
+ * Schema of a model: the stored one, or the one its properties describe
+ */
+export function getModelSchema(
+  model: { properties?: any[] } | null | undefined,
+  stored?: ModelSchema | null
+): ModelPropertySchema[] {
+  if (stored) return stored.properties
+  return schemaFromModelProperties(model?.properties)
+}
+
+/**
+ * Properties for the object form, filled with the defaults of the schema
+ */
+export function createPropertiesFromSchema(schema: ModelPropertySchema[]) {
+  return schema.map((property) => ({
+    key: property.key,
+    label: property.label || property.key,
+    values: (property.defaultValues.length > 0
+      ? property.defaultValues
+      : ['']
+    ).map((value) => ({
+      value,
+      valueTypeCast: property.valueTypeCast,
+      files: [],
+    })),
+    files: [],
+  }))
+}
+
+/**
+ * Ways the properties of an object don't match the schema of its model: a
+ * required property without a value, values of another type or unit, and
+ * values that aren't valid for the schema's type, like an enum value that's
+ * no longer allowed. At most one issue per property.
+ */
+export function checkModelSchema(
+  properties: any[],
+  schema: ModelPropertySchema[]
+): ModelSchemaIssue[] {
+  const issues: ModelSchemaIssue[] = []
+  const active = activeProperties(properties)
+
+  schema.forEach((field) => {
+    const property = active.find((p) => p.key.trim() === field.key)
+    // Formula results are numbers, whatever the type
+    const values = property
+      ? filledValues(property).filter((v: any) => !v.formulaData?.formula)
+      : []
+
+    if (field.required && (!property || filledValues(property).length === 0)) {
+      issues.push({ key: field.key, kind: 'missing' })
+      return
+    }
+
+    const expected = parseValueTypeCast(field.valueTypeCast)
+    for (const value of values) {
+      const actual = parseValueTypeCast(value.valueTypeCast)
+      if (actual.type !== expected.type) {
+        issues.push({ key: field.key, kind: 'type' })
+        return
+      }
+      if (
+        expected.type === 'number' &&
+        (actual.unit || '') !== (expected.unit || '')
+      ) {
+        issues.push({ key: field.key, kind: 'unit' })
+        return
+      }
+      const message = validatePropertyValue(value.value, field.valueTypeCast)
+      if (message) {
+        issues.push({ key: field.key, kind: 'invalid', message })
+        return
+      }
+    }
+  })
+
+  return issues
+}
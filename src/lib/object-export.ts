@@ -0,0 +1,365 @@
+/**
+ * Object Export Format
+ *
+ * Versioned JSON document describing one or more objects and their
+ * descendants. Each object is stored in the same shape that
+ * `createAggregates` accepts (see `ImportObjectData`), plus its original
+ * UUID and parent UUIDs so the hierarchy can be rebuilt on import.
+ *
+ * Objects are ordered parents-first. Parents that aren't part of the export
+ * are kept as plain UUIDs and can be re-linked if they exist in the target.
+ *
+ * The JSON-LD flavour carries the same information using schema.org terms
+ * where they exist and the `iom:` vocabulary otherwise, and can be converted
+ * back with `parseObjectExport`.
+ */
+
+import type { ImportObjectData } from '@/hooks/api/use-import-api'
+
+export const OBJECT_EXPORT_FORMAT = 'iom-object-export'
+export const OBJECT_EXPORT_VERSION = 1
+
+export type ObjectExportFlavour = 'json' | 'jsonld'
+
+export interface ExportedObject extends ImportObjectData {
+  // UUID of the object in the system it was exported from
+  uuid: string
+  parents: string[]
+  modelUuid?: string
+  createdAt?: string
+  lastUpdatedAt?: string
+}
+
+export interface ObjectExportDocument {
+  format: typeof OBJECT_EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  // UUIDs of the objects the export was started from
+  rootUuids: string[]
+  objects: ExportedObject[]
+}
+
+type ExportedFile = NonNullable<ImportObjectData['files']>[number]
+type ExportedProperty = NonNullable<ImportObjectData['properties']>[number]
+type ExportedValue = NonNullable<ExportedProperty['values']>[number]
+type JsonLdNode = Record<string, any>
+
+const IOM_NAMESPACE = 'https://maeconomy.org/ns/iom#'
+const UUID_URN_PREFIX = 'urn:uuid:'
+
+export const OBJECT_EXPORT_JSON_LD_CONTEXT = {
+  '@vocab': 'https://schema.org/',
+  iom: IOM_NAMESPACE,
+}
+
+/**
+ * Create an export document, ordering objects so parents come first
+ */
+export function createObjectExport(
+  objects: ExportedObject[],
+  rootUuids: string[],
+  exportedAt: Date = new Date()
+): ObjectExportDocument {
+  return {
+    format: OBJECT_EXPORT_FORMAT,
+    version: OBJECT_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    rootUuids,
+    objects: sortParentsFirst(objects),
+  }
+}
+
+/**
+ * Topologically sort objects so every parent inside the export precedes its
+ * children. Duplicates (objects reachable through several parents) are
+ * dropped and cycles are broken by keeping the original order.
+ */
+export function sortParentsFirst(objects: ExportedObject[]): ExportedObject[] {
+  const byUuid = new Map<string, ExportedObject>()
+  for (const object of objects) {
+    if (!byUuid.has(object.uuid)) byUuid.set(object.uuid, object)
+  }
+
+  const sorted: ExportedObject[] = []
+  const visited = new Set<string>()
+
+  const visit = (object: ExportedObject, path: Set<string>) => {
+    if (visited.has(object.uuid) || path.has(object.uuid)) return
+    path.add(object.uuid)
+    for (const parentUuid of object.parents) {
+      const parent = byUuid.get(parentUuid)
+      if (parent) visit(parent, path)
+    }
+    path.delete(object.uuid)
+    visited.add(object.uuid)
+    sorted.push(object)
+  }
+
+  byUuid.forEach((object) => visit(object, new Set()))
+  return sorted
+}
+
+function toId(uuid: string): { '@id': string } {
+  return { '@id': `${UUID_URN_PREFIX}${uuid}` }
+}
+
+function fromId(node: unknown): string | undefined {
+  const id =
+    typeof node === 'string' ? node : (node as JsonLdNode | undefined)?.['@id']
+  if (typeof id !== 'string') return undefined
+  return id.startsWith(UUID_URN_PREFIX) ? id.slice(UUID_URN_PREFIX.length) : id
+}
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+// Drop undefined fields so the JSON-LD output stays compact
+function compact(node: JsonLdNode): JsonLdNode {
+  return Object.fromEntries(
+    Object.entries(node).filter(([, value]) => value !== undefined)
+  )
+}
+
+function fileToJsonLd(file: ExportedFile & { uuid?: string }): JsonLdNode {
+  return compact({
+    '@type': 'MediaObject',
+    identifier: file.uuid || undefined,
+    name: file.fileName,
+    caption: file.label,
+    contentUrl: file.fileReference,
+    encodingFormat: file.contentType,
+    contentSize: file.size,
+  })
+}
+
+function fileFromJsonLd(node: JsonLdNode): ExportedFile & { uuid: string } {
+  return {
+    uuid: node.identifier || '',
+    fileName: node.name || '',
+    fileReference: node.contentUrl || '',
+    label: node.caption,
+    contentType: node.encodingFormat,
+    size: typeof node.contentSize === 'number' ? node.contentSize : undefined,
+  }
+}
+
+function valueToJsonLd(value: ExportedValue): JsonLdNode {
+  return compact({
+    '@type': 'iom:Value',
+    value: value.value,
+    'iom:valueTypeCast': value.valueTypeCast,
+    'iom:sourceType': value.sourceType,
+    associatedMedia: value.files?.length
+      ? value.files.map(fileToJsonLd)
+      : undefined,
+  })
+}
+
+function propertyToJsonLd(property: ExportedProperty): JsonLdNode {
+  return compact({
+    '@type': 'PropertyValue',
+    propertyID: property.key,
+    name: property.label,
+    'iom:type': property.type,
+    'iom:values': (property.values || []).map(valueToJsonLd),
+    associatedMedia: property.files?.length
+      ? property.files.map(fileToJsonLd)
+      : undefined,
+  })
+}
+
+function objectToJsonLd(object: ExportedObject): JsonLdNode {
+  const { address } = object
+  return compact({
+    ...toId(object.uuid),
+    '@type': object.isTemplate ? 'iom:Model' : 'iom:Object',
+    name: object.name,
+    alternateName: object.abbreviation,
+    version: object.version,
+    description: object.description,
+    dateCreated: object.createdAt || undefined,
+    dateModified: object.lastUpdatedAt || undefined,
+    'iom:model': object.modelUuid ? toId(object.modelUuid) : undefined,
+    'iom:parent': object.parents.map(toId),
+    address: address
+      ? compact({
+          '@type': 'PostalAddress',
+          name: address.fullAddress,
+          streetAddress: address.street,
+          'iom:houseNumber': address.houseNumber,
+          postalCode: address.postalCode,
+          addressLocality: address.city,
+          addressRegion: address.state,
+          'iom:district': address.district,
+          addressCountry: address.country,
+        })
+      : undefined,
+    additionalProperty: object.properties?.map(propertyToJsonLd),
+    associatedMedia: object.files?.length
+      ? object.files.map(fileToJsonLd)
+      : undefined,
+  })
+}
+
+function objectFromJsonLd(node: JsonLdNode): ExportedObject {
+  const address = node.address as JsonLdNode | undefined
+  const properties = asArray<JsonLdNode>(node.additionalProperty)
+  const files = asArray<JsonLdNode>(node.associatedMedia)
+
+  return {
+    uuid: fromId(node) || '',
+    name: node.name || '',
+    abbreviation: node.alternateName,
+    version: node.version,
+    description: node.description,
+    isTemplate: node['@type'] === 'iom:Model' || undefined,
+    createdAt: node.dateCreated,
+    lastUpdatedAt: node.dateModified,
+    modelUuid: fromId(node['iom:model']),
+    parents: asArray(node['iom:parent'])
+      .map(fromId)
+      .filter((uuid): uuid is string => !!uuid),
+    address: address
+      ? {
+          fullAddress: address.name || '',
+          street: address.streetAddress || '',
+          houseNumber: address['iom:houseNumber'] || '',
+          city: address.addressLocality || '',
+          postalCode: address.postalCode || '',
+          country: address.addressCountry || '',
+          state: address.addressRegion,
+          district: address['iom:district'],
+        }
+      : undefined,
+    properties: properties.length
+      ? properties.map((property) => ({
+          key: property.propertyID || '',
+          label: property.name,
+          type: property['iom:type'],
+          values: asArray<JsonLdNode>(property['iom:values']).map((value) => ({
+            value: value.value ?? '',
+            valueTypeCast: value['iom:valueTypeCast'],
+            sourceType: value['iom:sourceType'],
+            files: asArray<JsonLdNode>(value.associatedMedia).map(
+              fileFromJsonLd
+            ),
+          })),
+          files: asArray<JsonLdNode>(property.associatedMedia).map(
+            fileFromJsonLd
+          ),
+        }))
+      : undefined,
+    files: files.length ? files.map(fileFromJsonLd) : undefined,
+  }
+}
+
+/**
+ * Convert an export document to its JSON-LD flavour
+ */
+export function toJsonLdExport(document: ObjectExportDocument): JsonLdNode {
+  return {
+    '@context': OBJECT_EXPORT_JSON_LD_CONTEXT,
+    '@type': 'iom:ObjectExport',
+    'iom:format': document.format,
+    'iom:version': document.version,
+    dateCreated: document.exportedAt,
+    'iom:root': document.rootUuids.map(toId),
+    '@graph': document.objects.map(objectToJsonLd),
+  }
+}
+
+/**
+ * Serialize an export document in the requested flavour
+ */
+export function serializeObjectExport(
+  document: ObjectExportDocument,
+  flavour: ObjectExportFlavour = 'json'
+): string {
+  const payload = flavour === 'jsonld' ? toJsonLdExport(document) : document
+  return JSON.stringify(payload, null, 2)
+}
+
+/**
+ * Whether parsed JSON looks like an object export (either flavour)
+ */
+export function isObjectExport(data: unknown): boolean {
+  if (!data || typeof data !== 'object') return false
+  const record = data as JsonLdNode
+  return (
+    record.format === OBJECT_EXPORT_FORMAT ||
+    record['iom:format'] === OBJECT_EXPORT_FORMAT
+  )
+}
+
+/**
+ * Parse an export document from JSON text or an already parsed value.
+ * Accepts both flavours and throws when the document isn't a supported
+ * object export.
+ */
+export function parseObjectExport(input: unknown): ObjectExportDocument {
+  const data = typeof input === 'string' ? JSON.parse(input) : input
+
+  if (!isObjectExport(data)) {
+    throw new Error('File is not an object export')
+  }
+
+  const isJsonLd = '@graph' in data
+  const version = isJsonLd ? data['iom:version'] : data.version
+  if (
+    typeof version !== 'number' ||
+    version < 1 ||
+    version > OBJECT_EXPORT_VERSION
+  ) {
+    throw new Error(`Unsupported object export version: ${version}`)
+  }
+
+  const document: ObjectExportDocument = isJsonLd
+    ? {
+        format: OBJECT_EXPORT_FORMAT,
+        version,
+        exportedAt: data.dateCreated || '',
+        rootUuids: asArray(data['iom:root'])
+          .map(fromId)
+          .filter((uuid): uuid is string => !!uuid),
+        objects: asArray<JsonLdNode>(data['@graph']).map(objectFromJsonLd),
+      }
+    : {
+        ...data,
+        rootUuids: asArray(data.rootUuids),
+        objects: asArray<ExportedObject>(data.objects).map((object) => ({
+          ...object,
+          parents: asArray(object.parents),
+        })),
+      }
+
+  const invalid = document.objects.findIndex(
+    (object) => !object || typeof object.name !== 'string' || !object.uuid
+  )
+  if (invalid !== -1) {
+    throw new Error(
+      `Object ${invalid + 1} in the export is missing a name or UUID`
+    )
+  }
+
+  return document
+}
+
+/**
+ * File name for a downloaded export
+ */
+export function getObjectExportFileName(
+  name: string,
+  flavour: ObjectExportFlavour,
+  date: Date = new Date()
+): string {
+  const slug =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 50) || 'objects'
+  const extension = flavour === 'jsonld' ? 'jsonld' : 'json'
+  return `${slug}-${date.toISOString().split('T')[0]}.${extension}`
+}
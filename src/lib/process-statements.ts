@@ -0,0 +1,179 @@
+import type { MaterialFlowMetadata, ProcessMetadata } from '@/types'
+
+// Shape of a statement property as the API takes it
+export interface ProcessStatementProperty {
+  key: string
+  values: { value: string }[]
+}
+
+// One flow of a process, as sent to createStatements
+export interface ProcessStatement {
+  subject: string
+  predicate: 'IS_INPUT_OF'
+  object: string
+  properties: ProcessStatementProperty[]
+}
+
+// Process metadata stored under its own key before any additional metadata
+const CORE_PROCESS_KEYS = [
+  'processName',
+  'processType',
+  'quantity',
+  'unit',
+  'processCategory',
+  'isRecycling',
+  'isDeconstruction',
+  'sourceBuildingUuid',
+  'targetBuildingUuid',
+]
+
+/**
+ * Statement properties for one flow of a process: the core process fields,
+ * then the material flow metadata, then any additional process metadata
+ */
+export function buildProcessStatementProperties(
+  processMetadata: ProcessMetadata,
+  materialMetadata?: MaterialFlowMetadata
+): ProcessStatementProperty[] {
+  const properties: ProcessStatementProperty[] = [
+    {
+      key: 'processName',
+      values: [{ value: processMetadata.processName }],
+    },
+    {
+      key: 'processType',
+      values: [{ value: processMetadata.processType }],
+    },
+    {
+      key: 'quantity',
+      values: [{ value: processMetadata.quantity.toString() }],
+    },
+    {
+      key: 'unit',
+      values: [{ value: processMetadata.unit }],
+    },
+  ]
+
+  // Add process-level lifecycle metadata
+  if (processMetadata.processCategory) {
+    properties.push({
+      key: 'processCategory',
+      values: [{ value: processMetadata.processCategory }],
+    })
+  }
+  if (processMetadata.isRecycling !== undefined) {
+    properties.push({
+      key: 'isRecycling',
+      values: [{ value: String(processMetadata.isRecycling) }],
+    })
+  }
+  if (processMetadata.isDeconstruction !== undefined) {
+    properties.push({
+      key: 'isDeconstruction',
+      values: [{ value: String(processMetadata.isDeconstruction) }],
+    })
+  }
+  if (processMetadata.sourceBuildingUuid) {
+    properties.push({
+      key: 'sourceBuildingUuid',
+      values: [{ value: processMetadata.sourceBuildingUuid }],
+    })
+  }
+  if (processMetadata.targetBuildingUuid) {
+    properties.push({
+      key: 'targetBuildingUuid',
+      values: [{ value: processMetadata.targetBuildingUuid }],
+    })
+  }
+
+  // Add material-level flow metadata if provided
+  if (materialMetadata) {
+    Object.entries(materialMetadata).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        properties.push({ key, values: [{ value: String(value) }] })
+      }
+    })
+  }
+
+  // Add any additional metadata properties not already handled
+  Object.entries(processMetadata)
+    .filter(([key]) => !CORE_PROCESS_KEYS.includes(key))
+    .forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        properties.push({ key, values: [{ value: String(value) }] })
+      }
+    })
+
+  return properties
+}
+
+export interface ProcessFlowMaterial {
+  quantity?: number
+  unit?: string
+  metadata?: MaterialFlowMetadata
+}
+
+/**
+ * Material flow metadata of an input → output pair, with the input's and
+ * output's metadata under "input_" and "output_" prefixes so they don't clash
+ */
+export function namespaceFlowMetadata(
+  input: ProcessFlowMaterial,
+  output: ProcessFlowMaterial
+): MaterialFlowMetadata {
+  const namespacedMetadata: MaterialFlowMetadata = {}
+
+  // Add input-specific properties with "input_" prefix
+  if (input.metadata) {
+    Object.entries(input.metadata).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        ;(namespacedMetadata as any)[`input_${key}`] = value
+      }
+    })
+  }
+
+  // Add output-specific properties with "output_" prefix
+  if (output.metadata) {
+    Object.entries(output.metadata).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        ;(namespacedMetadata as any)[`output_${key}`] = value
+      }
+    })
+  }
+
+  // Add input quantity and unit with namespace
+  namespacedMetadata.input_quantity = input.quantity
+  namespacedMetadata.input_unit = input.unit
+
+  // Add output quantity and unit with namespace (always store both)
+  if (output.quantity !== undefined) {
+    namespacedMetadata.output_quantity = output.quantity
+  }
+  if (output.unit) {
+    namespacedMetadata.output_unit = output.unit
+  }
+
+  return namespacedMetadata
+}
+
+/**
+ * Statements for a whole process, one per input × output pair. Only
+ * IS_INPUT_OF statements are created, IS_OUTPUT_OF ones would cause cycles.
+ */
+export function buildProcessFlowStatements(
+  processMetadata: ProcessMetadata,
+  inputs: Array<ProcessFlowMaterial & { uuid: string }>,
+  outputs: Array<ProcessFlowMaterial & { uuid: string }>
+): ProcessStatement[] {
+  return inputs.flatMap((input) =>
+    outputs.map((output) => ({
+      subject: input.uuid,
+      predicate: 'IS_INPUT_OF' as const,
+      object: output.uuid,
+      properties: buildProcessStatementProperties(
+        processMetadata,
+        namespaceFlowMetadata(input, output)
+      ),
+    }))
+  )
+}
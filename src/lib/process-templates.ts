@@ -0,0 +1,141 @@
+import type {
+  MaterialFlowMetadata,
+  ProcessMetadata,
+  ProcessTemplate,
+  ProcessTemplateInput,
+} from '@/types'
+import { convertQuantity, sumQuantities } from './units'
+
+export interface ProcessTemplateMaterial<T> {
+  object: T
+  quantity?: number
+  unit?: string
+  metadata?: MaterialFlowMetadata
+  customProperties?: Record<string, string>
+}
+
+export interface ProcessTemplateSource<T> {
+  name: string
+  type: string
+  description?: string
+  processMetadata?: ProcessMetadata
+  inputMaterials: ProcessTemplateMaterial<T>[]
+  outputMaterials: ProcessTemplateMaterial<T>[]
+}
+
+// Process metadata that belongs to a single run, not to the recipe
+const RUN_METADATA_KEYS = [
+  'processName',
+  'processType',
+  'quantity',
+  'unit',
+  'emissionsTotal',
+  'startDate',
+  'endDate',
+]
+
+// Avoid floating point noise like 0.30000000000000004 in scaled quantities
+function roundQuantity(value: number): number {
+  return Math.round(value * 1e6) / 1e6
+}
+
+/**
+ * Turn a process into a template, with output quantities and emissions as
+ * ratios to the summed input quantity
+ * @returns The template, or null when the inputs have no quantity to scale by
+ */
+export function createProcessTemplate<T extends { uuid: string; name: string }>(
+  name: string,
+  process: ProcessTemplateSource<T>
+): ProcessTemplateInput | null {
+  const [firstInput] = process.inputMaterials
+  if (!firstInput?.unit || process.outputMaterials.length === 0) return null
+
+  const inputTotal = sumQuantities(
+    process.inputMaterials,
+    firstInput.unit
+  ).total
+  if (inputTotal <= 0) return null
+
+  const processMetadata: Partial<ProcessMetadata> = {}
+  Object.entries(process.processMetadata || {}).forEach(([key, value]) => {
+    if (!RUN_METADATA_KEYS.includes(key) && value !== undefined) {
+      processMetadata[key] = value
+    }
+  })
+
+  const emissionsTotal = process.processMetadata?.emissionsTotal
+  return {
+    name: name.trim(),
+    processName: process.name,
+    processType: process.type,
+    description: process.description || undefined,
+    processMetadata,
+    input: {
+      unit: firstInput.unit,
+      metadata: firstInput.metadata,
+      customProperties: firstInput.customProperties,
+    },
+    outputs: process.outputMaterials.map((output) => ({
+      object: { uuid: output.object.uuid, name: output.object.name },
+      ratio: output.quantity ? output.quantity / inputTotal : 0,
+      unit: output.unit,
+      metadata: output.metadata,
+      customProperties: output.customProperties,
+    })),
+    emissionsRatio: emissionsTotal ? emissionsTotal / inputTotal : undefined,
+  }
+}
+
+/**
+ * Fill in a process from a template for the given input, scaling the output
+ * quantities and emissions from the input quantity
+ */
+export function applyProcessTemplate<T extends { uuid: string; name: string }>(
+  template: ProcessTemplate,
+  input: ProcessTemplateMaterial<T>
+) {
+  // Quantities in a unit that doesn't convert are taken as is
+  const quantity = input.quantity || 0
+  const scale =
+    convertQuantity(quantity, input.unit, template.input.unit) ?? quantity
+
+  const processMetadata: ProcessMetadata = {
+    ...template.processMetadata,
+    processName: template.processName,
+    processType: template.processType,
+    quantity: 0,
+    unit: 'kg',
+  }
+  if (template.emissionsRatio) {
+    processMetadata.emissionsTotal = roundQuantity(
+      template.emissionsRatio * scale
+    )
+  }
+
+  return {
+    name: template.processName,
+    type: template.processType,
+    description: template.description || '',
+    processMetadata,
+    inputMaterials: [
+      {
+        ...input,
+        unit: input.unit || template.input.unit,
+        metadata: { ...template.input.metadata, ...input.metadata },
+        customProperties: {
+          ...template.input.customProperties,
+          ...input.customProperties,
+        },
+      },
+    ],
+    outputMaterials: template.outputs.map((output) => ({
+      object: output.object,
+      quantity:
+        output.ratio && scale ? roundQuantity(output.ratio * scale) : undefined,
+      unit: output.unit,
+      metadata: output.metadata,
+      customProperties: output.customProperties,
+    })),
+  }
+}
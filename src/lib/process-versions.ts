@@ -0,0 +1,237 @@
+/**
+ * Process Versions
+ *
+ * A process is a set of IS_INPUT_OF statements that can't be changed in place.
+ * Editing a process soft-deletes the statements whose properties changed and
+ * creates them again, stamped with the next process version. The soft-deleted
+ * statements are the history of the process.
+ */
+
+import type {
+  ProcessStatement,
+  ProcessStatementProperty,
+} from './process-statements'
+
+// Properties that record the version, left out when comparing flows
+export const PROCESS_VERSION_KEYS = ['processVersion', 'processUpdatedAt']
+
+// Statement as returned by the API, possibly soft-deleted
+export interface StoredProcessStatement {
+  subject: string
+  object: string
+  properties?: ProcessStatementProperty[]
+  softDeleted?: boolean
+}
+
+export interface ProcessUpdatePlan {
+  // Statements to soft-delete, removed or changed flows
+  remove: ProcessStatement[]
+  // Statements to create, added or changed flows
+  create: ProcessStatement[]
+  unchanged: number
+}
+
+export interface ProcessHistoryFlow {
+  subject: string
+  object: string
+  inputQuantity?: number
+  inputUnit?: string
+  outputQuantity?: number
+  outputUnit?: string
+}
+
+export interface ProcessHistoryVersion {
+  version: number
+  processName: string
+  // When the version was saved, unknown for processes created before
+  // versioning
+  updatedAt?: string
+  flows: ProcessHistoryFlow[]
+}
+
+function pairKey(statement: { subject: string; object: string }): string {
+  return `${statement.subject}:${statement.object}`
+}
+
+function getValue(
+  statement: { properties?: ProcessStatementProperty[] },
+  key: string
+): string | undefined {
+  return statement.properties?.find((property) => property.key === key)
+    ?.values?.[0]?.value
+}
+
+// Properties as a comparable string, ignoring order and version stamps
+function propertySignature(statement: ProcessStatement): string {
+  return statement.properties
+    .filter((property) => !PROCESS_VERSION_KEYS.includes(property.key))
+    .map(
+      (property) =>
+        `${property.key}=${property.values.map((v) => v.value).join('|')}`
+    )
+    .sort()
+    .join('\n')
+}
+
+/**
+ * The version of a process, the highest version of its flows. Flows created
+ * before versioning count as version 1.
+ */
+export function getProcessVersion(versions: Array<number | undefined>): number {
+  return Math.max(1, ...versions.map((version) => version || 1))
+}
+
+/**
+ * The smallest set of soft-deletes and creates that turns the current flows of
+ * a process into the edited ones
+ */
+export function planProcessUpdate(
+  current: ProcessStatement[],
+  next: ProcessStatement[]
+): ProcessUpdatePlan {
+  const currentByPair = new Map(
+    current.map((statement) => [pairKey(statement), statement])
+  )
+  const nextPairs = new Set(next.map(pairKey))
+
+  const remove = current.filter(
+    (statement) => !nextPairs.has(pairKey(statement))
+  )
+  const create: ProcessStatement[] = []
+  let unchanged = 0
+
+  next.forEach((statement) => {
+    const existing = currentByPair.get(pairKey(statement))
+    if (!existing) {
+      create.push(statement)
+    } else if (propertySignature(existing) !== propertySignature(statement)) {
+      remove.push(existing)
+      create.push(statement)
+    } else {
+      unchanged++
+    }
+  })
+
+  return { remove, create, unchanged }
+}
+
+// Namespaced material fields the form reads with a fallback to the
+// unprefixed key, unlike custom properties
+const MATERIAL_FIELD_KEYS = [
+  'quantity',
+  'unit',
+  'lifecycleStage',
+  'categoryCode',
+]
+
+function joinedValue(
+  properties: ProcessStatementProperty[],
+  key: string
+): string | undefined {
+  const property = properties.find((property) => property.key === key)
+  return property && property.values.map((v) => v.value).join('|')
+}
+
+/**
+ * Properties of a stored flow with the edits made on the process form applied.
+ * The form only shows part of a flow's properties, so the edits are the
+ * differences between the form's statement before and after editing. Every
+ * other stored property is kept as it is.
+ */
+export function applyPropertyEdits(
+  stored: ProcessStatementProperty[],
+  before: ProcessStatementProperty[],
+  after: ProcessStatementProperty[]
+): ProcessStatementProperty[] {
+  const storedKeys = new Set(stored.map((property) => property.key))
+  // Custom properties stored before namespacing are shown as input ones
+  const targetKey = (key: string) => {
+    const legacyKey = key.slice('input_'.length)
+    return key.startsWith('input_') &&
+      !MATERIAL_FIELD_KEYS.includes(legacyKey) &&
+      !storedKeys.has(key) &&
+      storedKeys.has(legacyKey)
+      ? legacyKey
+      : key
+  }
+
+  const removed = new Set(
+    before
+      .filter((property) => joinedValue(after, property.key) === undefined)
+      .map((property) => targetKey(property.key))
+  )
+  const changed = new Map(
+    after
+      .filter(
+        (property) =>
+          joinedValue(before, property.key) !== joinedValue(after, property.key)
+      )
+      .map((property) => [targetKey(property.key), property.values])
+  )
+
+  const properties = stored
+    .filter((property) => !removed.has(property.key))
+    .map((property) => {
+      const values = changed.get(property.key)
+      return values ? { key: property.key, values } : property
+    })
+  changed.forEach((values, key) => {
+    if (!storedKeys.has(key)) properties.push({ key, values })
+  })
+  return properties
+}
+
+export interface ProcessIdentity {
+  // Identities of the process, see ProcessMetadata.processId
+  ids: string[]
+  names: string[]
+  pairs: Array<{ subject: string; object: string }>
+}
+
+/**
+ * Previous versions of a process from its soft-deleted statements, newest
+ * first. Statements belong to the process when they have one of its
+ * identities. Statements saved before identities existed have none, those
+ * belong to the process when they have one of its names and connect a pair of
+ * materials it still connects.
+ */
+export function buildProcessHistory(
+  deleted: StoredProcessStatement[],
+  process: ProcessIdentity
+): ProcessHistoryVersion[] {
+  const pairKeys = new Set(process.pairs.map(pairKey))
+  const versions = new Map<number, ProcessHistoryVersion>()
+
+  deleted.forEach((statement) => {
+    if (statement.softDeleted === false) return
+    const processId = getValue(statement, 'processId')
+    const processName = getValue(statement, 'processName') || ''
+    const belongs = processId
+      ? process.ids.includes(processId)
+      : process.names.includes(processName) && pairKeys.has(pairKey(statement))
+    if (!belongs) return
+
+    const version = Number(getValue(statement, 'processVersion')) || 1
+    const entry = versions.get(version) || {
+      version,
+      processName,
+      updatedAt: getValue(statement, 'processUpdatedAt'),
+      flows: [],
+    }
+    const number = (key: string) => {
+      const value = parseFloat(getValue(statement, key) || '')
+      return Number.isFinite(value) ? value : undefined
+    }
+    entry.flows.push({
+      subject: statement.subject,
+      object: statement.object,
+      inputQuantity: number('input_quantity'),
+      inputUnit: getValue(statement, 'input_unit'),
+      outputQuantity: number('output_quantity'),
+      outputUnit: getValue(statement, 'output_unit'),
+    })
+    versions.set(version, entry)
+  })
+
+  return Array.from(versions.values()).sort((a, b) => b.version - a.version)
+}
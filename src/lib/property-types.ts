@@ -0,0 +1,131 @@
+/**
+ * Property Value Types
+ *
+ * Values are always stored as strings, their valueTypeCast says how to read
+ * them. A cast is a type name, optionally followed by a colon and a parameter:
+ * the unit of a number ("number:kg") or the options of an enum
+ * ("enum:low|medium|high"). Keeping the parameter in the cast means it's
+ * copied, exported and imported along with the value.
+ */
+
+export const PROPERTY_VALUE_TYPES = [
+  'string',
+  'number',
+  'date',
+  'boolean',
+  'enum',
+  'url',
+] as const
+
+export type PropertyValueType = (typeof PROPERTY_VALUE_TYPES)[number]
+
+export const DEFAULT_VALUE_TYPE_CAST = 'string'
+
+// Numeric casts written by other tools
+const NUMBER_ALIASES = ['number', 'integer', 'decimal', 'float', 'double']
+const ENUM_OPTION_SEPARATOR = '|'
+
+export interface PropertyValueTypeCast {
+  type: PropertyValueType
+  // Unit of a number
+  unit?: string
+  // Allowed values of an enum
+  options?: string[]
+}
+
+/**
+ * Type of a value from its valueTypeCast. Missing and unknown casts are read
+ * as strings.
+ */
+export function parseValueTypeCast(
+  cast?: string | null
+): PropertyValueTypeCast {
+  if (!cast) return { type: 'string' }
+
+  const separator = cast.indexOf(':')
+  const name = (separator === -1 ? cast : cast.slice(0, separator))
+    .trim()
+    .toLowerCase()
+  const parameter = separator === -1 ? '' : cast.slice(separator + 1).trim()
+
+  if (NUMBER_ALIASES.includes(name)) {
+    return parameter ? { type: 'number', unit: parameter } : { type: 'number' }
+  }
+  if (name === 'enum') {
+    return {
+      type: 'enum',
+      options: parameter
+        .split(ENUM_OPTION_SEPARATOR)
+        .map((option) => option.trim())
+        .filter(Boolean),
+    }
+  }
+  if ((PROPERTY_VALUE_TYPES as readonly string[]).includes(name)) {
+    return { type: name as PropertyValueType }
+  }
+  return { type: 'string' }
+}
+
+/**
+ * valueTypeCast to store for a type, the reverse of parseValueTypeCast
+ */
+export function formatValueTypeCast(cast: PropertyValueTypeCast): string {
+  if (cast.type === 'number' && cast.unit?.trim()) {
+    return `number:${cast.unit.trim()}`
+  }
+  if (cast.type === 'enum') {
+    const options = (cast.options || [])
+      .map((option) => option.trim())
+      .filter(Boolean)
+    return `enum:${options.join(ENUM_OPTION_SEPARATOR)}`
+  }
+  return cast.type
+}
+
+/**
+ * A stored value as a number, null when it isn't one. Accepts a decimal comma.
+ */
+export function parsePropertyNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value !== 'string' || value.trim() === '') return null
+  const number = Number(value.trim().replace(',', '.'))
+  return Number.isFinite(number) ? number : null
+}
+
+/**
+ * Sort order of two values of the same type: numbers and dates by value,
+ * booleans false first, everything else as text with numeric parts compared
+ * by value. Values that can't be read as their type sort last.
+ */
+export function comparePropertyValues(
+  a: string,
+  b: string,
+  cast?: string | null
+): number {
+  const { type } = parseValueTypeCast(cast)
+
+  const compareParsed = (parse: (value: string) => number | null) => {
+    const left = parse(a)
+    const right = parse(b)
+    if (left === null || right === null) {
+      return (left === null ? 1 : 0) - (right === null ? 1 : 0)
+    }
+    return left < right ? -1 : left > right ? 1 : 0
+  }
+
+  switch (type) {
+    case 'number':
+      return compareParsed(parsePropertyNumber)
+    case 'date':
+      return compareParsed((value) => {
+        const time = Date.parse(value)
+        return Number.isNaN(time) ? null : time
+      })
+    case 'boolean':
+      return compareParsed((value) =>
+        value === 'true' ? 1 : value === 'false' ? 0 : null
+      )
+    default:
+      return a.localeCompare(b, undefined, { numeric: true })
+  }
+}
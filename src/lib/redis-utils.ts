@@ -1,4 +1,6 @@
 import { REDIS_JOB_TTL_HOURS, REDIS_CHUNK_TTL_HOURS } from '@/constants'
+import { MERGE_UPDATE_FAILED } from './import-merge'
+import { PARENT_LINK_FAILED } from './import-hierarchy'
 import { logger } from './logger'
 import { getRedis } from './redis'
 
@@ -10,10 +12,25 @@ export const REDIS_KEYS = {
   chunk: (jobId: string, chunkIndex: number) =>
     `import:${jobId}:chunk:${chunkIndex}`,
   failures: (jobId: string) => `import:${jobId}:failures`,
+  report: (jobId: string) => `import:${jobId}:report`,
   rateLimit: (identifier: string) => `ratelimit:${identifier}`,
   concurrentJobs: (identifier: string) => `concurrent:${identifier}`,
+  verifiedToken: (tokenHash: string) => `verified_token:${tokenHash}`,
+  savedSearches: (userUUID: string) => `saved_searches:${userUUID}`,
+  processTemplates: (userUUID: string) => `process_templates:${userUUID}`,
+  // Shared by every user, not per user
+  formulaTemplates: () => 'formula_templates',
+  modelSchemas: () => 'model_schemas',
 } as const
 
+/**
+ * Whether a key from an `import:*` scan is a job hash rather than one of the
+ * job's chunk, failure or report keys
+ */
+export function isJobKey(key: string): boolean {
+  return /^import:[^:]+$/.test(key)
+}
+
 /**
  * Scan Redis keys using SCAN instead of KEYS (production-safe)
  * KEYS is O(n) and blocks Redis, SCAN is incremental
@@ -156,8 +173,8 @@ export async function cleanupExpiredJobs(): Promise<{
     let chunksDeleted = 0
 
     for (const jobKey of jobKeys) {
-      // Skip chunk and failure keys
-      if (jobKey.includes(':chunk:') || jobKey.includes(':failures')) continue
+      // Skip chunk, failure and report keys
+      if (!isJobKey(jobKey)) continue
 
       // Check if job is old enough to clean up
       const jobData = await redis.hgetall(jobKey)
@@ -172,7 +189,7 @@ export async function cleanupExpiredJobs(): Promise<{
       const isExpired = ageHours > REDIS_JOB_TTL_HOURS + 1
 
       if (isExpired || isStuckProcessing) {
-        // Find and delete associated chunks and failures
+        // Find and delete associated chunks, failures and report
         const jobId = jobKey.replace('import:', '')
         const chunkKeys = await scanKeys(`import:${jobId}:chunk:*`)
         const failureKey = REDIS_KEYS.failures(jobId)
@@ -182,8 +199,8 @@ export async function cleanupExpiredJobs(): Promise<{
           chunksDeleted += chunkKeys.length
         }
 
-        // Delete failure list and job data
-        await redis.del(failureKey, jobKey)
+        // Delete failure list, report and job data
+        await redis.del(failureKey, REDIS_KEYS.report(jobId), jobKey)
         jobsDeleted++
       }
     }
@@ -223,9 +240,9 @@ export async function deleteJob(jobId: string): Promise<{
       chunksDeleted = chunkKeys.length
     }
 
-    // Delete failure list and job data
+    // Delete failure list, report and job data
     const failureKey = REDIS_KEYS.failures(jobId)
-    await redis.del(failureKey, jobKey)
+    await redis.del(failureKey, REDIS_KEYS.report(jobId), jobKey)
 
     logger.info('Job deleted manually', { jobId, chunksDeleted })
 
@@ -256,9 +273,7 @@ export async function getImportJobStats(): Promise<{
     // Use SCAN instead of KEYS for production safety
     const jobKeys = await scanKeys('import:*')
     const chunkKeys = jobKeys.filter((key) => key.includes(':chunk:'))
-    const jobDataKeys = jobKeys.filter(
-      (key) => !key.includes(':chunk:') && !key.includes(':failures')
-    )
+    const jobDataKeys = jobKeys.filter(isJobKey)
 
     let activeJobs = 0
     let completedJobs = 0
@@ -322,9 +337,7 @@ export async function getImportJobsList(limit = 50): Promise<JobDetails[]> {
   try {
     // Use SCAN instead of KEYS for production safety
     const jobKeys = await scanKeys('import:*')
-    const jobDataKeys = jobKeys.filter(
-      (key) => !key.includes(':chunk:') && !key.includes(':failures')
-    )
+    const jobDataKeys = jobKeys.filter(isJobKey)
 
     const jobs: JobDetails[] = []
 
@@ -367,10 +380,61 @@ export interface FailureRecord {
   index: number
   object: Record<string, unknown>
   error: string
+  // Detail from the Node API error response, if any
+  detail?: string
   errorType: string
   timestamp: number
 }
 
+/**
+ * Store objects that failed to import so they can be inspected and retried.
+ * Failure records expire together with the job's chunks.
+ */
+export async function recordJobFailures(
+  jobId: string,
+  failures: FailureRecord[]
+): Promise<void> {
+  if (failures.length === 0) return
+
+  const redis = getRedis()
+  const failureKey = REDIS_KEYS.failures(jobId)
+  await redis.rpush(
+    failureKey,
+    ...failures.map((failure) => JSON.stringify(failure))
+  )
+  await redis.expire(failureKey, REDIS_CHUNK_TTL_HOURS * 3600)
+}
+
+/**
+ * Count a job's failures by error message, most frequent first
+ */
+export async function getJobFailureGroups(
+  jobId: string
+): Promise<{ error: string; count: number }[]> {
+  const redis = getRedis()
+
+  try {
+    const failureStrings = await redis.lrange(REDIS_KEYS.failures(jobId), 0, -1)
+
+    const counts = new Map<string, number>()
+    for (const str of failureStrings) {
+      try {
+        const { error } = JSON.parse(str) as FailureRecord
+        counts.set(error, (counts.get(error) || 0) + 1)
+      } catch {
+        // Skip unparseable records
+      }
+    }
+
+    return Array.from(counts, ([error, count]) => ({ error, count })).sort(
+      (a, b) => b.count - a.count
+    )
+  } catch (error) {
+    logger.error('Failed to get job failure groups', { error })
+    return []
+  }
+}
+
 /**
  * Get failure details for a specific job
  */
@@ -413,10 +477,13 @@ export async function getJobFailures(
 }
 
 /**
- * Get failed objects for retry (returns the original objects)
+ * Get failed objects for retry (returns the original objects). Failed merge
+ * updates are returned separately, those are applied by the client. Objects
+ * that were created but not linked to their parents aren't retried.
  */
 export async function getFailedObjectsForRetry(jobId: string): Promise<{
   objects: Record<string, unknown>[]
+  updates: Record<string, unknown>[]
   userUUID: string | null
 }> {
   const redis = getRedis()
@@ -431,10 +498,16 @@ export async function getFailedObjectsForRetry(jobId: string): Promise<{
     const failureStrings = await redis.lrange(failureKey, 0, -1)
 
     const objects: Record<string, unknown>[] = []
+    const updates: Record<string, unknown>[] = []
     for (const str of failureStrings) {
       try {
         const failure = JSON.parse(str) as FailureRecord
-        if (failure.object) {
+        if (!failure.object) continue
+        // Created objects only missing their parent links
+        if (failure.errorType === PARENT_LINK_FAILED) continue
+        if (failure.errorType === MERGE_UPDATE_FAILED) {
+          updates.push(failure.object)
+        } else {
           objects.push(failure.object)
         }
       } catch {
@@ -442,9 +515,9 @@ export async function getFailedObjectsForRetry(jobId: string): Promise<{
       }
     }
 
-    return { objects, userUUID }
+    return { objects, updates, userUUID }
   } catch (error) {
     logger.error('Failed to get failed objects', { error })
-    return { objects: [], userUUID: null }
+    return { objects: [], updates: [], userUUID: null }
   }
 }
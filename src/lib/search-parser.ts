@@ -1,19 +1,35 @@
 /**
  * Advanced Search Parser
  *
- * Parses search queries with special syntax into structured searchBy parameters.
+ * Parses search queries with special syntax into an expression tree and
+ * structured searchBy parameters.
  *
  * Supported syntax:
  * - `deleted:true` or `deleted:false` - Filter by soft deleted status
  * - `template:true` or `template:false` - Filter by template status
  * - `prop:label` - Search by property label only (any value)
  * - `prop:label=value` - Search by property label AND value
+ * - `prop:label>10`, `>=`, `<`, `<=` - Numeric comparison on property values
+ * - `prop:label=10..20` - Inclusive numeric range (either bound may be omitted)
  * - `value:xyz` - Search by property value only (any property)
  * - `name:value` or `name:"multi word"` - Search by object name (quotes optional)
  * - `createdBy:uuid` - Filter by creator UUID
  * - `parent:uuid` - Filter by parent UUID
+ * - `model:uuid` - Filter by the model an object was created from
+ * - `created:>2026-01-01`, `>=`, `<`, `<=` - Filter by creation date
+ * - `created:2026-01-01` or `created:2026-01-01..2026-01-31` - On a day / in a range
+ * - `modified:last-7d` - Modified in the last n hours (h), days (d), weeks (w),
+ *   months (m) or years (y); `modified:` accepts the same dates as `created:`
+ * - `hasFile:true` or `hasFile:false` - Filter by attached files
+ * - `hasAddress:true` or `hasAddress:false` - Filter by address
  * - Regular text becomes the searchTerm
  *
+ * Boolean operators:
+ * - Terms separated by spaces (or `AND`) must all match
+ * - `OR` matches either side, e.g. `prop:material=steel OR prop:material=aluminium`
+ * - `NOT term` or `-term` excludes matches
+ * - Parentheses group terms, e.g. `-(deleted:true OR template:true)`
+ *
  * Examples:
  * - "deleted:true battery" → { searchBy: { softDeleted: true }, searchTerm: "battery" }
  * - "prop:material=steel" → { searchBy: { "properties.label": "material", "properties.values.value": "steel" } }
@@ -21,8 +37,37 @@
  * - "value:steel" → { searchBy: { "properties.values.value": "steel" } } (any property)
  * - 'name:"Clay Tile"' → { searchBy: { "name": "Clay Tile" } }
  * - 'name:Clay Tile' → { searchBy: { "name": "Clay Tile" } } (quotes not required)
+ *
+ * The Node API only understands a single AND-ed searchBy record, so queries
+ * using OR, negation or comparisons are split into several requests by
+ * `toSearchRequests`, and each request's results are checked against its
+ * remaining conditions with `matchesSearchExpression`.
  */
 
+import { parsePropertyNumber } from './property-types'
+
+export interface NumericRange {
+  min?: number
+  max?: number
+  minExclusive?: boolean
+  maxExclusive?: boolean
+}
+
+export type DatePeriodUnit = 'h' | 'd' | 'w' | 'm' | 'y'
+
+/**
+ * Date condition of a `created:` or `modified:` filter.
+ * Dates are kept as typed so they can be shown and resolved later;
+ * `last` periods are relative to the moment the filter is evaluated.
+ */
+export interface DateCondition {
+  operator: '>' | '>=' | '<' | '<=' | '=' | 'between' | 'last'
+  date?: string
+  endDate?: string
+  amount?: number
+  unit?: DatePeriodUnit
+}
+
 export interface SearchFilter {
   type:
     | 'deleted'
@@ -30,9 +75,15 @@ export interface SearchFilter {
     | 'property'
     | 'propertyLabel'
     | 'propertyValue'
+    | 'propertyRange'
     | 'name'
     | 'createdBy'
     | 'parent'
+    | 'model'
+    | 'created'
+    | 'modified'
+    | 'hasFile'
+    | 'hasAddress'
     | 'text'
   label: string
   value: string
@@ -40,14 +91,45 @@ export interface SearchFilter {
   // For property filters, store the key and value separately
   propertyKey?: string
   propertyValue?: string
+  // For propertyRange filters, the numeric bounds to compare against
+  range?: NumericRange
+  // For created/modified filters, the date condition to check
+  date?: DateCondition
 }
 
+export type SearchExpression =
+  | { type: 'filter'; filter: SearchFilter }
+  | { type: 'and'; operands: SearchExpression[] }
+  | { type: 'or'; operands: SearchExpression[] }
+  | { type: 'not'; operand: SearchExpression }
+
 export interface ParsedSearch {
   searchTerm: string
   filters: SearchFilter[]
   searchBy: Record<string, unknown>
+  expression: SearchExpression | null
 }
 
+/**
+ * A single request that can be sent to searchAggregates
+ */
+export interface SearchRequest {
+  searchTerm: string
+  searchBy: Record<string, unknown>
+  // Conditions the API can't express, checked against each result
+  conditions: SearchExpression | null
+}
+
+/**
+ * Why a parsed search can't be run
+ * - tooManyBranches: the query expands into more than MAX_SEARCH_BRANCHES
+ *   requests
+ * - clientFiltersOnly: part of the query is made only of conditions checked
+ *   locally, such as date ranges or negations, which would mean loading
+ *   every object to check them
+ */
+export type SearchQueryError = 'tooManyBranches' | 'clientFiltersOnly'
+
 export interface FilterSuggestion {
   type: SearchFilter['type']
   prefix: string
@@ -72,7 +154,7 @@ export const FILTER_SUGGESTIONS: FilterSuggestion[] = [
     prefix: 'prop:',
     labelKey: 'search.filters.property.label',
     descriptionKey: 'search.filters.property.description',
-    examples: ['prop:material=steel', 'prop:status'],
+    examples: ['prop:material=steel', 'prop:status', 'prop:weight>100'],
     icon: 'Tag',
   },
   {
@@ -107,8 +189,56 @@ export const FILTER_SUGGESTIONS: FilterSuggestion[] = [
     examples: ['parent:abc-123-def'],
     icon: 'FolderTree',
   },
+  {
+    type: 'model',
+    prefix: 'model:',
+    labelKey: 'search.filters.model.label',
+    descriptionKey: 'search.filters.model.description',
+    examples: ['model:abc-123-def'],
+    icon: 'Box',
+  },
+  {
+    type: 'created',
+    prefix: 'created:',
+    labelKey: 'search.filters.created.label',
+    descriptionKey: 'search.filters.created.description',
+    examples: ['created:>2026-01-01', 'created:last-30d'],
+    icon: 'CalendarPlus',
+  },
+  {
+    type: 'modified',
+    prefix: 'modified:',
+    labelKey: 'search.filters.modified.label',
+    descriptionKey: 'search.filters.modified.description',
+    examples: ['modified:last-7d', 'modified:2026-01-01..2026-01-31'],
+    icon: 'CalendarClock',
+  },
+  {
+    type: 'hasFile',
+    prefix: 'hasFile:',
+    labelKey: 'search.filters.hasFile.label',
+    descriptionKey: 'search.filters.hasFile.description',
+    examples: ['hasFile:true', 'hasFile:false'],
+    icon: 'Paperclip',
+  },
+  {
+    type: 'hasAddress',
+    prefix: 'hasAddress:',
+    labelKey: 'search.filters.hasAddress.label',
+    descriptionKey: 'search.filters.hasAddress.description',
+    examples: ['hasAddress:true', 'hasAddress:false'],
+    icon: 'MapPin',
+  },
 ]
 
+// Maximum number of OR branches sent to the API for a single search
+export const MAX_SEARCH_BRANCHES = 8
+
+const OR_KEYWORD = 'OR'
+const AND_KEYWORD = 'AND'
+const NOT_KEYWORD = 'NOT'
+const NEGATION_PREFIX = '-'
+
 // Helper to check if a token is a filter prefix
 function isFilterPrefix(token: string): boolean {
   const lower = token.toLowerCase()
@@ -119,206 +249,936 @@ function isFilterPrefix(token: string): boolean {
     lower.startsWith('value:') ||
     lower.startsWith('name:') ||
     lower.startsWith('createdby:') ||
-    lower.startsWith('parent:')
+    lower.startsWith('parent:') ||
+    lower.startsWith('model:') ||
+    lower.startsWith('created:') ||
+    lower.startsWith('modified:') ||
+    lower.startsWith('hasfile:') ||
+    lower.startsWith('hasaddress:')
+  )
+}
+
+// Helper to check if a token is part of the boolean grammar
+function isOperatorToken(token: string): boolean {
+  return (
+    token === OR_KEYWORD ||
+    token === AND_KEYWORD ||
+    token === NOT_KEYWORD ||
+    token === NEGATION_PREFIX ||
+    token === '(' ||
+    token === ')'
   )
 }
 
+// A leading "-" negates a term, except for plain negative numbers like "-5"
+function isNegatedToken(token: string): boolean {
+  return (
+    token.length > 1 && token.startsWith(NEGATION_PREFIX) && !/^-\d/.test(token)
+  )
+}
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/
+const RANGE_PATTERN = /^(-?\d+(?:\.\d+)?)?\.\.(-?\d+(?:\.\d+)?)?$/
+
 /**
- * Parse a search query into structured parts
+ * Parse the part after `prop:` into a property filter.
+ * Returns null for comparisons that don't have a numeric operand.
  */
-export function parseSearchQuery(query: string): ParsedSearch {
-  const filters: SearchFilter[] = []
-  const searchBy: Record<string, unknown> = {}
-  const textParts: string[] = []
+function parsePropertyToken(token: string): SearchFilter | null {
+  const propPart = token.slice(5)
+  const match = propPart.match(/^([^=<>]+)(>=|<=|>|<|=)(.*)$/)
 
-  // Split by spaces, but respect quoted strings
-  const tokens = tokenizeQuery(query)
+  if (!match) {
+    const label = propPart.trim()
+    if (!label) return null
+    // Only label: prop:label (search any object with this property)
+    return {
+      type: 'propertyLabel',
+      label: `Property: ${label}`,
+      value: label,
+      raw: token,
+      propertyKey: label,
+    }
+  }
 
-  let i = 0
-  while (i < tokens.length) {
-    const token = tokens[i]
-    const lowerToken = token.toLowerCase()
-
-    // Check for deleted: filter (only true/false)
-    if (lowerToken.startsWith('deleted:')) {
-      const value = token.slice(8).toLowerCase()
-      if (value === 'true' || value === 'false') {
-        const boolValue = value === 'true'
-        filters.push({
-          type: 'deleted',
-          label: `Deleted: ${value}`,
-          value: boolValue.toString(),
-          raw: token,
-        })
-        searchBy.softDeleted = boolValue
+  const [, label, operator, value] = match
+
+  if (operator === '=') {
+    const rangeMatch = value.match(RANGE_PATTERN)
+    if (rangeMatch && (rangeMatch[1] || rangeMatch[2])) {
+      const range: NumericRange = {}
+      if (rangeMatch[1]) range.min = Number(rangeMatch[1])
+      if (rangeMatch[2]) range.max = Number(rangeMatch[2])
+      return {
+        type: 'propertyRange',
+        label: `${label}: ${value}`,
+        value: `${label}=${value}`,
+        raw: token,
+        propertyKey: label,
+        range,
       }
-      i++
-      continue
     }
 
-    // Check for template: filter (only true/false)
-    if (lowerToken.startsWith('template:')) {
-      const value = token.slice(9).toLowerCase()
-      if (value === 'true' || value === 'false') {
-        const boolValue = value === 'true'
-        filters.push({
-          type: 'template',
-          label: `Template: ${value}`,
-          value: boolValue.toString(),
-          raw: token,
-        })
-        searchBy.isTemplate = boolValue
-      }
-      i++
-      continue
+    // Has both label and value: prop:label=value
+    return {
+      type: 'property',
+      label: `${label}: ${value}`,
+      value: `${label}=${value}`,
+      raw: token,
+      propertyKey: label,
+      propertyValue: value,
     }
+  }
 
-    // Check for prop: filter (format: prop:label or prop:label=value)
-    if (lowerToken.startsWith('prop:')) {
-      const propPart = token.slice(5)
-      const eqIndex = propPart.indexOf('=')
-
-      if (eqIndex > 0) {
-        // Has both label and value: prop:label=value
-        const label = propPart.slice(0, eqIndex)
-        const value = propPart.slice(eqIndex + 1)
-        filters.push({
-          type: 'property',
-          label: `${label}: ${value}`,
-          value: `${label}=${value}`,
-          raw: token,
-          propertyKey: label,
-          propertyValue: value,
-        })
-        // Set both in searchBy
-        searchBy['properties.label'] = label
-        searchBy['properties.values.value'] = value
-      } else if (propPart.trim()) {
-        // Only label: prop:label (search any object with this property)
-        const label = propPart.trim()
-        filters.push({
-          type: 'propertyLabel',
-          label: `Property: ${label}`,
-          value: label,
-          raw: token,
-          propertyKey: label,
-        })
-        // Only set the label
-        searchBy['properties.label'] = label
-      }
-      i++
-      continue
+  if (!NUMBER_PATTERN.test(value)) return null
+
+  const bound = Number(value)
+  const range: NumericRange = operator.startsWith('>')
+    ? { min: bound, minExclusive: operator === '>' }
+    : { max: bound, maxExclusive: operator === '<' }
+
+  return {
+    type: 'propertyRange',
+    label: `${label} ${operator} ${value}`,
+    value: `${label}${operator}${value}`,
+    raw: token,
+    propertyKey: label,
+    range,
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/
+const DATE_OPERATOR_PATTERN = /^(>=|<=|>|<|=)?(.+)$/
+const PERIOD_PATTERN = /^last-(\d+)([hdwmy])$/
+
+function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !Number.isNaN(parseDateStart(value))
+}
+
+/**
+ * Parse the part after `created:` or `modified:` into a date condition.
+ * Returns null when the value isn't a date, date range or period.
+ */
+function parseDateCondition(value: string): DateCondition | null {
+  const periodMatch = value.toLowerCase().match(PERIOD_PATTERN)
+  if (periodMatch) {
+    const amount = Number(periodMatch[1])
+    if (amount <= 0) return null
+    return {
+      operator: 'last',
+      amount,
+      unit: periodMatch[2] as DatePeriodUnit,
     }
+  }
 
-    // Check for value: filter (search by property value only)
-    if (lowerToken.startsWith('value:')) {
-      const value = token.slice(6).trim()
-      if (value) {
-        filters.push({
-          type: 'propertyValue',
-          label: `Value: ${value}`,
-          value: value,
-          raw: token,
-          propertyValue: value,
-        })
-        searchBy['properties.values.value'] = value
-      }
-      i++
-      continue
+  const rangeParts = value.split('..')
+  if (rangeParts.length === 2) {
+    const [date, endDate] = rangeParts
+    if ((date && !isValidDate(date)) || (endDate && !isValidDate(endDate))) {
+      return null
     }
+    if (!date && !endDate) return null
+    if (!endDate) return { operator: '>=', date }
+    if (!date) return { operator: '<=', date: endDate }
+    return { operator: 'between', date, endDate }
+  }
 
-    // Check for name: filter - collect all subsequent non-filter tokens
-    if (lowerToken.startsWith('name:')) {
-      const nameParts: string[] = []
-      let nameRaw = token
+  const match = value.match(DATE_OPERATOR_PATTERN)
+  if (!match || !isValidDate(match[2])) return null
 
-      // Get the first part after name:
-      const firstPart = token.slice(5).replace(/^"|"$/g, '')
-      if (firstPart) {
-        nameParts.push(firstPart)
+  return {
+    operator: (match[1] || '=') as DateCondition['operator'],
+    date: match[2],
+  }
+}
+
+function parseDateToken(
+  token: string,
+  type: 'created' | 'modified'
+): SearchFilter | null {
+  const value = token.slice(type.length + 1)
+  const date = parseDateCondition(value)
+  if (!date) return null
+  return {
+    type,
+    label: `${type === 'created' ? 'Created' : 'Modified'}: ${value}`,
+    value,
+    raw: token,
+    date,
+  }
+}
+
+/**
+ * Parse a single (non name:) token into a filter.
+ * Returns null when the token is a recognised filter with an invalid value.
+ */
+function parseFilterToken(token: string): SearchFilter | null {
+  const lowerToken = token.toLowerCase()
+
+  // Check for deleted: filter (only true/false)
+  if (lowerToken.startsWith('deleted:')) {
+    const value = token.slice(8).toLowerCase()
+    if (value !== 'true' && value !== 'false') return null
+    return {
+      type: 'deleted',
+      label: `Deleted: ${value}`,
+      value,
+      raw: token,
+    }
+  }
+
+  // Check for template: filter (only true/false)
+  if (lowerToken.startsWith('template:')) {
+    const value = token.slice(9).toLowerCase()
+    if (value !== 'true' && value !== 'false') return null
+    return {
+      type: 'template',
+      label: `Template: ${value}`,
+      value,
+      raw: token,
+    }
+  }
+
+  // Check for prop: filter (format: prop:label, prop:label=value or prop:label>n)
+  if (lowerToken.startsWith('prop:')) {
+    return parsePropertyToken(token)
+  }
+
+  // Check for value: filter (search by property value only)
+  if (lowerToken.startsWith('value:')) {
+    const value = token.slice(6).trim()
+    if (!value) return null
+    return {
+      type: 'propertyValue',
+      label: `Value: ${value}`,
+      value,
+      raw: token,
+      propertyValue: value,
+    }
+  }
+
+  // Check for createdBy: filter
+  if (lowerToken.startsWith('createdby:')) {
+    const value = token.slice(10)
+    return {
+      type: 'createdBy',
+      label: `Created by: ${value.slice(0, 8)}...`,
+      value,
+      raw: token,
+    }
+  }
+
+  // Check for parent: filter
+  if (lowerToken.startsWith('parent:')) {
+    const value = token.slice(7)
+    return {
+      type: 'parent',
+      label: `Parent: ${value.slice(0, 8)}...`,
+      value,
+      raw: token,
+    }
+  }
+
+  // Check for model: filter
+  if (lowerToken.startsWith('model:')) {
+    const value = token.slice(6)
+    if (!value) return null
+    return {
+      type: 'model',
+      label: `Model: ${value.slice(0, 8)}...`,
+      value,
+      raw: token,
+    }
+  }
+
+  // Check for created: and modified: date filters
+  if (lowerToken.startsWith('created:')) {
+    return parseDateToken(token, 'created')
+  }
+  if (lowerToken.startsWith('modified:')) {
+    return parseDateToken(token, 'modified')
+  }
+
+  // Check for hasFile: and hasAddress: filters (only true/false)
+  if (lowerToken.startsWith('hasfile:')) {
+    const value = token.slice(8).toLowerCase()
+    if (value !== 'true' && value !== 'false') return null
+    return {
+      type: 'hasFile',
+      label: `Has file: ${value}`,
+      value,
+      raw: token,
+    }
+  }
+  if (lowerToken.startsWith('hasaddress:')) {
+    const value = token.slice(11).toLowerCase()
+    if (value !== 'true' && value !== 'false') return null
+    return {
+      type: 'hasAddress',
+      label: `Has address: ${value}`,
+      value,
+      raw: token,
+    }
+  }
+
+  // Regular text
+  return {
+    type: 'text',
+    label: token,
+    value: token,
+    raw: token,
+  }
+}
+
+/**
+ * Recursive descent parser over the token list.
+ *
+ * query   := orExpr
+ * orExpr  := andExpr ('OR' andExpr)*
+ * andExpr := unary (['AND'] unary)*
+ * unary   := ('NOT' | '-') unary | primary
+ * primary := '(' orExpr ')' | term
+ */
+class ExpressionParser {
+  private position = 0
+
+  constructor(private readonly tokens: string[]) {}
+
+  parse(): SearchExpression | null {
+    const operands: SearchExpression[] = []
+    // Tolerate stray closing parentheses while typing
+    while (this.position < this.tokens.length) {
+      const expression = this.parseOr()
+      if (expression) operands.push(expression)
+      if (this.peek() === ')') this.position++
+    }
+    return combine('and', operands)
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.position]
+  }
+
+  private parseOr(): SearchExpression | null {
+    const operands: SearchExpression[] = []
+    const first = this.parseAnd()
+    if (first) operands.push(first)
+
+    while (this.peek() === OR_KEYWORD) {
+      this.position++
+      const next = this.parseAnd()
+      if (next) operands.push(next)
+    }
+
+    return combine('or', operands)
+  }
+
+  private parseAnd(): SearchExpression | null {
+    const operands: SearchExpression[] = []
+
+    while (this.position < this.tokens.length) {
+      const token = this.peek()
+      if (token === OR_KEYWORD || token === ')') break
+      if (token === AND_KEYWORD) {
+        this.position++
+        continue
       }
+      const expression = this.parseUnary()
+      if (expression) operands.push(expression)
+    }
+
+    return combine('and', operands)
+  }
+
+  private parseUnary(): SearchExpression | null {
+    const token = this.peek()
+
+    if (token === NOT_KEYWORD || token === NEGATION_PREFIX) {
+      this.position++
+      const operand = this.parseUnary()
+      return operand ? negate(operand) : null
+    }
+
+    if (token !== undefined && isNegatedToken(token)) {
+      // Split "-term" into a negation of "term"
+      this.tokens[this.position] = token.slice(1)
+      const operand = this.parseUnary()
+      return operand ? negate(operand) : null
+    }
+
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): SearchExpression | null {
+    const token = this.peek()
+    if (token === undefined) return null
+
+    if (token === '(') {
+      this.position++
+      const expression = this.parseOr()
+      if (this.peek() === ')') this.position++
+      return expression
+    }
+
+    this.position++
+
+    if (token.toLowerCase().startsWith('name:')) {
+      return this.parseName(token)
+    }
+
+    const filter = parseFilterToken(token)
+    return filter ? { type: 'filter', filter } : null
+  }
+
+  // name: collects all subsequent plain tokens unless its value is quoted
+  private parseName(token: string): SearchExpression | null {
+    const nameParts: string[] = []
+    let nameRaw = token
 
-      // If the first part is quoted, we're done
-      if (!token.slice(5).startsWith('"')) {
-        // Not quoted, collect subsequent tokens until we hit another filter
-        i++
-        while (i < tokens.length && !isFilterPrefix(tokens[i])) {
-          nameParts.push(tokens[i].replace(/^"|"$/g, ''))
-          nameRaw += ' ' + tokens[i]
-          i++
+    // Get the first part after name:
+    const firstPart = token.slice(5).replace(/^"|"$/g, '')
+    if (firstPart) {
+      nameParts.push(firstPart)
+    }
+
+    // If the first part is quoted, we're done
+    if (!token.slice(5).startsWith('"')) {
+      // Not quoted, collect subsequent tokens until we hit another filter
+      while (this.position < this.tokens.length) {
+        const next = this.tokens[this.position]
+        if (
+          isFilterPrefix(next) ||
+          isOperatorToken(next) ||
+          isNegatedToken(next)
+        ) {
+          break
         }
-        i-- // Back up one since the loop will increment
+        nameParts.push(next.replace(/^"|"$/g, ''))
+        nameRaw += ' ' + next
+        this.position++
       }
+    }
 
-      const nameValue = nameParts.join(' ').trim()
-      if (nameValue) {
-        filters.push({
-          type: 'name',
-          label: `Name: ${nameValue}`,
-          value: nameValue,
-          raw: nameRaw,
-        })
-        searchBy.name = nameValue
-      }
-      i++
-      continue
+    const nameValue = nameParts.join(' ').trim()
+    if (!nameValue) return null
+
+    return {
+      type: 'filter',
+      filter: {
+        type: 'name',
+        label: `Name: ${nameValue}`,
+        value: nameValue,
+        raw: nameRaw,
+      },
     }
+  }
+}
 
-    // Check for createdBy: filter
-    if (lowerToken.startsWith('createdby:')) {
-      const value = token.slice(10)
-      filters.push({
-        type: 'createdBy',
-        label: `Created by: ${value.slice(0, 8)}...`,
-        value,
-        raw: token,
-      })
-      searchBy.createdByUserUUID = value
-      i++
+function negate(operand: SearchExpression): SearchExpression {
+  // Double negation cancels out
+  if (operand.type === 'not') return operand.operand
+  return { type: 'not', operand }
+}
+
+function combine(
+  type: 'and' | 'or',
+  operands: SearchExpression[]
+): SearchExpression | null {
+  // Flatten nested nodes of the same kind
+  const flattened = operands.flatMap((operand) =>
+    operand.type === type ? operand.operands : [operand]
+  )
+  if (flattened.length === 0) return null
+  if (flattened.length === 1) return flattened[0]
+  return { type, operands: flattened }
+}
+
+/**
+ * Collect the leaf filters of an expression in source order
+ */
+export function collectSearchFilters(
+  expression: SearchExpression | null
+): SearchFilter[] {
+  if (!expression) return []
+  switch (expression.type) {
+    case 'filter':
+      return [expression.filter]
+    case 'not':
+      return collectSearchFilters(expression.operand)
+    default:
+      return expression.operands.flatMap(collectSearchFilters)
+  }
+}
+
+/**
+ * Map a positive filter onto the searchBy record understood by the Node API.
+ * Returns false when the filter can only be checked client-side.
+ */
+function applyFilterToSearchBy(
+  filter: SearchFilter,
+  searchBy: Record<string, unknown>
+): boolean {
+  switch (filter.type) {
+    case 'deleted':
+      searchBy.softDeleted = filter.value === 'true'
+      return true
+    case 'template':
+      searchBy.isTemplate = filter.value === 'true'
+      return true
+    case 'property':
+      // Set both in searchBy
+      searchBy['properties.label'] = filter.propertyKey
+      searchBy['properties.values.value'] = filter.propertyValue
+      return true
+    case 'propertyLabel':
+      searchBy['properties.label'] = filter.propertyKey
+      return true
+    case 'propertyRange':
+      // The API can narrow by label, the numeric comparison happens locally
+      searchBy['properties.label'] = filter.propertyKey
+      return false
+    case 'propertyValue':
+      searchBy['properties.values.value'] = filter.value
+      return true
+    case 'name':
+      searchBy.name = filter.value
+      return true
+    case 'createdBy':
+      searchBy.createdByUserUUID = filter.value
+      return true
+    case 'parent':
+      searchBy.parentUUID = filter.value
+      return true
+    case 'model':
+      searchBy.modelUuid = filter.value
+      return true
+    default:
+      // Date ranges and file/address presence have no searchBy field, those
+      // are matched locally against the other filters' results. Queries made
+      // only of them are refused, see getSearchQueryError
+      return false
+  }
+}
+
+/**
+ * Build a request from a list of AND-ed operands.
+ * Operands the API can't express exactly are kept as client-side conditions.
+ */
+function buildRequest(operands: SearchExpression[]): SearchRequest {
+  const searchBy: Record<string, unknown> = {}
+  const textParts: string[] = []
+  const conditions: SearchExpression[] = []
+
+  for (const operand of operands) {
+    if (operand.type !== 'filter') {
+      conditions.push(operand)
       continue
     }
 
-    // Check for parent: filter
-    if (lowerToken.startsWith('parent:')) {
-      const value = token.slice(7)
-      filters.push({
-        type: 'parent',
-        label: `Parent: ${value.slice(0, 8)}...`,
-        value,
-        raw: token,
-      })
-      searchBy.parentUUID = value
-      i++
+    const { filter } = operand
+    if (filter.type === 'text') {
+      textParts.push(filter.value.replace(/^"|"$/g, ''))
       continue
     }
 
-    // Regular text
-    if (token.trim()) {
-      textParts.push(token.replace(/^"|"$/g, ''))
-      filters.push({
-        type: 'text',
-        label: token,
-        value: token,
-        raw: token,
-      })
-    }
-    i++
+    const contribution: Record<string, unknown> = {}
+    const exact = applyFilterToSearchBy(filter, contribution)
+    // Two filters writing the same searchBy key can't both be sent
+    const conflicts = Object.keys(contribution).some((key) => key in searchBy)
+    if (!conflicts) Object.assign(searchBy, contribution)
+    if (!exact || conflicts) conditions.push(operand)
   }
 
   return {
     searchTerm: textParts.join(' '),
-    filters,
     searchBy,
+    conditions: combine('and', conditions),
+  }
+}
+
+function conjunctionOperands(expression: SearchExpression): SearchExpression[] {
+  return expression.type === 'and' ? expression.operands : [expression]
+}
+
+/**
+ * Expand an expression into disjunctive normal form (OR of ANDs).
+ * Negations are kept as opaque operands. Expanding only ever adds branches,
+ * so it stops with null as soon as there are more than maxBranches.
+ */
+function toDisjunctiveNormalForm(
+  expression: SearchExpression,
+  maxBranches: number
+): SearchExpression[][] | null {
+  switch (expression.type) {
+    case 'or': {
+      const branches: SearchExpression[][] = []
+      for (const operand of expression.operands) {
+        const operandBranches = toDisjunctiveNormalForm(operand, maxBranches)
+        if (!operandBranches) return null
+        branches.push(...operandBranches)
+        if (branches.length > maxBranches) return null
+      }
+      return branches
+    }
+    case 'and': {
+      let branches: SearchExpression[][] = [[]]
+      for (const operand of expression.operands) {
+        const operandBranches = toDisjunctiveNormalForm(operand, maxBranches)
+        if (
+          !operandBranches ||
+          branches.length * operandBranches.length > maxBranches
+        ) {
+          return null
+        }
+        branches = operandBranches.flatMap((operandBranch) =>
+          branches.map((branch) => [...branch, ...operandBranch])
+        )
+      }
+      return branches
+    }
+    default:
+      return [[expression]]
+  }
+}
+
+/**
+ * Parse a search query into structured parts
+ */
+export function parseSearchQuery(query: string): ParsedSearch {
+  // Split by spaces, but respect quoted strings
+  const tokens = tokenizeQuery(query)
+  const expression = new ExpressionParser(tokens).parse()
+  const { searchTerm, searchBy } = expression
+    ? buildRequest(conjunctionOperands(expression))
+    : { searchTerm: '', searchBy: {} }
+
+  return {
+    searchTerm,
+    filters: collectSearchFilters(expression),
+    searchBy,
+    expression,
+  }
+}
+
+/**
+ * Why the parsed search can't be run, null when it can
+ */
+export function getSearchQueryError(
+  parsed: ParsedSearch
+): SearchQueryError | null {
+  const requests = toSearchRequests(parsed)
+  if (requests.length === 0) return 'tooManyBranches'
+  const isUnbounded = (request: SearchRequest) =>
+    request.conditions !== null &&
+    !request.searchTerm &&
+    Object.keys(request.searchBy).length === 0
+  return requests.some(isUnbounded) ? 'clientFiltersOnly' : null
+}
+
+/**
+ * Split a parsed search into the API requests needed to cover it.
+ * Results of each request still have to pass its `conditions`. Empty when
+ * the search has too many branches, see `getSearchQueryError`.
+ */
+export function toSearchRequests(parsed: ParsedSearch): SearchRequest[] {
+  if (!parsed.expression) {
+    return [
+      {
+        searchTerm: parsed.searchTerm,
+        searchBy: parsed.searchBy,
+        conditions: null,
+      },
+    ]
+  }
+
+  const branches = toDisjunctiveNormalForm(
+    parsed.expression,
+    MAX_SEARCH_BRANCHES
+  )
+  return branches ? branches.map(buildRequest) : []
+}
+
+/**
+ * Whether the parsed search maps exactly onto a single searchBy request
+ */
+export function isServerSideSearch(parsed: ParsedSearch): boolean {
+  const requests = toSearchRequests(parsed)
+  return requests.length === 1 && requests[0].conditions === null
+}
+
+function normalize(value: unknown): string {
+  return String(value ?? '')
+    .trim()
+    .toLowerCase()
+}
+
+function includesText(haystack: unknown, needle: string): boolean {
+  return normalize(haystack).includes(normalize(needle))
+}
+
+function readUserUUID(user: any): string | undefined {
+  if (!user) return undefined
+  if (typeof user === 'string') return user
+  return user.userUUID || user.uuid
+}
+
+function matchesPropertyValue(
+  property: any,
+  predicate: (value: any) => boolean
+): boolean {
+  return (property.values || []).some((value: any) => predicate(value?.value))
+}
+
+function matchesRange(value: unknown, range: NumericRange): boolean {
+  if (value === null || value === undefined || value === '') return false
+  const number = Number(value)
+  if (Number.isNaN(number)) return false
+  if (range.min !== undefined) {
+    if (range.minExclusive ? number <= range.min : number < range.min) {
+      return false
+    }
+  }
+  if (range.max !== undefined) {
+    if (range.maxExclusive ? number >= range.max : number > range.max) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Start of the given date in local time (or the exact instant for timestamps)
+ */
+function parseDateStart(value: string): number {
+  const dayMatch = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (dayMatch) {
+    const [, year, month, day] = dayMatch.map(Number)
+    const date = new Date(year, month - 1, day)
+    // Reject overflowing dates like 2026-02-31
+    return date.getMonth() === month - 1 ? date.getTime() : NaN
   }
+  return Date.parse(value)
 }
 
 /**
- * Tokenize a query string, respecting quoted strings
+ * End of the given date (exclusive), so whole days are matched by `<=` and `=`
+ */
+function parseDateEnd(value: string): number {
+  const start = parseDateStart(value)
+  if (value.includes('T')) return start
+  const end = new Date(start)
+  end.setDate(end.getDate() + 1)
+  return end.getTime()
+}
+
+function subtractPeriod(now: number, amount: number, unit: DatePeriodUnit) {
+  const date = new Date(now)
+  switch (unit) {
+    case 'h':
+      date.setHours(date.getHours() - amount)
+      break
+    case 'd':
+      date.setDate(date.getDate() - amount)
+      break
+    case 'w':
+      date.setDate(date.getDate() - amount * 7)
+      break
+    case 'm':
+      date.setMonth(date.getMonth() - amount)
+      break
+    case 'y':
+      date.setFullYear(date.getFullYear() - amount)
+      break
+  }
+  return date.getTime()
+}
+
+/**
+ * Resolve a date condition into a range of epoch milliseconds
+ */
+export function resolveDateRange(
+  condition: DateCondition,
+  now: number = Date.now()
+): NumericRange {
+  const { date = '', endDate = '' } = condition
+  switch (condition.operator) {
+    case 'last':
+      return {
+        min: subtractPeriod(now, condition.amount || 0, condition.unit!),
+      }
+    case '>':
+      return { min: parseDateEnd(date), minExclusive: date.includes('T') }
+    case '>=':
+      return { min: parseDateStart(date) }
+    case '<':
+      return { max: parseDateStart(date), maxExclusive: true }
+    case '<=':
+      return date.includes('T')
+        ? { max: parseDateStart(date) }
+        : { max: parseDateEnd(date), maxExclusive: true }
+    case '=':
+      return {
+        min: parseDateStart(date),
+        max: parseDateEnd(date),
+        maxExclusive: true,
+      }
+    case 'between':
+      return {
+        min: parseDateStart(date),
+        max: parseDateEnd(endDate),
+        maxExclusive: !endDate.includes('T'),
+      }
+  }
+}
+
+function matchesDate(value: unknown, condition: DateCondition): boolean {
+  if (!value) return false
+  const time = typeof value === 'number' ? value : Date.parse(String(value))
+  return matchesRange(time, resolveDateRange(condition))
+}
+
+function hasFiles(entity: any): boolean {
+  const isActive = (file: any) => file && !file.softDeleted
+  if ((entity?.files || []).some(isActive)) return true
+  // Files attached to properties and their values count as well
+  return (entity?.properties || []).some(
+    (property: any) =>
+      !property.softDeleted &&
+      ((property.files || []).some(isActive) ||
+        (property.values || []).some((value: any) =>
+          (value?.files || []).some(isActive)
+        ))
+  )
+}
+
+function hasAddress(entity: any): boolean {
+  const address = entity?.address
+  if (!address || address.softDeleted) return false
+  return !!(address.fullAddress || address.street || address.city)
+}
+
+/**
+ * Check a single filter against an aggregate entity
+ */
+export function matchesSearchFilter(
+  entity: any,
+  filter: SearchFilter
+): boolean {
+  const properties: any[] = (entity?.properties || []).filter(
+    (property: any) => !property.softDeleted
+  )
+  const hasLabel = (property: any) =>
+    normalize(property.label || property.key) === normalize(filter.propertyKey)
+
+  switch (filter.type) {
+    case 'deleted':
+      return !!entity?.softDeleted === (filter.value === 'true')
+    case 'template':
+      return !!entity?.isTemplate === (filter.value === 'true')
+    case 'property':
+      return properties.some(
+        (property) =>
+          hasLabel(property) &&
+          matchesPropertyValue(
+            property,
+            (value) => normalize(value) === normalize(filter.propertyValue)
+          )
+      )
+    case 'propertyLabel':
+      return properties.some(hasLabel)
+    case 'propertyRange':
+      return properties.some(
+        (property) =>
+          hasLabel(property) &&
+          matchesPropertyValue(property, (value) =>
+            matchesRange(parsePropertyNumber(value), filter.range || {})
+          )
+      )
+    case 'propertyValue':
+      return properties.some((property) =>
+        matchesPropertyValue(
+          property,
+          (value) => normalize(value) === normalize(filter.value)
+        )
+      )
+    case 'name':
+      return includesText(entity?.name, filter.value)
+    case 'createdBy':
+      return (
+        readUserUUID(entity?.createdBy) === filter.value ||
+        entity?.createdByUserUUID === filter.value
+      )
+    case 'parent':
+      return (entity?.parents || []).some(
+        (parent: any) => (parent?.uuid || parent) === filter.value
+      )
+    case 'model':
+      return entity?.modelUuid === filter.value
+    case 'created':
+      return !!filter.date && matchesDate(entity?.createdAt, filter.date)
+    case 'modified':
+      // Objects that were never updated count as modified when created
+      return (
+        !!filter.date &&
+        matchesDate(entity?.lastUpdatedAt || entity?.createdAt, filter.date)
+      )
+    case 'hasFile':
+      return hasFiles(entity) === (filter.value === 'true')
+    case 'hasAddress':
+      return hasAddress(entity) === (filter.value === 'true')
+    case 'text': {
+      const text = filter.value.replace(/^"|"$/g, '')
+      return [
+        entity?.name,
+        entity?.description,
+        entity?.abbreviation,
+        entity?.uuid,
+      ].some((field) => includesText(field, text))
+    }
+    default:
+      return true
+  }
+}
+
+/**
+ * Evaluate an expression tree against an aggregate entity
+ */
+export function matchesSearchExpression(
+  entity: any,
+  expression: SearchExpression | null
+): boolean {
+  if (!expression) return true
+  switch (expression.type) {
+    case 'filter':
+      return matchesSearchFilter(entity, expression.filter)
+    case 'not':
+      return !matchesSearchExpression(entity, expression.operand)
+    case 'and':
+      return expression.operands.every((operand) =>
+        matchesSearchExpression(entity, operand)
+      )
+    case 'or':
+      return expression.operands.some((operand) =>
+        matchesSearchExpression(entity, operand)
+      )
+  }
+}
+
+/**
+ * Tokenize a query string, respecting quoted strings and parentheses
  */
 function tokenizeQuery(query: string): string[] {
   const tokens: string[] = []
   let current = ''
   let inQuotes = false
+  let depth = 0
+
+  const flush = () => {
+    if (current.trim()) {
+      tokens.push(current.trim())
+    }
+    current = ''
+  }
 
   for (let i = 0; i < query.length; i++) {
     const char = query[i]
@@ -326,23 +1186,156 @@ function tokenizeQuery(query: string): string[] {
     if (char === '"') {
       inQuotes = !inQuotes
       current += char
-    } else if (char === ' ' && !inQuotes) {
-      if (current.trim()) {
-        tokens.push(current.trim())
-      }
-      current = ''
+    } else if (inQuotes) {
+      current += char
+    } else if (char === ' ') {
+      flush()
+    } else if (char === '(' && (current === '' || current === '-')) {
+      // Opening parenthesis only counts at the start of a token
+      flush()
+      tokens.push('(')
+      depth++
+    } else if (char === ')' && depth > 0) {
+      flush()
+      tokens.push(')')
+      depth--
     } else {
       current += char
     }
   }
 
-  if (current.trim()) {
-    tokens.push(current.trim())
-  }
+  flush()
 
   return tokens
 }
 
+function stringifyFilter(filter: SearchFilter): string {
+  // Multi-word names are quoted so they don't swallow following terms
+  if (
+    filter.type === 'name' &&
+    /\s/.test(filter.value) &&
+    !filter.raw.slice(5).startsWith('"')
+  ) {
+    return `name:"${filter.value}"`
+  }
+  return filter.raw
+}
+
+/**
+ * Serialize an expression tree back into query syntax
+ */
+export function stringifySearchExpression(
+  expression: SearchExpression | null
+): string {
+  if (!expression) return ''
+  switch (expression.type) {
+    case 'filter':
+      return stringifyFilter(expression.filter)
+    case 'not': {
+      const inner = stringifySearchExpression(expression.operand)
+      return expression.operand.type === 'filter'
+        ? `${NEGATION_PREFIX}${inner}`
+        : `${NEGATION_PREFIX}(${inner})`
+    }
+    case 'and':
+      return expression.operands
+        .map((operand) => {
+          const inner = stringifySearchExpression(operand)
+          return operand.type === 'or' ? `(${inner})` : inner
+        })
+        .join(' ')
+    case 'or':
+      return expression.operands
+        .map(stringifySearchExpression)
+        .join(` ${OR_KEYWORD} `)
+  }
+}
+
+/**
+ * Replace (or with null, remove) a filter inside an expression tree
+ */
+function replaceInExpression(
+  expression: SearchExpression | null,
+  target: SearchFilter,
+  replacement: SearchExpression | null
+): SearchExpression | null {
+  if (!expression) return null
+  switch (expression.type) {
+    case 'filter':
+      return expression.filter === target ? replacement : expression
+    case 'not': {
+      const operand = replaceInExpression(
+        expression.operand,
+        target,
+        replacement
+      )
+      return operand ? negate(operand) : null
+    }
+    default:
+      return combine(
+        expression.type,
+        expression.operands
+          .map((operand) => replaceInExpression(operand, target, replacement))
+          .filter((operand): operand is SearchExpression => operand !== null)
+      )
+  }
+}
+
+/**
+ * Remove a filter from a parsed search and rebuild the query
+ */
+export function removeSearchFilter(
+  parsed: ParsedSearch,
+  filterToRemove: SearchFilter
+): string {
+  return stringifySearchExpression(
+    replaceInExpression(parsed.expression, filterToRemove, null)
+  )
+}
+
+/**
+ * Replace a filter in a parsed search with newly typed query text
+ */
+export function replaceSearchFilter(
+  parsed: ParsedSearch,
+  filterToReplace: SearchFilter,
+  query: string
+): string {
+  const replacement = new ExpressionParser(tokenizeQuery(query)).parse()
+  return stringifySearchExpression(
+    replaceInExpression(parsed.expression, filterToReplace, replacement)
+  )
+}
+
+/**
+ * Toggle the negation of a filter in a parsed search and rebuild the query
+ */
+export function toggleSearchFilterNegation(
+  parsed: ParsedSearch,
+  filter: SearchFilter
+): string {
+  const toggle = (
+    expression: SearchExpression | null
+  ): SearchExpression | null => {
+    if (!expression) return null
+    switch (expression.type) {
+      case 'filter':
+        return expression.filter === filter ? negate(expression) : expression
+      case 'not':
+        return expression.operand.type === 'filter' &&
+          expression.operand.filter === filter
+          ? expression.operand
+          : negate(toggle(expression.operand) as SearchExpression)
+      default:
+        return combine(
+          expression.type,
+          expression.operands.map(toggle) as SearchExpression[]
+        )
+    }
+  }
+  return stringifySearchExpression(toggle(parsed.expression))
+}
+
 /**
  * Get matching filter suggestions based on current input
  */
@@ -354,7 +1347,7 @@ export function getFilterSuggestions(input: string): FilterSuggestion[] {
   // Check if user is typing a filter prefix
   // Note: labelKey matching is handled in the UI component with translations
   return FILTER_SUGGESTIONS.filter((suggestion) =>
-    suggestion.prefix.startsWith(lowerInput)
+    suggestion.prefix.toLowerCase().startsWith(lowerInput)
   )
 }
 
@@ -0,0 +1,28 @@
+import { parseSearchQuery, stringifySearchExpression } from './search-parser'
+
+// Query string parameter holding the active search on /objects and /models
+export const SEARCH_QUERY_PARAM = 'q'
+
+const OBJECTS_PAGE = '/objects'
+const MODELS_PAGE = '/models'
+
+/**
+ * Normalize a query so it round-trips through parseSearchQuery unchanged
+ */
+export function normalizeSearchQuery(query: string): string {
+  return stringifySearchExpression(parseSearchQuery(query).expression)
+}
+
+/**
+ * Build a shareable URL for a search query.
+ * Searches with `template:true` open on the models page.
+ */
+export function buildSearchUrl(query: string): string {
+  const parsed = parseSearchQuery(query)
+  const page = parsed.searchBy.isTemplate === true ? MODELS_PAGE : OBJECTS_PAGE
+  const normalized = stringifySearchExpression(parsed.expression)
+  if (!normalized) return page
+
+  const params = new URLSearchParams({ [SEARCH_QUERY_PARAM]: normalized })
+  return `${page}?${params.toString()}`
+}
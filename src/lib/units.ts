@@ -0,0 +1,95 @@
+import {
+  UNIT_ALIASES,
+  UNIT_CATEGORIES,
+  UNIT_FACTORS,
+  type UnitCategory,
+} from '@/constants/units'
+
+const unitCategories = new Map<string, UnitCategory>()
+Object.entries(UNIT_CATEGORIES).forEach(([category, { units }]) =>
+  units.forEach((unit) => unitCategories.set(unit, category as UnitCategory))
+)
+
+const unitsByKey = new Map<string, string>(
+  Object.entries(UNIT_ALIASES).concat(
+    [...unitCategories.keys()].map((unit) => [normalizeUnitKey(unit), unit])
+  )
+)
+
+function normalizeUnitKey(unit: string): string {
+  return unit
+    .toLowerCase()
+    .replace(/[\s.]/g, '')
+    .replace('₂', '2')
+    .replace(/\^?([23])$/, '$1')
+    .replace('²', '2')
+    .replace('³', '3')
+}
+
+/**
+ * Resolve a free-text unit ("tonnes", "m3", "kgCO2e") to its registry unit
+ * @returns The registry unit, or null for units the registry doesn't know
+ */
+export function resolveUnit(unit: string | null | undefined): string | null {
+  if (!unit?.trim()) return null
+  return unitsByKey.get(normalizeUnitKey(unit)) ?? null
+}
+
+export function getUnitCategory(
+  unit: string | null | undefined
+): UnitCategory | null {
+  const resolved = resolveUnit(unit)
+  return resolved ? (unitCategories.get(resolved) ?? null) : null
+}
+
+/**
+ * Convert a quantity between units of the same category
+ * @returns The converted quantity, or null when the units can't be converted
+ */
+export function convertQuantity(
+  value: number,
+  fromUnit: string | null | undefined,
+  toUnit: string | null | undefined
+): number | null {
+  const from = resolveUnit(fromUnit)
+  const to = resolveUnit(toUnit)
+  if (!from || !to || unitCategories.get(from) !== unitCategories.get(to)) {
+    return null
+  }
+  return (value * UNIT_FACTORS[from]) / UNIT_FACTORS[to]
+}
+
+export interface QuantityTotal {
+  total: number
+  // Quantities left out because their unit doesn't convert to the target unit
+  excluded: number
+}
+
+/**
+ * Sum quantities in the given unit, leaving out what can't be converted
+ */
+export function sumQuantities(
+  quantities: Array<{ quantity?: number; unit?: string } | undefined>,
+  unit: string
+): QuantityTotal {
+  return quantities.reduce<QuantityTotal>(
+    (acc, item) => {
+      if (!item?.quantity) return acc
+      const converted = convertQuantity(item.quantity, item.unit, unit)
+      if (converted === null) acc.excluded += 1
+      else acc.total += converted
+      return acc
+    },
+    { total: 0, excluded: 0 }
+  )
+}
+
+/**
+ * Format a quantity with its unit, rounded to a readable precision
+ */
+export function formatQuantity(value: number, unit?: string): string {
+  const formatted = value.toLocaleString(undefined, {
+    maximumFractionDigits: Math.abs(value) >= 100 ? 0 : 3,
+  })
+  return unit ? `${formatted} ${unit}` : formatted
+}
@@ -1,2 +1,3 @@
 export * from './object-model'
+export * from './property-value'
 export * from './group'
@@ -1,5 +1,7 @@
 import * as z from 'zod'
 
+import { validatePropertyValue } from './property-value'
+
 // UUID validation helper - accepts standard UUID format or specific formats
 export const uuidSchema = z
   .string()
@@ -23,20 +25,33 @@ export const optionalUuidSchema = z
     }
   )
 
-export const propertyValueSchema = z.object({
-  uuid: optionalUuidSchema,
-  value: z.string(),
-  files: z.array(z.any()),
-  formulaData: z
-    .object({
-      formula: z.string(),
-      variableMapping: z.record(z.string(), z.any()).optional(),
-      result: z.union([z.number(), z.null()]).optional(),
-      resolvedExpression: z.string().optional(),
-      isValid: z.boolean().optional(),
-    })
-    .optional(),
-})
+export const propertyValueSchema = z
+  .object({
+    uuid: optionalUuidSchema,
+    value: z.string(),
+    valueTypeCast: z.string().optional(),
+    files: z.array(z.any()),
+    formulaData: z
+      .object({
+        formula: z.string(),
+        variableMapping: z.record(z.string(), z.any()).optional(),
+        result: z.union([z.number(), z.null()]).optional(),
+        resolvedExpression: z.string().optional(),
+        isValid: z.boolean().optional(),
+      })
+      .optional(),
+  })
+  .superRefine((propertyValue, ctx) => {
+    // Formula results are numbers, whatever the type
+    if (propertyValue.formulaData?.formula) return
+    const message = validatePropertyValue(
+      propertyValue.value,
+      propertyValue.valueTypeCast
+    )
+    if (message) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ['value'] })
+    }
+  })
 
 export const propertySchema = z.object({
   uuid: optionalUuidSchema,
@@ -45,6 +60,14 @@ export const propertySchema = z.object({
   files: z.array(z.any()),
 })
 
+// A property of a model, which describes that property on the objects
+// created from the model: its type, whether it's required and its defaults
+export const modelPropertySchema = propertySchema.extend({
+  label: z.string().optional(),
+  valueTypeCast: z.string().optional(),
+  required: z.boolean().optional(),
+})
+
 export const addressSchema = z.object({
   fullAddress: z.string().min(1, 'Full address is required'),
   components: z.object({
@@ -63,7 +86,7 @@ export const objectModelSchema = z.object({
   abbreviation: z.string().optional(),
   version: z.string().optional(),
   description: z.string().optional(),
-  properties: z.array(propertySchema),
+  properties: z.array(modelPropertySchema),
 })
 
 export const objectSchema = z.object({
@@ -89,3 +112,4 @@ export type ObjectModelFormValues = z.infer<typeof objectModelSchema>
 export type ObjectFormValues = z.infer<typeof objectSchema>
 export type PropertyValue = z.infer<typeof propertyValueSchema>
 export type Property = z.infer<typeof propertySchema>
+export type ModelProperty = z.infer<typeof modelPropertySchema>
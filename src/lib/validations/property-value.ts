@@ -0,0 +1,51 @@
+import * as z from 'zod'
+
+import { parsePropertyNumber, parseValueTypeCast } from '../property-types'
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Schema for the stored string of a value with the given valueTypeCast
+ */
+export function getPropertyValueSchema(cast?: string | null) {
+  const { type, options = [] } = parseValueTypeCast(cast)
+
+  switch (type) {
+    case 'number':
+      return z.string().refine((value) => parsePropertyNumber(value) !== null, {
+        message: 'Must be a number',
+      })
+    case 'date':
+      return z
+        .string()
+        .refine(
+          (value) => ISO_DATE.test(value) && !Number.isNaN(Date.parse(value)),
+          { message: 'Must be a date (YYYY-MM-DD)' }
+        )
+    case 'boolean':
+      return z.string().refine((value) => ['true', 'false'].includes(value), {
+        message: 'Must be true or false',
+      })
+    case 'enum':
+      return z.string().refine((value) => options.includes(value), {
+        message: `Must be one of: ${options.join(', ')}`,
+      })
+    case 'url':
+      return z.string().url('Must be a valid URL')
+    default:
+      return z.string()
+  }
+}
+
+/**
+ * Error message for a value that doesn't match its type, null when it does.
+ * Empty values are always valid, they are skipped when saving.
+ */
+export function validatePropertyValue(
+  value: string | undefined,
+  cast?: string | null
+): string | null {
+  if (!value) return null
+  const result = getPropertyValueSchema(cast).safeParse(value)
+  return result.success ? null : result.error.issues[0].message
+}
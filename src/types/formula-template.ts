@@ -0,0 +1,19 @@
+/**
+ * A formula template saved by someone on the team, listed next to the
+ * built-in templates in the formula editor
+ */
+export interface TeamFormulaTemplate {
+  id: string
+  label: string
+  formula: string
+  description?: string
+  // UUID of the user who saved it, the only one who can delete it
+  createdBy: string
+  createdAt: number
+  updatedAt: number
+}
+
+export type TeamFormulaTemplateInput = Pick<
+  TeamFormulaTemplate,
+  'label' | 'formula' | 'description'
+>
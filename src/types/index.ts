@@ -3,3 +3,7 @@ export * from './files'
 export * from './sankey'
 export * from './sankey-metadata'
 export * from './object'
+export * from './search'
+export * from './process-template'
+export * from './formula-template'
+export * from './model-schema'
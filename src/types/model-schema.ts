@@ -0,0 +1,26 @@
+/**
+ * A property that objects created from a model should have
+ */
+export interface ModelPropertySchema {
+  key: string
+  label?: string
+  // Type of the values, with the unit of a number or the allowed values of
+  // an enum (see lib/property-types)
+  valueTypeCast: string
+  required: boolean
+  // Values an object starts with when it's created from the model
+  defaultValues: string[]
+}
+
+/**
+ * Property schema of a model, stored server-side per model
+ */
+export interface ModelSchema {
+  modelUuid: string
+  properties: ModelPropertySchema[]
+  // UUID of the user who last changed the schema
+  updatedBy: string
+  updatedAt: number
+}
+
+export type ModelSchemaInput = Pick<ModelSchema, 'modelUuid' | 'properties'>
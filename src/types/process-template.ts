@@ -0,0 +1,43 @@
+import type { MaterialFlowMetadata, ProcessMetadata } from './sankey-metadata'
+
+/**
+ * Output of a process template. Its quantity is a ratio to the input
+ * quantity, so applying the template scales the outputs with the input.
+ */
+export interface ProcessTemplateOutput {
+  object: { uuid: string; name: string }
+  // Output quantity per unit of input, in the template's input unit
+  ratio: number
+  unit?: string
+  metadata?: MaterialFlowMetadata
+  customProperties?: Record<string, string>
+}
+
+/**
+ * A reusable recipe for a recurring process, stored per user
+ */
+export interface ProcessTemplate {
+  id: string
+  name: string
+  processName: string
+  processType: string
+  description?: string
+  // Process metadata without the quantities and dates of a single run
+  processMetadata: Partial<ProcessMetadata>
+  // Unit and metadata of the input the template is applied to
+  input: {
+    unit?: string
+    metadata?: MaterialFlowMetadata
+    customProperties?: Record<string, string>
+  }
+  outputs: ProcessTemplateOutput[]
+  // Emissions per unit of input, in the template's input unit
+  emissionsRatio?: number
+  createdAt: number
+  updatedAt: number
+}
+
+export type ProcessTemplateInput = Omit<
+  ProcessTemplate,
+  'id' | 'createdAt' | 'updatedAt'
+>
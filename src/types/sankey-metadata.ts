@@ -55,6 +55,16 @@ export interface ProcessMetadata {
   qualityChangeCode?: QualityChangeCode
   notes?: string // Process notes
 
+  // Period the process ran in, ISO dates (YYYY-MM-DD)
+  startDate?: string
+  endDate?: string
+
+  // Shared by all flows and versions of a process, see lib/process-versions
+  processId?: string
+  // Set when a process is edited
+  processVersion?: number
+  processUpdatedAt?: string // ISO timestamp
+
   // Legacy fields (for backward compatibility)
   isRecycling?: boolean
   isDeconstruction?: boolean
@@ -136,6 +146,12 @@ export interface EnhancedMaterialRelationship {
   quantity?: number // Legacy field - use inputMaterial.quantity instead
   unit?: string // Legacy field - use inputMaterial.unit instead
   processName?: string
+  processType?: string
+  // Identity of the process, missing for processes saved before it existed
+  processId?: string
+  // Version of the process the flow was last saved in, 1 when never edited
+  processVersion?: number
+  processUpdatedAt?: string
 
   // NEW: flow and impact metadata (derived from statement properties)
   processTypeCode?: string
@@ -149,12 +165,19 @@ export interface EnhancedMaterialRelationship {
   qualityChangeCode?: QualityChangeCode
   notes?: string
 
+  // Period the process ran in, ISO dates (YYYY-MM-DD)
+  startDate?: string
+  endDate?: string
+
   // LEGACY: custom properties from material metadata (for backward compatibility)
   customProperties?: Record<string, string>
 
   // NEW: Separated input/output material data
   inputMaterial?: MaterialData
   outputMaterial?: MaterialData
+
+  // Statement properties as stored, so an edit keeps the ones not shown above
+  properties?: { key: string; values: { value: string }[] }[]
 }
 
 /**
@@ -0,0 +1,17 @@
+/**
+ * A named search query stored per user.
+ * `query` is always the normalized output of `stringifySearchExpression`,
+ * so it parses back into the same expression tree.
+ */
+export interface SavedSearch {
+  id: string
+  name: string
+  query: string
+  pinned: boolean
+  createdAt: number
+  updatedAt: number
+}
+
+export type SavedSearchInput = Pick<SavedSearch, 'name' | 'query'> & {
+  pinned?: boolean
+}